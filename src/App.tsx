@@ -1,41 +1,66 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import "./App.css";
+import ApiErrorBanner from "./components/ApiErrorBanner";
 import Header from "./components/Header";
 import AnalysisSetup from "./components/AnalysisSetup";
 import Visualization from "./components/Visualization";
 import SettingsModal from "./components/SettingsModal";
-import { DEFAULT_RESOLVED_BASE, fetchManifest, fetchMarkers } from "./lib/api";
-import { clearStoredApiBase, getStoredApiBase, setStoredApiBase } from "./lib/storage";
-import type { Manifest, Mode } from "./lib/types";
+import { accessionFilter as buildAccessionFilter } from "./lib/accessions";
+import { DEFAULT_RESOLVED_BASE, fetchManifest, fetchMarkers, invalidateApiCache, isMockApiBase } from "./lib/api";
+import { CUSTOM_PANEL_PREFIX, customPanelName, isCustomPanel } from "./lib/genes";
+import {
+  clearStoredApiBase,
+  getStoredApiBase,
+  getStoredCustomPanels,
+  setStoredApiBase,
+  setStoredCustomPanels,
+} from "./lib/storage";
+import { DEFAULT_REFERENCE, NO_COMPARISON, type Manifest, type Mode, type VisualizationTab } from "./lib/types";
+import { readUrlState, writeUrlState, type UrlState } from "./lib/urlState";
 
 export default function App() {
-  const NO_COMPARISON = "NA";
   const storedBase = getStoredApiBase();
   const [apiBase, setApiBase] = useState(storedBase ?? DEFAULT_RESOLVED_BASE);
   const [manifest, setManifest] = useState<Manifest | null>(null);
   const [manifestStatus, setManifestStatus] = useState<"idle" | "loading" | "loaded" | "error">("idle");
   const [backendReachable, setBackendReachable] = useState<boolean | null>(null);
   const [lastLoadedAt, setLastLoadedAt] = useState<Date | null>(null);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [mode, setMode] = useState<Mode>("single");
+  const [appError, setAppError] = useState<{ title: string; error: unknown; retry: () => void } | null>(null);
+  const [pendingUrlState, setPendingUrlState] = useState<UrlState | null>(readUrlState);
   const [selectedCellTypes, setSelectedCellTypes] = useState<string[]>([]);
   const [leftDisease, setLeftDisease] = useState("");
   const [rightDisease, setRightDisease] = useState("");
+  const [referenceDisease, setReferenceDisease] = useState(DEFAULT_REFERENCE);
   const [markerPanel, setMarkerPanel] = useState("default");
   const [markerGenes, setMarkerGenes] = useState<string[]>([]);
   const [markersLoading, setMarkersLoading] = useState(false);
+  const [excludedAccessions, setExcludedAccessions] = useState<string[]>([]);
+  const [customPanels, setCustomPanels] = useState<Record<string, string[]>>(getStoredCustomPanels);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [tab, setTab] = useState<VisualizationTab>(() => pendingUrlState?.tab ?? "umap");
 
   const isLoading = manifestStatus !== "loaded";
+  const mode: Mode = rightDisease && rightDisease !== NO_COMPARISON ? "compare" : "single";
 
   const markerPanels = useMemo(() => {
     const panels = Object.keys(manifest?.marker_panels ?? {});
-    return panels.length > 0 ? panels : ["default"];
-  }, [manifest]);
+    const custom = Object.keys(customPanels).map((name) => `${CUSTOM_PANEL_PREFIX}${name}`);
+    return [...(panels.length > 0 ? panels : ["default"]), ...custom];
+  }, [manifest, customPanels]);
+
+  // Shared by every panel, so requests only refire when the exclusions actually change
+  const accessionFilter = useMemo(
+    () => buildAccessionFilter(manifest?.accessions ?? [], excludedAccessions),
+    [manifest, excludedAccessions],
+  );
 
 
   const loadMarkersForPanel = useCallback(
     async (panel: string) => {
+      if (isCustomPanel(panel)) {
+        setMarkerGenes(customPanels[customPanelName(panel)] ?? []);
+        return;
+      }
       setMarkersLoading(true);
       try {
         const response = await fetchMarkers(apiBase, panel);
@@ -44,17 +69,24 @@ export default function App() {
         }
         setMarkerGenes(response.genes);
       } catch (error) {
-        setErrorMessage(`Markers fetch failed for ${panel}: ${String((error as Error).message ?? error)}`);
+        setAppError({
+          title: `Markers fetch failed for ${panel}`,
+          error,
+          retry: () => {
+            setAppError(null);
+            void loadMarkersForPanel(panel);
+          },
+        });
       } finally {
         setMarkersLoading(false);
       }
     },
-    [apiBase],
+    [apiBase, customPanels],
   );
 
   const loadManifest = useCallback(async () => {
     setManifestStatus("loading");
-    setErrorMessage(null);
+    setAppError(null);
     setManifest(null);
     setMarkerGenes([]);
     try {
@@ -71,37 +103,97 @@ export default function App() {
         console.assert(response.diseases.includes("Healthy"), "Manifest should include Healthy disease");
       }
 
+      // A shared link wins over current state on the first load only
+      const wanted = pendingUrlState ?? {};
+      const wantedLeft = wanted.disease ?? leftDisease;
+      const wantedRight = wanted.compare ?? rightDisease;
+      const wantedReference = wanted.reference ?? referenceDisease;
+
       const nonHealthy = response.diseases.filter((item) => item !== "Healthy");
       const nextLeft = nonHealthy[0] ?? "";
-      const resolvedLeft = nonHealthy.includes(leftDisease) ? leftDisease : nextLeft;
-      const resolvedRight = nonHealthy.includes(rightDisease) ? rightDisease : NO_COMPARISON;
+      const resolvedLeft = nonHealthy.includes(wantedLeft) ? wantedLeft : nextLeft;
+      // Same rules as the pickers: no disease is compared against itself
+      const resolvedReference =
+        response.diseases.includes(wantedReference) && wantedReference !== resolvedLeft ? wantedReference : DEFAULT_REFERENCE;
+      const resolvedRight =
+        nonHealthy.includes(wantedRight) && wantedRight !== resolvedLeft && wantedRight !== resolvedReference
+          ? wantedRight
+          : NO_COMPARISON;
+      const allCellTypes = response.cell_types ?? [];
+      const resolvedCellTypes = wanted.cellTypes
+        ? wanted.cellTypes.filter((item) => allCellTypes.includes(item))
+        : allCellTypes;
+      // Unknown ids are dropped, and a link excluding every accession is ignored
+      const accessionIds = (response.accessions ?? []).map((item) => item.id);
+      const wantedExcluded = (wanted.excludedAccessions ?? excludedAccessions).filter((item) => accessionIds.includes(item));
+      const resolvedExcluded = wantedExcluded.length < accessionIds.length ? wantedExcluded : [];
 
-      setSelectedCellTypes(response.cell_types ?? []);
+      setSelectedCellTypes(resolvedCellTypes);
+      setExcludedAccessions(resolvedExcluded);
       setLeftDisease(resolvedLeft);
       setRightDisease(resolvedRight);
+      setReferenceDisease(resolvedReference);
 
       const panelKeys = Object.keys(response.marker_panels ?? {});
       const defaultPanel = panelKeys.includes("default") ? "default" : panelKeys[0] ?? "default";
-      setMarkerPanel(defaultPanel);
-      await loadMarkersForPanel(defaultPanel);
+      const wantedPanelValid =
+        wanted.panel !== undefined &&
+        (isCustomPanel(wanted.panel) ? customPanelName(wanted.panel) in customPanels : panelKeys.includes(wanted.panel));
+      const resolvedPanel = wantedPanelValid ? wanted.panel! : defaultPanel;
+      setPendingUrlState(null);
+      setMarkerPanel(resolvedPanel);
+      await loadMarkersForPanel(resolvedPanel);
     } catch (error) {
       setManifestStatus("error");
       setBackendReachable(false);
-      setErrorMessage(`Manifest fetch failed: ${String((error as Error).message ?? error)}`);
+      setAppError({ title: "Manifest fetch failed", error, retry: () => void loadManifest() });
     }
-  }, [apiBase, leftDisease, rightDisease, loadMarkersForPanel]);
+  }, [
+    apiBase,
+    pendingUrlState,
+    leftDisease,
+    rightDisease,
+    referenceDisease,
+    excludedAccessions,
+    customPanels,
+    loadMarkersForPanel,
+  ]);
 
   useEffect(() => {
     loadManifest();
   }, [apiBase]);
 
+  // An explicit reload should not be answered from the response cache
+  const handleReload = useCallback(async () => {
+    await invalidateApiCache();
+    await loadManifest();
+  }, [loadManifest]);
+
+  // Mirror the current view into the URL once the manifest has been applied
   useEffect(() => {
-    if (rightDisease && rightDisease !== NO_COMPARISON) {
-      setMode("compare");
-    } else {
-      setMode("single");
-    }
-  }, [rightDisease]);
+    if (!manifest || pendingUrlState) return;
+    const allSelected = manifest.cell_types.every((item) => selectedCellTypes.includes(item));
+    writeUrlState({
+      disease: leftDisease || undefined,
+      compare: mode === "compare" ? rightDisease : undefined,
+      reference: referenceDisease !== DEFAULT_REFERENCE ? referenceDisease : undefined,
+      cellTypes: allSelected ? undefined : selectedCellTypes,
+      excludedAccessions: excludedAccessions.length > 0 ? excludedAccessions : undefined,
+      panel: markerPanel,
+      tab,
+    });
+  }, [
+    manifest,
+    pendingUrlState,
+    leftDisease,
+    rightDisease,
+    referenceDisease,
+    mode,
+    selectedCellTypes,
+    excludedAccessions,
+    markerPanel,
+    tab,
+  ]);
 
   const handleLeftDiseaseChange = (nextDisease: string) => {
     setLeftDisease(nextDisease);
@@ -111,11 +203,34 @@ export default function App() {
     setRightDisease(nextDisease);
   };
 
+  const handleReferenceDiseaseChange = (nextReference: string) => {
+    setReferenceDisease(nextReference);
+  };
+
   const handleMarkerPanelChange = (panel: string) => {
     setMarkerPanel(panel);
     loadMarkersForPanel(panel);
   };
 
+  const handleSaveCustomPanel = (name: string, genes: string[]) => {
+    const next = { ...customPanels, [name]: genes };
+    setCustomPanels(next);
+    setStoredCustomPanels(next);
+    setMarkerPanel(`${CUSTOM_PANEL_PREFIX}${name}`);
+    setMarkerGenes(genes);
+  };
+
+  const handleDeleteCustomPanel = (name: string) => {
+    const next = { ...customPanels };
+    delete next[name];
+    setCustomPanels(next);
+    setStoredCustomPanels(next);
+    if (markerPanel === `${CUSTOM_PANEL_PREFIX}${name}`) {
+      const fallback = markerPanels.find((panel) => !isCustomPanel(panel)) ?? "default";
+      handleMarkerPanelChange(fallback);
+    }
+  };
+
   const handleSaveApiBase = (nextBase: string) => {
     setStoredApiBase(nextBase);
     setApiBase(nextBase);
@@ -134,13 +249,9 @@ export default function App() {
 
   return (
     <div className="page">
-      <Header manifest={manifest} onReload={loadManifest} onOpenSettings={() => setSettingsOpen(true)} />
+      <Header manifest={manifest} onReload={handleReload} onOpenSettings={() => setSettingsOpen(true)} />
 
-      {errorMessage ? (
-        <div className="error-banner">
-          <strong>Errors:</strong> {errorMessage}
-        </div>
-      ) : null}
+      {appError ? <ApiErrorBanner title={appError.title} error={appError.error} onRetry={appError.retry} /> : null}
 
       <div className="status-strip">
         <span className={`status-dot ${backendReachable ? "ok" : backendReachable === false ? "bad" : "idle"}`} />
@@ -149,13 +260,31 @@ export default function App() {
         </span>
         <span className="status-sep" />
         <span className="muted small">Last manifest load: {lastLoadedLabel}</span>
+        {isMockApiBase(apiBase) ? (
+          <>
+            <span className="status-sep" />
+            <span className="pill">Mock data</span>
+          </>
+        ) : null}
       </div>
 
       <div className="grid">
         <AnalysisSetup
           manifest={manifest}
+          leftDisease={leftDisease}
+          rightDisease={rightDisease}
+          referenceDisease={referenceDisease}
+          onLeftDiseaseChange={handleLeftDiseaseChange}
+          onRightDiseaseChange={handleRightDiseaseChange}
+          onReferenceDiseaseChange={handleReferenceDiseaseChange}
           selectedCellTypes={selectedCellTypes}
           onSelectedCellTypesChange={setSelectedCellTypes}
+          markerPanels={markerPanels}
+          markerPanel={markerPanel}
+          onMarkerPanelChange={handleMarkerPanelChange}
+          markerGenes={markerGenes}
+          onSaveCustomPanel={handleSaveCustomPanel}
+          onDeleteCustomPanel={handleDeleteCustomPanel}
         />
         <Visualization
           manifest={manifest}
@@ -164,12 +293,18 @@ export default function App() {
           disease={leftDisease}
           leftDisease={leftDisease}
           rightDisease={rightDisease}
+          referenceDisease={referenceDisease}
           selectedCellTypes={selectedCellTypes}
+          tab={tab}
+          onTabChange={setTab}
           markerPanels={markerPanels}
           markerPanel={markerPanel}
           onMarkerPanelChange={handleMarkerPanelChange}
           markerGenes={markerGenes}
           markersLoading={markersLoading}
+          excludedAccessions={excludedAccessions}
+          onExcludedAccessionsChange={setExcludedAccessions}
+          accessionFilter={accessionFilter}
         />
       </div>
 
@@ -1,89 +1,53 @@
-import type { Manifest } from "../lib/types";
+import { groupCellTypes } from "../lib/cellTypes";
+import { NO_COMPARISON, type Manifest } from "../lib/types";
+import GenePanelEditor from "./GenePanelEditor";
 
 type AnalysisSetupProps = {
   manifest: Manifest | null;
+  leftDisease: string;
+  rightDisease: string;
+  referenceDisease: string;
+  onLeftDiseaseChange: (next: string) => void;
+  onRightDiseaseChange: (next: string) => void;
+  onReferenceDiseaseChange: (next: string) => void;
   selectedCellTypes: string[];
   onSelectedCellTypesChange: (next: string[]) => void;
+  markerPanels: string[];
+  markerPanel: string;
+  onMarkerPanelChange: (panel: string) => void;
+  markerGenes: string[];
+  onSaveCustomPanel: (name: string, genes: string[]) => void;
+  onDeleteCustomPanel: (name: string) => void;
 };
 
 export default function AnalysisSetup({
   manifest,
+  leftDisease,
+  rightDisease,
+  referenceDisease,
+  onLeftDiseaseChange,
+  onRightDiseaseChange,
+  onReferenceDiseaseChange,
   selectedCellTypes,
   onSelectedCellTypesChange,
+  markerPanels,
+  markerPanel,
+  onMarkerPanelChange,
+  markerGenes,
+  onSaveCustomPanel,
+  onDeleteCustomPanel,
 }: AnalysisSetupProps) {
   const cellTypes = manifest?.cell_types ?? [];
+  const allDiseases = manifest?.diseases ?? [];
+  const diseases = allDiseases.filter((item) => item !== "Healthy");
 
-  const groupCellTypes = (items: string[]) => {
-    const groups: Record<string, string[]> = {
-      "T cells": [],
-      "B cells": [],
-      "NK cells": [],
-      Monocytes: [],
-      "Myeloid/DC": [],
-      Neutrophils: [],
-      Basophils: [],
-      Plasma: [],
-      Progenitors: [],
-      Other: [],
-    };
-
-    const classify = (label: string) => {
-      const name = label.toLowerCase();
-      if (
-        name.includes("t cells") ||
-        name.includes("t cell") ||
-        name.includes("cd4") ||
-        name.includes("cd8") ||
-        name.includes("tcr") ||
-        name.includes("gd t") ||
-        name.includes("gamma delta") ||
-        name.includes("th1") ||
-        name.includes("th2") ||
-        name.includes("th17") ||
-        name.includes("treg") ||
-        name.includes("t regulatory") ||
-        name.includes("regulatory t") ||
-        name.includes("t helper") ||
-        name.includes("helper t")
-      ) {
-        return "T cells";
-      }
-      if (name.includes("b cells") || name.includes("b cell")) {
-        return "B cells";
-      }
-      if (name.includes("nk") || name.includes("natural killer")) {
-        return "NK cells";
-      }
-      if (name.includes("monocyte")) {
-        return "Monocytes";
-      }
-      if (name.includes("dendritic") || name.includes("dc") || name.includes("myeloid")) {
-        return "Myeloid/DC";
-      }
-      if (name.includes("neutrophil")) {
-        return "Neutrophils";
-      }
-      if (name.includes("basophil")) {
-        return "Basophils";
-      }
-      if (name.includes("plasma") || name.includes("plasmablast")) {
-        return "Plasma";
-      }
-      if (name.includes("progenitor") || name.includes("stem")) {
-        return "Progenitors";
-      }
-      return "Other";
-    };
-
-    items.forEach((item) => {
-      const key = classify(item);
-      groups[key].push(item);
-    });
-
-    return Object.entries(groups)
-      .map(([key, values]) => [key, values.sort((a, b) => a.localeCompare(b))] as const)
-      .filter(([, values]) => values.length > 0)
-      .sort(([, a], [, b]) => b.length - a.length);
+  const mapDiseaseLabel = (value: string) => {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === "normal") return "Healthy";
+    if (normalized === "ra") return "Rheumatoid arthritis";
+    if (normalized === "sjs") return "Sjögren syndrome";
+    if (normalized === "sle") return "Systemic lupus erythematosus";
+    return value;
   };
 
   const groupedCellTypes = groupCellTypes(cellTypes);
@@ -121,6 +85,54 @@ export default function AnalysisSetup({
           <div className="h2">Analysis setup</div>
         </div>
         <div className="analysis-stack">
+          <div className="row gap disease-pickers">
+            <div className="field grow">
+              <label className="label">Disease</label>
+              <select
+                className="select"
+                value={leftDisease}
+                onChange={(event) => onLeftDiseaseChange(event.target.value)}
+                disabled={diseases.length === 0}
+              >
+                {diseases.map((item) => (
+                  <option key={item} value={item} disabled={item === referenceDisease || item === rightDisease}>
+                    {mapDiseaseLabel(item)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="field grow">
+              <label className="label">Compare against</label>
+              <select
+                className="select"
+                value={rightDisease || NO_COMPARISON}
+                onChange={(event) => onRightDiseaseChange(event.target.value)}
+                disabled={diseases.length === 0}
+              >
+                <option value={NO_COMPARISON}>None</option>
+                {diseases.map((item) => (
+                  <option key={item} value={item} disabled={item === leftDisease || item === referenceDisease}>
+                    {mapDiseaseLabel(item)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="field grow">
+              <label className="label">Reference</label>
+              <select
+                className="select"
+                value={referenceDisease}
+                onChange={(event) => onReferenceDiseaseChange(event.target.value)}
+                disabled={allDiseases.length === 0}
+              >
+                {allDiseases.map((item) => (
+                  <option key={item} value={item} disabled={item === leftDisease || item === rightDisease}>
+                    {mapDiseaseLabel(item)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
           <div className="row gap">
             <div className="field">
               <div className="row between">
@@ -184,6 +196,15 @@ export default function AnalysisSetup({
               </div>
             </div>
           </div>
+          <GenePanelEditor
+            manifest={manifest}
+            markerPanels={markerPanels}
+            markerPanel={markerPanel}
+            onMarkerPanelChange={onMarkerPanelChange}
+            markerGenes={markerGenes}
+            onSaveCustomPanel={onSaveCustomPanel}
+            onDeleteCustomPanel={onDeleteCustomPanel}
+          />
         </div>
       </div>
     </section>
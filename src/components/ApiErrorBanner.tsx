@@ -0,0 +1,42 @@
+import { ApiError, HttpError, describeError } from "../lib/errors";
+
+type ApiErrorBannerProps = {
+  title: string;
+  error: unknown;
+  onRetry?: () => void;
+};
+
+const KIND_LABELS: Record<ApiError["kind"], string> = {
+  network: "Network error",
+  timeout: "Timed out",
+  http: "Server error",
+  validation: "Unexpected response",
+  unsupported: "Not supported by this backend",
+  aborted: "Cancelled",
+};
+
+export default function ApiErrorBanner({ title, error, onRetry }: ApiErrorBannerProps) {
+  const apiError = error instanceof ApiError ? error : null;
+  const kindLabel = apiError
+    ? apiError instanceof HttpError && apiError.status < 500
+      ? "Request rejected"
+      : KIND_LABELS[apiError.kind]
+    : null;
+
+  return (
+    <div className="error-banner">
+      <div className="row between gap-sm">
+        <div>
+          <strong>{title}:</strong> {kindLabel ? `${kindLabel}. ` : ""}
+          {describeError(error)}
+        </div>
+        {onRetry ? (
+          <button type="button" className="btn btn-sm ghost" onClick={onRetry}>
+            Retry
+          </button>
+        ) : null}
+      </div>
+      {apiError?.url ? <div className="error-url mono">{apiError.url}</div> : null}
+    </div>
+  );
+}
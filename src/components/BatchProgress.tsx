@@ -0,0 +1,48 @@
+type BatchProgressProps = {
+  done: number;
+  total: number;
+  noun: string;
+  failed: Array<{ key: string; error: string }>;
+  onRetry: () => void;
+  retrying?: boolean;
+};
+
+export default function BatchProgress({ done, total, noun, failed, onRetry, retrying = false }: BatchProgressProps) {
+  if (total === 0) return null;
+  const complete = done >= total;
+  const percent = Math.round((done / total) * 100);
+
+  return (
+    <div className="batch-progress">
+      {!complete ? (
+        <div className="progress-row">
+          <div className="progress-track">
+            <div className="progress-fill" style={{ width: `${percent}%` }} />
+          </div>
+          <span className="muted small">
+            {done}/{total} {noun} loaded
+          </span>
+        </div>
+      ) : null}
+      {failed.length > 0 ? (
+        <div className="warning-banner">
+          <div className="row between">
+            <strong>
+              {failed.length} {noun} failed to load
+            </strong>
+            <button type="button" className="btn btn-sm ghost" onClick={onRetry} disabled={retrying}>
+              {retrying ? "Retrying…" : "Retry failed"}
+            </button>
+          </div>
+          <div className="chips">
+            {failed.map((item) => (
+              <span key={item.key} className="chip" title={item.error}>
+                {item.key}
+              </span>
+            ))}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { SIGNIFICANCE_LEGEND, type Comparison } from "../lib/comparisons";
+
+type ComparisonTableProps = {
+  comparisons: Comparison[];
+};
+
+// Scientific notation once p-values get small
+function formatPValue(value: number) {
+  if (!Number.isFinite(value)) return "—";
+  if (value === 0) return "< 1e-300";
+  return value < 0.001 ? value.toExponential(2) : value.toFixed(3);
+}
+
+// Pairwise tests behind the brackets and stars drawn on a violin or box plot
+export default function ComparisonTable({ comparisons }: ComparisonTableProps) {
+  if (comparisons.length === 0) return null;
+  return (
+    <>
+      <div className="muted small">
+        {SIGNIFICANCE_LEGEND}. Two-sided Mann–Whitney U on the binned per-cell values, Benjamini–Hochberg adjusted across
+        the comparisons shown; with thousands of cells small shifts reach significance, so read the effect size (Cliff&apos;s
+        δ, from −1 to 1) alongside.
+      </div>
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>Comparison</th>
+            <th>Cells</th>
+            <th>Δ mean</th>
+            <th>Cliff&apos;s δ</th>
+            <th>p</th>
+            <th>Adj. p</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {comparisons.map((row) => (
+            <tr key={`${row.a}|${row.b}`}>
+              <td>
+                {row.a} vs {row.b}
+              </td>
+              <td className="mono">
+                {row.n1.toLocaleString()} / {row.n2.toLocaleString()}
+              </td>
+              <td className="mono">{row.meanDiff.toFixed(2)}</td>
+              <td className="mono">{row.delta.toFixed(2)}</td>
+              <td className="mono">{formatPValue(row.pValue)}</td>
+              <td className="mono">{formatPValue(row.padj)}</td>
+              <td className="mono">{row.stars}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { downloadText } from "../lib/download";
+import {
+  DATA_FORMATS,
+  DATA_MIME,
+  exportMetadata,
+  formatDataExport,
+  type DataFormat,
+  type DataTableSource,
+} from "../lib/dataExport";
+
+type DataExportMenuProps = {
+  apiBase: string;
+  tissue?: string;
+  // File name without extension; the table id is appended when there are several
+  filename: string;
+  // Selection the tables were computed for, written to the metadata header
+  filters: Record<string, string>;
+  tables: DataTableSource[];
+};
+
+export default function DataExportMenu({ apiBase, tissue, filename, filters, tables }: DataExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<DataFormat>("csv");
+  const [tableId, setTableId] = useState(tables[0]?.id ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  const source = tables.find((item) => item.id === tableId) ?? tables[0];
+
+  const handleDownload = () => {
+    if (!source) return;
+    const table = source.build();
+    if (table.rows.length === 0) {
+      setError("No data to export for this selection");
+      return;
+    }
+    const name = tables.length > 1 ? `${filename}-${source.id}` : filename;
+    downloadText(`${name}.${format}`, formatDataExport(table, exportMetadata(apiBase, tissue, filters), format), DATA_MIME[format]);
+    setOpen(false);
+  };
+
+  return (
+    <div className="export-menu">
+      <button
+        type="button"
+        className="btn btn-sm ghost"
+        aria-expanded={open}
+        disabled={tables.length === 0}
+        onClick={() => {
+          setError(null);
+          setOpen(!open);
+        }}
+      >
+        Download data
+      </button>
+      {open && source ? (
+        <div className="export-menu-popover card" role="dialog" aria-label="Download data">
+          <div className="panel-controls">
+            {tables.length > 1 ? (
+              <label className="control">
+                <span>Table</span>
+                <select value={source.id} onChange={(event) => setTableId(event.target.value)}>
+                  {tables.map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+            <label className="control narrow">
+              <span>Format</span>
+              <select value={format} onChange={(event) => setFormat(event.target.value as DataFormat)}>
+                {DATA_FORMATS.map((item) => (
+                  <option key={item.value} value={item.value}>
+                    {item.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="muted small">
+            Long format, one row per observation, headed by the API base, tissue, filters and export time.
+          </div>
+          {error ? <div className="error-banner">{error}</div> : null}
+          <div className="row gap-sm">
+            <button type="button" className="btn btn-sm" onClick={handleDownload}>
+              Download {format.toUpperCase()}
+            </button>
+            <button type="button" className="btn btn-sm ghost" onClick={() => setOpen(false)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
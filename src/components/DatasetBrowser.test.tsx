@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import DatasetBrowser from "./DatasetBrowser";
+import type { Manifest } from "../lib/types";
+
+const MANIFEST: Manifest = {
+  ok: true,
+  tissue: "PBMC",
+  diseases: ["Healthy", "SLE"],
+  cell_types: ["NK"],
+  marker_panels: {},
+  accessions: [
+    { id: "GSE1", disease: "SLE", platform: "10x", donors: 4, cells: 1200, tissue: "PBMC" },
+    { id: "GSE2", disease: "SLE", platform: "Smart-seq2", donors: 2, cells: 300, tissue: "PBMC" },
+    { id: "GSE3", disease: "normal", platform: "10x", donors: 5, cells: 2000, tissue: "PBMC" },
+  ],
+};
+
+function Harness({ initial = [] }: { initial?: string[] }) {
+  const [excluded, setExcluded] = useState<string[]>(initial);
+  return (
+    <>
+      <output data-testid="excluded">{excluded.join(",")}</output>
+      <DatasetBrowser manifest={MANIFEST} excludedAccessions={excluded} onExcludedAccessionsChange={setExcluded} />
+    </>
+  );
+}
+
+const bodyRows = () =>
+  (screen.getAllByRole("row") as HTMLTableRowElement[]).filter((row) => row.querySelector('input[type="checkbox"]'));
+
+describe("DatasetBrowser", () => {
+  it("lists accessions largest first and re-sorts on header clicks", () => {
+    render(<Harness />);
+    expect(bodyRows().map((row) => row.cells[1].textContent)).toEqual(["GSE3", "GSE1", "GSE2"]);
+
+    fireEvent.click(screen.getByRole("button", { name: "Accession" }));
+    expect(bodyRows().map((row) => row.cells[1].textContent)).toEqual(["GSE1", "GSE2", "GSE3"]);
+    expect(screen.getByText(/3 of 3 accessions included — 11 donors, 3,500 cells/)).toBeTruthy();
+  });
+
+  it("sorts by platform when an accession reports none", () => {
+    const accessions = [...MANIFEST.accessions, { id: "GSE4", disease: "SLE", donors: 1, cells: 100, tissue: "PBMC" }];
+    render(
+      <DatasetBrowser
+        manifest={{ ...MANIFEST, accessions: accessions as Manifest["accessions"] }}
+        excludedAccessions={[]}
+        onExcludedAccessionsChange={() => {}}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Platform" }));
+    expect(bodyRows().map((row) => row.cells[1].textContent)).toEqual(["GSE4", "GSE1", "GSE3", "GSE2"]);
+  });
+
+  it("excludes single accessions and whole platforms, updating the totals", () => {
+    render(<Harness />);
+    fireEvent.click(screen.getByLabelText("Include GSE2"));
+    expect(screen.getByTestId("excluded").textContent).toBe("GSE2");
+    expect(screen.getByText(/2 of 3 accessions included — 9 donors, 3,200 cells/)).toBeTruthy();
+    const footer = screen.getByText(/Included total/).closest("tr")!;
+    expect(within(footer).getByText("3,200")).toBeTruthy();
+
+    fireEvent.click(screen.getByLabelText("Include platform 10x"));
+    // Everything left would be excluded, so nothing changes
+    expect(screen.getByTestId("excluded").textContent).toBe("GSE2");
+
+    fireEvent.click(screen.getByLabelText("Include platform Smart-seq2"));
+    fireEvent.click(screen.getByLabelText("Include platform 10x"));
+    expect(screen.getByTestId("excluded").textContent).toBe("GSE1,GSE3");
+    expect((screen.getByLabelText("Include GSE2") as HTMLInputElement).disabled).toBe(true);
+
+    fireEvent.click(screen.getByRole("button", { name: "Include all" }));
+    expect(screen.getByTestId("excluded").textContent).toBe("");
+  });
+});
@@ -0,0 +1,253 @@
+import { useMemo, useState } from "react";
+import { summarizeAccessions, type AccessionBreakdown } from "../lib/accessions";
+import { DEFAULT_RESOLVED_BASE } from "../lib/api";
+import type { DataTableSource } from "../lib/dataExport";
+import { getStoredApiBase } from "../lib/storage";
+import type { Accession, Manifest } from "../lib/types";
+import DataExportMenu from "./DataExportMenu";
+
+type SortKey = "id" | "disease" | "platform" | "donors" | "cells";
+
+type DatasetBrowserProps = {
+  manifest: Manifest;
+  // Accession ids left out of every view that honours the filter
+  excludedAccessions: string[];
+  onExcludedAccessionsChange: (next: string[]) => void;
+};
+
+export default function DatasetBrowser({ manifest, excludedAccessions, onExcludedAccessionsChange }: DatasetBrowserProps) {
+  const apiBase = getStoredApiBase() ?? DEFAULT_RESOLVED_BASE;
+  const [sort, setSort] = useState<{ by: SortKey; order: "asc" | "desc" }>({ by: "cells", order: "desc" });
+  const accessions = manifest.accessions;
+  const excluded = useMemo(() => new Set(excludedAccessions), [excludedAccessions]);
+
+  const mapDiseaseLabel = (value: string) => {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === "normal") return "Healthy";
+    if (normalized === "ra") return "Rheumatoid arthritis";
+    if (normalized === "sjs") return "Sjögren syndrome";
+    if (normalized === "sle") return "Systemic lupus erythematosus";
+    return value;
+  };
+
+  const included = useMemo(() => accessions.filter((item) => !excluded.has(item.id)), [accessions, excluded]);
+  const summary = useMemo(() => summarizeAccessions(included), [included]);
+  const allPlatforms = useMemo(() => summarizeAccessions(accessions).byPlatform, [accessions]);
+
+  const sorted = useMemo(() => {
+    const direction = sort.order === "asc" ? 1 : -1;
+    return [...accessions].sort((a, b) => {
+      if (sort.by === "donors" || sort.by === "cells") return direction * (a[sort.by] - b[sort.by]);
+      // The manifest validator does not require a platform, so text fields may be missing
+      return direction * (a[sort.by] ?? "").localeCompare(b[sort.by] ?? "");
+    });
+  }, [accessions, sort]);
+
+  const toggleSort = (by: SortKey) => {
+    // Names read A–Z, sizes largest first
+    const firstOrder = by === "donors" || by === "cells" ? "desc" : "asc";
+    setSort((prev) =>
+      prev.by === by ? { by, order: prev.order === "asc" ? "desc" : "asc" } : { by, order: firstOrder },
+    );
+  };
+
+  const sortIndicator = (by: SortKey) => (sort.by === by ? (sort.order === "asc" ? " ▲" : " ▼") : "");
+
+  // At least one accession always stays in, or every view would come back empty
+  const setIncluded = (ids: string[], include: boolean) => {
+    const next = include
+      ? excludedAccessions.filter((id) => !ids.includes(id))
+      : Array.from(new Set([...excludedAccessions, ...ids]));
+    if (next.length >= accessions.length) return;
+    onExcludedAccessionsChange(next);
+  };
+
+  const platformMembers = (platform: string) =>
+    accessions.filter((item) => (item.platform || "Unknown") === platform).map((item) => item.id);
+
+  const dataTables: DataTableSource[] = [
+    {
+      id: "accessions",
+      label: "Accessions",
+      build: () => ({
+        columns: ["accession", "disease", "platform", "tissue", "donors", "cells", "included"],
+        rows: sorted.map((item) => [
+          item.id,
+          mapDiseaseLabel(item.disease),
+          item.platform,
+          item.tissue,
+          item.donors,
+          item.cells,
+          excluded.has(item.id) ? "no" : "yes",
+        ]),
+      }),
+    },
+  ];
+
+  const renderBreakdown = (rows: AccessionBreakdown[], label: string, mapLabel: (value: string) => string) => (
+    <table className="data-table">
+      <thead>
+        <tr>
+          <th>{label}</th>
+          <th>Accessions</th>
+          <th>Donors</th>
+          <th>Cells</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.key}>
+            <td>{mapLabel(row.key)}</td>
+            <td className="mono">{row.accessions}</td>
+            <td className="mono">{row.donors.toLocaleString()}</td>
+            <td className="mono">{row.cells.toLocaleString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const renderRow = (item: Accession) => {
+    const isIncluded = !excluded.has(item.id);
+    return (
+      <tr key={item.id} className={isIncluded ? undefined : "muted"}>
+        <td>
+          <input
+            type="checkbox"
+            aria-label={`Include ${item.id}`}
+            checked={isIncluded}
+            disabled={isIncluded && included.length === 1}
+            onChange={(event) => setIncluded([item.id], event.target.checked)}
+          />
+        </td>
+        <td className="mono">{item.id}</td>
+        <td>{mapDiseaseLabel(item.disease)}</td>
+        <td>{item.platform}</td>
+        <td>{item.tissue}</td>
+        <td className="mono">{item.donors.toLocaleString()}</td>
+        <td className="mono">{item.cells.toLocaleString()}</td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <div>
+          <div className="h3">Datasets</div>
+          <div className="muted small">
+            {included.length} of {accessions.length} accessions included — {summary.totals.donors.toLocaleString()} donors,{" "}
+            {summary.totals.cells.toLocaleString()} cells
+          </div>
+        </div>
+        <div className="row gap-sm">
+          <DataExportMenu
+            apiBase={apiBase}
+            tissue={manifest.tissue}
+            filename="accessions"
+            filters={{ excluded: excludedAccessions.length > 0 ? excludedAccessions.join("; ") : "none" }}
+            tables={accessions.length > 0 ? dataTables : []}
+          />
+          <button
+            type="button"
+            className="btn btn-sm ghost"
+            disabled={excludedAccessions.length === 0}
+            onClick={() => onExcludedAccessionsChange([])}
+          >
+            Include all
+          </button>
+        </div>
+      </div>
+
+      <div className="muted small">
+        Excluded accessions are left out of the UMAP, composition, DE (volcano, table, concordance, overlap), violin
+        and signature score requests. Drop a study or a whole platform to check whether a finding depends on it. A
+        backend that cannot filter by accession is reported in each view rather than showing every cell.
+      </div>
+
+      <div className="composition-stats">
+        {allPlatforms.map((platform) => {
+          const members = platformMembers(platform.key);
+          const includedCount = members.filter((id) => !excluded.has(id)).length;
+          // A partly included platform is completed first, like the cell-type groups
+          return (
+            <label key={platform.key} className="composition-stat">
+              <span className="composition-stat-label">
+                <input
+                  type="checkbox"
+                  aria-label={`Include platform ${platform.key}`}
+                  checked={includedCount === members.length}
+                  ref={(el) => {
+                    if (el) el.indeterminate = includedCount > 0 && includedCount < members.length;
+                  }}
+                  onChange={() => setIncluded(members, includedCount < members.length)}
+                />{" "}
+                {platform.key}
+              </span>
+              <span className="composition-stat-value">
+                {includedCount}/{members.length} accessions · {platform.cells.toLocaleString()} cells
+              </span>
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="panel-grid" style={{ marginTop: 16 }}>
+        <div>
+          <div className="label">Included, by disease</div>
+          {renderBreakdown(summary.byDisease, "Disease", mapDiseaseLabel)}
+        </div>
+        <div>
+          <div className="label">Included, by platform</div>
+          {renderBreakdown(summary.byPlatform, "Platform", (value) => value)}
+        </div>
+      </div>
+
+      {accessions.length === 0 ? (
+        <div className="muted small">The manifest lists no accessions</div>
+      ) : (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Include</th>
+              <th>
+                <button type="button" className="th-sort" onClick={() => toggleSort("id")}>
+                  Accession{sortIndicator("id")}
+                </button>
+              </th>
+              <th>
+                <button type="button" className="th-sort" onClick={() => toggleSort("disease")}>
+                  Disease{sortIndicator("disease")}
+                </button>
+              </th>
+              <th>
+                <button type="button" className="th-sort" onClick={() => toggleSort("platform")}>
+                  Platform{sortIndicator("platform")}
+                </button>
+              </th>
+              <th>Tissue</th>
+              <th>
+                <button type="button" className="th-sort" onClick={() => toggleSort("donors")}>
+                  Donors{sortIndicator("donors")}
+                </button>
+              </th>
+              <th>
+                <button type="button" className="th-sort" onClick={() => toggleSort("cells")}>
+                  Cells{sortIndicator("cells")}
+                </button>
+              </th>
+            </tr>
+          </thead>
+          <tbody>{sorted.map(renderRow)}</tbody>
+          <tfoot>
+            <tr>
+              <th colSpan={5}>Included total ({summary.totals.accessions})</th>
+              <th className="mono">{summary.totals.donors.toLocaleString()}</th>
+              <th className="mono">{summary.totals.cells.toLocaleString()}</th>
+            </tr>
+          </tfoot>
+        </table>
+      )}
+    </div>
+  );
+}
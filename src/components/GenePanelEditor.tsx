@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useState } from "react";
+import type { Manifest } from "../lib/types";
+import { DEFAULT_RESOLVED_BASE, fetchDotplot, fetchGenes } from "../lib/api";
+import { getStoredApiBase } from "../lib/storage";
+import { customPanelName, isCustomPanel, parseGeneList, resolveGenes, type GeneResolution } from "../lib/genes";
+
+type GenePanelEditorProps = {
+  manifest: Manifest | null;
+  markerPanels: string[];
+  markerPanel: string;
+  onMarkerPanelChange: (panel: string) => void;
+  markerGenes: string[];
+  onSaveCustomPanel: (name: string, genes: string[]) => void;
+  onDeleteCustomPanel: (name: string) => void;
+};
+
+const MAX_SUGGESTIONS = 20;
+
+export default function GenePanelEditor({
+  manifest,
+  markerPanels,
+  markerPanel,
+  onMarkerPanelChange,
+  markerGenes,
+  onSaveCustomPanel,
+  onDeleteCustomPanel,
+}: GenePanelEditorProps) {
+  const apiBase = getStoredApiBase() ?? DEFAULT_RESOLVED_BASE;
+  const [universe, setUniverse] = useState<string[]>([]);
+  const [aliases, setAliases] = useState<Record<string, string>>({});
+  const [draft, setDraft] = useState<string[]>([]);
+  const [query, setQuery] = useState("");
+  const [pasteText, setPasteText] = useState("");
+  const [lastPaste, setLastPaste] = useState<GeneResolution | null>(null);
+  const [unknown, setUnknown] = useState<string[]>([]);
+  const [panelName, setPanelName] = useState("");
+
+  // Fall back to the union of marker panels when the backend has no gene index
+  const fallbackUniverse = useMemo(
+    () => Array.from(new Set(Object.values(manifest?.marker_panels ?? {}).flat())).sort(),
+    [manifest],
+  );
+
+  useEffect(() => {
+    let active = true;
+    const controller = new AbortController();
+    fetchGenes(apiBase, { signal: controller.signal })
+      .then((res) => {
+        if (!active || !res.ok) return;
+        setUniverse(res.genes);
+        setAliases(res.aliases ?? {});
+      })
+      .catch(() => {
+        // keep the marker-panel fallback
+      });
+    return () => {
+      active = false;
+      controller.abort();
+    };
+  }, [apiBase]);
+
+  const geneUniverse = universe.length > 0 ? universe : fallbackUniverse;
+  const universeSet = useMemo(() => new Set(universe), [universe]);
+
+  const suggestions = useMemo(() => {
+    const needle = query.trim().toUpperCase();
+    if (!needle) return [];
+    const prefix = geneUniverse.filter((gene) => gene.toUpperCase().startsWith(needle));
+    const contains = geneUniverse.filter((gene) => !gene.toUpperCase().startsWith(needle) && gene.toUpperCase().includes(needle));
+    return [...prefix, ...contains].slice(0, MAX_SUGGESTIONS);
+  }, [query, geneUniverse]);
+
+  // Let the dotplot endpoint flag symbols the atlas does not know
+  useEffect(() => {
+    if (draft.length === 0) return;
+    let active = true;
+    const controller = new AbortController();
+    const timeoutId = window.setTimeout(() => {
+      fetchDotplot(apiBase, draft, "cell_type", { signal: controller.signal })
+        .then((res) => {
+          if (!active) return;
+          setUnknown(res.unknown ?? []);
+        })
+        .catch(() => {
+          if (active) setUnknown([]);
+        });
+    }, 400);
+    return () => {
+      active = false;
+      controller.abort();
+      window.clearTimeout(timeoutId);
+    };
+  }, [apiBase, draft]);
+
+  const addGenes = (genes: string[]) => {
+    setDraft((prev) => Array.from(new Set([...prev, ...genes])));
+  };
+
+  const handleAddQuery = (gene: string) => {
+    const result = resolveGenes(parseGeneList(gene), universeSet, aliases);
+    addGenes(result.resolved.length > 0 ? result.resolved : parseGeneList(gene));
+    setQuery("");
+  };
+
+  const handlePaste = () => {
+    const result = resolveGenes(parseGeneList(pasteText), universeSet, aliases);
+    addGenes(result.resolved);
+    setLastPaste(result);
+    setPasteText("");
+  };
+
+  const handleRemove = (gene: string) => {
+    setDraft((prev) => prev.filter((item) => item !== gene));
+  };
+
+  const handleSave = () => {
+    const name = panelName.trim();
+    if (!name || draft.length === 0) return;
+    onSaveCustomPanel(name, draft);
+  };
+
+  const unknownSet = new Set(unknown.filter((gene) => draft.includes(gene)));
+
+  return (
+    <div className="field">
+      <div className="row between">
+        <label className="label">Marker panel</label>
+        {isCustomPanel(markerPanel) ? (
+          <button
+            type="button"
+            className="btn btn-sm ghost"
+            onClick={() => onDeleteCustomPanel(customPanelName(markerPanel))}
+          >
+            Delete panel
+          </button>
+        ) : null}
+      </div>
+      <select className="select" value={markerPanel} onChange={(event) => onMarkerPanelChange(event.target.value)}>
+        {markerPanels.map((panel) => (
+          <option key={panel} value={panel}>
+            {isCustomPanel(panel) ? `${customPanelName(panel)} (custom)` : panel}
+          </option>
+        ))}
+      </select>
+
+      <div className="row between top">
+        <label className="label">Custom gene list</label>
+        <div className="row gap-sm">
+          <button
+            type="button"
+            className="btn btn-sm ghost"
+            onClick={() => setDraft(markerGenes)}
+            disabled={markerGenes.length === 0}
+          >
+            Start from current panel
+          </button>
+          <button type="button" className="btn btn-sm ghost" onClick={() => setDraft([])} disabled={draft.length === 0}>
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div className="gene-select-container">
+        <div className="gene-tags">
+          {draft.map((gene) => (
+            <span key={gene} className={`gene-tag ${unknownSet.has(gene) ? "unknown" : ""}`} title={unknownSet.has(gene) ? "Not found in atlas" : undefined}>
+              {gene}
+              <button type="button" className="gene-tag-remove" onClick={() => handleRemove(gene)} aria-label={`Remove ${gene}`}>
+                ×
+              </button>
+            </span>
+          ))}
+          <input
+            className="gene-search-input"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" && query.trim()) {
+                event.preventDefault();
+                handleAddQuery(suggestions[0] ?? query);
+              }
+            }}
+            placeholder={draft.length === 0 ? "Search genes…" : ""}
+          />
+        </div>
+        {suggestions.length > 0 ? (
+          <div className="gene-dropdown">
+            {suggestions.map((gene) => (
+              <div
+                key={gene}
+                className={`gene-dropdown-item ${draft.includes(gene) ? "selected" : ""}`}
+                onMouseDown={(event) => {
+                  event.preventDefault();
+                  handleAddQuery(gene);
+                }}
+              >
+                <span className="gene-checkbox">{draft.includes(gene) ? "✓" : ""}</span>
+                {gene}
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </div>
+
+      {unknownSet.size > 0 ? (
+        <div className="warning-banner">
+          <strong>Not found in atlas:</strong> {Array.from(unknownSet).join(", ")}
+        </div>
+      ) : null}
+
+      <textarea
+        className="input"
+        rows={3}
+        value={pasteText}
+        onChange={(event) => setPasteText(event.target.value)}
+        placeholder="Paste genes separated by commas or new lines"
+      />
+      <div className="row gap-sm">
+        <button type="button" className="btn btn-sm ghost" onClick={handlePaste} disabled={pasteText.trim().length === 0}>
+          Add pasted genes
+        </button>
+      </div>
+      {lastPaste && (lastPaste.aliased.length > 0 || lastPaste.unresolved.length > 0) ? (
+        <div className="muted small">
+          {lastPaste.aliased.length > 0
+            ? `Resolved aliases: ${lastPaste.aliased.map((item) => `${item.input} → ${item.symbol}`).join(", ")}. `
+            : ""}
+          {lastPaste.unresolved.length > 0 ? `Skipped unknown symbols: ${lastPaste.unresolved.join(", ")}.` : ""}
+        </div>
+      ) : null}
+
+      <div className="row gap-sm">
+        <input
+          className="input"
+          value={panelName}
+          onChange={(event) => setPanelName(event.target.value)}
+          placeholder="Panel name"
+        />
+        <button
+          type="button"
+          className="btn btn-sm"
+          onClick={handleSave}
+          disabled={panelName.trim().length === 0 || draft.length === 0}
+        >
+          Save panel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { useEffect, useState } from "react";
 import type { Manifest } from "../lib/types";
 
 type HeaderProps = {
@@ -7,12 +8,32 @@ type HeaderProps = {
 };
 
 export default function Header({ manifest, onReload, onOpenSettings }: HeaderProps) {
+  const [copyStatus, setCopyStatus] = useState<"idle" | "copied" | "failed">("idle");
+
+  useEffect(() => {
+    if (copyStatus === "idle") return;
+    const timeoutId = window.setTimeout(() => setCopyStatus("idle"), 2000);
+    return () => window.clearTimeout(timeoutId);
+  }, [copyStatus]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopyStatus("copied");
+    } catch {
+      setCopyStatus("failed");
+    }
+  };
+
   return (
     <header className="header">
       <div>
         <div className="title">Autoimmune Atlas</div>
       </div>
       <div className="header-actions">
+        <button className="btn ghost" onClick={handleCopyLink} disabled={!manifest}>
+          {copyStatus === "copied" ? "Link copied" : copyStatus === "failed" ? "Copy failed" : "Copy link"}
+        </button>
         <button className="btn ghost" onClick={onReload}>Reload manifest</button>
         <button className="btn" onClick={onOpenSettings}>Settings</button>
       </div>
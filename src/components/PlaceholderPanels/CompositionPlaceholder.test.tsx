@@ -0,0 +1,200 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import CompositionPlaceholder from "./CompositionPlaceholder";
+import { captureDownloads, lastTraces, serveJson, serveMockAtlas, stubPlotly, type PlotlyStub } from "../../test/utils";
+
+describe("CompositionPlaceholder", () => {
+  let plotly: PlotlyStub;
+
+  beforeEach(() => {
+    plotly = stubPlotly();
+  });
+
+  it("stacks one bar trace per cell type with per-disease percentages", async () => {
+    serveMockAtlas();
+    render(<CompositionPlaceholder selectedCellTypes={[]} />);
+
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+    const traces = lastTraces(plotly);
+    expect(traces).toHaveLength(13);
+    expect(traces[0].x).toEqual(["Healthy", "Rheumatoid arthritis", "Systemic lupus erythematosus", "Sjögren syndrome"]);
+
+    // Stacks add up to 100% in every disease
+    const sums = (traces[0].x as string[]).map((_, idx) =>
+      traces.reduce((sum, trace) => sum + (trace.y as number[])[idx], 0),
+    );
+    sums.forEach((sum) => expect(sum).toBeCloseTo(100));
+    expect(screen.getByText("Healthy")).toBeTruthy();
+  });
+
+  it("keeps percentages relative to all cells when filtering", async () => {
+    serveJson({
+      ok: true,
+      groups: ["normal", "Healthy", "SLE"],
+      cell_types: ["NK", "pDC"],
+      counts: [
+        [30, 10],
+        [50, 10],
+        [20, 20],
+      ],
+    });
+    render(<CompositionPlaceholder selectedCellTypes={["pDC"]} />);
+
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+    const traces = lastTraces(plotly);
+    expect(traces.map((trace) => trace.name)).toEqual(["pDC"]);
+    expect(traces[0].x).toEqual(["Healthy", "Systemic lupus erythematosus"]);
+    expect(traces[0].y).toEqual([20, 50]);
+    expect(screen.getByText("100 cells")).toBeTruthy();
+    expect(screen.getByText(/Filtered: 1 cell types/)).toBeTruthy();
+  });
+
+  it("downloads counts and percentages as a tidy table", async () => {
+    serveJson({
+      ok: true,
+      groups: ["normal", "SLE"],
+      cell_types: ["NK", "pDC"],
+      counts: [
+        [30, 10],
+        [20, 20],
+      ],
+    });
+    const downloads = captureDownloads();
+    render(<CompositionPlaceholder selectedCellTypes={["pDC"]} tissue="PBMC" />);
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+
+    fireEvent.click(screen.getByRole("button", { name: "Download data" }));
+    fireEvent.change(screen.getByLabelText("Format"), { target: { value: "tsv" } });
+    fireEvent.click(screen.getByRole("button", { name: "Download TSV" }));
+
+    expect(downloads).toHaveLength(1);
+    expect(downloads[0].filename).toBe("composition.tsv");
+    const lines = (await downloads[0].text()).trim().split("\n");
+    expect(lines.slice(0, 2)).toEqual(["# api_base: https://atlas.test", "# tissue: PBMC"]);
+    expect(lines).toContain("# filter.cell_types: pDC");
+    expect(lines.slice(-3)).toEqual([
+      "disease\tcell_type\tcount\tdisease_total\tpercent",
+      "Healthy\tpDC\t10\t40\t25",
+      "Systemic lupus erythematosus\tpDC\t20\t40\t50",
+    ]);
+  });
+
+  it("compares proportions against Healthy in the differential abundance view", async () => {
+    serveJson({
+      ok: true,
+      groups: ["normal", "SLE", "RA"],
+      cell_types: ["pDC", "NK"],
+      counts: [
+        [60, 940],
+        [120, 880],
+        [60, 940],
+      ],
+    });
+    render(<CompositionPlaceholder selectedCellTypes={[]} />);
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+
+    fireEvent.change(screen.getByLabelText("View"), { target: { value: "abundance" } });
+    expect((screen.getByLabelText("Compare") as HTMLSelectElement).value).toBe("Systemic lupus erythematosus");
+    expect((screen.getByLabelText("Against") as HTMLSelectElement).value).toBe("Healthy");
+
+    await waitFor(() => expect(lastTraces(plotly)[1]?.name).toBe("Expanded in Systemic lupus erythematosus"));
+    const [stems, up, down] = lastTraces(plotly);
+    expect(stems.y).toEqual(["NK", "NK", null, "pDC", "pDC", null]);
+    expect(up.y).toEqual(["pDC"]);
+    expect(down.y).toEqual(["NK"]);
+
+    // Sorted by padj, smallest first; both cell types carry the same evidence here
+    const rows = screen.getAllByRole("row").slice(1);
+    expect(rows).toHaveLength(2);
+    expect(rows[0].textContent).toContain("12.00% (120)");
+
+    fireEvent.change(screen.getByLabelText("Compare"), { target: { value: "Rheumatoid arthritis" } });
+    // Identical composition: nothing significant
+    await waitFor(() => expect(lastTraces(plotly)[3]?.y).toEqual(["pDC", "NK"]));
+  });
+
+  it("groups by accession and spreads per-sample proportions over disease boxes", async () => {
+    const fetchMock = serveMockAtlas();
+    render(<CompositionPlaceholder selectedCellTypes={["pDC"]} />);
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+
+    fireEvent.change(screen.getByLabelText("Group by"), { target: { value: "accession" } });
+    await waitFor(() => expect(Array.isArray((lastTraces(plotly)[0].x as unknown[])[0])).toBe(true));
+    expect(String(fetchMock.mock.calls.at(-1)?.[0])).toContain("group_by=accession");
+    // Two-level axis: diseases over accessions, each accession stacking to its own share
+    const [diseases, ids] = lastTraces(plotly)[0].x as [string[], string[]];
+    expect(diseases).toHaveLength(ids.length);
+    expect(diseases[0]).toBe("Healthy");
+    expect(new Set(ids).size).toBe(ids.length);
+
+    fireEvent.change(screen.getByLabelText("View"), { target: { value: "samples" } });
+    await waitFor(() => expect(lastTraces(plotly)[0]?.type).toBe("box"));
+    const boxes = lastTraces(plotly);
+    expect(boxes.map((trace) => trace.name)).toEqual(["Healthy", "Rheumatoid arthritis", "Systemic lupus erythematosus", "Sjögren syndrome"]);
+    expect(boxes.every((trace) => trace.boxpoints === "all")).toBe(true);
+    // One point per accession, since only pDC is selected
+    expect(boxes.reduce((sum, trace) => sum + (trace.y as number[]).length, 0)).toBe(ids.length);
+
+    // Pooling again leaves the per-sample view
+    fireEvent.change(screen.getByLabelText("Group by"), { target: { value: "disease" } });
+    expect((screen.getByLabelText("View") as HTMLSelectElement).value).toBe("stacked");
+  });
+
+  it("takes the disease of each accession from the manifest and draws a heatmap", async () => {
+    serveJson({
+      ok: true,
+      group_by: "accession",
+      groups: ["GSE2", "GSE1"],
+      cell_types: ["NK", "pDC"],
+      counts: [
+        [30, 10],
+        [45, 5],
+      ],
+    });
+    const accessions = [
+      { id: "GSE1", disease: "normal", platform: "10x", donors: 2, cells: 50, tissue: "PBMC" },
+      { id: "GSE2", disease: "SLE", platform: "10x", donors: 3, cells: 40, tissue: "PBMC" },
+    ];
+    const downloads = captureDownloads();
+    render(<CompositionPlaceholder selectedCellTypes={[]} accessions={accessions} />);
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+    expect(lastTraces(plotly)[0].x).toEqual([
+      ["Systemic lupus erythematosus", "Healthy"],
+      ["GSE2", "GSE1"],
+    ]);
+
+    fireEvent.change(screen.getByLabelText("View"), { target: { value: "heatmap" } });
+    await waitFor(() => expect(lastTraces(plotly)[0]?.type).toBe("heatmap"));
+    const [heatmap] = lastTraces(plotly);
+    expect(heatmap.y).toEqual(["NK", "pDC"]);
+    expect(heatmap.z).toEqual([
+      [75, 90],
+      [25, 10],
+    ]);
+
+    fireEvent.click(screen.getByRole("button", { name: "Download data" }));
+    fireEvent.change(screen.getByLabelText("Format"), { target: { value: "tsv" } });
+    fireEvent.click(screen.getByRole("button", { name: "Download TSV" }));
+    const lines = (await downloads[0].text()).trim().split("\n");
+    expect(lines).toContain("accession\tdisease\tcell_type\tcount\taccession_total\tpercent");
+    expect(lines).toContain("GSE1\tHealthy\tpDC\t5\t50\t10");
+  });
+
+  it("only counts cells from the included accessions", async () => {
+    const fetchMock = serveMockAtlas();
+    render(<CompositionPlaceholder selectedCellTypes={[]} accessionFilter={["MOCK0001", "MOCK0005"]} />);
+
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+    expect(String(fetchMock.mock.calls[0][0])).toContain("accessions=MOCK0001%2CMOCK0005");
+    // Diseases left without cells drop out
+    expect(lastTraces(plotly)[0].x).toEqual(["Healthy", "Systemic lupus erythematosus"]);
+  });
+
+  it("shows the backend error and suggestions", async () => {
+    serveJson({ ok: false, error: "composition not computed", available: ["disease"] });
+    render(<CompositionPlaceholder selectedCellTypes={[]} />);
+
+    expect(await screen.findByText(/composition not computed; try: disease/)).toBeTruthy();
+    expect(plotly.react).not.toHaveBeenCalled();
+  });
+});
@@ -1,7 +1,24 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import type { CompositionResponse } from "../../lib/types";
+import type { Accession, CompositionResponse } from "../../lib/types";
 import { DEFAULT_RESOLVED_BASE, fetchComposition } from "../../lib/api";
+import {
+  ABUNDANCE_TESTS,
+  COMPOSITION_GROUP_BY,
+  UNKNOWN_DISEASE,
+  compositionGroupDiseases,
+  compositionPercent,
+  differentialAbundance,
+  mergeCompositionGroups,
+  type AbundanceRow,
+  type AbundanceTest,
+  type CompositionGroupBy,
+} from "../../lib/composition";
+import type { DataTable, DataTableSource } from "../../lib/dataExport";
+import { fileSlug } from "../../lib/download";
 import { getStoredApiBase } from "../../lib/storage";
+import DataExportMenu from "../DataExportMenu";
+import PlotExportMenu from "../PlotExportMenu";
+import { describeApiError } from "../../lib/validate";
 
 // Generate color palette with distinct colors
 function generateColorPalette(count: number): string[] {
@@ -16,15 +33,63 @@ function generateColorPalette(count: number): string[] {
   return colors;
 }
 
+// Scientific notation once p-values get small
+function formatPValue(value: number) {
+  if (!Number.isFinite(value)) return "—";
+  if (value === 0) return "< 1e-300";
+  return value < 0.001 ? value.toExponential(2) : value.toFixed(3);
+}
+
+type View = "stacked" | "grouped" | "heatmap" | "samples" | "abundance";
+
+const VIEWS: Array<{ value: View; label: string }> = [
+  { value: "stacked", label: "Stacked bars" },
+  { value: "grouped", label: "Grouped bars" },
+  { value: "heatmap", label: "Heatmap" },
+  { value: "samples", label: "Per-sample spread" },
+  { value: "abundance", label: "Differential abundance" },
+];
+
+// One bar, heatmap column or box point: a disease, or a single accession or donor
+type CompositionColumn = {
+  id: string;
+  disease: string;
+  counts: number[];
+  total: number;
+};
+
+type AbundanceSortKey = "cellType" | "proportion" | "refProportion" | "log2FoldChange" | "pValue" | "padj";
+
+const ABUNDANCE_PADJ = 0.05;
+const HEALTHY = "Healthy";
+
 type CompositionPlaceholderProps = {
   selectedCellTypes: string[];
+  tissue?: string;
+  // Manifest accessions, for the disease of each accession when the backend does not send it
+  accessions?: Accession[];
+  // Accessions the cells are restricted to; null for all
+  accessionFilter?: string[] | null;
 };
 
-export default function CompositionPlaceholder({ selectedCellTypes }: CompositionPlaceholderProps) {
+export default function CompositionPlaceholder({
+  selectedCellTypes,
+  tissue,
+  accessions,
+  accessionFilter,
+}: CompositionPlaceholderProps) {
   const apiBase = getStoredApiBase() ?? DEFAULT_RESOLVED_BASE;
   const [response, setResponse] = useState<CompositionResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   const plotRef = useRef<HTMLDivElement | null>(null);
+  const abundancePlotRef = useRef<HTMLDivElement | null>(null);
+  const [view, setView] = useState<View>("stacked");
+  const [groupBy, setGroupBy] = useState<CompositionGroupBy>("disease");
+  // Empty until the user picks; the defaults depend on which groups the backend returns
+  const [groupChoice, setGroupChoice] = useState("");
+  const [referenceChoice, setReferenceChoice] = useState("");
+  const [abundanceTest, setAbundanceTest] = useState<AbundanceTest>("chisq");
+  const [sort, setSort] = useState<{ by: AbundanceSortKey; order: "asc" | "desc" }>({ by: "padj", order: "asc" });
 
   const mapDiseaseLabel = (value: string) => {
     const normalized = value.trim().toLowerCase();
@@ -37,12 +102,13 @@ export default function CompositionPlaceholder({ selectedCellTypes }: Compositio
 
   useEffect(() => {
     let active = true;
+    const controller = new AbortController();
     setError(null);
-    fetchComposition(apiBase, "disease")
+    fetchComposition(apiBase, groupBy, accessionFilter, { signal: controller.signal })
       .then((res) => {
         if (!active) return;
         if (!res.ok) {
-          setError(res.error ?? "Unable to load composition");
+          setError(describeApiError(res, "Unable to load composition"));
           setResponse(null);
           return;
         }
@@ -55,117 +121,229 @@ export default function CompositionPlaceholder({ selectedCellTypes }: Compositio
       });
     return () => {
       active = false;
+      controller.abort();
     };
-  }, [apiBase]);
+  }, [apiBase, groupBy, accessionFilter]);
 
-  const { traces, totals } = useMemo(() => {
-    if (!response?.ok || !response.groups || !response.cell_types || !response.counts) {
-      return { traces: [], totals: {} };
+  // `merged` pools every sample into its disease; `columns` keeps accessions or donors apart,
+  // ordered by disease so each disease's samples sit together
+  const { merged, columns, sampleBy } = useMemo(() => {
+    if (!response) return { merged: null, columns: [], sampleBy: null };
+    const groupLabels = response.groups ?? [];
+    const diseases = compositionGroupDiseases(response, accessions).map(mapDiseaseLabel);
+    const diseaseOf = new Map(groupLabels.map((group, idx) => [group, diseases[idx]]));
+    const pooled = mergeCompositionGroups(response, (group) => diseaseOf.get(group) ?? UNKNOWN_DISEASE);
+    if (!pooled) return { merged: null, columns: [], sampleBy: null };
+    if ((response.group_by ?? "disease") === "disease") {
+      return {
+        merged: pooled,
+        columns: pooled.groups.map((disease, idx) => ({
+          id: disease,
+          disease,
+          counts: pooled.counts[idx],
+          total: pooled.totals[disease],
+        })),
+        sampleBy: null,
+      };
     }
-    if (response.counts.length === 0 || response.groups.length === 0) {
-      return { traces: [], totals: {} };
+    const samples = mergeCompositionGroups(response);
+    if (!samples) return { merged: pooled, columns: [], sampleBy: null };
+    const order = (disease: string) => pooled.groups.indexOf(disease);
+    const sampleColumns: CompositionColumn[] = samples.groups
+      .map((id, idx) => ({
+        id,
+        disease: diseaseOf.get(id) ?? UNKNOWN_DISEASE,
+        counts: samples.counts[idx],
+        total: samples.totals[id],
+      }))
+      .sort((a, b) => order(a.disease) - order(b.disease));
+    return { merged: pooled, columns: sampleColumns, sampleBy: response.group_by ?? null };
+  }, [response, accessions]);
+
+  const { traces, totals, table } = useMemo(() => {
+    if (!merged || columns.length === 0 || view === "abundance") {
+      return { traces: [], totals: merged?.totals ?? {}, table: { columns: [], rows: [] } };
     }
 
     // Filter cell types based on selection (if any selected)
     const filterCellTypes = selectedCellTypes.length > 0;
     const selectedSet = new Set(selectedCellTypes);
 
-    // Map and merge disease groups
-    const mappedGroups = response.groups.map((group) => mapDiseaseLabel(group));
-    const mergedIndex: Record<string, number> = {};
-    const mergedGroups: string[] = [];
-    mappedGroups.forEach((label) => {
-      if (mergedIndex[label] === undefined) {
-        mergedIndex[label] = mergedGroups.length;
-        mergedGroups.push(label);
-      }
-    });
-
-    // Merge counts by disease
-    const mergedCounts = mergedGroups.map(() => Array(response.cell_types!.length).fill(0));
-    response.counts.forEach((row, rowIdx) => {
-      if (!row || !Array.isArray(row)) return;
-      const target = mergedIndex[mappedGroups[rowIdx]];
-      if (target === undefined) return;
-      row.forEach((value, cellIdx) => {
-        if (mergedCounts[target]) {
-          mergedCounts[target][cellIdx] += value ?? 0;
-        }
-      });
-    });
-
     // Use subpopulations (actual cell types) instead of aggregated populations
     // Filter cell types based on selection
-    const cellTypesToShow = response.cell_types.filter((cellType) => {
+    const cellTypesToShow = merged.cellTypes.filter((cellType) => {
       if (!filterCellTypes) return true;
       return selectedSet.has(cellType);
     });
 
-    // Calculate totals per disease (ALWAYS use total of ALL cell types, not just selected)
-    const diseaseTotals: Record<string, number> = {};
-    mergedGroups.forEach((disease, diseaseIdx) => {
-      let total = 0;
-      response.cell_types.forEach((cellType, cellIdx) => {
-        total += mergedCounts[diseaseIdx][cellIdx];
-      });
-      diseaseTotals[disease] = total;
-    });
-
-    // Generate unique colors for each subpopulation
-    const colorPalette = generateColorPalette(cellTypesToShow.length);
-
-    // Build traces with percentages for each cell type (subpopulation)
     // Percentage is ALWAYS relative to total of ALL cell types
-    const builtTraces = cellTypesToShow.map((cellType, idx) => {
-        const cellIdx = response.cell_types.indexOf(cellType);
-        const yValues = mergedGroups.map((disease, diseaseIdx) => {
-          const count = mergedCounts[diseaseIdx][cellIdx];
-          const total = diseaseTotals[disease] || 1;
-          return (count / total) * 100;
-        });
-
-        const hoverText = mergedGroups.map((disease, diseaseIdx) => {
-          const count = mergedCounts[diseaseIdx][cellIdx];
-          const total = diseaseTotals[disease] || 1;
-          const pct = ((count / total) * 100).toFixed(1);
-          return `<b>${cellType}</b><br>${disease}<br>Count: ${count.toLocaleString()}<br>Percentage: ${pct}%`;
-        });
+    const percent = (column: CompositionColumn, cellType: string) =>
+      compositionPercent(column.counts[merged.cellTypes.indexOf(cellType)] ?? 0, column.total);
+    const hover = (column: CompositionColumn, cellType: string) => {
+      const count = column.counts[merged.cellTypes.indexOf(cellType)] ?? 0;
+      const where = sampleBy ? `${column.id} (${column.disease})` : column.id;
+      return `<b>${cellType}</b><br>${where}<br>Count: ${count.toLocaleString()}<br>Percentage: ${percent(column, cellType).toFixed(1)}%`;
+    };
 
+    let builtTraces: Array<Record<string, unknown>>;
+    if (view === "heatmap") {
+      builtTraces = [
+        {
+          type: "heatmap",
+          x: columns.map((column) => column.id),
+          y: cellTypesToShow,
+          z: cellTypesToShow.map((cellType) => columns.map((column) => percent(column, cellType))),
+          hovertext: cellTypesToShow.map((cellType) => columns.map((column) => hover(column, cellType))),
+          hoverinfo: "text",
+          colorscale: "Viridis",
+          colorbar: { title: { text: "%" } },
+        },
+      ];
+    } else if (view === "samples") {
+      // Disease-level boxes over one jittered point per accession or donor
+      const diseaseColors = generateColorPalette(merged.groups.length);
+      builtTraces = merged.groups.map((disease, idx) => {
+        const members = columns.filter((column) => column.disease === disease);
         return {
-          type: "bar",
-          name: cellType,
-          x: mergedGroups,
-          y: yValues,
-          hovertext: hoverText,
+          type: "box",
+          name: disease,
+          x: members.flatMap(() => cellTypesToShow),
+          y: members.flatMap((column) => cellTypesToShow.map((cellType) => percent(column, cellType))),
+          hovertext: members.flatMap((column) => cellTypesToShow.map((cellType) => hover(column, cellType))),
           hoverinfo: "text",
-          textposition: "none",
-          marker: {
-            color: colorPalette[idx],
-            line: {
-              width: 0,
-            },
-          },
+          boxpoints: "all",
+          jitter: 0.5,
+          pointpos: 0,
+          marker: { color: diseaseColors[idx], size: 5, opacity: 0.8 },
+          line: { width: 1 },
         };
       });
+    } else {
+      // Generate unique colors for each subpopulation
+      const colorPalette = generateColorPalette(cellTypesToShow.length);
+      // Samples are labelled under their disease on a two-level axis
+      const x = sampleBy ? [columns.map((column) => column.disease), columns.map((column) => column.id)] : columns.map((column) => column.id);
+      builtTraces = cellTypesToShow.map((cellType, idx) => ({
+        type: "bar",
+        name: cellType,
+        x,
+        y: columns.map((column) => percent(column, cellType)),
+        hovertext: columns.map((column) => hover(column, cellType)),
+        hoverinfo: "text",
+        textposition: "none",
+        marker: {
+          color: colorPalette[idx],
+          line: {
+            width: 0,
+          },
+        },
+      }));
+    }
+
+    // One row per group and cell type, for the data download
+    const exportTable: DataTable = sampleBy
+      ? {
+          columns: [sampleBy, "disease", "cell_type", "count", `${sampleBy}_total`, "percent"],
+          rows: columns.flatMap((column) =>
+            cellTypesToShow.map((cellType) => [
+              column.id,
+              column.disease,
+              cellType,
+              column.counts[merged.cellTypes.indexOf(cellType)] ?? 0,
+              column.total,
+              percent(column, cellType),
+            ]),
+          ),
+        }
+      : {
+          columns: ["disease", "cell_type", "count", "disease_total", "percent"],
+          rows: columns.flatMap((column) =>
+            cellTypesToShow.map((cellType) => [
+              column.id,
+              cellType,
+              column.counts[merged.cellTypes.indexOf(cellType)] ?? 0,
+              column.total,
+              percent(column, cellType),
+            ]),
+          ),
+        };
+
+    return { traces: builtTraces, totals: merged.totals, table: exportTable };
+  }, [merged, columns, sampleBy, view, selectedCellTypes]);
+
+  // Picks fall back to Healthy and the first other group when they are not in the data
+  const { groups, group, reference } = useMemo(() => {
+    const available = merged?.groups ?? [];
+    const ref = available.includes(referenceChoice)
+      ? referenceChoice
+      : available.includes(HEALTHY)
+        ? HEALTHY
+        : available[0] ?? "";
+    const compared =
+      available.includes(groupChoice) && groupChoice !== ref ? groupChoice : available.find((item) => item !== ref) ?? "";
+    return { groups: available, group: compared, reference: ref };
+  }, [merged, groupChoice, referenceChoice]);
+
+  // Tested across all cell types so the BH correction does not change with the selection
+  const abundance = useMemo(() => {
+    if (!merged || !group || !reference) return [];
+    const selected = new Set(selectedCellTypes);
+    return differentialAbundance(merged, group, reference, abundanceTest).filter(
+      (row) => selected.size === 0 || selected.has(row.cellType),
+    );
+  }, [merged, group, reference, abundanceTest, selectedCellTypes]);
+
+  const sortedAbundance = useMemo(() => {
+    const direction = sort.order === "asc" ? 1 : -1;
+    return [...abundance].sort((a, b) => {
+      if (sort.by === "cellType") return direction * a.cellType.localeCompare(b.cellType);
+      return direction * (a[sort.by] - b[sort.by]);
+    });
+  }, [abundance, sort]);
+
+  const toggleSort = (by: AbundanceSortKey) => {
+    // Names read A–Z, p-values smallest first, effects largest first
+    const firstOrder = by === "cellType" || by === "pValue" || by === "padj" ? "asc" : "desc";
+    setSort((prev) =>
+      prev.by === by ? { by, order: prev.order === "asc" ? "desc" : "asc" } : { by, order: firstOrder },
+    );
+  };
 
-    return { traces: builtTraces, totals: diseaseTotals };
-  }, [response, selectedCellTypes]);
+  const sortIndicator = (by: AbundanceSortKey) => (sort.by === by ? (sort.order === "asc" ? " ▲" : " ▼") : "");
 
   useEffect(() => {
-    if (!plotRef.current || !window.Plotly || traces.length === 0) return;
-    const layout = {
-      barmode: "stack",
-      bargap: 0.2,
-      margin: { l: 60, r: 20, t: 10, b: 160 },
-      height: 580,
-      xaxis: { automargin: true, tickangle: -45 },
-      yaxis: {
-        automargin: true,
-        title: "Percentage (%)",
-        range: [0, 100],
-      },
-      legend: { orientation: "h" as const, y: -0.5, yanchor: "top" as const },
-    };
+    if (view === "abundance" || !plotRef.current || !window.Plotly || traces.length === 0) return;
+    const legend = { orientation: "h" as const, y: -0.5, yanchor: "top" as const };
+    const percentAxis = { automargin: true, title: "Percentage (%)", rangemode: "tozero" as const };
+    let layout: Record<string, unknown>;
+    if (view === "heatmap") {
+      const rows = (traces[0].y as string[]).length;
+      layout = {
+        margin: { l: 60, r: 20, t: 10, b: 120 },
+        height: Math.max(420, rows * 24 + 160),
+        xaxis: { automargin: true, tickangle: -45, type: "category" },
+        yaxis: { automargin: true, type: "category", autorange: "reversed" },
+      };
+    } else if (view === "samples") {
+      layout = {
+        boxmode: "group",
+        margin: { l: 60, r: 20, t: 10, b: 160 },
+        height: 580,
+        xaxis: { automargin: true, tickangle: -45 },
+        yaxis: percentAxis,
+        legend,
+      };
+    } else {
+      layout = {
+        barmode: view === "stacked" ? "stack" : "group",
+        bargap: 0.2,
+        margin: { l: 60, r: 20, t: 10, b: 160 },
+        height: 580,
+        xaxis: { automargin: true, tickangle: -45 },
+        yaxis: view === "stacked" ? { ...percentAxis, range: [0, 100] } : percentAxis,
+        legend,
+      };
+    }
     window.Plotly.react(plotRef.current, traces, layout, { displayModeBar: false, responsive: true }).then(() => {
       // Apply rounded corners to bar chart paths
       const bars = plotRef.current?.querySelectorAll('.bars path');
@@ -174,7 +352,121 @@ export default function CompositionPlaceholder({ selectedCellTypes }: Compositio
         bar.setAttribute('ry', '4');
       });
     });
-  }, [traces]);
+  }, [traces, view]);
+
+  // Lollipop: one stem per cell type from 0 to its log2 fold change, ordered by effect
+  useEffect(() => {
+    const root = abundancePlotRef.current;
+    if (view !== "abundance" || !root || !window.Plotly || abundance.length === 0) return;
+    const ordered = [...abundance].sort((a, b) => a.log2FoldChange - b.log2FoldChange);
+    const classify = (row: AbundanceRow) =>
+      row.padj >= ABUNDANCE_PADJ ? "ns" : row.log2FoldChange > 0 ? "up" : "down";
+    const hover = (row: AbundanceRow) =>
+      `<b>${row.cellType}</b><br>${group}: ${compositionPercent(row.count, row.total).toFixed(2)}%` +
+      `<br>${reference}: ${compositionPercent(row.refCount, row.refTotal).toFixed(2)}%` +
+      `<br>log2 FC: ${row.log2FoldChange.toFixed(2)}<br>padj: ${formatPValue(row.padj)}`;
+    const series = [
+      { key: "up", name: `Expanded in ${group}`, color: "#ef4444" },
+      { key: "down", name: `Depleted in ${group}`, color: "#3b82f6" },
+      { key: "ns", name: `Not significant (padj ≥ ${ABUNDANCE_PADJ})`, color: "#94a3b8" },
+    ];
+
+    const traces: Array<Record<string, unknown>> = [
+      {
+        type: "scatter",
+        mode: "lines",
+        x: ordered.flatMap((row) => [0, row.log2FoldChange, null]),
+        y: ordered.flatMap((row) => [row.cellType, row.cellType, null]),
+        line: { color: "#cbd5e1", width: 2 },
+        hoverinfo: "skip",
+        showlegend: false,
+      },
+      ...series.map((item) => {
+        const rows = ordered.filter((row) => classify(row) === item.key);
+        return {
+          type: "scatter",
+          mode: "markers",
+          name: item.name,
+          x: rows.map((row) => row.log2FoldChange),
+          y: rows.map((row) => row.cellType),
+          hovertext: rows.map(hover),
+          hoverinfo: "text",
+          marker: { size: 11, color: item.color },
+        };
+      }),
+    ];
+
+    const layout = {
+      margin: { l: 20, r: 20, t: 10, b: 50 },
+      height: Math.max(320, ordered.length * 28 + 120),
+      xaxis: { title: `log2 fold change of proportion (${group} / ${reference})`, zeroline: false },
+      yaxis: {
+        automargin: true,
+        type: "category",
+        categoryorder: "array",
+        categoryarray: ordered.map((row) => row.cellType),
+      },
+      shapes: [{ type: "line", xref: "x", yref: "paper", x0: 0, x1: 0, y0: 0, y1: 1, line: { color: "#0f172a", width: 1 } }],
+      legend: { orientation: "h" as const, y: 1.02, yanchor: "bottom" as const },
+    };
+    window.Plotly.react(root, traces, layout, { displayModeBar: false, responsive: true });
+  }, [view, abundance, group, reference]);
+
+  const cellTypeFilter = selectedCellTypes.length > 0 ? selectedCellTypes.join("; ") : "all";
+  const accessionScope: Record<string, string> = accessionFilter ? { accessions: accessionFilter.join("; ") } : {};
+  const compositionFile = groupBy === "disease" ? "composition" : `composition-by-${groupBy}`;
+  const figureTitle =
+    view === "heatmap"
+      ? `Cell-type proportions per ${groupBy}`
+      : view === "samples"
+        ? `Cell-type proportions per ${groupBy}, by disease`
+        : `Cell-type composition per ${groupBy}`;
+  const figureCaption = [
+    view === "samples"
+      ? `Boxes summarise each disease; points are single ${groupBy === "donor" ? "donors" : "accessions"}, as a percentage of their cells.`
+      : `Percentage of cells in each cell type, relative to all cells of the ${groupBy}.`,
+    `Cell types: ${selectedCellTypes.length > 0 ? selectedCellTypes.join(", ") : "all"}.`,
+    `Cells per disease: ${Object.entries(totals)
+      .map(([disease, total]) => `${disease} ${(total as number).toLocaleString()}`)
+      .join(", ")}.`,
+  ].join(" ");
+  const testLabel = ABUNDANCE_TESTS.find((item) => item.value === abundanceTest)?.label ?? abundanceTest;
+
+  const dataTables: DataTableSource[] = [
+    { id: "composition", label: "Counts and percentages", build: () => table },
+    {
+      id: "abundance",
+      label: `Differential abundance (${group} vs ${reference})`,
+      build: () => ({
+        columns: [
+          "cell_type",
+          "count",
+          "total",
+          "proportion",
+          "reference_count",
+          "reference_total",
+          "reference_proportion",
+          "log2_fold_change",
+          "test",
+          "p_value",
+          "padj",
+        ],
+        rows: sortedAbundance.map((row) => [
+          row.cellType,
+          row.count,
+          row.total,
+          row.proportion,
+          row.refCount,
+          row.refTotal,
+          row.refProportion,
+          row.log2FoldChange,
+          row.test,
+          row.pValue,
+          row.padj,
+        ]),
+      }),
+    },
+  ];
 
   return (
     <div className="panel">
@@ -182,10 +474,111 @@ export default function CompositionPlaceholder({ selectedCellTypes }: Compositio
         <div>
           <div className="h3">Composition</div>
           <div className="muted small">
-            Cell population composition per disease (%)
+            Cell population composition per {groupBy} (%)
             {selectedCellTypes.length > 0 ? ` — Filtered: ${selectedCellTypes.length} cell types` : " — All cell types"}
           </div>
         </div>
+        <div className="row gap-sm">
+          <DataExportMenu
+            apiBase={apiBase}
+            tissue={tissue}
+            filename={view !== "abundance" ? compositionFile : `composition-${fileSlug(group)}-vs-${fileSlug(reference)}`}
+            filters={
+              view !== "abundance"
+                ? { group_by: groupBy, cell_types: cellTypeFilter, ...accessionScope }
+                : { group_by: groupBy, group, reference, test: testLabel, cell_types: cellTypeFilter, ...accessionScope }
+            }
+            tables={view !== "abundance" ? dataTables.slice(0, 1) : dataTables.slice(1)}
+          />
+          {view !== "abundance" ? (
+            <PlotExportMenu
+              plotRef={plotRef}
+              filename={view === "stacked" ? compositionFile : `${compositionFile}-${view}`}
+              title={figureTitle}
+              caption={figureCaption}
+            />
+          ) : (
+            <PlotExportMenu
+              plotRef={abundancePlotRef}
+              filename={`composition-${fileSlug(group)}-vs-${fileSlug(reference)}`}
+              title={`Cell-type abundance: ${group} vs ${reference}`}
+              caption={[
+                `log2 ratio of each cell type's share of cells in ${group} over ${reference}.`,
+                `${testLabel} per cell type, Benjamini–Hochberg adjusted across ${merged?.cellTypes.length ?? 0} cell types;`,
+                `coloured where padj < ${ABUNDANCE_PADJ}.`,
+              ].join(" ")}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="panel-controls">
+        <label className="control">
+          <span>View</span>
+          <select value={view} onChange={(event) => setView(event.target.value as View)}>
+            {VIEWS.map((item) => (
+              <option key={item.value} value={item.value} disabled={item.value === "samples" && groupBy === "disease"}>
+                {item.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {view !== "abundance" ? (
+          <label className="control">
+            <span>Group by</span>
+            <select
+              value={groupBy}
+              onChange={(event) => {
+                const next = event.target.value as CompositionGroupBy;
+                setGroupBy(next);
+                // Pooled diseases have no per-sample spread to show
+                if (next === "disease" && view === "samples") setView("stacked");
+              }}
+            >
+              {COMPOSITION_GROUP_BY.map((item) => (
+                <option key={item.value} value={item.value}>
+                  {item.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+        {view === "abundance" ? (
+          <>
+            <label className="control">
+              <span>Compare</span>
+              <select value={group} onChange={(event) => setGroupChoice(event.target.value)}>
+                {groups
+                  .filter((item) => item !== reference)
+                  .map((item) => (
+                    <option key={item} value={item}>
+                      {item}
+                    </option>
+                  ))}
+              </select>
+            </label>
+            <label className="control">
+              <span>Against</span>
+              <select value={reference} onChange={(event) => setReferenceChoice(event.target.value)}>
+                {groups.map((item) => (
+                  <option key={item} value={item}>
+                    {item}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="control">
+              <span>Test</span>
+              <select value={abundanceTest} onChange={(event) => setAbundanceTest(event.target.value as AbundanceTest)}>
+                {ABUNDANCE_TESTS.map((item) => (
+                  <option key={item.value} value={item.value}>
+                    {item.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </>
+        ) : null}
       </div>
 
       {/* Summary stats */}
@@ -194,14 +587,99 @@ export default function CompositionPlaceholder({ selectedCellTypes }: Compositio
           {Object.entries(totals).map(([disease, total]) => (
             <div key={disease} className="composition-stat">
               <span className="composition-stat-label">{disease}</span>
-              <span className="composition-stat-value">{(total as number).toLocaleString()} cells</span>
+              <span className="composition-stat-value">
+                {(total as number).toLocaleString()} cells
+                {sampleBy ? ` · ${columns.filter((column) => column.disease === disease).length} ${sampleBy}s` : ""}
+              </span>
             </div>
           ))}
         </div>
       )}
 
       {error ? <div className="error-banner">{error}</div> : null}
-      <div className="plot-frame large" ref={plotRef} />
+      {view !== "abundance" ? (
+        <>
+          {view === "samples" ? (
+            <div className="muted small">
+              Each point is one {groupBy}; one far from the box of its disease flags a dataset or donor that
+              differs from the rest.
+            </div>
+          ) : null}
+          <div className="plot-frame large" ref={plotRef} />
+        </>
+      ) : (
+        <>
+          <div className="muted small">
+            Each cell type is tested on its counts against all other cells. Cells are treated as independent
+            observations, so with large samples small shifts reach significance; weigh them by fold change.
+          </div>
+          {merged && abundance.length === 0 ? (
+            <div className="muted small" style={{ marginTop: 12 }}>Pick two groups with cells to compare</div>
+          ) : null}
+          <div className="plot-frame" ref={abundancePlotRef} />
+          {sortedAbundance.length > 0 ? (
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>
+                    <button type="button" className="th-sort" onClick={() => toggleSort("cellType")}>
+                      Cell type{sortIndicator("cellType")}
+                    </button>
+                  </th>
+                  <th>
+                    <button type="button" className="th-sort" onClick={() => toggleSort("proportion")}>
+                      {group}{sortIndicator("proportion")}
+                    </button>
+                  </th>
+                  <th>
+                    <button type="button" className="th-sort" onClick={() => toggleSort("refProportion")}>
+                      {reference}{sortIndicator("refProportion")}
+                    </button>
+                  </th>
+                  <th>
+                    <button type="button" className="th-sort" onClick={() => toggleSort("log2FoldChange")}>
+                      log2 FC{sortIndicator("log2FoldChange")}
+                    </button>
+                  </th>
+                  <th>
+                    <button type="button" className="th-sort" onClick={() => toggleSort("pValue")}>
+                      p-value{sortIndicator("pValue")}
+                    </button>
+                  </th>
+                  <th>
+                    <button type="button" className="th-sort" onClick={() => toggleSort("padj")}>
+                      padj{sortIndicator("padj")}
+                    </button>
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedAbundance.map((row) => (
+                  <tr key={row.cellType}>
+                    <td>{row.cellType}</td>
+                    <td className="mono">
+                      {compositionPercent(row.count, row.total).toFixed(2)}% ({row.count.toLocaleString()})
+                    </td>
+                    <td className="mono">
+                      {compositionPercent(row.refCount, row.refTotal).toFixed(2)}% ({row.refCount.toLocaleString()})
+                    </td>
+                    <td
+                      className="mono"
+                      style={{ color: row.padj < ABUNDANCE_PADJ ? (row.log2FoldChange > 0 ? "#ef4444" : "#3b82f6") : undefined }}
+                    >
+                      {row.log2FoldChange.toFixed(2)}
+                    </td>
+                    <td className="mono" title={row.test === "fisher" ? "Fisher's exact test" : "Chi-square test"}>
+                      {formatPValue(row.pValue)}
+                    </td>
+                    <td className="mono">{formatPValue(row.padj)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : null}
+        </>
+      )}
     </div>
   );
 }
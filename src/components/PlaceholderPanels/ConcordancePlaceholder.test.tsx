@@ -0,0 +1,146 @@
+import { fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import ConcordancePlaceholder from "./ConcordancePlaceholder";
+import { setStoredApiBase } from "../../lib/storage";
+import type { DeRow } from "../../lib/types";
+import { TEST_API_BASE, jsonResponse, lastTraces, serveMockAtlas, stubPlotly, type PlotlyStub } from "../../test/utils";
+
+const props = {
+  mode: "compare" as const,
+  leftDisease: "SLE",
+  rightDisease: "RA",
+  referenceDisease: "Healthy",
+};
+
+// Pages through fixed per-disease tables the way the backend does
+function serveDeTables(tables: Record<string, DeRow[]>) {
+  setStoredApiBase(TEST_API_BASE);
+  const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+    const params = new URL(String(input)).searchParams;
+    const rows = tables[params.get("disease") ?? ""] ?? [];
+    const limit = Number(params.get("limit"));
+    const offset = Number(params.get("offset"));
+    return jsonResponse({ ok: true, total: rows.length, limit, offset, rows: rows.slice(offset, offset + limit) });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+const rows = (from: number, to: number, logfc: (idx: number) => number): DeRow[] =>
+  Array.from({ length: to - from }, (_, i) => ({
+    gene: `G${from + i}`,
+    logfc: logfc(from + i),
+    p_val: 0.01,
+    p_val_adj: 0.05,
+  }));
+
+const statValue = (label: string) => screen.getByText(label, { selector: ".stat-label" }).nextElementSibling?.textContent;
+
+describe("ConcordancePlaceholder", () => {
+  let plotly: PlotlyStub;
+
+  beforeEach(() => {
+    plotly = stubPlotly();
+  });
+
+  it("joins the full DE tables of both diseases in every selected cell type", async () => {
+    const fetchMock = serveMockAtlas();
+    render(<ConcordancePlaceholder {...props} selectedCellTypes={["NK", "pDC"]} />);
+
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+    const requests = fetchMock.mock.calls.map(([input]) => new URL(String(input)).searchParams);
+    expect(requests.map((params) => `${params.get("disease")} ${params.get("cell_type")}`).sort()).toEqual([
+      "RA NK",
+      "RA pDC",
+      "SLE NK",
+      "SLE pDC",
+    ]);
+    requests.forEach((params) => {
+      expect(params.get("limit")).toBe("1000");
+      expect(params.get("reference")).toBe("Healthy");
+    });
+
+    expect(statValue("Genes in join")).toBe("246");
+    expect(lastTraces(plotly).map((trace) => trace.name)).toEqual(["NK", "pDC", expect.stringMatching(/^Fit \(slope/)]);
+    const nkRow = screen.getByText("NK", { selector: "td strong" }).closest("tr") as HTMLElement;
+    expect(within(nkRow).getAllByText("123")).toHaveLength(3);
+  });
+
+  it("keeps genes past the first page of either table in the join", async () => {
+    const fetchMock = serveDeTables({
+      SLE: rows(0, 1200, (idx) => (idx % 2 === 0 ? 1 : -1)),
+      RA: rows(1100, 1300, (idx) => (idx % 2 === 0 ? 2 : -2)),
+    });
+    render(<ConcordancePlaceholder {...props} selectedCellTypes={["NK"]} />);
+
+    await waitFor(() => expect(statValue("Genes in join")).toBe("100"));
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(statValue("Pearson r")).toBe("1.000");
+    expect(statValue("Concordant up")).toBe("50");
+    expect(statValue("Concordant down")).toBe("50");
+    expect(screen.getByText(/joined from full DE tables of 1,200 \(Systemic lupus erythematosus\) and 200 \(Rheumatoid arthritis\) rows/)).toBeTruthy();
+  });
+
+  it("reports the cell types that failed and keeps the ones that loaded", async () => {
+    setStoredApiBase(TEST_API_BASE);
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (input: RequestInfo | URL) => {
+        const params = new URL(String(input)).searchParams;
+        if (params.get("cell_type") === "pDC") return jsonResponse({ ok: false, error: "pDC unavailable" });
+        const all = rows(0, 10, (idx) => idx - 5);
+        return jsonResponse({ ok: true, total: all.length, rows: all });
+      }),
+    );
+    render(<ConcordancePlaceholder {...props} selectedCellTypes={["NK", "pDC"]} />);
+
+    await waitFor(() => expect(lastTraces(plotly).map((trace) => trace.name)).toEqual(["NK", expect.stringMatching(/^Fit/)]));
+    expect(statValue("Genes in join")).toBe("10");
+    expect(await screen.findByText("1 cell types failed to load")).toBeTruthy();
+    expect(screen.getByText("pDC", { selector: ".chip" }).title).toBe("pDC unavailable");
+  });
+
+  it("retries only the cell types that failed", async () => {
+    setStoredApiBase(TEST_API_BASE);
+    let failPdc = true;
+    const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+      const params = new URL(String(input)).searchParams;
+      if (failPdc && params.get("cell_type") === "pDC") return jsonResponse({ ok: false, error: "pDC unavailable" });
+      const all = rows(0, 10, (idx) => idx - 5);
+      return jsonResponse({ ok: true, total: all.length, rows: all });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    render(<ConcordancePlaceholder {...props} selectedCellTypes={["NK", "pDC"]} />);
+    await screen.findByText("1 cell types failed to load");
+
+    failPdc = false;
+    fetchMock.mockClear();
+    fireEvent.click(screen.getByRole("button", { name: "Retry failed" }));
+
+    await waitFor(() => expect(statValue("Genes in join")).toBe("20"));
+    expect(screen.queryByText("1 cell types failed to load")).toBeNull();
+    fetchMock.mock.calls.forEach(([input]) => expect(new URL(String(input)).searchParams.get("cell_type")).toBe("pDC"));
+  });
+
+  it("keeps at most six cell types in flight", async () => {
+    setStoredApiBase(TEST_API_BASE);
+    let inFlight = 0;
+    let peak = 0;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        inFlight += 1;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight -= 1;
+        const all = rows(0, 5, (idx) => idx - 2);
+        return jsonResponse({ ok: true, total: all.length, rows: all });
+      }),
+    );
+    const cellTypes = Array.from({ length: 12 }, (_, idx) => `Type ${idx}`);
+    render(<ConcordancePlaceholder {...props} selectedCellTypes={cellTypes} />);
+
+    await waitFor(() => expect(statValue("Genes in join")).toBe("60"));
+    expect(peak).toBeLessThanOrEqual(6);
+  });
+});
@@ -1,44 +1,496 @@
-import type { Mode } from "../../lib/types";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { DeRow, Mode } from "../../lib/types";
+import { DEFAULT_RESOLVED_BASE, fetchAllDeRows, fetchAllSettled, isAbortError, type SettledItem } from "../../lib/api";
+import { describeError } from "../../lib/errors";
+import { getStoredApiBase } from "../../lib/storage";
+import { linearFit, pearson, spearman } from "../../lib/stats";
+import { fileSlug } from "../../lib/download";
+import type { DataTableSource } from "../../lib/dataExport";
+import BatchProgress from "../BatchProgress";
+import DataExportMenu from "../DataExportMenu";
+import PlotExportMenu from "../PlotExportMenu";
+
+// Generate color palette with distinct colors
+function generateColorPalette(count: number): string[] {
+  const hueStep = 360 / count;
+  const colors: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const hue = (i * hueStep) % 360;
+    const saturation = 60 + (i % 3) * 15;
+    const lightness = 45 + (i % 2) * 10;
+    colors.push(`hsl(${hue}, ${saturation}%, ${lightness}%)`);
+  }
+  return colors;
+}
 
 type ConcordancePlaceholderProps = {
   mode: Mode;
   leftDisease: string;
   rightDisease: string;
+  referenceDisease: string;
+  selectedCellTypes: string[];
+  tissue?: string;
+  // Accessions the cells are restricted to; null for all
+  accessionFilter?: string[] | null;
+};
+
+type DePair = { left: DeRow[]; right: DeRow[] };
+
+// One selection's cell types as they settle; `key` ties it to the selection that requested it
+type Batch = {
+  key: string;
+  responses: Record<string, DePair>;
+  failed: Array<{ key: string; error: string }>;
+  progress: { done: number; total: number };
+  complete: boolean;
+  error: string | null;
+};
+
+function emptyBatch(key: string, total: number): Batch {
+  return { key, responses: {}, failed: [], progress: { done: 0, total }, complete: false, error: null };
+}
+
+function recordSettled(batch: Batch, item: SettledItem<string, DePair>, done: number, total: number): Batch {
+  const failed = batch.failed.filter((entry) => entry.key !== item.key);
+  return {
+    ...batch,
+    responses: item.status === "fulfilled" ? { ...batch.responses, [item.key]: item.value } : batch.responses,
+    failed: item.status === "rejected" ? [...failed, { key: item.key, error: item.error }] : failed,
+    progress: { done, total },
+  };
+}
+
+type JoinedPoint = {
+  gene: string;
+  cellType: string;
+  left: number;
+  right: number;
+};
+
+type QuadrantCounts = {
+  up: number;
+  down: number;
+  discordant: number;
 };
 
+type CellTypeSummary = QuadrantCounts & {
+  cellType: string;
+  n: number;
+  // Genes tested on each side before the join
+  leftTested: number;
+  rightTested: number;
+  pearson: number;
+  spearman: number;
+};
+
+function countQuadrants(points: JoinedPoint[]): QuadrantCounts {
+  const counts = { up: 0, down: 0, discordant: 0 };
+  points.forEach((p) => {
+    if (p.left > 0 && p.right > 0) counts.up += 1;
+    else if (p.left < 0 && p.right < 0) counts.down += 1;
+    else if (p.left !== 0 && p.right !== 0) counts.discordant += 1;
+  });
+  return counts;
+}
+
+function formatCorrelation(value: number) {
+  return Number.isFinite(value) ? value.toFixed(3) : "—";
+}
+
 export default function ConcordancePlaceholder({
   mode,
   leftDisease,
   rightDisease,
+  referenceDisease,
+  selectedCellTypes,
+  tissue,
+  accessionFilter,
 }: ConcordancePlaceholderProps) {
+  const apiBase = getStoredApiBase() ?? DEFAULT_RESOLVED_BASE;
+  const [batch, setBatch] = useState<Batch>(() => emptyBatch("", 0));
+  const [retrying, setRetrying] = useState(false);
+  const retryControllerRef = useRef<AbortController | null>(null);
+  const plotRef = useRef<HTMLDivElement | null>(null);
+
+  const mapDiseaseLabel = (value: string) => {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === "normal") return "Healthy";
+    if (normalized === "ra") return "Rheumatoid arthritis";
+    if (normalized === "sjs") return "Sjögren syndrome";
+    if (normalized === "sle") return "Systemic lupus erythematosus";
+    return value;
+  };
+
+  // Anything that changes what is fetched starts a new batch; results from an older one are dropped
+  const requestKey = JSON.stringify([apiBase, leftDisease, rightDisease, referenceDisease, selectedCellTypes, accessionFilter ?? null]);
+  const current = useMemo(
+    () => (batch.key === requestKey ? batch : emptyBatch(requestKey, selectedCellTypes.length)),
+    [batch, requestKey, selectedCellTypes.length],
+  );
+  const { responses, failed, progress, error } = current;
+  const loading = !current.complete;
+
+  // Full DE tables for both diseases; joining only the top rows by p-value would keep just the genes
+  // that are strongly differential on both sides
+  const fetchPair = useCallback(
+    async (cellType: string, signal?: AbortSignal): Promise<DePair> => {
+      const fetchRows = (disease: string) =>
+        fetchAllDeRows(apiBase, { disease, cellType, reference: referenceDisease, accessions: accessionFilter }, { signal });
+      const left = await fetchRows(leftDisease);
+      const right = await fetchRows(rightDisease);
+      return { left, right };
+    },
+    [apiBase, leftDisease, rightDisease, referenceDisease, accessionFilter],
+  );
+
+  // Fetch every selected cell type, a few at a time
+  useEffect(() => {
+    if (mode !== "compare") return;
+    if (!leftDisease || !rightDisease || selectedCellTypes.length === 0) return;
+
+    const controller = new AbortController();
+    const update = (apply: (prev: Batch) => Batch) =>
+      setBatch((prev) => apply(prev.key === requestKey ? prev : emptyBatch(requestKey, selectedCellTypes.length)));
+
+    fetchAllSettled(selectedCellTypes, fetchPair, {
+      signal: controller.signal,
+      onSettled: (item, done, total) => {
+        if (controller.signal.aborted) return;
+        update((prev) => recordSettled(prev, item, done, total));
+      },
+    })
+      .then((results) => {
+        if (controller.signal.aborted) return;
+        const noData = results.every((item) => item.status === "rejected");
+        update((prev) => ({ ...prev, complete: true, error: noData ? "No data available for selected cell types in both diseases" : null }));
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        update((prev) => ({ ...prev, complete: true, error: describeError(err) }));
+      });
+    // Abort the previous batch when the selection changes or the panel unmounts
+    return () => {
+      controller.abort();
+      retryControllerRef.current?.abort();
+    };
+  }, [mode, leftDisease, rightDisease, selectedCellTypes, requestKey, fetchPair]);
+
+  const handleRetry = () => {
+    if (failed.length === 0) return;
+    const controller = new AbortController();
+    retryControllerRef.current = controller;
+    const keys = failed.map((entry) => entry.key);
+    setRetrying(true);
+    setBatch({ ...current, progress: { done: 0, total: keys.length }, error: null });
+
+    fetchAllSettled(keys, fetchPair, {
+      signal: controller.signal,
+      onSettled: (item, done, total) => {
+        if (controller.signal.aborted) return;
+        setBatch((prev) => (prev.key === requestKey ? recordSettled(prev, item, done, total) : prev));
+      },
+    })
+      .catch(() => {
+        // aborted by a selection change
+      })
+      .finally(() => {
+        if (retryControllerRef.current !== controller) return;
+        retryControllerRef.current = null;
+        setRetrying(false);
+      });
+  };
+
+  // Join rows by gene within each cell type
+  const { points, summaries, overall, fit } = useMemo(() => {
+    const joined: JoinedPoint[] = [];
+    const perCellType: CellTypeSummary[] = [];
+
+    selectedCellTypes.forEach((cellType) => {
+      const pair = responses[cellType];
+      if (!pair) return;
+
+      const rightByGene = new Map(pair.right.map((row) => [row.gene, row.logfc]));
+      const cellPoints: JoinedPoint[] = [];
+      pair.left.forEach((row) => {
+        const right = rightByGene.get(row.gene);
+        if (right === undefined || !Number.isFinite(row.logfc) || !Number.isFinite(right)) return;
+        cellPoints.push({ gene: row.gene, cellType, left: row.logfc, right });
+      });
+      if (cellPoints.length === 0) return;
+
+      const xs = cellPoints.map((p) => p.left);
+      const ys = cellPoints.map((p) => p.right);
+      perCellType.push({
+        cellType,
+        n: cellPoints.length,
+        leftTested: pair.left.length,
+        rightTested: pair.right.length,
+        pearson: pearson(xs, ys),
+        spearman: spearman(xs, ys),
+        ...countQuadrants(cellPoints),
+      });
+      joined.push(...cellPoints);
+    });
+
+    const xs = joined.map((p) => p.left);
+    const ys = joined.map((p) => p.right);
+
+    return {
+      points: joined,
+      summaries: perCellType,
+      overall: {
+        n: joined.length,
+        leftTested: perCellType.reduce((sum, row) => sum + row.leftTested, 0),
+        rightTested: perCellType.reduce((sum, row) => sum + row.rightTested, 0),
+        pearson: pearson(xs, ys),
+        spearman: spearman(xs, ys),
+        ...countQuadrants(joined),
+      },
+      fit: linearFit(xs, ys),
+    };
+  }, [responses, selectedCellTypes]);
+
+  useEffect(() => {
+    if (!plotRef.current || !window.Plotly || points.length === 0) return;
+
+    const colorPalette = generateColorPalette(selectedCellTypes.length);
+    const leftLabel = mapDiseaseLabel(leftDisease);
+    const rightLabel = mapDiseaseLabel(rightDisease);
+    const referenceLabel = mapDiseaseLabel(referenceDisease);
+
+    const traces: Array<Record<string, unknown>> = selectedCellTypes
+      .map((cellType, idx) => {
+        const cellPoints = points.filter((p) => p.cellType === cellType);
+        return {
+          type: "scatter",
+          mode: "markers",
+          name: cellType,
+          x: cellPoints.map((p) => p.left),
+          y: cellPoints.map((p) => p.right),
+          hovertext: cellPoints.map((p) =>
+            `<b>${p.gene}</b><br>Cell type: ${p.cellType}<br>logFC ${leftLabel}: ${p.left.toFixed(3)}<br>logFC ${rightLabel}: ${p.right.toFixed(3)}`
+          ),
+          hoverinfo: "text",
+          marker: { size: 6, color: colorPalette[idx], opacity: 0.7 },
+        };
+      })
+      .filter((trace) => (trace.x as number[]).length > 0);
+
+    const allX = points.map((p) => p.left);
+    const allY = points.map((p) => p.right);
+    const minX = Math.min(...allX, -1);
+    const maxX = Math.max(...allX, 1);
+    const minY = Math.min(...allY, -1);
+    const maxY = Math.max(...allY, 1);
+
+    if (fit) {
+      traces.push({
+        type: "scatter",
+        mode: "lines",
+        name: `Fit (slope ${fit.slope.toFixed(2)})`,
+        x: [minX, maxX],
+        y: [fit.slope * minX + fit.intercept, fit.slope * maxX + fit.intercept],
+        hoverinfo: "skip",
+        line: { color: "#0f172a", width: 2, dash: "dash" },
+      });
+    }
+
+    const layout = {
+      margin: { l: 60, r: 10, t: 20, b: 50 },
+      height: 520,
+      xaxis: { title: `logFC (${leftLabel} vs ${referenceLabel})`, zeroline: false },
+      yaxis: { title: `logFC (${rightLabel} vs ${referenceLabel})`, zeroline: false },
+      legend: {
+        orientation: "v" as const,
+        y: 0.5,
+        yanchor: "middle" as const,
+        x: 1.02,
+        xanchor: "left" as const,
+      },
+      shapes: [
+        { type: "line", x0: 0, x1: 0, y0: minY, y1: maxY, line: { color: "#94a3b8", width: 1 } },
+        { type: "line", x0: minX, x1: maxX, y0: 0, y1: 0, line: { color: "#94a3b8", width: 1 } },
+      ],
+    };
+
+    window.Plotly.react(plotRef.current, traces, layout, { displayModeBar: false, responsive: true });
+  }, [points, fit, selectedCellTypes, leftDisease, rightDisease, referenceDisease]);
+
   if (mode !== "compare") {
     return null;
   }
 
+  const dataTables: DataTableSource[] = [
+    {
+      id: "points",
+      label: "Per-gene logFC pairs",
+      build: () => ({
+        columns: ["cell_type", "gene", `logfc_${leftDisease}`, `logfc_${rightDisease}`],
+        rows: points.map((p) => [p.cellType, p.gene, p.left, p.right]),
+      }),
+    },
+    {
+      id: "summary",
+      label: "Per-cell-type agreement",
+      build: () => ({
+        columns: [
+          "cell_type",
+          "n",
+          `tested_${leftDisease}`,
+          `tested_${rightDisease}`,
+          "pearson",
+          "spearman",
+          "both_up",
+          "both_down",
+          "discordant",
+        ],
+        rows: summaries.map((row) => [
+          row.cellType,
+          row.n,
+          row.leftTested,
+          row.rightTested,
+          row.pearson,
+          row.spearman,
+          row.up,
+          row.down,
+          row.discordant,
+        ]),
+      }),
+    },
+  ];
+
+  if (selectedCellTypes.length === 0) {
+    return (
+      <div className="panel">
+        <div className="panel-header">
+          <div>
+            <div className="h3">Concordance</div>
+            <div className="muted small">Select cell types in Analysis Setup to compare differential expression</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="panel">
       <div className="panel-header">
         <div>
           <div className="h3">Concordance</div>
-          <div className="muted small">Scatter of logFC agreement across cell types.</div>
+          <div className="muted small">
+            Per-gene logFC agreement: {mapDiseaseLabel(leftDisease)} vs {mapDiseaseLabel(rightDisease)} (each vs {mapDiseaseLabel(referenceDisease)})
+          </div>
+        </div>
+        <div className="row gap-sm">
+          <DataExportMenu
+            apiBase={apiBase}
+            tissue={tissue}
+            filename={`concordance-${fileSlug(leftDisease)}-${fileSlug(rightDisease)}-vs-${fileSlug(referenceDisease)}`}
+            filters={{
+              left: leftDisease,
+              right: rightDisease,
+              reference: referenceDisease,
+              cell_types: selectedCellTypes.join("; "),
+              ...(accessionFilter ? { accessions: accessionFilter.join("; ") } : {}),
+            }}
+            tables={points.length > 0 ? dataTables : []}
+          />
+          <PlotExportMenu
+            plotRef={plotRef}
+            filename={`concordance-${fileSlug(leftDisease)}-${fileSlug(rightDisease)}-vs-${fileSlug(referenceDisease)}`}
+            title={`logFC concordance: ${mapDiseaseLabel(leftDisease)} vs ${mapDiseaseLabel(rightDisease)}`}
+            caption={[
+              `Each point is a gene tested in both diseases in one cell type; axes are logFC against ${mapDiseaseLabel(referenceDisease)}.`,
+              `Cell types: ${selectedCellTypes.join(", ")}.`,
+              `n = ${overall.n.toLocaleString()}, Pearson r = ${formatCorrelation(overall.pearson)}, Spearman ρ = ${formatCorrelation(overall.spearman)}.`,
+            ].join(" ")}
+          />
         </div>
-        <div className="muted small">Placeholder for concordance diagnostics.</div>
       </div>
 
-      <svg className="placeholder-svg" viewBox="0 0 420 200" aria-hidden="true">
-        <rect x="30" y="30" width="360" height="130" rx="12" fill="#f8fafc" stroke="#e2e8f0" />
-        <line x1="60" y1="150" x2="330" y2="50" stroke="#cbd5f5" strokeWidth="2" />
-        <circle cx="120" cy="110" r="6" fill="#93c5fd" />
-        <circle cx="190" cy="90" r="6" fill="#60a5fa" />
-        <circle cx="250" cy="70" r="6" fill="#3b82f6" />
-        <circle cx="300" cy="60" r="6" fill="#2563eb" />
-        <text x="40" y="185" fill="#64748b" fontSize="12">
-          logFC({leftDisease}) →
-        </text>
-        <text x="15" y="110" fill="#64748b" fontSize="12" transform="rotate(-90 15 110)">
-          logFC({rightDisease})
-        </text>
-      </svg>
+      <BatchProgress
+        done={progress.done}
+        total={progress.total}
+        noun="cell types"
+        failed={failed}
+        onRetry={handleRetry}
+        retrying={retrying}
+      />
+      {error ? <div className="error-banner">{error}</div> : null}
+
+      {points.length > 0 ? (
+        <>
+          <div className="overlap-stats">
+            <div className="stat">
+              <div className="stat-label">Genes in join</div>
+              <div className="stat-value">{overall.n.toLocaleString()}</div>
+            </div>
+            <div className="stat">
+              <div className="stat-label">Pearson r</div>
+              <div className="stat-value">{formatCorrelation(overall.pearson)}</div>
+            </div>
+            <div className="stat">
+              <div className="stat-label">Spearman ρ</div>
+              <div className="stat-value">{formatCorrelation(overall.spearman)}</div>
+            </div>
+            <div className="stat">
+              <div className="stat-label">Concordant up</div>
+              <div className="stat-value" style={{ color: "#ef4444" }}>{overall.up}</div>
+            </div>
+            <div className="stat">
+              <div className="stat-label">Concordant down</div>
+              <div className="stat-value" style={{ color: "#3b82f6" }}>{overall.down}</div>
+            </div>
+            <div className="stat">
+              <div className="stat-label">Discordant</div>
+              <div className="stat-value">{overall.discordant}</div>
+            </div>
+          </div>
+
+          <div className="muted small">
+            Statistics rest on the {overall.n.toLocaleString()} gene–cell type pairs tested in both diseases, joined from
+            full DE tables of {overall.leftTested.toLocaleString()} ({mapDiseaseLabel(leftDisease)}) and{" "}
+            {overall.rightTested.toLocaleString()} ({mapDiseaseLabel(rightDisease)}) rows.
+          </div>
+
+          <div className="plot-frame large" ref={plotRef} style={{ marginTop: 16 }} />
+
+          <div className="table-wrap">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Cell type</th>
+                  <th>Genes in join</th>
+                  <th>Tested ({mapDiseaseLabel(leftDisease)})</th>
+                  <th>Tested ({mapDiseaseLabel(rightDisease)})</th>
+                  <th>Pearson r</th>
+                  <th>Spearman ρ</th>
+                  <th>Concordant up</th>
+                  <th>Concordant down</th>
+                  <th>Discordant</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summaries.map((row) => (
+                  <tr key={row.cellType}>
+                    <td><strong>{row.cellType}</strong></td>
+                    <td>{row.n}</td>
+                    <td>{row.leftTested}</td>
+                    <td>{row.rightTested}</td>
+                    <td>{formatCorrelation(row.pearson)}</td>
+                    <td>{formatCorrelation(row.spearman)}</td>
+                    <td style={{ color: "#ef4444" }}>{row.up}</td>
+                    <td style={{ color: "#3b82f6" }}>{row.down}</td>
+                    <td>{row.discordant}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : !loading && !error ? (
+        <div className="muted small" style={{ marginTop: 12 }}>No shared genes for this selection</div>
+      ) : null}
     </div>
   );
 }
@@ -0,0 +1,119 @@
+import { fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import DeTablePlaceholder from "./DeTablePlaceholder";
+import type { Manifest } from "../../lib/types";
+import { handleMockRequest } from "../../mock/server";
+import { captureDownloads, jsonResponse, serveMockAtlas } from "../../test/utils";
+
+const MANIFEST: Manifest = {
+  ok: true,
+  tissue: "PBMC",
+  diseases: ["Healthy", "RA", "SLE", "SjS"],
+  accessions: [],
+  cell_types: ["Classical monocyte", "pDC"],
+  marker_panels: {},
+};
+
+function renderPanel() {
+  return render(
+    <DeTablePlaceholder manifest={MANIFEST} disease="SLE" referenceDisease="Healthy" selectedCellTypes={["Classical monocyte"]} />,
+  );
+}
+
+function lastQuery(fetchMock: ReturnType<typeof serveMockAtlas>) {
+  const calls = fetchMock.mock.calls;
+  return new URL(String(calls[calls.length - 1][0])).searchParams;
+}
+
+const ALL_GROUPS = [
+  "Antigen presentation",
+  "B cell activation",
+  "Cytotoxicity",
+  "Inflammation",
+  "Interferon response",
+  "T cell exhaustion",
+];
+
+function groupOptions() {
+  const select = screen.getByLabelText("Functional group") as HTMLSelectElement;
+  return Array.from(select.options, (option) => option.value).filter(Boolean);
+}
+
+function bodyGenes() {
+  const [, body] = screen.getAllByRole("rowgroup");
+  return within(body)
+    .getAllByRole("row")
+    .map((row) => within(row).getAllByRole("cell")[0].textContent);
+}
+
+describe("DeTablePlaceholder", () => {
+  let fetchMock: ReturnType<typeof serveMockAtlas>;
+
+  beforeEach(() => {
+    fetchMock = serveMockAtlas();
+  });
+
+  it("pages through results on the server", async () => {
+    renderPanel();
+    await screen.findByText(/^Rows 1–50 of /);
+    expect(bodyGenes()).toHaveLength(50);
+    expect(lastQuery(fetchMock).get("offset")).toBe("0");
+
+    fireEvent.click(screen.getByRole("button", { name: "Next" }));
+    await waitFor(() => expect(screen.getByText(/^Rows 51–100 of /)).toBeTruthy());
+    expect(lastQuery(fetchMock).get("offset")).toBe("50");
+  });
+
+  it("sorts by fold change and filters by gene and direction", async () => {
+    renderPanel();
+    await screen.findByText(/^Rows 1–50 of /);
+
+    fireEvent.click(screen.getByRole("button", { name: "logFC" }));
+    await waitFor(() => expect(lastQuery(fetchMock).get("sort_by")).toBe("logfc"));
+    expect(lastQuery(fetchMock).get("order")).toBe("desc");
+    await waitFor(() => expect(screen.getByRole("button", { name: "logFC ▼" })).toBeTruthy());
+
+    fireEvent.change(screen.getByPlaceholderText("e.g. IFI"), { target: { value: "ifi" } });
+    fireEvent.submit(screen.getByPlaceholderText("e.g. IFI"));
+    fireEvent.change(screen.getByLabelText("Direction"), { target: { value: "up" } });
+    await waitFor(() => expect(lastQuery(fetchMock).get("direction")).toBe("up"));
+    expect(lastQuery(fetchMock).get("gene")).toBe("IFI");
+    expect(lastQuery(fetchMock).get("offset")).toBe("0");
+    await waitFor(() => expect(bodyGenes().every((gene) => gene?.includes("IFI"))).toBe(true));
+  });
+
+  it("exports the full filtered result set, not just the visible page", async () => {
+    const downloads = captureDownloads();
+    renderPanel();
+    const summary = await screen.findByText(/^Rows 1–50 of /);
+    const total = Number(summary.textContent!.replace(/.* of /, "").replace(/,/g, ""));
+
+    fireEvent.click(screen.getByRole("button", { name: "Export TSV" }));
+    await waitFor(() => expect(downloads).toHaveLength(1));
+    expect(downloads[0].filename).toBe("de-sle-vs-healthy-classical-monocyte.tsv");
+    expect(downloads[0].type).toContain("text/tab-separated-values");
+    const lines = (await downloads[0].text()).trim().split("\n");
+    expect(lines[0]).toBe("gene\tlogfc\tp_val\tp_val_adj\tgroups");
+    expect(lines).toHaveLength(total + 1);
+  });
+
+  it("offers every functional group in the contrast before any page shows them", async () => {
+    renderPanel();
+    await screen.findByText(/^Rows 1–50 of /);
+
+    await waitFor(() => expect(groupOptions()).toEqual(ALL_GROUPS));
+  });
+
+  it("collects the functional groups from the full table when the backend does not list them", async () => {
+    const unlisted = vi.fn(async (input: RequestInfo | URL) => {
+      const body = await (await handleMockRequest(String(input))).json();
+      delete body.groups;
+      return jsonResponse(body);
+    });
+    vi.stubGlobal("fetch", unlisted);
+    renderPanel();
+
+    await waitFor(() => expect(groupOptions()).toEqual(ALL_GROUPS));
+    expect(unlisted.mock.calls.some(([input]) => new URL(String(input)).searchParams.get("limit") === "1000")).toBe(true);
+  });
+});
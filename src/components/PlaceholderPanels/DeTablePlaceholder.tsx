@@ -0,0 +1,389 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { DeResponse, DeSortField, DeTableQuery, Manifest } from "../../lib/types";
+import { DEFAULT_RESOLVED_BASE, fetchAllDeRows, fetchDeGroups, fetchDeTable, isAbortError } from "../../lib/api";
+import { DELIMITED_MIME, formatDelimited, type DelimitedFormat } from "../../lib/delimited";
+import { downloadText, fileSlug } from "../../lib/download";
+import { describeError } from "../../lib/errors";
+import { getStoredApiBase } from "../../lib/storage";
+import { describeApiError } from "../../lib/validate";
+
+const PAGE_SIZES = [25, 50, 100];
+const DEFAULT_PAGE_SIZE = 50;
+const EXPORT_HEADER = ["gene", "logfc", "p_val", "p_val_adj", "groups"];
+
+type Direction = "" | "up" | "down";
+type Sort = { by: DeSortField; order: "asc" | "desc" } | null;
+
+type DeTablePlaceholderProps = {
+  manifest: Manifest | null;
+  disease: string;
+  referenceDisease: string;
+  selectedCellTypes: string[];
+  // Accessions the cells are restricted to; null for all
+  accessionFilter?: string[] | null;
+};
+
+function formatPValue(value: number | undefined) {
+  if (value === undefined || value === null) return "—";
+  return value === 0 || value >= 0.001 ? value.toFixed(3) : value.toExponential(2);
+}
+
+export default function DeTablePlaceholder({
+  manifest,
+  disease,
+  referenceDisease,
+  selectedCellTypes,
+  accessionFilter,
+}: DeTablePlaceholderProps) {
+  const apiBase = getStoredApiBase() ?? DEFAULT_RESOLVED_BASE;
+  const diseases = useMemo(
+    () => (manifest?.diseases ?? []).filter((item) => item !== "Healthy" && item !== referenceDisease),
+    [manifest, referenceDisease],
+  );
+  const cellTypes = selectedCellTypes.length > 0 ? selectedCellTypes : manifest?.cell_types ?? [];
+
+  const [pickedDisease, setPickedDisease] = useState(disease);
+  const [pickedCellType, setPickedCellType] = useState(cellTypes[0] ?? "");
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
+  const [page, setPage] = useState(0);
+  const [sort, setSort] = useState<Sort>(null);
+  const [geneDraft, setGeneDraft] = useState("");
+  const [gene, setGene] = useState("");
+  const [direction, setDirection] = useState<Direction>("");
+  const [group, setGroup] = useState("");
+  const [contrastGroups, setContrastGroups] = useState<{ key: string; groups: string[] }>({ key: "", groups: [] });
+  const [response, setResponse] = useState<DeResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exportProgress, setExportProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportControllerRef = useRef<AbortController | null>(null);
+
+  // Fall back to the first available option when the selection disappears
+  const selectedDisease = diseases.includes(pickedDisease) ? pickedDisease : diseases.includes(disease) ? disease : diseases[0] ?? "";
+  const cellType = cellTypes.includes(pickedCellType) ? pickedCellType : cellTypes[0] ?? "";
+
+  const mapDiseaseLabel = (value: string) => {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === "normal") return "Healthy";
+    if (normalized === "ra") return "Rheumatoid arthritis";
+    if (normalized === "sjs") return "Sjögren syndrome";
+    if (normalized === "sle") return "Systemic lupus erythematosus";
+    return value;
+  };
+
+  // Everything except paging, shared by the table and the export
+  const query = useMemo<Omit<DeTableQuery, "limit" | "offset">>(
+    () => ({
+      disease: selectedDisease,
+      cellType,
+      reference: referenceDisease,
+      sortBy: sort?.by,
+      order: sort?.order,
+      gene: gene || undefined,
+      direction: direction || undefined,
+      group: group || undefined,
+      accessions: accessionFilter,
+    }),
+    [selectedDisease, cellType, referenceDisease, sort, gene, direction, group, accessionFilter],
+  );
+
+  useEffect(() => {
+    if (!query.disease || !query.cellType) return;
+    let active = true;
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+    fetchDeTable(apiBase, { ...query, limit: pageSize, offset: page * pageSize }, { signal: controller.signal })
+      .then((res) => {
+        if (!active) return;
+        if (!res.ok) {
+          setError(describeApiError(res, "Unable to load DE results"));
+          setResponse(null);
+          return;
+        }
+        setResponse(res);
+      })
+      .catch((err) => {
+        if (!active || isAbortError(err)) return;
+        setError(describeError(err));
+        setResponse(null);
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+    return () => {
+      active = false;
+      controller.abort();
+    };
+  }, [apiBase, query, page, pageSize]);
+
+  // The group filter offers every group in the contrast, not just those on the pages seen so far
+  const contrastKey = JSON.stringify([apiBase, selectedDisease, cellType, referenceDisease, accessionFilter ?? null]);
+  const knownGroups = contrastGroups.key === contrastKey ? contrastGroups.groups : [];
+  useEffect(() => {
+    if (!selectedDisease || !cellType) return;
+    const controller = new AbortController();
+    fetchDeGroups(
+      apiBase,
+      { disease: selectedDisease, cellType, reference: referenceDisease, accessions: accessionFilter },
+      { signal: controller.signal },
+    )
+      .then((groups) => {
+        if (!controller.signal.aborted) setContrastGroups({ key: contrastKey, groups });
+      })
+      .catch(() => {
+        // the table itself reports why the contrast failed
+      });
+    return () => controller.abort();
+  }, [apiBase, selectedDisease, cellType, referenceDisease, accessionFilter, contrastKey]);
+
+  // A new contrast or filter invalidates any export in flight
+  useEffect(() => {
+    return () => exportControllerRef.current?.abort();
+  }, [query]);
+
+  // Any change to what is listed starts again from the first page
+  const updateQuery = (apply: () => void) => {
+    apply();
+    setPage(0);
+  };
+
+  const toggleSort = (by: DeSortField) => {
+    // Largest fold changes and smallest p-values are the interesting end
+    const firstOrder = by === "logfc" ? "desc" : "asc";
+    updateQuery(() =>
+      setSort((prev) => {
+        if (!prev || prev.by !== by) return { by, order: firstOrder };
+        if (prev.order === firstOrder) return { by, order: firstOrder === "asc" ? "desc" : "asc" };
+        return null;
+      }),
+    );
+  };
+
+  const sortIndicator = (by: DeSortField) => (sort?.by === by ? (sort.order === "asc" ? " ▲" : " ▼") : "");
+
+  const handleExport = async (format: DelimitedFormat) => {
+    exportControllerRef.current?.abort();
+    const controller = new AbortController();
+    exportControllerRef.current = controller;
+    setExportError(null);
+    setExportProgress({ loaded: 0, total: response?.total ?? 0 });
+    try {
+      const rows = await fetchAllDeRows(apiBase, query, {
+        signal: controller.signal,
+        onPage: (loaded, total) => {
+          if (!controller.signal.aborted) setExportProgress({ loaded, total });
+        },
+      });
+      const text = formatDelimited(
+        EXPORT_HEADER,
+        rows.map((row) => [row.gene, row.logfc, row.p_val, row.p_val_adj ?? row.padj, (row.groups ?? []).join(";")]),
+        format,
+      );
+      const name = `de-${fileSlug(selectedDisease)}-vs-${fileSlug(referenceDisease)}-${fileSlug(cellType)}.${format}`;
+      downloadText(name, text, DELIMITED_MIME[format]);
+    } catch (err) {
+      if (!isAbortError(err)) setExportError(describeError(err));
+    } finally {
+      if (exportControllerRef.current === controller) {
+        exportControllerRef.current = null;
+        setExportProgress(null);
+      }
+    }
+  };
+
+  if (cellTypes.length === 0 || diseases.length === 0) {
+    return (
+      <div className="panel">
+        <div className="panel-header">
+          <div>
+            <div className="h3">DE table</div>
+            <div className="muted small">Select cell types in Analysis Setup to browse differential expression</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const rows = response?.rows ?? [];
+  const total = response?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const firstRow = total === 0 ? 0 : page * pageSize + 1;
+  const lastRow = Math.min(total, (page + 1) * pageSize);
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <div>
+          <div className="h3">DE table</div>
+          <div className="muted small">
+            All differential expression results: {mapDiseaseLabel(selectedDisease)} vs {mapDiseaseLabel(referenceDisease)} in{" "}
+            {cellType}
+          </div>
+        </div>
+        <div className="row gap-sm">
+          {exportProgress ? (
+            <>
+              <span className="muted small">
+                Exporting {exportProgress.loaded.toLocaleString()}/{exportProgress.total.toLocaleString()} rows…
+              </span>
+              <button type="button" className="btn btn-sm ghost" onClick={() => exportControllerRef.current?.abort()}>
+                Cancel
+              </button>
+            </>
+          ) : (
+            <>
+              <button type="button" className="btn btn-sm ghost" disabled={total === 0} onClick={() => void handleExport("csv")}>
+                Export CSV
+              </button>
+              <button type="button" className="btn btn-sm ghost" disabled={total === 0} onClick={() => void handleExport("tsv")}>
+                Export TSV
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="panel-controls">
+        <label className="control">
+          <span>Disease</span>
+          <select value={selectedDisease} onChange={(event) => updateQuery(() => setPickedDisease(event.target.value))}>
+            {diseases.map((item) => (
+              <option key={item} value={item}>
+                {mapDiseaseLabel(item)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="control">
+          <span>Cell type</span>
+          <select value={cellType} onChange={(event) => updateQuery(() => setPickedCellType(event.target.value))}>
+            {cellTypes.map((item) => (
+              <option key={item} value={item}>
+                {item}
+              </option>
+            ))}
+          </select>
+        </label>
+        <form
+          className="control"
+          onSubmit={(event) => {
+            event.preventDefault();
+            updateQuery(() => setGene(geneDraft.trim().toUpperCase()));
+          }}
+        >
+          <span>Gene contains</span>
+          <input
+            className="input"
+            value={geneDraft}
+            onChange={(event) => setGeneDraft(event.target.value)}
+            onBlur={() => updateQuery(() => setGene(geneDraft.trim().toUpperCase()))}
+            placeholder="e.g. IFI"
+          />
+        </form>
+        <label className="control narrow">
+          <span>Direction</span>
+          <select value={direction} onChange={(event) => updateQuery(() => setDirection(event.target.value as Direction))}>
+            <option value="">Both</option>
+            <option value="up">Up</option>
+            <option value="down">Down</option>
+          </select>
+        </label>
+        <label className="control">
+          <span>Functional group</span>
+          <select value={group} onChange={(event) => updateQuery(() => setGroup(event.target.value))}>
+            <option value="">Any</option>
+            {(group && !knownGroups.includes(group) ? [group, ...knownGroups] : knownGroups).map((item) => (
+              <option key={item} value={item}>
+                {item}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error ? <div className="error-banner">{error}</div> : null}
+      {exportError ? <div className="error-banner">Export failed: {exportError}</div> : null}
+
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>Gene</th>
+            <th>
+              <button type="button" className="th-sort" onClick={() => toggleSort("logfc")}>
+                logFC{sortIndicator("logfc")}
+              </button>
+            </th>
+            <th>p_val</th>
+            <th>
+              <button type="button" className="th-sort" onClick={() => toggleSort("padj")}>
+                padj{sortIndicator("padj")}
+              </button>
+            </th>
+            <th>Functional groups</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.length === 0 ? (
+            <tr>
+              <td colSpan={5} className="muted">
+                {loading ? "Loading…" : "No matching genes"}
+              </td>
+            </tr>
+          ) : (
+            rows.map((row) => (
+              <tr key={row.gene}>
+                <td>
+                  <strong>{row.gene}</strong>
+                </td>
+                <td style={{ color: row.logfc > 0 ? "#ef4444" : "#3b82f6" }}>
+                  {row.logfc > 0 ? "+" : ""}
+                  {row.logfc.toFixed(2)}
+                </td>
+                <td className="mono">{formatPValue(row.p_val)}</td>
+                <td className="mono">{formatPValue(row.p_val_adj ?? row.padj)}</td>
+                <td className="muted small">{row.groups?.length ? row.groups.join(", ") : "—"}</td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+
+      <div className="row between pager">
+        <span className="muted small">
+          {total > 0 ? `Rows ${firstRow.toLocaleString()}–${lastRow.toLocaleString()} of ${total.toLocaleString()}` : ""}
+        </span>
+        <div className="row gap-sm">
+          <label className="row gap-sm muted small">
+            Rows per page
+            <select
+              value={pageSize}
+              onChange={(event) => updateQuery(() => setPageSize(Number(event.target.value)))}
+            >
+              {PAGE_SIZES.map((size) => (
+                <option key={size} value={size}>
+                  {size}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button type="button" className="btn btn-sm ghost" disabled={page === 0} onClick={() => setPage((prev) => prev - 1)}>
+            Previous
+          </button>
+          <span className="muted small">
+            Page {page + 1} of {pageCount}
+          </span>
+          <button
+            type="button"
+            className="btn btn-sm ghost"
+            disabled={page + 1 >= pageCount}
+            onClick={() => setPage((prev) => prev + 1)}
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import DotplotPlaceholder from "./DotplotPlaceholder";
+import { setStoredApiBase } from "../../lib/storage";
+import { TEST_API_BASE, jsonResponse, lastTraces, serveMockAtlas, stubPlotly, type PlotlyStub } from "../../test/utils";
+
+describe("DotplotPlaceholder", () => {
+  let plotly: PlotlyStub;
+
+  beforeEach(() => {
+    plotly = stubPlotly();
+  });
+
+  it("plots the panel genes for the selected cell types", async () => {
+    const fetchMock = serveMockAtlas();
+    render(
+      <DotplotPlaceholder genes={["IL7R", "CCR7", "NOTAGENE"]} selectedCellTypes={["NK", "pDC"]} markerPanel="T cell" tissue="Blood" />,
+    );
+
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+    const url = new URL(String(fetchMock.mock.calls[0][0]));
+    expect(url.pathname).toBe("/atlas/dotplot");
+    expect(url.searchParams.get("genes")).toBe("IL7R,CCR7,NOTAGENE");
+    const [trace] = lastTraces(plotly);
+    expect(new Set(trace.x as string[])).toEqual(new Set(["NK", "pDC"]));
+    expect(new Set(trace.y as string[])).toEqual(new Set(["IL7R", "CCR7"]));
+    expect(screen.getByText("NOTAGENE")).toBeTruthy();
+  });
+
+  it("draws one facet per disease when split", async () => {
+    const fetchMock = serveMockAtlas();
+    render(<DotplotPlaceholder genes={["IL7R", "CCR7"]} selectedCellTypes={[]} markerPanel="T cell" tissue="Blood" />);
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+
+    fireEvent.change(screen.getByDisplayValue("All diseases pooled"), { target: { value: "split" } });
+    await waitFor(() => expect(lastTraces(plotly)).toHaveLength(4));
+    expect(new URL(String(fetchMock.mock.calls[fetchMock.mock.calls.length - 1][0])).pathname).toBe("/atlas/dotplot_by_disease");
+    expect(lastTraces(plotly).map((trace) => trace.xaxis)).toEqual(["x", "x2", "x3", "x4"]);
+  });
+
+  it("reads percentages in one unit across every disease facet", async () => {
+    setStoredApiBase(TEST_API_BASE);
+    const facet = (pct: number) => ({ groups: ["NK"], genes: ["IL7R"], avg: [[1]], pct: [[pct]] });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (input: RequestInfo | URL) =>
+        new URL(String(input)).pathname.endsWith("/dotplot_by_disease")
+          ? jsonResponse({ ok: true, genes: ["IL7R"], diseases: { Healthy: facet(0.5), SLE: facet(40) } })
+          : jsonResponse({ ok: true, groups: ["NK"], genes: ["IL7R"], avg: [[1]], pct: [[0.25]] }),
+      ),
+    );
+    render(<DotplotPlaceholder genes={["IL7R"]} selectedCellTypes={[]} markerPanel="T cell" tissue="Blood" />);
+
+    await waitFor(() => expect(lastTraces(plotly)[0]?.hovertext).toEqual([expect.stringContaining("% expressing: 25.0%")]));
+
+    fireEvent.change(screen.getByDisplayValue("All diseases pooled"), { target: { value: "split" } });
+    await waitFor(() => expect(lastTraces(plotly)).toHaveLength(2));
+    const [healthy, sle] = lastTraces(plotly);
+    expect(healthy.hovertext).toEqual([expect.stringContaining("% expressing: 0.5%")]);
+    expect(sle.hovertext).toEqual([expect.stringContaining("% expressing: 40.0%")]);
+  });
+});
@@ -0,0 +1,365 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { DotplotByDiseaseResponse, DotplotResponse } from "../../lib/types";
+import { DEFAULT_RESOLVED_BASE, fetchDotplot, fetchDotplotByDisease } from "../../lib/api";
+import { getStoredApiBase } from "../../lib/storage";
+import { describeApiError } from "../../lib/validate";
+import { hierarchicalOrder } from "../../lib/stats";
+import { fileSlug } from "../../lib/download";
+import type { DataTable } from "../../lib/dataExport";
+import DataExportMenu from "../DataExportMenu";
+import PlotExportMenu from "../PlotExportMenu";
+
+type DotplotPlaceholderProps = {
+  genes: string[];
+  selectedCellTypes: string[];
+  markerPanel: string;
+  tissue?: string;
+};
+
+type View = "combined" | "split";
+type Ordering = "listed" | "clustered";
+
+// One facet of the plot: rows are groups (cell types), columns are genes
+type Facet = {
+  label: string;
+  groups: string[];
+  genes: string[];
+  avg: number[][];
+  pct: number[][];
+};
+
+const MAX_DOT_SIZE = 18;
+const SIZE_LEGEND = [25, 50, 75, 100];
+
+function dotSize(pct: number) {
+  return Math.max(2, Math.sqrt(Math.max(0, Math.min(pct, 100)) / 100) * MAX_DOT_SIZE);
+}
+
+// Backends report pct as either a fraction or a percentage. The unit is read once from every matrix
+// of a response, since a single facet of low percentages can look like fractions
+function percentScale(matrices: number[][][]) {
+  const max = Math.max(0, ...matrices.flatMap((matrix) => matrix.flat()));
+  return max <= 1 ? 100 : 1;
+}
+
+function mapDiseaseLabel(value: string) {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "normal") return "Healthy";
+  if (normalized === "ra" || normalized === "rheumatoid arthritis") return "Rheumatoid arthritis";
+  if (normalized === "sjs") return "Sjögren syndrome";
+  if (normalized === "sle" || normalized === "systemic lupus erythematosus") return "Systemic lupus erythematosus";
+  return value;
+}
+
+export default function DotplotPlaceholder({ genes, selectedCellTypes, markerPanel, tissue }: DotplotPlaceholderProps) {
+  const apiBase = getStoredApiBase() ?? DEFAULT_RESOLVED_BASE;
+  const [view, setView] = useState<View>("combined");
+  const [ordering, setOrdering] = useState<Ordering>("listed");
+  const [combined, setCombined] = useState<DotplotResponse | null>(null);
+  const [byDisease, setByDisease] = useState<DotplotByDiseaseResponse | null>(null);
+  // Outcome of the latest request, tagged with the request it answers
+  const [settled, setSettled] = useState<{ key: string; error: string | null }>({ key: "", error: null });
+  const plotRef = useRef<HTMLDivElement | null>(null);
+
+  const requestKey = JSON.stringify([apiBase, genes, view]);
+  const loading = genes.length > 0 && settled.key !== requestKey;
+  const error = settled.key === requestKey ? settled.error : null;
+
+  useEffect(() => {
+    if (genes.length === 0) return;
+    let active = true;
+    const controller = new AbortController();
+
+    const request =
+      view === "combined"
+        ? fetchDotplot(apiBase, genes, "cell_type", { signal: controller.signal }).then((res) => {
+            if (!active) return;
+            if (!res.ok) {
+              setSettled({ key: requestKey, error: describeApiError(res, "Unable to load dot plot") });
+              setCombined(null);
+              return;
+            }
+            setCombined(res);
+            setSettled({ key: requestKey, error: null });
+          })
+        : fetchDotplotByDisease(apiBase, genes, "cell_type", { signal: controller.signal }).then((res) => {
+            if (!active) return;
+            if (!res.ok) {
+              setSettled({ key: requestKey, error: describeApiError(res, "Unable to load dot plot by disease") });
+              setByDisease(null);
+              return;
+            }
+            setByDisease(res);
+            setSettled({ key: requestKey, error: null });
+          });
+
+    request.catch((err) => {
+      if (!active) return;
+      setSettled({ key: requestKey, error: String((err as Error).message ?? err) });
+    });
+
+    return () => {
+      active = false;
+      controller.abort();
+    };
+  }, [apiBase, genes, view, requestKey]);
+
+  const unknownGenes = (view === "combined" ? combined?.unknown : byDisease?.unknown) ?? [];
+
+  // Restrict each facet to the selected cell types
+  const facets = useMemo<Facet[]>(() => {
+    const selected = new Set(selectedCellTypes);
+    const restrict = (
+      label: string,
+      groups: string[],
+      facetGenes: string[],
+      avg: number[][],
+      pct: number[][],
+      scale: number,
+    ): Facet => {
+      const keep = groups.map((group, idx) => (selected.size === 0 || selected.has(group) ? idx : -1)).filter((idx) => idx >= 0);
+      return {
+        label,
+        groups: keep.map((idx) => groups[idx]),
+        genes: facetGenes,
+        avg: keep.map((idx) => avg[idx] ?? []),
+        pct: keep.map((idx) => (pct[idx] ?? []).map((value) => value * scale)),
+      };
+    };
+
+    if (view === "combined") {
+      if (!combined?.groups || !combined.genes || !combined.avg || !combined.pct) return [];
+      const scale = percentScale([combined.pct]);
+      return [restrict("All diseases", combined.groups, combined.genes, combined.avg, combined.pct, scale)];
+    }
+    if (!byDisease?.diseases) return [];
+    const entries = Object.entries(byDisease.diseases);
+    const scale = percentScale(entries.map(([, data]) => data.pct));
+    return entries.map(([disease, data]) =>
+      restrict(mapDiseaseLabel(disease), data.groups, data.genes, data.avg, data.pct, scale)
+    );
+  }, [view, combined, byDisease, selectedCellTypes]);
+
+  // Shared row/column order across facets so panels line up
+  const { geneOrder, groupOrder } = useMemo(() => {
+    const geneList = Array.from(new Set(facets.flatMap((facet) => facet.genes)));
+    const groupList = Array.from(new Set(facets.flatMap((facet) => facet.groups)));
+    if (ordering === "listed" || geneList.length === 0 || groupList.length === 0) {
+      return { geneOrder: geneList, groupOrder: groupList };
+    }
+
+    const lookup = (facet: Facet, group: string, gene: string) => {
+      const gi = facet.groups.indexOf(group);
+      const ci = facet.genes.indexOf(gene);
+      return gi >= 0 && ci >= 0 ? facet.avg[gi]?.[ci] ?? 0 : 0;
+    };
+    const geneVectors = geneList.map((gene) =>
+      facets.flatMap((facet) => groupList.map((group) => lookup(facet, group, gene)))
+    );
+    const groupVectors = groupList.map((group) =>
+      geneList.map((gene) => facets.reduce((sum, facet) => sum + lookup(facet, group, gene), 0) / facets.length)
+    );
+
+    return {
+      geneOrder: hierarchicalOrder(geneVectors).map((idx) => geneList[idx]),
+      groupOrder: hierarchicalOrder(groupVectors).map((idx) => groupList[idx]),
+    };
+  }, [facets, ordering]);
+
+  // avg/pct matrices in long form, in the plotted order
+  const buildTable = (): DataTable => ({
+    columns: ["disease", "cell_type", "gene", "avg_expression", "pct_expressing"],
+    rows: facets.flatMap((facet) =>
+      groupOrder.flatMap((group) => {
+        const gi = facet.groups.indexOf(group);
+        if (gi < 0) return [];
+        return geneOrder
+          .filter((gene) => facet.genes.includes(gene))
+          .map((gene) => {
+            const ci = facet.genes.indexOf(gene);
+            return [facet.label, group, gene, facet.avg[gi]?.[ci] ?? 0, facet.pct[gi]?.[ci] ?? 0];
+          });
+      }),
+    ),
+  });
+
+  useEffect(() => {
+    if (!plotRef.current || !window.Plotly || facets.length === 0) return;
+
+    const allAvg = facets.flatMap((facet) => facet.avg.flat());
+    const cmax = Math.max(0, ...allAvg);
+    const gap = facets.length > 1 ? 0.03 : 0;
+    const width = (1 - gap * (facets.length - 1)) / facets.length;
+
+    const layout: Record<string, unknown> = {
+      margin: { l: 90, r: 20, t: facets.length > 1 ? 30 : 10, b: 140 },
+      height: Math.max(360, geneOrder.length * 22 + 180),
+      yaxis: {
+        type: "category",
+        categoryorder: "array",
+        categoryarray: [...geneOrder].reverse(),
+        automargin: true,
+      },
+      annotations: [] as unknown[],
+      showlegend: false,
+    };
+
+    const traces = facets.map((facet, facetIdx) => {
+      const axisSuffix = facetIdx === 0 ? "" : String(facetIdx + 1);
+      const x: string[] = [];
+      const y: string[] = [];
+      const color: number[] = [];
+      const size: number[] = [];
+      const hover: string[] = [];
+
+      groupOrder.forEach((group) => {
+        const gi = facet.groups.indexOf(group);
+        if (gi < 0) return;
+        geneOrder.forEach((gene) => {
+          const ci = facet.genes.indexOf(gene);
+          if (ci < 0) return;
+          const avg = facet.avg[gi]?.[ci] ?? 0;
+          const pct = facet.pct[gi]?.[ci] ?? 0;
+          x.push(group);
+          y.push(gene);
+          color.push(avg);
+          size.push(dotSize(pct));
+          hover.push(`<b>${gene}</b><br>${group}${facets.length > 1 ? `<br>${facet.label}` : ""}<br>Avg expression: ${avg.toFixed(2)}<br>% expressing: ${pct.toFixed(1)}%`);
+        });
+      });
+
+      const start = facetIdx * (width + gap);
+      layout[`xaxis${axisSuffix}`] = {
+        domain: [start, start + width],
+        anchor: "y",
+        type: "category",
+        categoryorder: "array",
+        categoryarray: groupOrder,
+        tickangle: -45,
+        automargin: true,
+      };
+      if (facets.length > 1) {
+        (layout.annotations as unknown[]).push({
+          text: `<b>${facet.label}</b>`,
+          x: start + width / 2,
+          y: 1,
+          xref: "paper",
+          yref: "paper",
+          xanchor: "center",
+          yanchor: "bottom",
+          showarrow: false,
+          font: { size: 12 },
+        });
+      }
+
+      return {
+        type: "scatter",
+        mode: "markers",
+        x,
+        y,
+        xaxis: `x${axisSuffix}`,
+        yaxis: "y",
+        hovertext: hover,
+        hoverinfo: "text",
+        marker: {
+          color,
+          size,
+          cmin: 0,
+          cmax: cmax || 1,
+          colorscale: "Reds",
+          showscale: facetIdx === facets.length - 1,
+          colorbar: { title: "Avg expr", thickness: 12 },
+          line: { width: 0.5, color: "#cbd5e1" },
+        },
+      };
+    });
+
+    window.Plotly.react(plotRef.current, traces, layout, { displayModeBar: false, responsive: true });
+  }, [facets, geneOrder, groupOrder]);
+
+  if (genes.length === 0) {
+    return (
+      <div className="panel">
+        <div className="h3">Dot plot</div>
+        <div className="muted small">Select a marker panel to view expression across cell types</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <div>
+          <div className="h3">Dot plot</div>
+          <div className="muted small">
+            {markerPanel} markers ({genes.length} genes) · color: average expression · size: % cells expressing
+          </div>
+        </div>
+        <div className="row gap">
+          <div className="legend">
+            {SIZE_LEGEND.map((pct) => (
+              <span key={pct} className="legend-item">
+                <span className="dot" style={{ width: dotSize(pct), height: dotSize(pct), background: "#94a3b8" }} />
+                {pct}%
+              </span>
+            ))}
+          </div>
+          <DataExportMenu
+            apiBase={apiBase}
+            tissue={tissue}
+            filename={`dotplot-${fileSlug(markerPanel)}`}
+            filters={{
+              marker_panel: markerPanel,
+              genes: genes.join("; "),
+              cell_types: selectedCellTypes.length > 0 ? selectedCellTypes.join("; ") : "all",
+              view: view === "split" ? "split by disease" : "all diseases pooled",
+            }}
+            tables={facets.length > 0 ? [{ id: "dotplot", label: "Average and % expressing", build: buildTable }] : []}
+          />
+          <PlotExportMenu
+            plotRef={plotRef}
+            filename={`dotplot-${fileSlug(markerPanel)}`}
+            title={`${markerPanel} markers`}
+            caption={[
+              `${genes.length} genes per cell type, ${view === "split" ? "split by disease" : "all diseases pooled"}.`,
+              "Colour: average expression. Dot size: percentage of cells expressing (0–100%).",
+              `Cell types: ${selectedCellTypes.length > 0 ? selectedCellTypes.join(", ") : "all"}.`,
+              ordering === "clustered" ? "Genes ordered by hierarchical clustering." : "",
+            ].join(" ").trim()}
+          />
+        </div>
+      </div>
+
+      <div className="panel-controls">
+        <label className="control">
+          <span>View</span>
+          <select value={view} onChange={(event) => setView(event.target.value as View)}>
+            <option value="combined">All diseases pooled</option>
+            <option value="split">Split by disease</option>
+          </select>
+        </label>
+        <label className="control">
+          <span>Order</span>
+          <select value={ordering} onChange={(event) => setOrdering(event.target.value as Ordering)}>
+            <option value="listed">As listed</option>
+            <option value="clustered">Clustered rows and columns</option>
+          </select>
+        </label>
+      </div>
+
+      {unknownGenes.length > 0 ? (
+        <div className="warning-banner">
+          <strong>Not found in atlas:</strong> {unknownGenes.join(", ")}
+        </div>
+      ) : null}
+      {loading ? <div className="muted small">Loading...</div> : null}
+      {error ? <div className="error-banner">{error}</div> : null}
+
+      {facets.length > 0 ? (
+        <div className="plot-frame" ref={plotRef} style={{ height: Math.max(360, geneOrder.length * 22 + 180) }} />
+      ) : !loading && !error ? (
+        <div className="muted small" style={{ marginTop: 12 }}>No data available for this selection</div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import ExpressionPlaceholder from "./ExpressionPlaceholder";
+import { handleMockRequest } from "../../mock/server";
+import { setStoredApiBase } from "../../lib/storage";
+import { TEST_API_BASE, jsonResponse, lastTraces, serveMockAtlas, stubPlotly, type PlotlyStub } from "../../test/utils";
+
+function renderPanel(markerPanel = "SLE", mode: "single" | "compare" = "single", selectedCellTypes: string[] = []) {
+  return render(
+    <ExpressionPlaceholder
+      mode={mode}
+      disease="SLE"
+      leftDisease="SLE"
+      rightDisease="Healthy"
+      referenceDisease="Healthy"
+      selectedCellTypes={selectedCellTypes}
+      genes={[]}
+      markerPanels={["default", "SLE"]}
+      markerPanel={markerPanel}
+      onMarkerPanelChange={() => {}}
+    />,
+  );
+}
+
+type Layout = { shapes?: unknown[]; annotations?: unknown[]; xaxis?: { ticktext?: string[] }; yaxis?: { title?: string } };
+
+function requests(fetchMock: ReturnType<typeof vi.fn>, path: string) {
+  return fetchMock.mock.calls.map((call) => new URL(String(call[0]))).filter((url) => url.pathname === path);
+}
+
+describe("ExpressionPlaceholder", () => {
+  let plotly: PlotlyStub;
+
+  // Latest traces of one kind; the violins and the contribution heatmap are separate plots
+  const lastTracesOfType = (type: string) => {
+    const calls = plotly.react.mock.calls as unknown as Array<[HTMLDivElement, Array<Record<string, unknown>>]>;
+    return [...calls].reverse().find(([, traces]) => traces[0]?.type === type)?.[1] ?? [];
+  };
+  const lastLayout = () => {
+    const calls = plotly.react.mock.calls as unknown as Array<[HTMLDivElement, Array<Record<string, unknown>>, Layout]>;
+    return [...calls].reverse().find(([, traces]) => traces[0]?.type === "violin")?.[2] ?? {};
+  };
+
+  beforeEach(() => {
+    plotly = stubPlotly();
+  });
+
+  it("scores every cell by mean z-score and breaks the score down per gene", async () => {
+    const fetchMock = serveMockAtlas();
+    renderPanel();
+
+    expect(await screen.findByText(/each gene is z-scored across all included cells/)).toBeTruthy();
+    await waitFor(() => expect(lastTracesOfType("heatmap")).toHaveLength(1));
+    const [request] = requests(fetchMock, "/atlas/signature_score");
+    expect(request.searchParams.get("method")).toBe("zmean");
+    expect(request.searchParams.get("group_by")).toBe("disease");
+    expect(request.searchParams.get("genes")?.split(",")).toHaveLength(10);
+    expect(requests(fetchMock, "/atlas/violin")).toHaveLength(0);
+
+    const violins = lastTracesOfType("violin");
+    expect(violins.map((trace) => trace.name)).toEqual([
+      "Healthy",
+      "Rheumatoid arthritis",
+      "Systemic lupus erythematosus",
+      "Sjögren syndrome",
+    ]);
+    const means = violins.map((trace) => (trace.y as number[]).reduce((sum, value) => sum + value, 0) / (trace.y as number[]).length);
+    expect(means[2]).toBeGreaterThan(means[0]);
+
+    const [heatmap] = lastTracesOfType("heatmap");
+    expect(heatmap.x).toEqual(violins.map((trace) => trace.name));
+    expect(heatmap.y).toHaveLength(10);
+    expect(heatmap.zmid).toBe(0);
+  });
+
+  it("marks each disease against Healthy with a bracket, effect size and p-value", async () => {
+    serveMockAtlas();
+    renderPanel();
+    await waitFor(() => expect(lastTracesOfType("violin")).toHaveLength(4));
+    // Three comparisons, each a bracket drawn as three lines
+    await waitFor(() => expect(lastLayout().shapes).toHaveLength(9));
+    expect(lastLayout().annotations).toHaveLength(3);
+    expect(screen.getByText("Systemic lupus erythematosus vs Healthy")).toBeTruthy();
+    expect(screen.getAllByText(/\*\*\*\* p < 0\.0001/).length).toBeGreaterThan(0);
+
+    fireEvent.click(screen.getByLabelText("Show n, mean and median"));
+    await waitFor(() => expect(lastLayout().xaxis?.ticktext?.[0]).toMatch(/^Healthy<br>n /));
+
+    fireEvent.change(screen.getByLabelText("Comparisons"), { target: { value: "off" } });
+    await waitFor(() => expect(lastLayout().shapes).toHaveLength(0));
+    expect(screen.queryByText("Systemic lupus erythematosus vs Healthy")).toBeNull();
+  });
+
+  it("scores cell types within both diseases of a comparison", async () => {
+    const fetchMock = serveMockAtlas();
+    renderPanel("SLE", "compare");
+    await screen.findByText("10 genes in signature");
+
+    fireEvent.change(screen.getByLabelText("Group by"), { target: { value: "cell_type" } });
+    await waitFor(() => expect(lastTracesOfType("violin")).toHaveLength(2));
+    const scoped = requests(fetchMock, "/atlas/signature_score").filter((url) => url.searchParams.get("group_by") === "cell_type");
+    expect(scoped.map((url) => url.searchParams.get("disease"))).toEqual(["SLE", "Healthy"]);
+
+    const violins = lastTracesOfType("violin");
+    expect(violins.map((trace) => trace.name)).toEqual(["Systemic lupus erythematosus", "Healthy"]);
+    expect(new Set(violins[0].x as string[])).toContain("pDC");
+    await waitFor(() => expect((lastTracesOfType("heatmap")[0].x as string[])[0]).toMatch(/\(Systemic lupus erythematosus\)$/));
+  });
+
+  it("gives each selected cell type its own disease-split violin", async () => {
+    const fetchMock = serveMockAtlas();
+    renderPanel("SLE", "single", ["NK", "pDC"]);
+    await screen.findByText("10 genes in signature");
+
+    fireEvent.change(screen.getByLabelText("Group by"), { target: { value: "selected" } });
+    // Facets fill in as each cell type arrives
+    await waitFor(() => expect(Array.from(new Set(lastTracesOfType("violin")[0]?.x as string[]))).toEqual(["NK", "pDC"]));
+    const faceted = requests(fetchMock, "/atlas/signature_score").filter((url) => url.searchParams.has("cell_type"));
+    expect(faceted.map((url) => url.searchParams.get("cell_type")).sort()).toEqual(["NK", "pDC"]);
+    faceted.forEach((url) => expect(url.searchParams.get("group_by")).toBe("disease"));
+    expect(lastTracesOfType("violin").map((trace) => trace.name)).toEqual([
+      "Healthy",
+      "Rheumatoid arthritis",
+      "Systemic lupus erythematosus",
+      "Sjögren syndrome",
+    ]);
+
+    fireEvent.click(screen.getByLabelText("Split Systemic lupus erythematosus vs Healthy"));
+    await waitFor(() => expect(lastTracesOfType("violin")).toHaveLength(2));
+    expect(lastTracesOfType("violin").map((trace) => [trace.name, trace.side])).toEqual([
+      ["Healthy", "negative"],
+      ["Systemic lupus erythematosus", "positive"],
+    ]);
+  });
+
+  it("asks for a cell type selection before faceting", async () => {
+    serveMockAtlas();
+    renderPanel();
+    await screen.findByText("10 genes in signature");
+    fireEvent.change(screen.getByLabelText("Group by"), { target: { value: "selected" } });
+    expect(await screen.findByText(/Select cell types in Analysis Setup/)).toBeTruthy();
+  });
+
+  it("switches to rank-based UCell scores between 0 and 1", async () => {
+    serveMockAtlas();
+    renderPanel();
+    await screen.findByText("10 genes in signature");
+
+    fireEvent.change(screen.getByLabelText("Score"), { target: { value: "ucell" } });
+    expect(await screen.findByText(/expression ranks within each cell/)).toBeTruthy();
+    await waitFor(() => expect(lastTracesOfType("heatmap")[0]?.colorscale).toBe("Viridis"));
+    // The colour scale follows the selector at once; the axis waits for the UCell response
+    await waitFor(() => expect(lastLayout().yaxis?.title).toMatch(/^UCell score \(max rank/));
+    lastTracesOfType("violin").forEach((trace) =>
+      (trace.y as number[]).forEach((value) => {
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThanOrEqual(1);
+      }),
+    );
+  });
+
+  it("still pools every signature gene into one violin per disease on request", async () => {
+    const fetchMock = serveMockAtlas();
+    renderPanel();
+
+    expect(await screen.findByText("10 genes in signature")).toBeTruthy();
+    fireEvent.change(screen.getByLabelText("Score"), { target: { value: "pooled" } });
+    expect((screen.getByLabelText("Group by") as HTMLSelectElement).disabled).toBe(true);
+    await waitFor(() => expect(requests(fetchMock, "/atlas/violin")).toHaveLength(10));
+    await waitFor(() => expect(lastTraces(plotly)).toHaveLength(4));
+    const traces = lastTraces(plotly);
+    expect(traces.map((trace) => trace.name)).toEqual([
+      "Healthy",
+      "Rheumatoid arthritis",
+      "Systemic lupus erythematosus",
+      "Sjögren syndrome",
+    ]);
+    // Each gene contributes an equal share of the 2000-sample budget
+    traces.forEach((trace) => expect((trace.y as number[]).length).toBeGreaterThan(1900));
+  });
+
+  it("falls back to pooled expression on a backend without per-cell scoring", async () => {
+    setStoredApiBase(TEST_API_BASE);
+    const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      if (url.pathname.endsWith("/atlas/signature_score")) return jsonResponse({ detail: "Not Found" }, { status: 404 });
+      return handleMockRequest(url.toString());
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    renderPanel();
+
+    expect(await screen.findByText(/This backend does not score cells by signature/)).toBeTruthy();
+    expect((screen.getByLabelText("Score") as HTMLSelectElement).value).toBe("pooled");
+    await waitFor(() => expect(requests(fetchMock, "/atlas/violin")).toHaveLength(10));
+    expect(screen.queryByText(/HTTP 404/)).toBeNull();
+  });
+
+  it("lists genes that failed and retries only those", async () => {
+    setStoredApiBase(TEST_API_BASE);
+    let failIsg15 = true;
+    const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      if (failIsg15 && url.searchParams.get("gene") === "ISG15") {
+        return jsonResponse({ ok: false, error: "gene ISG15 not found" }, { status: 404 });
+      }
+      return handleMockRequest(url.toString());
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    renderPanel();
+    await screen.findByText("10 genes in signature");
+    fireEvent.change(screen.getByLabelText("Score"), { target: { value: "pooled" } });
+
+    expect(await screen.findByText("1 genes failed to load")).toBeTruthy();
+    expect(screen.getByText("ISG15")).toBeTruthy();
+
+    failIsg15 = false;
+    const callsBeforeRetry = fetchMock.mock.calls.length;
+    fireEvent.click(screen.getByRole("button", { name: "Retry failed" }));
+    await waitFor(() => expect(screen.queryByText("1 genes failed to load")).toBeNull());
+    expect(fetchMock.mock.calls.slice(callsBeforeRetry).map((call) => new URL(String(call[0])).searchParams.get("gene"))).toEqual([
+      "ISG15",
+    ]);
+  });
+
+  it("reports an empty signature", async () => {
+    setStoredApiBase(TEST_API_BASE);
+    vi.stubGlobal("fetch", vi.fn(async () => jsonResponse({ ok: true, genes: [] })));
+    renderPanel("default");
+    expect(await screen.findByText("No genes in this signature")).toBeTruthy();
+  });
+});
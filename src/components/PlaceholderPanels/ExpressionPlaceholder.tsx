@@ -1,7 +1,35 @@
-import { useEffect, useMemo, useRef, useState } from "react";
-import type { Mode, ViolinResponse } from "../../lib/types";
-import { DEFAULT_RESOLVED_BASE, fetchMarkers, fetchViolin } from "../../lib/api";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Mode, SignatureMethod, SignatureScoreResponse, ViolinResponse } from "../../lib/types";
+import {
+  DEFAULT_RESOLVED_BASE,
+  fetchAllSettled,
+  fetchMarkers,
+  fetchSignatureScore,
+  fetchViolin,
+  isAbortError,
+  type SettledItem,
+} from "../../lib/api";
+import { HttpError } from "../../lib/errors";
 import { getStoredApiBase } from "../../lib/storage";
+import { describeApiError } from "../../lib/validate";
+import { customPanelName, isCustomPanel } from "../../lib/genes";
+import { expandHistogram } from "../../lib/histogram";
+import { mean, quantile } from "../../lib/stats";
+import type { DataTableSource } from "../../lib/dataExport";
+import { fileSlug } from "../../lib/download";
+import {
+  COMPARISON_SCOPES,
+  SIGNIFICANCE_LEGEND,
+  comparisonTable,
+  plotComparisons,
+  summaryTickText,
+  type ComparisonScope,
+  type PlotSlot,
+} from "../../lib/comparisons";
+import BatchProgress from "../BatchProgress";
+import ComparisonTable from "../ComparisonTable";
+import DataExportMenu from "../DataExportMenu";
+import PlotExportMenu from "../PlotExportMenu";
 
 // Color palette for signatures/genes
 const SIGNATURE_COLORS: Record<string, string> = {
@@ -20,15 +48,93 @@ const GENE_COLORS = [
   "#9333ea", "#0891b2", "#db2777", "#ca8a04",
 ];
 
+type Scoring = SignatureMethod | "pooled";
+// "selected" scores every disease within each cell type picked in the analysis setup
+type ScoreGroupBy = "disease" | "cell_type" | "selected";
+
+// The first two are per-cell scores computed by the backend; pooling is kept for comparison
+const SCORINGS: Array<{ value: Scoring; label: string; description: string }> = [
+  {
+    value: "zmean",
+    label: "Mean z-score",
+    description: "Per-cell score: each gene is z-scored across all included cells, then averaged over the signature genes",
+  },
+  {
+    value: "ucell",
+    label: "UCell (rank-based)",
+    description:
+      "Per-cell score: Mann–Whitney U statistic of the signature genes' expression ranks within each cell, from 0 to 1; insensitive to sequencing depth",
+  },
+  {
+    value: "pooled",
+    label: "Pooled gene expression",
+    description: "Expression of every signature gene pooled per disease; a mixture of per-gene distributions, not a per-cell score",
+  },
+];
+
+const GROUP_BY: Array<{ value: ScoreGroupBy; label: string }> = [
+  { value: "disease", label: "Disease" },
+  { value: "cell_type", label: "Cell type" },
+  { value: "selected", label: "Selected cell types" },
+];
+
+// Samples drawn from each score histogram for the violins
+const SCORE_SAMPLES = 2000;
+const CELL_TYPE_SAMPLES = 500;
+
+function scoreAxisTitle(method: SignatureMethod, maxRank?: number) {
+  if (method === "zmean") return "Mean z-score";
+  return maxRank ? `UCell score (max rank ${maxRank})` : "UCell score";
+}
+
+// `/atlas/signature_score` is outside the original API; a backend without it answers 404, 405 or 501
+function isScoringUnsupported(error: unknown) {
+  return error instanceof HttpError && [404, 405, 501].includes(error.status);
+}
+
+// Cells one score request covers: all of them, one disease's (split by cell type) or one cell type's
+// (split by disease)
+type Scope = { disease: string | null; cellType: string | null };
+type ScoreScope = Scope & { response: SignatureScoreResponse };
+
+async function fetchScoreScope(
+  apiBase: string,
+  genes: string[],
+  method: SignatureMethod,
+  scope: Scope,
+  accessions: string[] | null | undefined,
+  signal?: AbortSignal,
+): Promise<ScoreScope> {
+  const groupBy = scope.disease ? "cell_type" : "disease";
+  const response = await fetchSignatureScore(apiBase, genes, method, groupBy, scope.disease, scope.cellType, accessions, {
+    signal,
+  });
+  if (!response.ok) throw new Error(describeApiError(response, "No signature scores"));
+  return { ...scope, response };
+}
+
+// A gene whose backend response is not ok counts as a failed item
+async function fetchSignatureGene(apiBase: string, gene: string, accessions: string[] | null | undefined, signal?: AbortSignal) {
+  const res = await fetchViolin(apiBase, gene, "disease", "hist", null, accessions, { signal });
+  if (!res.ok) throw new Error(describeApiError(res, "No expression data"));
+  return res;
+}
+
 type ExpressionPlaceholderProps = {
   mode: Mode;
   disease: string;
   leftDisease: string;
   rightDisease: string;
+  referenceDisease: string;
+  // Cell types picked in the analysis setup, one facet each in the "selected" view
+  selectedCellTypes: string[];
   genes: string[];
   markerPanels: string[];
   markerPanel: string;
   onMarkerPanelChange: (panel: string) => void;
+  tissue?: string;
+  // Accessions the cells are restricted to; null for all
+  accessionFilter?: string[] | null;
 };
 
 export default function ExpressionPlaceholder({
@@ -36,10 +142,14 @@ export default function ExpressionPlaceholder({
   disease,
   leftDisease,
   rightDisease,
+  referenceDisease,
+  selectedCellTypes,
   genes,
   markerPanels,
   markerPanel,
   onMarkerPanelChange,
+  tissue,
+  accessionFilter,
 }: ExpressionPlaceholderProps) {
   const apiBase = getStoredApiBase() ?? DEFAULT_RESOLVED_BASE;
 
@@ -53,6 +163,7 @@ export default function ExpressionPlaceholder({
   };
 
   const mapPanelLabel = (value: string) => {
+    if (isCustomPanel(value)) return `${customPanelName(value)} (custom)`;
     const normalized = value.trim().toLowerCase();
     if (normalized === "default") return "Default";
     if (normalized === "ra" || normalized === "rheumatoid arthritis") return "Rheumatoid arthritis";
@@ -67,18 +178,79 @@ export default function ExpressionPlaceholder({
     genes: string[];
     responses: Record<string, ViolinResponse>;
   } | null>(null);
+  const [scoringChoice, setScoringChoice] = useState<Scoring>("zmean");
+  // Backend found to have no per-cell scoring; pooled expression stands in for it there
+  const [unscoredBase, setUnscoredBase] = useState<string | null>(null);
+  const scoringSupported = unscoredBase !== apiBase;
+  const scoring: Scoring = scoringSupported ? scoringChoice : "pooled";
+  const [groupBy, setGroupBy] = useState<ScoreGroupBy>("disease");
+  const [scores, setScores] = useState<ScoreScope[]>([]);
+  const [split, setSplit] = useState(false);
+  const [comparisonScope, setComparisonScope] = useState<ComparisonScope>("reference");
+  const [showSummaries, setShowSummaries] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [failed, setFailed] = useState<Array<{ key: string; error: string }>>([]);
+  const [retrying, setRetrying] = useState(false);
+  const retryControllerRef = useRef<AbortController | null>(null);
   const plotRef = useRef<HTMLDivElement | null>(null);
+  const contributionRef = useRef<HTMLDivElement | null>(null);
+
+  // Custom panels live in the browser, so their genes come from props
+  const customGenes = isCustomPanel(markerPanel) ? genes : null;
+
+  // Pooling has no cell-level values to split by cell type
+  const scoreGroupBy: ScoreGroupBy = scoring === "pooled" ? "disease" : groupBy;
+  // Cell types are scored within the selected disease, or both sides of a comparison
+  const scopes = useMemo<Scope[]>(() => {
+    if (scoreGroupBy === "selected") return selectedCellTypes.map((cellType) => ({ disease: null, cellType }));
+    if (scoreGroupBy === "disease") return [{ disease: null, cellType: null }];
+    return (mode === "compare" ? [leftDisease, rightDisease] : [disease]).map((item) => ({ disease: item, cellType: null }));
+  }, [scoreGroupBy, mode, disease, leftDisease, rightDisease, selectedCellTypes]);
+
+  // The two halves of a split violin: the disease against the reference, or both sides of a comparison
+  const splitPair = useMemo(
+    () => (mode === "compare" ? [leftDisease, rightDisease] : [disease, referenceDisease]),
+    [mode, disease, leftDisease, rightDisease, referenceDisease],
+  );
+  const splitView = scoreGroupBy === "selected" && split && splitPair[0] !== splitPair[1];
+
+  // Fold each cell type into the facets as soon as it arrives
+  const recordScore = useCallback((item: SettledItem<string, ScoreScope>) => {
+    if (item.status === "fulfilled") {
+      setScores((prev) => [...prev.filter((entry) => entry.cellType !== item.key), item.value]);
+      setFailed((prev) => prev.filter((entry) => entry.key !== item.key));
+    } else {
+      setFailed((prev) => [...prev.filter((entry) => entry.key !== item.key), { key: item.key, error: item.error }]);
+    }
+  }, []);
+
+  // Fold each gene into the plot as soon as it arrives
+  const recordSettled = useCallback((item: SettledItem<string, ViolinResponse>) => {
+    if (item.status === "fulfilled") {
+      setSignatureData((prev) => (prev ? { ...prev, responses: { ...prev.responses, [item.key]: item.value } } : prev));
+      setFailed((prev) => prev.filter((entry) => entry.key !== item.key));
+    } else {
+      setFailed((prev) => [...prev.filter((entry) => entry.key !== item.key), { key: item.key, error: item.error }]);
+    }
+  }, []);
 
   // Load signature data when panel changes
   useEffect(() => {
-
     let active = true;
+    const controller = new AbortController();
     setLoading(true);
     setError(null);
+    setFailed([]);
+    setScores([]);
+    setProgress({ done: 0, total: 0 });
 
-    fetchMarkers(apiBase, markerPanel)
+    const markersRequest = customGenes
+      ? Promise.resolve({ ok: true, genes: customGenes })
+      : fetchMarkers(apiBase, markerPanel, { signal: controller.signal });
+
+    markersRequest
       .then(async (markersRes) => {
         if (!active) return;
         if (!markersRes.ok || markersRes.genes.length === 0) {
@@ -89,34 +261,73 @@ export default function ExpressionPlaceholder({
 
         // Fetch violin data for all genes in the signature
         const signatureGenes = markersRes.genes.slice(0, 50); // Limit to 50 genes for performance
-        const violinPromises = signatureGenes.map((gene) =>
-          fetchViolin(apiBase, gene, "disease", "hist")
-        );
-
-        const violinResults = await Promise.all(violinPromises);
-        if (!active) return;
-
-        const responses: Record<string, ViolinResponse> = {};
-        violinResults.forEach((res, idx) => {
-          if (res.ok) {
-            responses[signatureGenes[idx]] = res;
+        setSignatureData({ panel: markerPanel, genes: signatureGenes, responses: {} });
+
+        if (scoring !== "pooled" && scoreGroupBy === "selected") {
+          setProgress({ done: 0, total: scopes.length });
+          let unsupported = false;
+          const results = await fetchAllSettled(
+            scopes.map((scope) => scope.cellType ?? ""),
+            (cellType, signal) =>
+              fetchScoreScope(apiBase, signatureGenes, scoring, { disease: null, cellType }, accessionFilter, signal).catch(
+                (err: unknown) => {
+                  if (isScoringUnsupported(err)) unsupported = true;
+                  throw err;
+                },
+              ),
+            {
+              signal: controller.signal,
+              onSettled: (item, done, total) => {
+                if (!active) return;
+                recordScore(item);
+                setProgress({ done, total });
+              },
+            },
+          );
+          if (active && unsupported) {
+            setUnscoredBase(apiBase);
+            return;
           }
-        });
+          if (active && results.length > 0 && results.every((item) => item.status === "rejected")) {
+            setError("Unable to score the selected cell types");
+          }
+          return;
+        }
 
-        if (Object.keys(responses).length === 0) {
-          setError("Unable to load expression data for this signature");
-          setSignatureData(null);
+        if (scoring !== "pooled") {
+          const responses = await Promise.all(
+            scopes.map((scope) => fetchScoreScope(apiBase, signatureGenes, scoring, scope, accessionFilter, controller.signal)),
+          );
+          if (active) setScores(responses);
           return;
         }
 
-        setSignatureData({
-          panel: markerPanel,
-          genes: signatureGenes,
-          responses,
-        });
+        setProgress({ done: 0, total: signatureGenes.length });
+
+        const results = await fetchAllSettled(
+          signatureGenes,
+          (gene, signal) => fetchSignatureGene(apiBase, gene, accessionFilter, signal),
+          {
+            signal: controller.signal,
+            onSettled: (item, done, total) => {
+              if (!active) return;
+              recordSettled(item);
+              setProgress({ done, total });
+            },
+          },
+        );
+        if (!active) return;
+
+        if (results.every((item) => item.status === "rejected")) {
+          setError("Unable to load expression data for this signature");
+        }
       })
       .catch((err) => {
-        if (!active) return;
+        if (!active || isAbortError(err)) return;
+        if (isScoringUnsupported(err) && scoring !== "pooled") {
+          setUnscoredBase(apiBase);
+          return;
+        }
         setError(String((err as Error).message ?? err));
         setSignatureData(null);
       })
@@ -126,11 +337,58 @@ export default function ExpressionPlaceholder({
 
     return () => {
       active = false;
+      controller.abort();
+      retryControllerRef.current?.abort();
     };
-  }, [apiBase, markerPanel]);
+  }, [apiBase, markerPanel, customGenes, accessionFilter, scoring, scoreGroupBy, scopes, recordSettled, recordScore]);
+
+  const handleRetry = () => {
+    if (failed.length === 0 || !signatureData) return;
+    const controller = new AbortController();
+    retryControllerRef.current = controller;
+    const keys = failed.map((entry) => entry.key);
+    const signatureGenes = signatureData.genes;
+    setRetrying(true);
+    setError(null);
+    setProgress({ done: 0, total: keys.length });
+
+    // Failed keys are genes when pooling and cell types when faceting
+    const batch =
+      scoring === "pooled"
+        ? fetchAllSettled(keys, (gene, signal) => fetchSignatureGene(apiBase, gene, accessionFilter, signal), {
+            signal: controller.signal,
+            onSettled: (item, done, total) => {
+              if (controller.signal.aborted) return;
+              recordSettled(item);
+              setProgress({ done, total });
+            },
+          })
+        : fetchAllSettled(
+            keys,
+            (cellType, signal) =>
+              fetchScoreScope(apiBase, signatureGenes, scoring, { disease: null, cellType }, accessionFilter, signal),
+            {
+              signal: controller.signal,
+              onSettled: (item, done, total) => {
+                if (controller.signal.aborted) return;
+                recordScore(item);
+                setProgress({ done, total });
+              },
+            },
+          );
+    batch
+      .catch(() => {
+        // aborted by a panel change
+      })
+      .finally(() => {
+        if (retryControllerRef.current !== controller) return;
+        retryControllerRef.current = null;
+        setRetrying(false);
+      });
+  };
 
-  // Build signature plot traces (aggregate expression score)
-  const signaturePlotTraces = useMemo(() => {
+  // Aggregate expression samples per disease, pooled across the signature genes
+  const signatureSamples = useMemo(() => {
     if (!signatureData || Object.keys(signatureData.responses).length === 0) return [];
 
     const responses = signatureData.responses;
@@ -140,50 +398,237 @@ export default function ExpressionPlaceholder({
     const firstRes = responses[geneList[0]];
     if (!firstRes?.ok || !firstRes.groups || !firstRes.bins || !firstRes.counts) return [];
 
-    const diseaseGroups = firstRes.groups;
-    const color = SIGNATURE_COLORS[markerPanel] || "#2563eb";
-
-    // For each disease, aggregate expression across all signature genes
-    const traces: Array<Record<string, unknown>> = [];
-
-    diseaseGroups.forEach((disease, diseaseIdx) => {
+    return firstRes.groups.map((disease, diseaseIdx) => {
       const allSamples: number[] = [];
 
       geneList.forEach((gene) => {
         const res = responses[gene];
         if (!res?.ok || !res.bins || !res.counts) return;
 
-        const bins = res.bins;
-        const midpoints = bins.slice(0, -1).map((start, idx) => (start + bins[idx + 1]) / 2);
-        const counts = res.counts[diseaseIdx] ?? [];
-        const total = counts.reduce((sum, val) => sum + val, 0) || 1;
         const maxSamplesPerGene = Math.floor(2000 / geneList.length);
-
-        counts.forEach((count, binIdx) => {
-          const n = Math.round((count / total) * maxSamplesPerGene);
-          for (let i = 0; i < n; i += 1) {
-            allSamples.push(midpoints[binIdx]);
-          }
-        });
+        allSamples.push(...expandHistogram(res.bins, res.counts[diseaseIdx] ?? [], maxSamplesPerGene));
       });
 
-      traces.push({
-        type: "violin",
-        name: mapDiseaseLabel(disease),
-        x: Array(allSamples.length).fill(mapDiseaseLabel(disease)),
-        y: allSamples,
-        box: { visible: true, width: 0.1 },
-        meanline: { visible: true },
-        points: false,
-        line: { color },
-        fillcolor: color,
-        opacity: 0.7,
-        showlegend: false,
-      });
+      return { disease: mapDiseaseLabel(disease), samples: allSamples };
     });
+  }, [signatureData]);
+
+  // Per-cell score distributions, one entry per disease (and cell type) in scope order; the split view
+  // keeps only its two diseases
+  const scoreGroups = useMemo(() => {
+    const keep = new Set(splitPair.map(mapDiseaseLabel));
+    return scopes
+      .flatMap((scope) => {
+        const loaded = scores.find((item) => item.disease === scope.disease && item.cellType === scope.cellType);
+        if (!loaded) return [];
+        const { response } = loaded;
+        return (response.groups ?? []).map((group, idx) => ({
+          disease: mapDiseaseLabel(scope.disease ?? group),
+          cellType: scope.disease ? group : scope.cellType,
+          n: response.n?.[idx] ?? 0,
+          mean: response.mean?.[idx] ?? null,
+          bins: response.bins ?? [],
+          counts: response.counts?.[idx] ?? [],
+          samples: expandHistogram(
+            response.bins ?? [],
+            response.counts?.[idx] ?? [],
+            scoreGroupBy === "disease" ? SCORE_SAMPLES : CELL_TYPE_SAMPLES,
+          ),
+          contributions: (response.genes ?? []).map((gene, g) => ({ gene, value: response.contributions?.[idx]?.[g] ?? null })),
+        }));
+      })
+      .filter((item) => !splitView || keep.has(item.disease));
+  }, [scopes, scores, scoreGroupBy, splitView, splitPair]);
+
+  // Diseases drawn side by side (or as the two halves) within each cell type
+  const groupDiseases = useMemo(() => Array.from(new Set(scoreGroups.map((item) => item.disease))), [scoreGroups]);
+
+  // One slot per x category, in the order the traces put them on the axis
+  const slots = useMemo<PlotSlot[]>(() => {
+    if (scoreGroupBy === "disease") {
+      return scoreGroups.map((item) => ({ category: item.disease, groups: [{ name: item.disease, bins: item.bins, counts: item.counts }] }));
+    }
+    const categories = Array.from(
+      new Set(groupDiseases.flatMap((label) => scoreGroups.filter((item) => item.disease === label).map((item) => item.cellType ?? ""))),
+    );
+    return categories.map((category) => ({
+      category,
+      groups: groupDiseases.flatMap((label) => {
+        const item = scoreGroups.find((entry) => entry.disease === label && entry.cellType === category);
+        return item ? [{ name: label, bins: item.bins, counts: item.counts }] : [];
+      }),
+    }));
+  }, [scoreGroups, groupDiseases, scoreGroupBy]);
+
+  // Pooled samples are not cells, and a single disease per cell type leaves nothing to compare
+  const comparing =
+    scoring !== "pooled" && comparisonScope !== "off" && (scoreGroupBy === "disease" || groupDiseases.length > 1);
+  const stats = useMemo(
+    () => plotComparisons(slots, mapDiseaseLabel(referenceDisease), comparing ? comparisonScope : "off"),
+    [slots, referenceDisease, comparing, comparisonScope],
+  );
+
+  const scoredGenes = useMemo(() => scores[0]?.response.genes ?? [], [scores]);
+  const unknownGenes = scores[0]?.response.unknown ?? [];
+  const maxRank = scores[0]?.response.max_rank;
 
-    return traces;
-  }, [signatureData, markerPanel]);
+  // Build signature plot traces (aggregate expression score)
+  const signaturePlotTraces = useMemo(() => {
+    if (scoring !== "pooled") {
+      if (scoreGroupBy === "disease") {
+        return scoreGroups.map(({ disease: group, samples }) => {
+          const color = SIGNATURE_COLORS[group] ?? SIGNATURE_COLORS.default;
+          return {
+            type: "violin",
+            name: group,
+            x: Array(samples.length).fill(group),
+            y: samples,
+            box: { visible: true, width: 0.1 },
+            meanline: { visible: true },
+            points: false,
+            line: { color },
+            fillcolor: color,
+            opacity: 0.7,
+            showlegend: false,
+          };
+        });
+      }
+      // One trace per disease, its cell types along the axis; split halves share each cell type's slot
+      return groupDiseases.map((label, idx) => {
+        const color = SIGNATURE_COLORS[label] ?? SIGNATURE_COLORS.default;
+        const groups = scoreGroups.filter((item) => item.disease === label);
+        return {
+          type: "violin",
+          name: label,
+          x: groups.flatMap(({ cellType, samples }) => Array(samples.length).fill(cellType)),
+          y: groups.flatMap(({ samples }) => samples),
+          ...(splitView ? { side: idx === 0 ? "negative" : "positive", scalegroup: label } : {}),
+          box: { visible: true, width: splitView ? 0.2 : 0.1 },
+          meanline: { visible: true },
+          points: false,
+          line: { color },
+          fillcolor: color,
+          opacity: 0.7,
+          showlegend: groupDiseases.length > 1,
+        };
+      });
+    }
+
+    const color = SIGNATURE_COLORS[markerPanel] || "#2563eb";
+    return signatureSamples.map(({ disease, samples }) => ({
+      type: "violin",
+      name: disease,
+      x: Array(samples.length).fill(disease),
+      y: samples,
+      box: { visible: true, width: 0.1 },
+      meanline: { visible: true },
+      points: false,
+      line: { color },
+      fillcolor: color,
+      opacity: 0.7,
+      showlegend: false,
+    }));
+  }, [signatureSamples, markerPanel, scoring, scoreGroupBy, scoreGroups, groupDiseases, splitView]);
+
+  // genes × groups heatmap of the mean per-cell term of each gene; a column sums to the group mean
+  const contributionTraces = useMemo(() => {
+    if (scoreGroups.length === 0) return [];
+    const columns = scoreGroups.map(({ disease: group, cellType }) =>
+      !cellType ? group : groupDiseases.length > 1 ? `${cellType} (${group})` : cellType,
+    );
+    return [
+      {
+        type: "heatmap",
+        x: columns,
+        y: scoredGenes,
+        z: scoredGenes.map((_, g) => scoreGroups.map((item) => item.contributions[g]?.value ?? null)),
+        colorscale: scoring === "ucell" ? "Viridis" : "RdBu",
+        reversescale: scoring !== "ucell",
+        ...(scoring === "ucell" ? {} : { zmid: 0 }),
+        colorbar: { title: { text: "Contribution" } },
+        hovertemplate: "%{y} in %{x}: %{z:.3f}<extra></extra>",
+      },
+    ];
+  }, [scoreGroups, scoredGenes, groupDiseases.length, scoring]);
+
+  const groupColumns = scoreGroupBy === "disease" ? ["disease"] : ["disease", "cell_type"];
+  const groupCells = (item: { disease: string; cellType: string | null }) =>
+    item.cellType ? [item.disease, item.cellType] : [item.disease];
+
+  const scoreTables: DataTableSource[] = [
+    {
+      id: "summary",
+      label: "Score summary",
+      build: () => ({
+        columns: [...groupColumns, "cells", "mean", "q1", "median", "q3"],
+        rows: scoreGroups.map((item) => [
+          ...groupCells(item),
+          item.n,
+          item.mean,
+          quantile(item.samples, 0.25),
+          quantile(item.samples, 0.5),
+          quantile(item.samples, 0.75),
+        ]),
+      }),
+    },
+    {
+      id: "histogram",
+      label: "Score histograms",
+      build: () => ({
+        columns: [...groupColumns, "bin_start", "bin_end", "cells"],
+        rows: scoreGroups.flatMap((item) =>
+          item.counts.map((count, idx) => [...groupCells(item), item.bins[idx], item.bins[idx + 1], count]),
+        ),
+      }),
+    },
+    {
+      id: "contributions",
+      label: "Gene contributions",
+      build: () => ({
+        columns: [...groupColumns, "gene", "contribution"],
+        rows: scoreGroups.flatMap((item) => item.contributions.map(({ gene, value }) => [...groupCells(item), gene, value])),
+      }),
+    },
+  ];
+
+  const dataTables: DataTableSource[] = [
+    {
+      id: "samples",
+      label: "Signature samples",
+      build: () => ({
+        columns: ["disease", "sample", "expression"],
+        rows: signatureSamples.flatMap(({ disease, samples }) => samples.map((value, idx) => [disease, idx + 1, value])),
+      }),
+    },
+    {
+      id: "summary",
+      label: "Summary statistics",
+      build: () => ({
+        columns: ["disease", "n", "mean", "min", "q1", "median", "q3", "max"],
+        rows: signatureSamples.map(({ disease, samples }) => [
+          disease,
+          samples.length,
+          mean(samples),
+          quantile(samples, 0),
+          quantile(samples, 0.25),
+          quantile(samples, 0.5),
+          quantile(samples, 0.75),
+          quantile(samples, 1),
+        ]),
+      }),
+    },
+  ];
+
+  const scoringInfo = SCORINGS.find((item) => item.value === scoring) ?? SCORINGS[0];
+  const splitLabel = splitPair.map(mapDiseaseLabel).join(" vs ");
+  const groupLabel =
+    scoreGroupBy === "disease"
+      ? "disease"
+      : scoreGroupBy === "cell_type"
+        ? `cell type in ${scopes.map((item) => mapDiseaseLabel(item.disease ?? "")).join(" and ")}`
+        : `disease within ${selectedCellTypes.join(", ")}${splitView ? ` (${splitLabel})` : ""}`;
+
+  const summariesShown = showSummaries && scoring !== "pooled" && slots.length > 0;
 
   // Render plot
   useEffect(() => {
@@ -195,22 +640,103 @@ export default function ExpressionPlaceholder({
     const layout = {
       margin: { l: 60, r: 20, t: 10, b: 120 },
       height: 520,
-      yaxis: { title: "Signature Expression" },
-      xaxis: { automargin: true, tickangle: -45 },
-      violinmode: "overlay",
+      yaxis: {
+        title: scoring === "pooled" ? "Signature Expression" : scoreAxisTitle(scoring, maxRank),
+        ...(scoring !== "pooled" && stats.range ? { range: stats.range } : {}),
+      },
+      xaxis: {
+        automargin: true,
+        tickangle: summariesShown ? 0 : -45,
+        ...(summariesShown
+          ? {
+              tickmode: "array",
+              tickvals: slots.map((slot) => slot.category),
+              ticktext: slots.map((slot, idx) => summaryTickText(slot.category, stats.summaries[idx])),
+            }
+          : {}),
+      },
+      violinmode: scoreGroupBy === "disease" || splitView ? "overlay" : "group",
       violingap: 0.1,
       violingroupgap: 0.05,
+      shapes: scoring === "pooled" ? [] : stats.shapes,
+      annotations: scoring === "pooled" ? [] : stats.annotations,
     };
 
     window.Plotly.react(plotRef.current, traces, layout, { displayModeBar: false, responsive: true });
-  }, [signaturePlotTraces]);
+  }, [signaturePlotTraces, scoring, scoreGroupBy, splitView, maxRank, stats, slots, summariesShown]);
+
+  useEffect(() => {
+    if (!contributionRef.current || !window.Plotly || contributionTraces.length === 0) return;
+    const layout = {
+      margin: { l: 90, r: 20, t: 10, b: 120 },
+      height: Math.max(260, 22 * scoredGenes.length + 140),
+      xaxis: { automargin: true, tickangle: -45 },
+      yaxis: { automargin: true, autorange: "reversed" },
+    };
+    window.Plotly.react(contributionRef.current, contributionTraces, layout, { displayModeBar: false, responsive: true });
+  }, [contributionTraces, scoredGenes.length]);
 
   return (
     <div className="panel">
       <div className="panel-header">
         <div>
           <div className="h3">Violin</div>
-          <div className="muted small">Disease signature expression across conditions</div>
+          <div className="muted small">{scoringInfo.description}</div>
+        </div>
+        <div className="row gap-sm">
+          <DataExportMenu
+            apiBase={apiBase}
+            tissue={tissue}
+            filename={`signature-${fileSlug(markerPanel)}`}
+            filters={{
+              signature: mapPanelLabel(markerPanel),
+              scoring: scoringInfo.label,
+              ...(scoring === "pooled"
+                ? {
+                    genes: Object.keys(signatureData?.responses ?? {}).join("; "),
+                    group_by: "disease",
+                    // The violins are drawn from binned histograms, so the samples are bin centres
+                    samples: "expanded from per-gene histograms, up to 2000 per disease",
+                  }
+                : {
+                    genes: scoredGenes.join("; "),
+                    group_by: groupLabel,
+                    ...(maxRank ? { max_rank: String(maxRank) } : {}),
+                  }),
+              ...(accessionFilter ? { accessions: accessionFilter.join("; ") } : {}),
+            }}
+            tables={
+              scoring === "pooled"
+                ? signatureSamples.length > 0
+                  ? dataTables
+                  : []
+                : scoreGroups.length > 0
+                  ? [
+                      ...scoreTables,
+                      ...(stats.comparisons.length > 0
+                        ? [{ id: "comparisons", label: "Pairwise comparisons", build: () => comparisonTable(stats.comparisons) }]
+                        : []),
+                    ]
+                  : []
+            }
+          />
+          <PlotExportMenu
+            plotRef={plotRef}
+            filename={`signature-${fileSlug(markerPanel)}`}
+            title={`${mapPanelLabel(markerPanel)} signature ${scoring === "pooled" ? "expression" : "score"}`}
+            caption={
+              !signatureData
+                ? ""
+                : scoring === "pooled"
+                  ? `Pooled expression of ${Object.keys(signatureData.responses).length} of ${signatureData.genes.length} signature genes per disease group. Boxes show quartiles; the dashed line marks the mean.`
+                  : [
+                      `${scoringInfo.label} of ${scoredGenes.length} signature genes, computed per cell and shown per ${groupLabel}. Boxes show quartiles; the dashed line marks the mean.`,
+                      stats.comparisons.length > 0
+                        ? `Two-sided Mann–Whitney U tests on binned per-cell scores, Benjamini–Hochberg adjusted: ${SIGNIFICANCE_LEGEND}.`
+                        : "",
+                    ].join(" ").trim()
+            }
+          />
         </div>
       </div>
 
@@ -229,6 +755,64 @@ export default function ExpressionPlaceholder({
             ))}
           </select>
         </label>
+        <label className="control">
+          <span>Score</span>
+          <select value={scoring} onChange={(e) => setScoringChoice(e.target.value as Scoring)}>
+            {SCORINGS.map((item) => (
+              <option key={item.value} value={item.value} disabled={!scoringSupported && item.value !== "pooled"}>
+                {item.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="control">
+          <span>Group by</span>
+          <select
+            value={scoreGroupBy}
+            disabled={scoring === "pooled"}
+            onChange={(e) => setGroupBy(e.target.value as ScoreGroupBy)}
+          >
+            {GROUP_BY.map((item) => (
+              <option key={item.value} value={item.value}>
+                {item.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {scoreGroupBy === "selected" && (
+          <label className="checkbox-row control-check">
+            <input
+              type="checkbox"
+              checked={split}
+              disabled={splitPair[0] === splitPair[1]}
+              onChange={(event) => setSplit(event.target.checked)}
+            />
+            <span>Split {splitLabel}</span>
+          </label>
+        )}
+        <label className="control">
+          <span>Comparisons</span>
+          <select
+            value={comparisonScope}
+            disabled={scoring === "pooled"}
+            onChange={(e) => setComparisonScope(e.target.value as ComparisonScope)}
+          >
+            {COMPARISON_SCOPES.map((item) => (
+              <option key={item.value} value={item.value}>
+                {item.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="checkbox-row control-check">
+          <input
+            type="checkbox"
+            checked={showSummaries}
+            disabled={scoring === "pooled"}
+            onChange={(event) => setShowSummaries(event.target.checked)}
+          />
+          <span>Show n, mean and median</span>
+        </label>
         {signatureData && (
           <div className="muted small" style={{ marginLeft: 12, alignSelf: "flex-end", paddingBottom: 8 }}>
             {signatureData.genes.length} genes in signature
@@ -236,10 +820,42 @@ export default function ExpressionPlaceholder({
         )}
       </div>
 
-      {loading && <div className="muted small" style={{ marginTop: 12 }}>Loading signature data...</div>}
+      {loading && progress.total === 0 && <div className="muted small" style={{ marginTop: 12 }}>Loading signature data...</div>}
+      <BatchProgress
+        done={progress.done}
+        total={progress.total}
+        noun={scoring === "pooled" ? "genes" : "cell types"}
+        failed={failed}
+        onRetry={handleRetry}
+        retrying={retrying}
+      />
       {error && <div className="error-banner">{error}</div>}
+      {!scoringSupported && (
+        <div className="muted small">
+          This backend does not score cells by signature (no /atlas/signature_score); showing pooled expression instead.
+        </div>
+      )}
+      {scoreGroupBy === "selected" && selectedCellTypes.length === 0 && (
+        <div className="muted small">Select cell types in Analysis Setup to break the signature down by population</div>
+      )}
+
+      {unknownGenes.length > 0 && (
+        <div className="muted small">Not measured in this atlas, left out of the score: {unknownGenes.join(", ")}</div>
+      )}
 
       <div className="plot-frame large" ref={plotRef} />
+
+      {scoring !== "pooled" && <ComparisonTable comparisons={stats.comparisons} />}
+
+      {scoring !== "pooled" && scoreGroups.length > 0 && (
+        <>
+          <div className="label" style={{ marginTop: 16 }}>Per-gene contribution</div>
+          <div className="muted small">
+            Mean per-cell term of each gene; the terms in a column add up to that group's mean score.
+          </div>
+          <div className="plot-frame" ref={contributionRef} />
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,137 @@
+import { act, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import OverlapPlaceholder from "./OverlapPlaceholder";
+import { setStoredApiBase } from "../../lib/storage";
+import type { DeRow } from "../../lib/types";
+import { TEST_API_BASE, jsonResponse, lastTraces, serveMockAtlas, stubPlotly, type PlotlyStub } from "../../test/utils";
+
+const props = {
+  leftDisease: "SLE",
+  rightDisease: "RA",
+  referenceDisease: "Healthy",
+};
+
+const row = (gene: string, logfc = 0.1, padj = 0.5): DeRow => ({ gene, logfc, p_val: padj / 10, p_val_adj: padj });
+const tested = (count: number) => Array.from({ length: count }, (_, idx) => row(`G${idx}`));
+
+// Ten genes tested in both diseases, plus one significant gene each that the other disease never tested
+const TABLES: Record<string, DeRow[]> = {
+  SLE: [row("G0", 2, 0.001), row("G1", 2, 0.001), row("G2", 3, 0.001), row("G3", -2, 0.001), ...tested(10).slice(4), row("L1", 4, 1e-6)],
+  RA: [row("G1", 2, 0.001), row("G2", 2, 0.01), row("G4", 1.5, 0.01), ...tested(10).filter((item) => !["G1", "G2", "G4"].includes(item.gene)), row("R1", 4, 1e-6)],
+};
+
+function serveDeTables(tables: Record<string, DeRow[]>) {
+  setStoredApiBase(TEST_API_BASE);
+  const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+    const rows = tables[new URL(String(input)).searchParams.get("disease") ?? ""] ?? [];
+    return jsonResponse({ ok: true, total: rows.length, rows });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+const statValue = (label: string) => screen.getByText(label, { selector: ".stat-label" }).nextElementSibling?.textContent;
+
+describe("OverlapPlaceholder", () => {
+  let plotly: PlotlyStub;
+
+  beforeEach(() => {
+    plotly = stubPlotly();
+  });
+
+  it("takes the tested universe from the full DE tables", async () => {
+    const fetchMock = serveMockAtlas();
+    render(<OverlapPlaceholder {...props} selectedCellTypes={["NK"]} />);
+
+    expect(await screen.findByText("123 genes tested in both")).toBeTruthy();
+    const requests = fetchMock.mock.calls.map(([input]) => new URL(String(input)).searchParams);
+    expect(requests.map((params) => params.get("disease")).sort()).toEqual(["RA", "SLE"]);
+    requests.forEach((params) => {
+      expect(params.get("cell_type")).toBe("NK");
+      expect(params.get("limit")).toBe("1000");
+    });
+  });
+
+  it("counts only genes tested in both diseases", async () => {
+    serveDeTables(TABLES);
+    render(<OverlapPlaceholder {...props} selectedCellTypes={["NK"]} />);
+
+    expect(await screen.findByText("10 genes tested in both")).toBeTruthy();
+    expect(statValue("Shared")).toBe("2");
+    expect(statValue("Left-only")).toBe("2");
+    expect(statValue("Right-only")).toBe("1");
+    expect(statValue("Jaccard")).toBe("0.400");
+    expect(screen.getByText("Systemic lupus erythematosus (4)")).toBeTruthy();
+
+    fireEvent.click(screen.getByText("Shared", { selector: ".stat-label" }));
+    expect(screen.getByText("Shared (2)")).toBeTruthy();
+    expect(screen.getAllByText(/^G\d$/, { selector: ".chip" }).map((chip) => chip.textContent)).toEqual(["G1", "G2"]);
+
+    fireEvent.click(screen.getByText("Left-only", { selector: ".stat-label" }));
+    expect(screen.getByText("Systemic lupus erythematosus only (2)")).toBeTruthy();
+    expect(screen.queryByText("L1")).toBeNull();
+  });
+
+  it("applies the cut-off to padj when the backend reports no p_val_adj", async () => {
+    const padjOnly = (gene: string, padj: number): DeRow => ({ gene, logfc: 2, p_val: 0.001, padj });
+    serveDeTables({
+      SLE: [padjOnly("G0", 0.01), padjOnly("G1", 0.2)],
+      RA: [padjOnly("G0", 0.01), padjOnly("G1", 0.01)],
+    });
+    render(<OverlapPlaceholder {...props} selectedCellTypes={["NK"]} />);
+
+    expect(await screen.findByText("2 genes tested in both")).toBeTruthy();
+    expect(statValue("Shared")).toBe("1");
+    expect(statValue("Left-only")).toBe("0");
+    expect(statValue("Right-only")).toBe("1");
+  });
+
+  it("keeps the cell types that loaded and retries the ones that failed", async () => {
+    setStoredApiBase(TEST_API_BASE);
+    let failPdc = true;
+    const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+      const params = new URL(String(input)).searchParams;
+      if (failPdc && params.get("cell_type") === "pDC") return jsonResponse({ ok: false, error: "pDC unavailable" });
+      const rows = TABLES[params.get("disease") ?? ""];
+      return jsonResponse({ ok: true, total: rows.length, rows });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    render(<OverlapPlaceholder {...props} selectedCellTypes={["NK", "pDC"]} />);
+
+    expect(await screen.findByText("1 cell types failed to load")).toBeTruthy();
+    expect(screen.getByText("pDC", { selector: ".chip" }).title).toBe("pDC unavailable");
+    expect(statValue("Shared")).toBe("2");
+
+    failPdc = false;
+    fetchMock.mockClear();
+    fireEvent.click(screen.getByRole("button", { name: "Retry failed" }));
+    await waitFor(() => expect(screen.queryByText("1 cell types failed to load")).toBeNull());
+    fetchMock.mock.calls.forEach(([input]) => expect(new URL(String(input)).searchParams.get("cell_type")).toBe("pDC"));
+  });
+
+  it("narrows the sets to one direction", async () => {
+    serveDeTables(TABLES);
+    render(<OverlapPlaceholder {...props} selectedCellTypes={["NK"]} />);
+    await screen.findByText("10 genes tested in both");
+
+    fireEvent.change(screen.getByDisplayValue("Up and down"), { target: { value: "down" } });
+    await waitFor(() => expect(statValue("Left-only")).toBe("1"));
+    expect(statValue("Shared")).toBe("0");
+    expect(statValue("Right-only")).toBe("0");
+  });
+
+  it("draws the intersections across cell types as an UpSet plot", async () => {
+    serveDeTables(TABLES);
+    render(<OverlapPlaceholder {...props} selectedCellTypes={["NK", "pDC"]} />);
+    await screen.findByText("10 genes tested in both");
+
+    fireEvent.change(screen.getByDisplayValue("Pooled across cell types"), { target: { value: "cell_type" } });
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+    const [bars] = lastTraces(plotly);
+    // G1 and G2 are significant in all four sets, G0 and G3 only for SLE, G4 only for RA
+    expect(bars.y).toEqual([2, 2, 1]);
+
+    act(() => plotly.emit("plotly_click", { points: [{ curveNumber: 0, pointIndex: 0, pointNumber: 0 }] }));
+    await waitFor(() => expect(screen.getAllByText(/^G\d$/, { selector: ".chip" }).map((chip) => chip.textContent)).toEqual(["G1", "G2"]));
+  });
+});
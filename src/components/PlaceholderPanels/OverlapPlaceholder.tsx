@@ -1,43 +1,590 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { DeRow } from "../../lib/types";
+import { DEFAULT_RESOLVED_BASE, fetchAllDeRows, fetchAllSettled, isAbortError, type SettledItem } from "../../lib/api";
+import { describeError } from "../../lib/errors";
+import { getStoredApiBase } from "../../lib/storage";
+import { hypergeometricUpperTail } from "../../lib/stats";
+import { fileSlug } from "../../lib/download";
+import { DEFAULT_THRESHOLDS, passesThresholds } from "../../lib/volcano";
+import type { DataTableSource } from "../../lib/dataExport";
+import BatchProgress from "../BatchProgress";
+import DataExportMenu from "../DataExportMenu";
+import PlotExportMenu from "../PlotExportMenu";
+
 type OverlapPlaceholderProps = {
   leftDisease: string;
   rightDisease: string;
+  referenceDisease: string;
+  selectedCellTypes: string[];
+  tissue?: string;
+  // Accessions the cells are restricted to; null for all
+  accessionFilter?: string[] | null;
+};
+
+type Direction = "all" | "up" | "down";
+type Scope = "pooled" | "cell_type";
+
+type Region = {
+  label: string;
+  genes: string[];
+};
+
+type GeneSet = {
+  name: string;
+  genes: Set<string>;
+};
+
+type DePair = { left: DeRow[]; right: DeRow[] };
+
+// One selection's cell types as they settle; `key` ties it to the selection that requested it
+type Batch = {
+  key: string;
+  responses: Record<string, DePair>;
+  failed: Array<{ key: string; error: string }>;
+  progress: { done: number; total: number };
+  complete: boolean;
+  error: string | null;
 };
 
-export default function OverlapPlaceholder({ leftDisease, rightDisease }: OverlapPlaceholderProps) {
+function emptyBatch(key: string, total: number): Batch {
+  return { key, responses: {}, failed: [], progress: { done: 0, total }, complete: false, error: null };
+}
+
+function recordSettled(batch: Batch, item: SettledItem<string, DePair>, done: number, total: number): Batch {
+  const failed = batch.failed.filter((entry) => entry.key !== item.key);
+  return {
+    ...batch,
+    responses: item.status === "fulfilled" ? { ...batch.responses, [item.key]: item.value } : batch.responses,
+    failed: item.status === "rejected" ? [...failed, { key: item.key, error: item.error }] : failed,
+    progress: { done, total },
+  };
+}
+
+type Intersection = {
+  members: number[];
+  genes: string[];
+};
+
+// Same cut-offs, and the same p-value column fallbacks, as the volcano's defaults
+const THRESHOLDS = DEFAULT_THRESHOLDS;
+const MAX_INTERSECTIONS = 20;
+
+function isSignificant(row: DeRow, direction: Direction) {
+  if (!passesThresholds(row, THRESHOLDS)) return false;
+  if (direction === "up") return row.logfc > 0;
+  if (direction === "down") return row.logfc < 0;
+  return true;
+}
+
+function circleOverlapArea(r1: number, r2: number, d: number) {
+  if (d >= r1 + r2) return 0;
+  if (d <= Math.abs(r1 - r2)) return Math.PI * Math.min(r1, r2) ** 2;
+  const a = r1 * r1 * Math.acos((d * d + r1 * r1 - r2 * r2) / (2 * d * r1));
+  const b = r2 * r2 * Math.acos((d * d + r2 * r2 - r1 * r1) / (2 * d * r2));
+  const c = 0.5 * Math.sqrt((-d + r1 + r2) * (d + r1 - r2) * (d - r1 + r2) * (d + r1 + r2));
+  return a + b - c;
+}
+
+// Bisect for the centre distance whose lens area matches the shared count
+function solveCircleDistance(r1: number, r2: number, overlap: number) {
+  let lo = Math.abs(r1 - r2);
+  let hi = r1 + r2;
+  for (let i = 0; i < 60; i += 1) {
+    const mid = (lo + hi) / 2;
+    if (circleOverlapArea(r1, r2, mid) > overlap) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+function formatPValue(value: number) {
+  if (!Number.isFinite(value)) return "—";
+  if (value === 0) return "< 1e-300";
+  return value < 0.001 ? value.toExponential(2) : value.toFixed(3);
+}
+
+export default function OverlapPlaceholder({
+  leftDisease,
+  rightDisease,
+  referenceDisease,
+  selectedCellTypes,
+  tissue,
+  accessionFilter,
+}: OverlapPlaceholderProps) {
+  const apiBase = getStoredApiBase() ?? DEFAULT_RESOLVED_BASE;
+  const [batch, setBatch] = useState<Batch>(() => emptyBatch("", 0));
+  const [retrying, setRetrying] = useState(false);
+  const retryControllerRef = useRef<AbortController | null>(null);
+  const [direction, setDirection] = useState<Direction>("all");
+  const [scope, setScope] = useState<Scope>("pooled");
+  const [regionPick, setRegionPick] = useState<{ requestKey: string; region: Region } | null>(null);
+  const upsetRef = useRef<PlotlyHTMLElement | null>(null);
+
+  const mapDiseaseLabel = (value: string) => {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === "normal") return "Healthy";
+    if (normalized === "ra") return "Rheumatoid arthritis";
+    if (normalized === "sjs") return "Sjögren syndrome";
+    if (normalized === "sle") return "Systemic lupus erythematosus";
+    return value;
+  };
+
+  // Anything that changes what is fetched starts a new batch; results from an older one are dropped
+  const requestKey = JSON.stringify([apiBase, leftDisease, rightDisease, referenceDisease, selectedCellTypes, accessionFilter ?? null]);
+  const current = useMemo(
+    () => (batch.key === requestKey ? batch : emptyBatch(requestKey, selectedCellTypes.length)),
+    [batch, requestKey, selectedCellTypes.length],
+  );
+  const { responses, failed, progress, error } = current;
+  const loading = !current.complete;
+
+  // The listed region belongs to the selection it was picked from
+  const region = regionPick?.requestKey === requestKey ? regionPick.region : null;
+  const setRegion = (next: Region | null) => setRegionPick(next ? { requestKey, region: next } : null);
+
+  // Full DE tables: a significant gene can rank anywhere, and the universe is every gene tested
+  const fetchPair = useCallback(
+    async (cellType: string, signal?: AbortSignal): Promise<DePair> => {
+      const fetchRows = (disease: string) =>
+        fetchAllDeRows(apiBase, { disease, cellType, reference: referenceDisease, accessions: accessionFilter }, { signal });
+      const left = await fetchRows(leftDisease);
+      const right = await fetchRows(rightDisease);
+      return { left, right };
+    },
+    [apiBase, leftDisease, rightDisease, referenceDisease, accessionFilter],
+  );
+
+  // Fetch every selected cell type, a few at a time
+  useEffect(() => {
+    if (!leftDisease || !rightDisease || selectedCellTypes.length === 0) return;
+
+    const controller = new AbortController();
+    const update = (apply: (prev: Batch) => Batch) =>
+      setBatch((prev) => apply(prev.key === requestKey ? prev : emptyBatch(requestKey, selectedCellTypes.length)));
+
+    fetchAllSettled(selectedCellTypes, fetchPair, {
+      signal: controller.signal,
+      onSettled: (item, done, total) => {
+        if (controller.signal.aborted) return;
+        update((prev) => recordSettled(prev, item, done, total));
+      },
+    })
+      .then((results) => {
+        if (controller.signal.aborted) return;
+        const noData = results.every((item) => item.status === "rejected");
+        update((prev) => ({ ...prev, complete: true, error: noData ? "No data available for selected cell types in both diseases" : null }));
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        update((prev) => ({ ...prev, complete: true, error: describeError(err) }));
+      });
+    // Abort the previous batch when the selection changes or the panel unmounts
+    return () => {
+      controller.abort();
+      retryControllerRef.current?.abort();
+    };
+  }, [leftDisease, rightDisease, selectedCellTypes, requestKey, fetchPair]);
+
+  const handleRetry = () => {
+    if (failed.length === 0) return;
+    const controller = new AbortController();
+    retryControllerRef.current = controller;
+    const keys = failed.map((entry) => entry.key);
+    setRetrying(true);
+    setBatch({ ...current, progress: { done: 0, total: keys.length }, error: null });
+
+    fetchAllSettled(keys, fetchPair, {
+      signal: controller.signal,
+      onSettled: (item, done, total) => {
+        if (controller.signal.aborted) return;
+        setBatch((prev) => (prev.key === requestKey ? recordSettled(prev, item, done, total) : prev));
+      },
+    })
+      .catch(() => {
+        // aborted by a selection change
+      })
+      .finally(() => {
+        if (retryControllerRef.current !== controller) return;
+        retryControllerRef.current = null;
+        setRetrying(false);
+      });
+  };
+
+  const leftLabel = mapDiseaseLabel(leftDisease);
+  const rightLabel = mapDiseaseLabel(rightDisease);
+
+  // Pooled left/right sets, the tested universe, and per-cell-type sets. Only genes tested in both
+  // diseases are eligible, so both sets are drawn from the universe the hypergeometric test assumes
+  const { left, right, universe, cellTypeSets } = useMemo(() => {
+    const leftGenes = new Set<string>();
+    const rightGenes = new Set<string>();
+    const tested = new Set<string>();
+    const perCellType: GeneSet[] = [];
+
+    selectedCellTypes.forEach((cellType) => {
+      const pair = responses[cellType];
+      if (!pair) return;
+
+      const leftTested = new Set(pair.left.map((row) => row.gene));
+      const rightTested = new Set(pair.right.map((row) => row.gene));
+      const both = new Set(Array.from(leftTested).filter((gene) => rightTested.has(gene)));
+      both.forEach((gene) => tested.add(gene));
+
+      const significant = (rows: DeRow[]) =>
+        new Set(rows.filter((row) => both.has(row.gene) && isSignificant(row, direction)).map((row) => row.gene));
+      const leftSig = significant(pair.left);
+      const rightSig = significant(pair.right);
+      leftSig.forEach((gene) => leftGenes.add(gene));
+      rightSig.forEach((gene) => rightGenes.add(gene));
+      perCellType.push(
+        { name: `${leftLabel} · ${cellType}`, genes: leftSig },
+        { name: `${rightLabel} · ${cellType}`, genes: rightSig },
+      );
+    });
+
+    return {
+      left: leftGenes,
+      right: rightGenes,
+      universe: tested.size,
+      cellTypeSets: perCellType.filter((set) => set.genes.size > 0),
+    };
+  }, [responses, selectedCellTypes, direction, leftLabel, rightLabel]);
+
+  const stats = useMemo(() => {
+    const shared = Array.from(left).filter((gene) => right.has(gene)).sort();
+    const leftOnly = Array.from(left).filter((gene) => !right.has(gene)).sort();
+    const rightOnly = Array.from(right).filter((gene) => !left.has(gene)).sort();
+    const union = shared.length + leftOnly.length + rightOnly.length;
+    return {
+      shared,
+      leftOnly,
+      rightOnly,
+      jaccard: union > 0 ? shared.length / union : NaN,
+      pValue: union > 0 ? hypergeometricUpperTail(shared.length, universe, left.size, right.size) : NaN,
+    };
+  }, [left, right, universe]);
+
+  const intersections = useMemo<Intersection[]>(() => {
+    if (scope !== "cell_type" || cellTypeSets.length <= 2) return [];
+    const byKey = new Map<string, Intersection>();
+    const allGenes = new Set<string>();
+    cellTypeSets.forEach((set) => set.genes.forEach((gene) => allGenes.add(gene)));
+    allGenes.forEach((gene) => {
+      const members = cellTypeSets.map((set, idx) => (set.genes.has(gene) ? idx : -1)).filter((idx) => idx >= 0);
+      const key = members.join(",");
+      const existing = byKey.get(key);
+      if (existing) {
+        existing.genes.push(gene);
+      } else {
+        byKey.set(key, { members, genes: [gene] });
+      }
+    });
+    return Array.from(byKey.values())
+      .sort((a, b) => b.genes.length - a.genes.length || b.members.length - a.members.length)
+      .slice(0, MAX_INTERSECTIONS)
+      .map((item) => ({ ...item, genes: item.genes.sort() }));
+  }, [scope, cellTypeSets]);
+
+  // UpSet: intersection sizes on top, membership matrix below
+  useEffect(() => {
+    const root = upsetRef.current;
+    if (!root || !window.Plotly || intersections.length === 0) return;
+
+    const columns = intersections.map((_, idx) => idx);
+    const setIndices = cellTypeSets.map((_, idx) => idx);
+    const traces: Array<Record<string, unknown>> = [
+      {
+        type: "bar",
+        x: columns,
+        y: intersections.map((item) => item.genes.length),
+        text: intersections.map((item) => String(item.genes.length)),
+        textposition: "outside",
+        hovertext: intersections.map((item) => item.members.map((idx) => cellTypeSets[idx].name).join(" ∩ ")),
+        hoverinfo: "text",
+        marker: { color: "#2563eb" },
+        showlegend: false,
+      },
+      {
+        type: "scatter",
+        mode: "markers",
+        x: columns.flatMap((col) => setIndices.map(() => col)),
+        y: columns.flatMap(() => setIndices),
+        xaxis: "x",
+        yaxis: "y2",
+        hoverinfo: "skip",
+        marker: { size: 10, color: "#e2e8f0" },
+        showlegend: false,
+      },
+    ];
+    intersections.forEach((item, col) => {
+      traces.push({
+        type: "scatter",
+        mode: "lines+markers",
+        x: item.members.map(() => col),
+        y: item.members,
+        xaxis: "x",
+        yaxis: "y2",
+        hoverinfo: "skip",
+        marker: { size: 10, color: "#0f172a" },
+        line: { color: "#0f172a", width: 2 },
+        showlegend: false,
+      });
+    });
+
+    const layout = {
+      margin: { l: 220, r: 10, t: 10, b: 10 },
+      height: 260 + cellTypeSets.length * 22,
+      bargap: 0.3,
+      xaxis: { showticklabels: false, showgrid: false, zeroline: false, range: [-0.5, intersections.length - 0.5] },
+      yaxis: { domain: [0.5, 1], title: "Genes", automargin: true },
+      yaxis2: {
+        domain: [0, 0.46],
+        tickvals: setIndices,
+        ticktext: cellTypeSets.map((set) => `${set.name} (${set.genes.size})`),
+        range: [-0.5, cellTypeSets.length - 0.5],
+        autorange: "reversed",
+        showgrid: false,
+        zeroline: false,
+      },
+    };
+
+    window.Plotly.react(root, traces, layout, { displayModeBar: false, responsive: true });
+    root.removeAllListeners?.("plotly_click");
+    root.on?.("plotly_click", (event) => {
+      const point = event.points[0];
+      if (!point || point.curveNumber !== 0) return;
+      const item = intersections[point.pointIndex];
+      if (!item) return;
+      setRegionPick({
+        requestKey,
+        region: { label: item.members.map((idx) => cellTypeSets[idx].name).join(" ∩ "), genes: item.genes },
+      });
+    });
+  }, [intersections, cellTypeSets, requestKey]);
+
+  const venn = useMemo(() => {
+    const width = 420;
+    const height = 220;
+    if (left.size === 0 && right.size === 0) return null;
+    const r1 = Math.sqrt(left.size / Math.PI);
+    const r2 = Math.sqrt(right.size / Math.PI);
+    const d = r1 > 0 && r2 > 0 ? solveCircleDistance(r1, r2, stats.shared.length) : r1 + r2;
+    const span = Math.max(r1 + d + r2, 2 * r1, 2 * r2) || 1;
+    const scale = Math.min((width - 40) / span, (height - 40) / (2 * Math.max(r1, r2) || 1));
+    const cy = height / 2;
+    const cx1 = (width - (r1 + d + r2) * scale) / 2 + r1 * scale;
+    const cx2 = cx1 + d * scale;
+    return { width, height, cy, cx1, cx2, r1: r1 * scale, r2: r2 * scale };
+  }, [left, right, stats.shared.length]);
+
+  const regionLeftOnly = { label: `${leftLabel} only`, genes: stats.leftOnly };
+  const regionRightOnly = { label: `${rightLabel} only`, genes: stats.rightOnly };
+  const regionShared = { label: "Shared", genes: stats.shared };
+
+  const dataTables: DataTableSource[] = [
+    {
+      id: "regions",
+      label: "Venn regions",
+      build: () => ({
+        columns: ["gene", "region"],
+        rows: [
+          ...stats.shared.map((gene) => [gene, "shared"]),
+          ...stats.leftOnly.map((gene) => [gene, `${leftDisease} only`]),
+          ...stats.rightOnly.map((gene) => [gene, `${rightDisease} only`]),
+        ],
+      }),
+    },
+    {
+      id: "sets",
+      label: "Per-cell-type sets",
+      build: () => ({
+        columns: ["set", "gene"],
+        rows: cellTypeSets.flatMap((set) => Array.from(set.genes).sort().map((gene) => [set.name, gene])),
+      }),
+    },
+  ];
+
+  if (selectedCellTypes.length === 0) {
+    return (
+      <div className="panel">
+        <div className="panel-header">
+          <div>
+            <div className="h3">Overlap</div>
+            <div className="muted small">Select cell types in Analysis Setup to compare significant genes</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="panel">
       <div className="panel-header">
         <div>
           <div className="h3">Overlap</div>
-          <div className="muted small">Shared signals between {leftDisease} and {rightDisease}</div>
+          <div className="muted small">
+            Shared DE genes between {leftLabel} and {rightLabel}, each vs {mapDiseaseLabel(referenceDisease)} (|logFC| &gt; {THRESHOLDS.logfc}, {THRESHOLDS.field} &lt; {THRESHOLDS.pvalue})
+          </div>
         </div>
+        <DataExportMenu
+          apiBase={apiBase}
+          tissue={tissue}
+          filename={`overlap-${fileSlug(leftDisease)}-${fileSlug(rightDisease)}-vs-${fileSlug(referenceDisease)}`}
+          filters={{
+            left: leftDisease,
+            right: rightDisease,
+            reference: referenceDisease,
+            cell_types: selectedCellTypes.join("; "),
+            ...(accessionFilter ? { accessions: accessionFilter.join("; ") } : {}),
+            direction,
+            logfc_threshold: String(THRESHOLDS.logfc),
+            pvalue_threshold: String(THRESHOLDS.pvalue),
+            pvalue_field: THRESHOLDS.field,
+          }}
+          tables={left.size + right.size > 0 ? dataTables : []}
+        />
+      </div>
+
+      <div className="panel-controls">
+        <label className="control">
+          <span>Direction</span>
+          <select value={direction} onChange={(event) => setDirection(event.target.value as Direction)}>
+            <option value="all">Up and down</option>
+            <option value="up">Upregulated</option>
+            <option value="down">Downregulated</option>
+          </select>
+        </label>
+        <label className="control">
+          <span>Sets</span>
+          <select value={scope} onChange={(event) => setScope(event.target.value as Scope)}>
+            <option value="pooled">Pooled across cell types</option>
+            <option value="cell_type">Per cell type</option>
+          </select>
+        </label>
       </div>
 
+      <BatchProgress
+        done={progress.done}
+        total={progress.total}
+        noun="cell types"
+        failed={failed}
+        onRetry={handleRetry}
+        retrying={retrying}
+      />
+      {error ? <div className="error-banner">{error}</div> : null}
+
       <div className="overlap-stats">
-        <div className="stat">
+        <button type="button" className="stat clickable" onClick={() => setRegion(regionShared)}>
           <div className="stat-label">Shared</div>
-          <div className="stat-value">—</div>
-        </div>
-        <div className="stat">
+          <div className="stat-value">{stats.shared.length}</div>
+        </button>
+        <button type="button" className="stat clickable" onClick={() => setRegion(regionLeftOnly)}>
           <div className="stat-label">Left-only</div>
-          <div className="stat-value">—</div>
-        </div>
-        <div className="stat">
+          <div className="stat-value">{stats.leftOnly.length}</div>
+        </button>
+        <button type="button" className="stat clickable" onClick={() => setRegion(regionRightOnly)}>
           <div className="stat-label">Right-only</div>
-          <div className="stat-value">—</div>
-        </div>
+          <div className="stat-value">{stats.rightOnly.length}</div>
+        </button>
         <div className="stat">
           <div className="stat-label">Jaccard</div>
-          <div className="stat-value">—</div>
+          <div className="stat-value">{Number.isFinite(stats.jaccard) ? stats.jaccard.toFixed(3) : "—"}</div>
+        </div>
+        <div className="stat">
+          <div className="stat-label">Hypergeometric p</div>
+          <div className="stat-value">{formatPValue(stats.pValue)}</div>
+          <div className="muted small">{universe.toLocaleString()} genes tested in both</div>
         </div>
       </div>
 
-      <svg className="placeholder-svg" viewBox="0 0 420 200" aria-hidden="true">
-        <circle cx="170" cy="100" r="60" fill="#bfdbfe" opacity="0.7" />
-        <circle cx="250" cy="100" r="60" fill="#93c5fd" opacity="0.7" />
-        <text x="130" y="100" fill="#1e3a8a" fontSize="12">Left</text>
-        <text x="270" y="100" fill="#1e3a8a" fontSize="12">Right</text>
-      </svg>
+      {venn ? (
+        <svg className="placeholder-svg" viewBox={`0 0 ${venn.width} ${venn.height}`} role="img" aria-label="Proportional Venn diagram">
+          <circle
+            className="venn-region"
+            cx={venn.cx1}
+            cy={venn.cy}
+            r={venn.r1}
+            fill="#fca5a5"
+            opacity="0.6"
+            onClick={() => setRegion(regionLeftOnly)}
+          />
+          <circle
+            className="venn-region"
+            cx={venn.cx2}
+            cy={venn.cy}
+            r={venn.r2}
+            fill="#93c5fd"
+            opacity="0.6"
+            onClick={() => setRegion(regionRightOnly)}
+          />
+          <text x={venn.cx1 - venn.r1} y={18} fill="#991b1b" fontSize="12">
+            {leftLabel} ({left.size})
+          </text>
+          <text x={venn.cx2 + venn.r2} y={18} fill="#1e3a8a" fontSize="12" textAnchor="end">
+            {rightLabel} ({right.size})
+          </text>
+          {stats.shared.length > 0 ? (
+            <text
+              className="venn-region"
+              x={(venn.cx1 + venn.r1 + venn.cx2 - venn.r2) / 2}
+              y={venn.cy + 4}
+              fill="#0f172a"
+              fontSize="13"
+              fontWeight="600"
+              textAnchor="middle"
+              onClick={() => setRegion(regionShared)}
+            >
+              {stats.shared.length}
+            </text>
+          ) : null}
+        </svg>
+      ) : !loading && !error ? (
+        <div className="muted small" style={{ marginTop: 12 }}>No significant genes for this selection</div>
+      ) : null}
+
+      {intersections.length > 0 ? (
+        <>
+          <div className="row between" style={{ marginTop: 16 }}>
+            <div>
+              <div className="h4">Intersections across cell types</div>
+              <div className="muted small">Click a bar to list its genes</div>
+            </div>
+            <PlotExportMenu
+              plotRef={upsetRef}
+              filename={`upset-${fileSlug(leftDisease)}-${fileSlug(rightDisease)}-vs-${fileSlug(referenceDisease)}`}
+              title={`Shared DE genes across cell types: ${leftLabel} and ${rightLabel}`}
+              caption={[
+                `Significant genes (|logFC| > ${THRESHOLDS.logfc}, ${THRESHOLDS.field} < ${THRESHOLDS.pvalue}, ${direction === "all" ? "up or down" : `${direction}regulated`}) in either disease vs ${mapDiseaseLabel(referenceDisease)}, per cell type.`,
+                `Bars count genes found in exactly the cell types marked below; the ${intersections.length} largest intersections are shown.`,
+              ].join(" ")}
+            />
+          </div>
+          <div className="plot-frame" ref={upsetRef} style={{ height: 260 + cellTypeSets.length * 22 }} />
+        </>
+      ) : null}
+
+      {region ? (
+        <div className="card sub">
+          <div className="row between">
+            <div className="h3">{region.label} ({region.genes.length})</div>
+            <button type="button" className="btn btn-sm ghost" onClick={() => setRegion(null)}>
+              Close
+            </button>
+          </div>
+          {region.genes.length > 0 ? (
+            <div className="chips">
+              {region.genes.map((gene) => (
+                <span key={gene} className="chip">{gene}</span>
+              ))}
+            </div>
+          ) : (
+            <div className="muted small">No genes in this region</div>
+          )}
+        </div>
+      ) : null}
     </div>
   );
 }
@@ -0,0 +1,95 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import UMAPPlaceholder from "./UMAPPlaceholder";
+import { lastTraces, serveJson, serveMockAtlas, stubPlotly, type PlotlyStub } from "../../test/utils";
+
+const props = {
+  mode: "single" as const,
+  selectedCellTypes: [],
+  disease: "SLE",
+  leftDisease: "SLE",
+  rightDisease: "RA",
+  genes: ["IL7R", "CCR7"],
+};
+
+describe("UMAPPlaceholder", () => {
+  let plotly: PlotlyStub;
+
+  beforeEach(() => {
+    plotly = stubPlotly();
+  });
+
+  it("draws one trace per cell type for the selected disease", async () => {
+    const fetchMock = serveMockAtlas();
+    render(<UMAPPlaceholder {...props} />);
+
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+    const url = new URL(String(fetchMock.mock.calls[0][0]));
+    expect(url.pathname).toBe("/atlas/umap");
+    expect(url.searchParams.get("disease")).toBe("SLE");
+    expect(url.searchParams.get("color_by")).toBe("cell_type");
+    const traces = lastTraces(plotly);
+    expect(traces.map((trace) => trace.name)).toContain("NK");
+    traces.forEach((trace) => expect(trace.type).toBe("scattergl"));
+    const shown = traces.reduce((sum, trace) => sum + (trace.x as number[]).length, 0);
+    expect(screen.getByText(`${shown.toLocaleString()} cells shown`)).toBeTruthy();
+  });
+
+  it("hides and restores categories from the legend", async () => {
+    serveMockAtlas();
+    render(<UMAPPlaceholder {...props} />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "NK" }));
+    await waitFor(() => {
+      const nk = lastTraces(plotly).find((trace) => trace.name === "NK");
+      expect(nk?.visible).toBe("legendonly");
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "Hide all" }));
+    await waitFor(() => lastTraces(plotly).forEach((trace) => expect(trace.visible).toBe("legendonly")));
+
+    fireEvent.click(screen.getByRole("button", { name: "Show all" }));
+    await waitFor(() => lastTraces(plotly).forEach((trace) => expect(trace.visible).toBe(true)));
+  });
+
+  it("colours by disease when asked", async () => {
+    const fetchMock = serveMockAtlas();
+    render(<UMAPPlaceholder {...props} mode="compare" />);
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+
+    fireEvent.change(screen.getByDisplayValue("Cell type"), { target: { value: "disease" } });
+    await waitFor(() => expect(lastTraces(plotly).map((trace) => trace.name)).toEqual(["Healthy", "RA", "SjS", "SLE"]));
+    const url = new URL(String(fetchMock.mock.calls[fetchMock.mock.calls.length - 1][0]));
+    expect(url.searchParams.get("color_by")).toBe("disease");
+    expect(url.searchParams.get("disease")).toBeNull();
+  });
+
+  it("shades cells by the expression of the chosen gene", async () => {
+    const fetchMock = serveMockAtlas();
+    render(<UMAPPlaceholder {...props} />);
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+
+    fireEvent.change(screen.getByDisplayValue("Cell type"), { target: { value: "gene" } });
+    await waitFor(() => expect(lastTraces(plotly)).toHaveLength(2));
+    const url = new URL(String(fetchMock.mock.calls[fetchMock.mock.calls.length - 1][0]));
+    expect(url.searchParams.get("gene")).toBe("IL7R");
+    const [missing, expressed] = lastTraces(plotly);
+    expect(missing.name).toBe("No value");
+    expect(expressed.name).toBe("IL7R");
+    expect((expressed.marker as { colorscale: string }).colorscale).toBe("Viridis");
+    expect(screen.queryByRole("button", { name: "Hide all" })).toBeNull();
+
+    fireEvent.change(screen.getByPlaceholderText("e.g. IL7R"), { target: { value: "ccr7" } });
+    fireEvent.blur(screen.getByPlaceholderText("e.g. IL7R"));
+    await waitFor(() => expect(lastTraces(plotly)[1]?.name).toBe("CCR7"));
+  });
+
+  it("says so when the backend ignores the colouring", async () => {
+    serveJson({ ok: true, color_key: "cell_type", x: [0, 1], y: [0, 1], color: ["NK", "pDC"] });
+    render(<UMAPPlaceholder {...props} />);
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+
+    fireEvent.change(screen.getByDisplayValue("Cell type"), { target: { value: "disease" } });
+    expect(await screen.findByText(/This backend cannot colour the UMAP by disease/)).toBeTruthy();
+  });
+});
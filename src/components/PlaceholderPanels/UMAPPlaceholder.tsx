@@ -3,6 +3,37 @@ import type { Mode } from "../../lib/types";
 import type { UmapResponse } from "../../lib/types";
 import { DEFAULT_RESOLVED_BASE, fetchUmap } from "../../lib/api";
 import { getStoredApiBase } from "../../lib/storage";
+import { describeApiError } from "../../lib/validate";
+import { fileSlug } from "../../lib/download";
+import type { DataTable } from "../../lib/dataExport";
+import DataExportMenu from "../DataExportMenu";
+import PlotExportMenu from "../PlotExportMenu";
+
+// Generate color palette with distinct colors
+function generateColorPalette(count: number): string[] {
+  const hueStep = 360 / count;
+  const colors: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const hue = (i * hueStep) % 360;
+    const saturation = 60 + (i % 3) * 15;
+    const lightness = 45 + (i % 2) * 10;
+    colors.push(`hsl(${hue}, ${saturation}%, ${lightness}%)`);
+  }
+  return colors;
+}
+
+type ColorBy = "cell_type" | "disease" | "accession" | "gene";
+
+const COLOR_BY_OPTIONS: Array<{ id: ColorBy; label: string }> = [
+  { id: "cell_type", label: "Cell type" },
+  { id: "disease", label: "Disease" },
+  { id: "accession", label: "Accession" },
+  { id: "gene", label: "Gene expression" },
+];
+
+const MIN_POINTS = 1000;
+const MAX_POINTS = 50000;
+const DEFAULT_POINTS = 5000;
 
 type UMAPPlaceholderProps = {
   mode: Mode;
@@ -10,6 +41,10 @@ type UMAPPlaceholderProps = {
   disease: string;
   leftDisease: string;
   rightDisease: string;
+  genes: string[];
+  tissue?: string;
+  // Accessions the cells are restricted to; null for all
+  accessionFilter?: string[] | null;
 };
 
 export default function UMAPPlaceholder({
@@ -18,6 +53,9 @@ export default function UMAPPlaceholder({
   disease,
   leftDisease,
   rightDisease,
+  genes,
+  tissue,
+  accessionFilter,
 }: UMAPPlaceholderProps) {
   const apiBase = getStoredApiBase() ?? DEFAULT_RESOLVED_BASE;
   const cohortLabel = mode === "single" ? disease : `${leftDisease} + ${rightDisease}`;
@@ -25,16 +63,41 @@ export default function UMAPPlaceholder({
   const plotRef = useRef<HTMLDivElement | null>(null);
   const [umap, setUmap] = useState<UmapResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [colorBy, setColorBy] = useState<ColorBy>("cell_type");
+  const [gene, setGene] = useState(genes[0] ?? "");
+  const [geneDraft, setGeneDraft] = useState(genes[0] ?? "");
+  const [maxPoints, setMaxPoints] = useState(DEFAULT_POINTS);
+  const [maxPointsDraft, setMaxPointsDraft] = useState(DEFAULT_POINTS);
+  const [hidden, setHidden] = useState<string[]>([]);
 
+  // Only refetch once the slider settles
   useEffect(() => {
+    const timeoutId = window.setTimeout(() => setMaxPoints(maxPointsDraft), 400);
+    return () => window.clearTimeout(timeoutId);
+  }, [maxPointsDraft]);
+
+  const geneFilter = colorBy === "gene" ? gene.trim().toUpperCase() : "";
+
+  useEffect(() => {
+    if (colorBy === "gene" && !geneFilter) return;
     let active = true;
+    const controller = new AbortController();
     setError(null);
     const cellTypeFilter = selectedCellTypes.length === 1 ? selectedCellTypes[0] : null;
-    fetchUmap(apiBase, mode === "single" ? disease : null, 5000, cellTypeFilter)
+    fetchUmap(
+      apiBase,
+      mode === "single" ? disease : null,
+      maxPoints,
+      cellTypeFilter,
+      colorBy === "gene" ? null : colorBy,
+      geneFilter || null,
+      accessionFilter,
+      { signal: controller.signal },
+    )
       .then((res) => {
         if (!active) return;
         if (!res.ok) {
-          setError(res.error ?? "Unable to load UMAP");
+          setError(describeApiError(res, "Unable to load UMAP"));
           setUmap(null);
           return;
         }
@@ -44,6 +107,7 @@ export default function UMAPPlaceholder({
           return;
         }
         setUmap(res);
+        setHidden([]);
       })
       .catch((err) => {
         if (!active) return;
@@ -52,12 +116,62 @@ export default function UMAPPlaceholder({
       });
     return () => {
       active = false;
+      controller.abort();
     };
-  }, [apiBase, disease, mode, selectedCellTypes]);
+  }, [apiBase, disease, mode, selectedCellTypes, colorBy, geneFilter, maxPoints, accessionFilter]);
+
+  const isNumeric = colorBy === "gene" && Array.isArray(umap?.value) && umap.value.length === (umap.x?.length ?? 0);
+
+  const categories = useMemo(() => {
+    if (isNumeric || !umap?.color) return [];
+    return Array.from(new Set(umap.color)).sort((a, b) => a.localeCompare(b));
+  }, [umap, isNumeric]);
+
+  const categoryColors = useMemo(() => {
+    const palette = generateColorPalette(categories.length);
+    return Object.fromEntries(categories.map((label, idx) => [label, palette[idx]]));
+  }, [categories]);
 
   const clusterTraces = useMemo(() => {
-    if (!umap?.x || !umap?.y || !umap?.color) return [];
-    const categories = Array.from(new Set(umap.color));
+    if (!umap?.x || !umap?.y) return [];
+
+    if (isNumeric) {
+      const values = umap.value!;
+      const missing = values.map((v, i) => (v === null ? i : -1)).filter((i) => i >= 0);
+      const present = values.map((v, i) => (v !== null ? i : -1)).filter((i) => i >= 0);
+      // Draw low values first so expressing cells stay on top
+      present.sort((a, b) => (values[a] as number) - (values[b] as number));
+      return [
+        {
+          type: "scattergl",
+          mode: "markers",
+          name: "No value",
+          x: missing.map((i) => umap.x![i]),
+          y: missing.map((i) => umap.y![i]),
+          hoverinfo: "skip",
+          marker: { size: 4, color: "#e2e8f0" },
+        },
+        {
+          type: "scattergl",
+          mode: "markers",
+          name: umap.value_key ?? gene,
+          x: present.map((i) => umap.x![i]),
+          y: present.map((i) => umap.y![i]),
+          text: present.map((i) => `${umap.color?.[i] ?? ""}<br>${umap.value_key ?? gene}: ${(values[i] as number).toFixed(2)}`),
+          hoverinfo: "text",
+          marker: {
+            size: 5,
+            opacity: 0.85,
+            color: present.map((i) => values[i]),
+            colorscale: "Viridis",
+            showscale: true,
+            colorbar: { title: umap.value_key ?? gene, thickness: 12 },
+          },
+        },
+      ];
+    }
+
+    if (!umap.color) return [];
     return categories.map((label) => {
       const idx = umap.color!.map((v, i) => (v === label ? i : -1)).filter((i) => i >= 0);
       return {
@@ -66,13 +180,17 @@ export default function UMAPPlaceholder({
         name: label,
         x: idx.map((i) => umap.x![i]),
         y: idx.map((i) => umap.y![i]),
+        text: idx.map(() => label),
+        hoverinfo: "text",
+        visible: hidden.includes(label) ? "legendonly" : true,
         marker: {
           size: 5,
           opacity: 0.85,
+          color: categoryColors[label],
         },
       };
     });
-  }, [umap]);
+  }, [umap, isNumeric, categories, categoryColors, hidden, gene]);
   const layout = useMemo(
     () => ({
       margin: { l: 40, r: 20, t: 10, b: 40 },
@@ -80,8 +198,7 @@ export default function UMAPPlaceholder({
       plot_bgcolor: "rgba(0,0,0,0)",
       xaxis: { title: "UMAP 1", zeroline: false, showgrid: false },
       yaxis: { title: "UMAP 2", zeroline: false, showgrid: false },
-      showlegend: true,
-      legend: { orientation: "h", x: 0, y: -0.2 },
+      showlegend: false,
       height: 520,
     }),
     [],
@@ -98,26 +215,143 @@ export default function UMAPPlaceholder({
     if (!plotRef.current || !window.Plotly) return;
     const handleResize = () => {
       if (!plotRef.current) return;
-      window.Plotly.Plots.resize(plotRef.current);
+      window.Plotly?.Plots.resize(plotRef.current);
     };
     window.addEventListener("resize", handleResize);
     return () => window.removeEventListener("resize", handleResize);
   }, []);
 
+  const handleToggleCategory = (label: string) => {
+    setHidden((prev) => (prev.includes(label) ? prev.filter((item) => item !== label) : [...prev, label]));
+  };
+
+  const colorByLabel = COLOR_BY_OPTIONS.find((option) => option.id === colorBy)?.label ?? colorBy;
+
+  // Every fetched cell, hidden categories included, with its label and any expression value
+  const buildTable = (): DataTable => {
+    if (!umap?.x || !umap.y) return { columns: [], rows: [] };
+    const labelColumn = umap.color_key ?? (colorBy === "gene" ? "cell_type" : colorBy);
+    const valueColumn = isNumeric ? umap.value_key ?? geneFilter : null;
+    return {
+      columns: ["cell_id", "umap_1", "umap_2", labelColumn, ...(valueColumn ? [valueColumn] : [])],
+      rows: umap.x.map((x, i) => [
+        umap.cell_id?.[i] ?? String(i + 1),
+        x,
+        umap.y![i],
+        umap.color?.[i] ?? null,
+        ...(valueColumn ? [umap.value![i]] : []),
+      ]),
+    };
+  };
+
   return (
     <div className="panel">
       <div className="panel-header">
         <div>
           <div className="h3">UMAP</div>
-          <div className="muted small">Cohort: {cohortLabel} · Cell types: {cellTypeLabel}</div>
+          <div className="muted small">
+            Cohort: {cohortLabel} · Cell types: {cellTypeLabel} · Colored by: {colorBy === "gene" ? geneFilter || "—" : colorByLabel}
+          </div>
           {error ? <div className="muted small">UMAP error: {error}</div> : null}
         </div>
-        <div className="legend">
-          <span className="legend-item"><span className="dot" />Disease</span>
-          <span className="legend-item"><span className="dot" />Cell type</span>
+        <div className="row gap">
+          {umap?.x ? <div className="muted small">{umap.x.length.toLocaleString()} cells shown</div> : null}
+          <DataExportMenu
+            apiBase={apiBase}
+            tissue={tissue}
+            filename={`umap-${fileSlug(cohortLabel)}-${fileSlug(colorBy === "gene" ? geneFilter || "gene" : colorBy)}`}
+            filters={{
+              cohort: cohortLabel,
+              cell_type: selectedCellTypes.length === 1 ? selectedCellTypes[0] : "all",
+              color_by: colorBy === "gene" ? `gene ${geneFilter}` : colorBy,
+              max_points: String(maxPoints),
+              ...(accessionFilter ? { accessions: accessionFilter.join("; ") } : {}),
+            }}
+            tables={umap?.x?.length ? [{ id: "umap", label: "Coordinates and labels", build: buildTable }] : []}
+          />
+          <PlotExportMenu
+            plotRef={plotRef}
+            filename={`umap-${fileSlug(cohortLabel)}-${fileSlug(colorBy === "gene" ? geneFilter || "gene" : colorBy)}`}
+            title={`UMAP: ${cohortLabel}`}
+            caption={[
+              `${umap?.x ? umap.x.length.toLocaleString() : 0} cells, coloured by ${colorBy === "gene" ? `${geneFilter || "—"} expression` : colorByLabel.toLowerCase()}.`,
+              `Cell types: ${cellTypeLabel}.`,
+              hidden.length > 0 ? `Hidden: ${hidden.join(", ")}.` : "",
+            ].join(" ").trim()}
+          />
         </div>
       </div>
 
+      <div className="panel-controls">
+        <label className="control">
+          <span>Color by</span>
+          <select value={colorBy} onChange={(event) => setColorBy(event.target.value as ColorBy)}>
+            {COLOR_BY_OPTIONS.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {colorBy === "gene" ? (
+          <form
+            className="control"
+            onSubmit={(event) => {
+              event.preventDefault();
+              setGene(geneDraft);
+            }}
+          >
+            <span>Gene</span>
+            <input
+              className="input"
+              list="umap-gene-options"
+              value={geneDraft}
+              onChange={(event) => setGeneDraft(event.target.value)}
+              onBlur={() => setGene(geneDraft)}
+              placeholder="e.g. IL7R"
+            />
+            <datalist id="umap-gene-options">
+              {genes.map((item) => (
+                <option key={item} value={item} />
+              ))}
+            </datalist>
+          </form>
+        ) : null}
+        <label className="control">
+          <span>Max points: {maxPointsDraft.toLocaleString()}</span>
+          <input
+            type="range"
+            min={MIN_POINTS}
+            max={MAX_POINTS}
+            step={1000}
+            value={maxPointsDraft}
+            onChange={(event) => setMaxPointsDraft(Number(event.target.value))}
+          />
+        </label>
+      </div>
+
+      {categories.length > 0 ? (
+        <div className="legend">
+          {categories.map((label) => (
+            <button
+              key={label}
+              type="button"
+              className={`legend-item toggle ${hidden.includes(label) ? "off" : ""}`}
+              onClick={() => handleToggleCategory(label)}
+            >
+              <span className="dot" style={{ background: categoryColors[label] }} />
+              {label}
+            </button>
+          ))}
+          <button type="button" className="legend-item toggle" onClick={() => setHidden([])}>
+            Show all
+          </button>
+          <button type="button" className="legend-item toggle" onClick={() => setHidden(categories)}>
+            Hide all
+          </button>
+        </div>
+      ) : null}
+
       <div className="plot-frame large" ref={plotRef} />
     </div>
   );
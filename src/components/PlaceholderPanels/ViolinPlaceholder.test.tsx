@@ -0,0 +1,119 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import ViolinPlaceholder from "./ViolinPlaceholder";
+import { lastTraces, serveJson, serveMockAtlas, stubPlotly, type PlotlyStub } from "../../test/utils";
+
+type Layout = {
+  shapes?: unknown[];
+  annotations?: Array<{ x: number; text: string }>;
+  xaxis?: { ticktext?: string[] };
+  yaxis?: { range?: number[] };
+};
+
+describe("ViolinPlaceholder", () => {
+  let plotly: PlotlyStub;
+
+  beforeEach(() => {
+    plotly = stubPlotly();
+  });
+
+  const lastLayout = () => {
+    const calls = plotly.react.mock.calls;
+    return (calls.length > 0 ? calls[calls.length - 1][2] : {}) as Layout;
+  };
+
+  it("draws one violin per disease from the histogram", async () => {
+    const fetchMock = serveMockAtlas();
+    render(<ViolinPlaceholder genes={["IL7R"]} disease="SLE" referenceDisease="Healthy" selectedCellTypes={[]} />);
+
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+    const url = new URL(String(fetchMock.mock.calls[0][0]));
+    expect(url.searchParams.get("gene")).toBe("IL7R");
+    expect(url.searchParams.get("kind")).toBe("hist");
+    const traces = lastTraces(plotly);
+    expect(traces.map((trace) => trace.name)).toEqual([
+      "Healthy",
+      "Rheumatoid arthritis",
+      "Systemic lupus erythematosus",
+      "Sjögren syndrome",
+    ]);
+    traces.forEach((trace) => expect((trace.y as number[]).length).toBeGreaterThan(1900));
+  });
+
+  it("keeps only the selected cell types when grouped by cell type", async () => {
+    serveMockAtlas();
+    render(
+      <ViolinPlaceholder
+        genes={["IL7R"]}
+        disease="SLE"
+        referenceDisease="Healthy"
+        selectedCellTypes={["NK", "pDC"]}
+        groupBy="cell_type"
+      />,
+    );
+
+    await waitFor(() => expect(lastTraces(plotly).map((trace) => trace.name)).toEqual(["NK", "pDC"]));
+  });
+
+  it("draws quantile summaries as box traces", async () => {
+    serveMockAtlas();
+    render(<ViolinPlaceholder genes={["IL7R"]} disease="SLE" referenceDisease="Healthy" selectedCellTypes={[]} />);
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+
+    fireEvent.change(screen.getByDisplayValue("Violin (histogram)"), { target: { value: "quantile" } });
+    await waitFor(() => expect(lastTraces(plotly)[0]?.type).toBe("box"));
+    expect(lastTraces(plotly)[0].x).toHaveLength(4);
+  });
+
+  it("brackets each disease against the reference and lists the tests", async () => {
+    serveMockAtlas();
+    render(<ViolinPlaceholder genes={["IFI44L"]} disease="SLE" referenceDisease="Healthy" selectedCellTypes={[]} />);
+
+    expect(await screen.findByText("Systemic lupus erythematosus vs Healthy")).toBeTruthy();
+    const layout = lastLayout();
+    expect(layout.shapes).toHaveLength(9);
+    expect(layout.annotations?.map((item) => item.text)).toContain("****");
+    expect(layout.yaxis?.range).toHaveLength(2);
+    expect(screen.getByText(/\* p < 0.05 · \*\* p < 0.01/)).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText("Comparisons"), { target: { value: "all" } });
+    expect(await screen.findByText("Rheumatoid arthritis vs Sjögren syndrome")).toBeTruthy();
+    expect(lastLayout().shapes).toHaveLength(18);
+
+    fireEvent.change(screen.getByLabelText("Comparisons"), { target: { value: "off" } });
+    await waitFor(() => expect(lastLayout().shapes).toHaveLength(0));
+    expect(screen.queryByText("Systemic lupus erythematosus vs Healthy")).toBeNull();
+  });
+
+  it("marks each split cell type and writes group summaries under the ticks", async () => {
+    const fetchMock = serveMockAtlas();
+    render(
+      <ViolinPlaceholder
+        genes={["IFI44L"]}
+        disease="SLE"
+        referenceDisease="Healthy"
+        selectedCellTypes={["NK", "pDC"]}
+        groupBy="split"
+      />,
+    );
+
+    await waitFor(() => expect(lastLayout().annotations?.map((item) => item.x)).toEqual([0, 1]));
+    expect(screen.getByText("NK · Systemic lupus erythematosus vs NK · Healthy")).toBeTruthy();
+
+    fireEvent.click(screen.getByLabelText("Show n, mean and median"));
+    await waitFor(() => expect(lastLayout().xaxis?.ticktext?.[0]).toMatch(/^NK<br>n [\d,]+ \/ [\d,]+<br>mean /));
+
+    // Box plots carry no counts, so the histograms are requested alongside (and come from the cache here)
+    fireEvent.change(screen.getByDisplayValue("Violin (histogram)"), { target: { value: "quantile" } });
+    await waitFor(() => expect(lastTraces(plotly)[0]?.type).toBe("box"));
+    const kinds = fetchMock.mock.calls.map((call) => new URL(String(call[0])).searchParams.get("kind"));
+    expect(kinds).toEqual(["hist", "hist", "quantile", "quantile"]);
+    expect(lastLayout().annotations).toHaveLength(2);
+  });
+
+  it("reports unknown genes", async () => {
+    serveJson({ ok: false, error: "gene NOPE not found", available: ["NOP2"] });
+    render(<ViolinPlaceholder genes={["NOPE"]} disease="SLE" referenceDisease="Healthy" selectedCellTypes={[]} />);
+    expect(await screen.findByText(/gene NOPE not found; try: NOP2/)).toBeTruthy();
+  });
+});
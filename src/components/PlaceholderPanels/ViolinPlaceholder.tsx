@@ -1,17 +1,60 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import type { ViolinResponse } from "../../lib/types";
 import { DEFAULT_RESOLVED_BASE, fetchViolin } from "../../lib/api";
+import { expandHistogram } from "../../lib/histogram";
+import {
+  COMPARISON_SCOPES,
+  SIGNIFICANCE_LEGEND,
+  comparisonTable,
+  plotComparisons,
+  summaryTickText,
+  type ComparisonScope,
+  type PlotSlot,
+} from "../../lib/comparisons";
 import { getStoredApiBase } from "../../lib/storage";
+import { describeApiError } from "../../lib/validate";
+import { fileSlug } from "../../lib/download";
+import type { DataTable } from "../../lib/dataExport";
+import type { Cell } from "../../lib/delimited";
+import ComparisonTable from "../ComparisonTable";
+import DataExportMenu from "../DataExportMenu";
+import PlotExportMenu from "../PlotExportMenu";
+
+type GroupBy = "cell_type" | "disease" | "split";
+type Kind = "hist" | "quantile";
 
 type ViolinPlaceholderProps = {
   genes: string[];
-  groupBy?: "cell_type" | "disease";
+  disease: string;
+  referenceDisease: string;
+  selectedCellTypes: string[];
+  groupBy?: GroupBy;
+  tissue?: string;
+  // Accessions the cells are restricted to; null for all
+  accessionFilter?: string[] | null;
 };
 
-export default function ViolinPlaceholder({ genes, groupBy = "disease" }: ViolinPlaceholderProps) {
+const SPLIT_COLORS = { disease: "#dc2626", reference: "#64748b" };
+
+export default function ViolinPlaceholder({
+  genes,
+  disease,
+  referenceDisease,
+  selectedCellTypes,
+  groupBy: initialGroupBy = "disease",
+  tissue,
+  accessionFilter,
+}: ViolinPlaceholderProps) {
   const apiBase = getStoredApiBase() ?? DEFAULT_RESOLVED_BASE;
   const [selectedGene, setSelectedGene] = useState(genes[0] ?? "IL7R");
-  const [response, setResponse] = useState<ViolinResponse | null>(null);
+  const [geneDraft, setGeneDraft] = useState(genes[0] ?? "IL7R");
+  const [groupBy, setGroupBy] = useState<GroupBy>(initialGroupBy);
+  const [kind, setKind] = useState<Kind>("hist");
+  const [responses, setResponses] = useState<ViolinResponse[]>([]);
+  // Histograms behind the comparisons and summaries; the box plots only carry quantiles
+  const [histResponses, setHistResponses] = useState<ViolinResponse[]>([]);
+  const [comparisonScope, setComparisonScope] = useState<ComparisonScope>("reference");
+  const [showSummaries, setShowSummaries] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const plotRef = useRef<HTMLDivElement | null>(null);
 
@@ -24,103 +67,351 @@ export default function ViolinPlaceholder({ genes, groupBy = "disease" }: Violin
     return value;
   };
 
-  useEffect(() => {
-    if (genes.length > 0 && !genes.includes(selectedGene)) {
-      setSelectedGene(genes[0]);
-    }
-  }, [genes, selectedGene]);
+  // Cell types are not compared with each other, so that view only needs them for summaries
+  const comparing = comparisonScope !== "off" && groupBy !== "cell_type";
+  const needsHistograms = comparing || showSummaries;
 
   useEffect(() => {
     let active = true;
+    const controller = new AbortController();
     setError(null);
-    fetchViolin(apiBase, selectedGene, groupBy, "hist")
-      .then((res) => {
+    const gene = selectedGene.trim().toUpperCase();
+    if (!gene) return;
+
+    // Split view fetches the disease and its reference separately, grouped by cell type
+    const requestsFor = (requestKind: Kind) =>
+      groupBy === "split"
+        ? [
+            fetchViolin(apiBase, gene, "cell_type", requestKind, disease, accessionFilter, { signal: controller.signal }),
+            fetchViolin(apiBase, gene, "cell_type", requestKind, referenceDisease, accessionFilter, { signal: controller.signal }),
+          ]
+        : [fetchViolin(apiBase, gene, groupBy, requestKind, null, accessionFilter, { signal: controller.signal })];
+    const requests = requestsFor(kind);
+    const histRequests = kind === "quantile" && needsHistograms ? requestsFor("hist") : [];
+
+    Promise.all([...requests, ...histRequests])
+      .then((results) => {
         if (!active) return;
-        if (!res.ok) {
-          setError(res.error ?? "Unable to load violin data");
-          setResponse(null);
+        const failed = results.find((res) => !res.ok);
+        if (failed) {
+          setError(describeApiError(failed, "Unable to load violin data"));
+          setResponses([]);
+          setHistResponses([]);
           return;
         }
-        setResponse(res);
+        setResponses(results.slice(0, requests.length));
+        setHistResponses(kind === "hist" ? results : results.slice(requests.length));
       })
       .catch((err) => {
         if (!active) return;
         setError(String((err as Error).message ?? err));
-        setResponse(null);
+        setResponses([]);
+        setHistResponses([]);
       });
     return () => {
       active = false;
+      controller.abort();
     };
-  }, [apiBase, selectedGene, groupBy]);
+  }, [apiBase, selectedGene, groupBy, kind, disease, referenceDisease, accessionFilter, needsHistograms]);
 
   const plotTrace = useMemo(() => {
-    if (!response?.ok || !response.groups || !response.bins || !response.counts) return [];
-    const bins = response.bins;
-    const midpoints = bins.slice(0, -1).map((start, idx) => (start + bins[idx + 1]) / 2);
-    const maxSamples = 2000;
-    return response.groups.map((label, idx) => {
-      const counts = response.counts?.[idx] ?? [];
-      const total = counts.reduce((sum, val) => sum + val, 0) || 1;
-      const samples: number[] = [];
-      counts.forEach((count, binIdx) => {
-        const n = Math.round((count / total) * maxSamples);
-        for (let i = 0; i < n; i += 1) {
-          samples.push(midpoints[binIdx]);
-        }
-      });
-      return {
+    const groupedByCellType = groupBy !== "disease";
+    const selected = new Set(selectedCellTypes);
+    const keepGroup = (label: string) => !groupedByCellType || selected.size === 0 || selected.has(label);
+    const labelFor = (label: string) => (groupedByCellType ? label : mapDiseaseLabel(label));
+
+    const buildTraces = (response: ViolinResponse, series?: { name: string; color: string; side: "negative" | "positive" }) => {
+      if (!response.ok || !response.groups) return [];
+      const indices = response.groups.map((label, idx) => (keepGroup(label) ? idx : -1)).filter((idx) => idx >= 0);
+
+      if (kind === "quantile") {
+        if (!response.quantiles) return [];
+        const rows = indices.map((idx) => ({ label: labelFor(response.groups![idx]), q: response.quantiles![idx] })).filter((row) => row.q);
+        return [
+          {
+            type: "box",
+            name: series?.name ?? selectedGene,
+            x: rows.map((row) => row.label),
+            q1: rows.map((row) => row.q.q1),
+            median: rows.map((row) => row.q.median),
+            q3: rows.map((row) => row.q.q3),
+            lowerfence: rows.map((row) => row.q.min),
+            upperfence: rows.map((row) => row.q.max),
+            marker: { color: series?.color ?? "#2563eb" },
+            showlegend: Boolean(series),
+          },
+        ];
+      }
+
+      if (!response.bins || !response.counts) return [];
+      const bins = response.bins;
+      if (series) {
+        // One trace per side so disease and reference halves share an x slot
+        const x: string[] = [];
+        const y: number[] = [];
+        indices.forEach((idx) => {
+          const samples = expandHistogram(bins, response.counts?.[idx] ?? []);
+          samples.forEach((value) => {
+            x.push(labelFor(response.groups![idx]));
+            y.push(value);
+          });
+        });
+        return [
+          {
+            type: "violin",
+            name: series.name,
+            x,
+            y,
+            side: series.side,
+            line: { color: series.color },
+            box: { visible: false },
+            meanline: { visible: true },
+            points: false,
+          },
+        ];
+      }
+      return indices.map((idx) => ({
         type: "violin",
-        name: groupBy === "disease" ? mapDiseaseLabel(label) : label,
-        y: samples,
+        name: labelFor(response.groups![idx]),
+        y: expandHistogram(bins, response.counts?.[idx] ?? []),
         box: { visible: false },
         meanline: { visible: false },
         points: false,
-      };
+        showlegend: false,
+      }));
+    };
+
+    if (groupBy === "split") {
+      if (responses.length < 2) return [];
+      return [
+        ...buildTraces(responses[0], { name: mapDiseaseLabel(disease), color: SPLIT_COLORS.disease, side: "negative" }),
+        ...buildTraces(responses[1], { name: mapDiseaseLabel(referenceDisease), color: SPLIT_COLORS.reference, side: "positive" }),
+      ];
+    }
+    return responses[0] ? buildTraces(responses[0]) : [];
+  }, [responses, groupBy, kind, selectedCellTypes, disease, referenceDisease, selectedGene]);
+
+  // One slot per x category, in the order the traces put them on the axis
+  const slots = useMemo<PlotSlot[]>(() => {
+    const selected = new Set(selectedCellTypes);
+    const keepGroup = (label: string) => groupBy === "disease" || selected.size === 0 || selected.has(label);
+    const histogramOf = (response: ViolinResponse | undefined, group: string) => {
+      const idx = response?.groups?.indexOf(group) ?? -1;
+      return idx >= 0 && response?.bins ? { bins: response.bins, counts: response.counts?.[idx] ?? [] } : null;
+    };
+    const [first, second] = histResponses;
+    if (!first?.ok || !first.groups) return [];
+
+    if (groupBy === "split") {
+      return first.groups.filter(keepGroup).flatMap((cellType) => {
+        const diseaseHist = histogramOf(first, cellType);
+        const referenceHist = histogramOf(second, cellType);
+        if (!diseaseHist || !referenceHist) return [];
+        return [
+          {
+            category: cellType,
+            groups: [
+              { name: mapDiseaseLabel(disease), ...diseaseHist },
+              { name: mapDiseaseLabel(referenceDisease), ...referenceHist },
+            ],
+          },
+        ];
+      });
+    }
+    return first.groups.filter(keepGroup).flatMap((group) => {
+      const hist = histogramOf(first, group);
+      const label = groupBy === "disease" ? mapDiseaseLabel(group) : group;
+      return hist ? [{ category: label, groups: [{ name: label, ...hist }] }] : [];
     });
-  }, [response, groupBy]);
+  }, [histResponses, groupBy, selectedCellTypes, disease, referenceDisease]);
+
+  const stats = useMemo(
+    () => plotComparisons(slots, mapDiseaseLabel(referenceDisease), comparing ? comparisonScope : "off"),
+    [slots, referenceDisease, comparing, comparisonScope],
+  );
 
   useEffect(() => {
     if (!plotRef.current || !window.Plotly || plotTrace.length === 0) return;
     const layout = {
       margin: { l: 60, r: 20, t: 10, b: 120 },
       height: 520,
-      yaxis: { title: "Expression" },
-      xaxis: { automargin: true, tickangle: -45 },
-      violinmode: "group",
+      yaxis: { title: `${selectedGene} expression`, ...(stats.range ? { range: stats.range } : {}) },
+      xaxis: {
+        automargin: true,
+        tickangle: showSummaries ? 0 : -45,
+        ...(showSummaries && slots.length > 0
+          ? {
+              tickmode: "array",
+              tickvals: slots.map((slot) => slot.category),
+              ticktext: slots.map((slot, idx) => summaryTickText(slot.category, stats.summaries[idx])),
+            }
+          : {}),
+      },
+      violinmode: groupBy === "split" ? "overlay" : "group",
+      boxmode: "group",
+      legend: { orientation: "h" as const, y: 1.08 },
+      shapes: stats.shapes,
+      annotations: stats.annotations,
     };
     window.Plotly.react(plotRef.current, plotTrace, layout, { displayModeBar: false, responsive: true });
-  }, [plotTrace]);
+  }, [plotTrace, groupBy, selectedGene, stats, slots, showSummaries]);
+
+  // The binned histograms or quantiles behind the plot, one row per group and bin
+  const buildTable = (): DataTable => {
+    const groupedByCellType = groupBy !== "disease";
+    const selected = new Set(selectedCellTypes);
+    const series: Array<[string, ViolinResponse | undefined]> =
+      groupBy === "split"
+        ? [
+            [mapDiseaseLabel(disease), responses[0]],
+            [mapDiseaseLabel(referenceDisease), responses[1]],
+          ]
+        : [["", responses[0]]];
+    const groupColumn = groupedByCellType ? "cell_type" : "disease";
+    const leading = groupBy === "split" ? ["disease", groupColumn] : [groupColumn];
+    const rows: Cell[][] = [];
+
+    series.forEach(([seriesLabel, response]) => {
+      if (!response?.ok || !response.groups) return;
+      response.groups.forEach((group, idx) => {
+        if (groupedByCellType && selected.size > 0 && !selected.has(group)) return;
+        const key = groupBy === "split" ? [seriesLabel, group] : [groupedByCellType ? group : mapDiseaseLabel(group)];
+        if (kind === "quantile") {
+          const q = response.quantiles?.[idx];
+          if (q) rows.push([...key, q.min, q.q1, q.median, q.q3, q.max]);
+          return;
+        }
+        const bins = response.bins ?? [];
+        (response.counts?.[idx] ?? []).forEach((count, binIdx) => {
+          rows.push([...key, bins[binIdx], bins[binIdx + 1], count]);
+        });
+      });
+    });
+
+    return {
+      columns: [...leading, ...(kind === "quantile" ? ["min", "q1", "median", "q3", "max"] : ["bin_start", "bin_end", "count"])],
+      rows,
+    };
+  };
+
+  const groupLabel =
+    groupBy === "disease"
+      ? "diseases"
+      : groupBy === "cell_type"
+        ? "cell types"
+        : `cell types, ${mapDiseaseLabel(disease)} vs ${mapDiseaseLabel(referenceDisease)}`;
 
   return (
     <div className="panel">
       <div className="panel-header">
         <div>
-          <div className="h3">Violin</div>
+          <div className="h3">Gene violin</div>
           <div className="muted small">
-            Expression distributions across {groupBy === "disease" ? "diseases" : "cell types"}.
+            {selectedGene} {kind === "hist" ? "expression distributions" : "quantile box plots"} across {groupLabel}.
           </div>
         </div>
+        <div className="row gap-sm">
+          <DataExportMenu
+            apiBase={apiBase}
+            tissue={tissue}
+            filename={`violin-${fileSlug(selectedGene)}-by-${fileSlug(groupBy)}-${kind}`}
+            filters={{
+              gene: selectedGene,
+              group_by: groupBy,
+              kind,
+              ...(groupBy === "split" ? { disease, reference: referenceDisease } : {}),
+              cell_types: groupBy !== "disease" && selectedCellTypes.length > 0 ? selectedCellTypes.join("; ") : "all",
+              ...(accessionFilter ? { accessions: accessionFilter.join("; ") } : {}),
+            }}
+            tables={
+              responses.length > 0
+                ? [
+                    { id: "violin", label: kind === "hist" ? "Histograms" : "Quantiles", build: buildTable },
+                    ...(stats.comparisons.length > 0
+                      ? [{ id: "comparisons", label: "Pairwise comparisons", build: () => comparisonTable(stats.comparisons) }]
+                      : []),
+                  ]
+                : []
+            }
+          />
+          <PlotExportMenu
+            plotRef={plotRef}
+            filename={`violin-${fileSlug(selectedGene)}-by-${fileSlug(groupBy)}`}
+            title={`${selectedGene} expression`}
+            caption={[
+              `${kind === "hist" ? "Expression distributions" : "Quantile box plots"} of ${selectedGene} across ${groupLabel}.`,
+              groupBy !== "disease" && selectedCellTypes.length > 0 ? `Cell types: ${selectedCellTypes.join(", ")}.` : "",
+              stats.comparisons.length > 0
+                ? `Two-sided Mann–Whitney U tests on binned per-cell values, Benjamini–Hochberg adjusted: ${SIGNIFICANCE_LEGEND}.`
+                : "",
+            ].join(" ").trim()}
+          />
+        </div>
       </div>
 
       <div className="panel-controls">
-        <label className="control">
+        <form
+          className="control"
+          onSubmit={(event) => {
+            event.preventDefault();
+            setSelectedGene(geneDraft.trim().toUpperCase());
+          }}
+        >
           <span>Gene</span>
+          <input
+            className="input"
+            list="violin-gene-options"
+            value={geneDraft}
+            onChange={(event) => setGeneDraft(event.target.value)}
+            onBlur={() => setSelectedGene(geneDraft.trim().toUpperCase())}
+            placeholder="Search gene, e.g. IL7R"
+          />
+          <datalist id="violin-gene-options">
+            {genes.map((g) => (
+              <option key={g} value={g} />
+            ))}
+          </datalist>
+        </form>
+        <label className="control">
+          <span>Group by</span>
+          <select value={groupBy} onChange={(event) => setGroupBy(event.target.value as GroupBy)}>
+            <option value="disease">Disease</option>
+            <option value="cell_type">Cell type</option>
+            <option value="split">Cell type, split by disease</option>
+          </select>
+        </label>
+        <label className="control">
+          <span>Display</span>
+          <select value={kind} onChange={(event) => setKind(event.target.value as Kind)}>
+            <option value="hist">Violin (histogram)</option>
+            <option value="quantile">Box plot (quantiles)</option>
+          </select>
+        </label>
+        <label className="control">
+          <span>Comparisons</span>
           <select
-            value={selectedGene}
-            onChange={(event) => setSelectedGene(event.target.value)}
+            value={comparisonScope}
+            disabled={groupBy === "cell_type"}
+            onChange={(event) => setComparisonScope(event.target.value as ComparisonScope)}
           >
-            {(genes.length > 0 ? genes : ["IL7R"]).map((g) => (
-              <option key={g} value={g}>
-                {g}
+            {COMPARISON_SCOPES.map((item) => (
+              <option key={item.value} value={item.value}>
+                {item.label}
               </option>
             ))}
           </select>
         </label>
+        <label className="checkbox-row control-check">
+          <input type="checkbox" checked={showSummaries} onChange={(event) => setShowSummaries(event.target.checked)} />
+          <span>Show n, mean and median</span>
+        </label>
       </div>
 
       {error ? <div className="error-banner">{error}</div> : null}
 
       <div className="plot-frame large" ref={plotRef} />
+
+      <ComparisonTable comparisons={stats.comparisons} />
     </div>
   );
 }
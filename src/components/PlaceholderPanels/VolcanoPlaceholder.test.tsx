@@ -0,0 +1,155 @@
+import { act, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import VolcanoPlaceholder from "./VolcanoPlaceholder";
+import type { Manifest } from "../../lib/types";
+import { lastTraces, serveJson, serveMockAtlas, stubPlotly, type PlotlyStub } from "../../test/utils";
+
+const MANIFEST: Manifest = {
+  ok: true,
+  tissue: "PBMC",
+  diseases: ["Healthy", "RA", "SLE", "SjS"],
+  accessions: [],
+  cell_types: [],
+  marker_panels: {},
+};
+
+type LayoutCall = [unknown, Array<Record<string, unknown>>, { annotations: Array<Record<string, unknown>> }];
+
+function lastLabels(plotly: PlotlyStub) {
+  const calls = plotly.react.mock.calls as unknown as LayoutCall[];
+  return calls[calls.length - 1][2].annotations.filter((note) => note.showarrow).map((note) => note.text);
+}
+
+function renderPanel(selectedCellTypes: string[], extra: Partial<Parameters<typeof VolcanoPlaceholder>[0]> = {}) {
+  return render(
+    <VolcanoPlaceholder
+      {...extra}
+      manifest={MANIFEST}
+      mode="single"
+      disease="SLE"
+      leftDisease="SLE"
+      rightDisease="Healthy"
+      referenceDisease="Healthy"
+      selectedCellTypes={selectedCellTypes}
+    />,
+  );
+}
+
+describe("VolcanoPlaceholder", () => {
+  let plotly: PlotlyStub;
+
+  beforeEach(() => {
+    plotly = stubPlotly();
+  });
+
+  it("asks for a cell type selection before fetching anything", () => {
+    const fetchMock = serveMockAtlas();
+    renderPanel([]);
+    expect(screen.getByText(/Select cell types in Analysis Setup/)).toBeTruthy();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("plots significant genes for each selected cell type", async () => {
+    const fetchMock = serveMockAtlas();
+    renderPanel(["Classical monocyte", "pDC"]);
+
+    expect(await screen.findByText("Top upregulated")).toBeTruthy();
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(new URL(String(fetchMock.mock.calls[0][0])).searchParams.get("disease")).toBe("SLE");
+
+    const traces = lastTraces(plotly).filter((trace) => trace.type === "scatter");
+    expect(traces.map((trace) => trace.name)).toEqual(["Classical monocyte", "pDC"]);
+    traces.forEach((trace) => (trace.x as number[]).forEach((logfc) => expect(Math.abs(logfc)).toBeGreaterThan(1)));
+    // The interferon program dominates SLE monocytes in the mock atlas
+    expect(screen.getByText("ISG15")).toBeTruthy();
+  });
+
+  it("drives the plot, counts and threshold lines from the significance controls", async () => {
+    serveMockAtlas();
+    renderPanel(["Classical monocyte"]);
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+    expect(lastTraces(plotly).map((trace) => trace.name)).toEqual(["Classical monocyte"]);
+
+    fireEvent.click(screen.getByLabelText("Show non-significant"));
+    await waitFor(() => expect(lastTraces(plotly).map((trace) => trace.name)).toEqual(["Not significant", "Classical monocyte"]));
+
+    fireEvent.change(screen.getByLabelText("|logFC| >"), { target: { value: "2.5" } });
+    fireEvent.change(screen.getByLabelText("p-value <"), { target: { value: "0.01" } });
+    await waitFor(() => expect(screen.getByText(/\(\|logFC\| > 2.5, p_val_adj < 0.01\)/)).toBeTruthy());
+
+    const calls = plotly.react.mock.calls as unknown as Array<[unknown, Array<Record<string, unknown>>, { shapes: Array<Record<string, number>> }]>;
+    const [, traces, layout] = calls[calls.length - 1];
+    (traces[1].x as number[]).forEach((logfc) => expect(Math.abs(logfc)).toBeGreaterThan(2.5));
+    expect(layout.shapes.map((shape) => shape.x0).slice(0, 2)).toEqual([2.5, -2.5]);
+    expect(layout.shapes[2].y0).toBeCloseTo(2);
+  });
+
+  it("labels the top genes per cell type and highlights searched genes", async () => {
+    serveMockAtlas();
+    renderPanel(["Classical monocyte", "pDC"]);
+    await waitFor(() => expect(lastLabels(plotly).length).toBeGreaterThan(0));
+    expect(lastLabels(plotly).length).toBeLessThanOrEqual(10);
+
+    fireEvent.change(screen.getByLabelText("Labels per cell type"), { target: { value: "0" } });
+    await waitFor(() => expect(lastLabels(plotly)).toEqual([]));
+
+    fireEvent.change(screen.getByPlaceholderText("e.g. IFI27, ISG15"), { target: { value: "isg15, NOTAGENE" } });
+    fireEvent.click(screen.getByRole("button", { name: "Highlight" }));
+    await waitFor(() => expect(lastTraces(plotly).map((trace) => trace.name)).toContain("Highlighted"));
+    const highlighted = lastTraces(plotly).find((trace) => trace.name === "Highlighted")!;
+    expect(new Set(highlighted.text as string[])).toEqual(new Set(["ISG15"]));
+    expect(lastLabels(plotly)).toEqual(["ISG15", "ISG15"]);
+    expect(screen.getByText(/Not in these results: NOTAGENE/)).toBeTruthy();
+  });
+
+  it("pins labels on click", async () => {
+    serveMockAtlas();
+    renderPanel(["Classical monocyte"]);
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+    fireEvent.change(screen.getByLabelText("Labels per cell type"), { target: { value: "0" } });
+    await waitFor(() => expect(lastLabels(plotly)).toEqual([]));
+
+    const trace = lastTraces(plotly)[0];
+    const key = (trace.customdata as string[])[3];
+    act(() => plotly.emit("plotly_click", { points: [{ curveNumber: 0, pointIndex: 3, pointNumber: 3, customdata: key }] }));
+    await waitFor(() => expect(lastLabels(plotly)).toEqual([(trace.text as string[])[3]]));
+
+    fireEvent.click(screen.getByRole("button", { name: "Clear pins (1)" }));
+    await waitFor(() => expect(lastLabels(plotly)).toEqual([]));
+  });
+
+  it("turns a lasso into a gene list that can be sent to other views", async () => {
+    serveMockAtlas();
+    const onOpenGenes = vi.fn();
+    renderPanel(["Classical monocyte"], { onOpenGenes });
+    await waitFor(() => expect(plotly.react).toHaveBeenCalled());
+
+    fireEvent.change(screen.getByLabelText("Drag to"), { target: { value: "lasso" } });
+    const calls = plotly.react.mock.calls as unknown as Array<[unknown, unknown, { dragmode: string }]>;
+    await waitFor(() => expect(calls[calls.length - 1][2].dragmode).toBe("lasso"));
+
+    const trace = lastTraces(plotly)[0];
+    const keys = (trace.customdata as string[]).slice(0, 3);
+    const genes = (trace.text as string[]).slice(0, 3);
+    act(() =>
+      plotly.emit("plotly_selected", {
+        points: keys.map((customdata, idx) => ({ curveNumber: 0, pointIndex: idx, pointNumber: idx, customdata })),
+      }),
+    );
+    expect(await screen.findByText("Lasso selection (3 of 3 genes)")).toBeTruthy();
+
+    fireEvent.click(screen.getByRole("button", { name: genes[1] }));
+    expect(screen.getByText("Lasso selection (2 of 3 genes)")).toBeTruthy();
+    fireEvent.click(screen.getByRole("button", { name: "Open in dot plot" }));
+    expect(onOpenGenes).toHaveBeenCalledWith([genes[0], genes[2]], "dotplot");
+  });
+
+  it("lists cell types whose DE table failed", async () => {
+    serveJson({ ok: false, error: "cell type Platelets not available", available: ["NK"] });
+    renderPanel(["Platelets"]);
+
+    expect(await screen.findByText("1 cell types failed to load")).toBeTruthy();
+    expect(screen.getByText("No data available for selected cell types")).toBeTruthy();
+  });
+});
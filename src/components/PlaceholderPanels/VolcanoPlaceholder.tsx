@@ -1,7 +1,25 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { DeResponse, Manifest, Mode } from "../../lib/types";
-import { DEFAULT_RESOLVED_BASE, fetchDeByDisease } from "../../lib/api";
+import { DEFAULT_RESOLVED_BASE, fetchAllSettled, fetchDeByDisease, isAbortError, type SettledItem } from "../../lib/api";
+import { downloadText, fileSlug } from "../../lib/download";
+import { parseGeneList } from "../../lib/genes";
 import { getStoredApiBase } from "../../lib/storage";
+import { describeApiError } from "../../lib/validate";
+import {
+  DEFAULT_THRESHOLDS,
+  PVALUE_FIELDS,
+  buildVolcanoData,
+  placeLabels,
+  pointKey,
+  topLabelPoints,
+  type LabelAnchor,
+  type PValueField,
+  type VolcanoPoint,
+  type VolcanoThresholds,
+} from "../../lib/volcano";
+import BatchProgress from "../BatchProgress";
+import DataExportMenu from "../DataExportMenu";
+import PlotExportMenu from "../PlotExportMenu";
 
 // Generate color palette with distinct colors
 function generateColorPalette(count: number): string[] {
@@ -16,21 +34,47 @@ function generateColorPalette(count: number): string[] {
   return colors;
 }
 
+const DEFAULT_LABELS_PER_CELL_TYPE = 5;
+const MAX_LABELS_PER_CELL_TYPE = 20;
+const PLOT_HEIGHT = 500;
+const PLOT_MARGIN = { l: 50, r: 10, t: 40, b: 50 };
+// Room the vertical legend takes to the right of the plot area
+const LEGEND_WIDTH = 160;
+
+type DragMode = "zoom" | "lasso";
+
+function hoverLabel(p: VolcanoPoint, field: PValueField) {
+  return `<b>${p.gene}</b><br>Cell type: ${p.cellType}<br>logFC: ${p.logfc.toFixed(3)}<br>-log10(${field}): ${p.neglog10.toFixed(2)}${p.groups?.length ? `<br>Groups: ${p.groups.join(", ")}` : ""}`;
+}
+
+// A cell type whose backend response is not ok counts as a failed item
+async function fetchCellTypeDe(
+  apiBase: string,
+  disease: string,
+  cellType: string,
+  reference: string,
+  accessions: string[] | null | undefined,
+  signal?: AbortSignal,
+) {
+  const res = await fetchDeByDisease(apiBase, disease, cellType, 500, 0, 6, reference, accessions, { signal });
+  if (!res.ok) throw new Error(describeApiError(res, "No DE results"));
+  return res;
+}
+
 type VolcanoPlaceholderProps = {
   manifest: Manifest | null;
   mode: Mode;
   disease: string;
   leftDisease: string;
   rightDisease: string;
+  referenceDisease: string;
   selectedCellTypes: string[];
-};
-
-type PointData = {
-  gene: string;
-  logfc: number;
-  neglog10: number;
-  cellType: string;
-  groups?: string[];
+  // Accessions the cells are restricted to; null for all
+  accessionFilter?: string[] | null;
+  // Current marker panel, offered as a one-click highlight
+  markerGenes?: string[];
+  // Opens genes picked on the volcano in another view
+  onOpenGenes?: (genes: string[], tab: "dotplot" | "violin") => void;
 };
 
 export default function VolcanoPlaceholder({
@@ -39,18 +83,35 @@ export default function VolcanoPlaceholder({
   disease,
   leftDisease,
   rightDisease,
+  referenceDisease,
   selectedCellTypes,
+  accessionFilter,
+  markerGenes = [],
+  onOpenGenes,
 }: VolcanoPlaceholderProps) {
   const apiBase = getStoredApiBase() ?? DEFAULT_RESOLVED_BASE;
   const diseases = useMemo(
-    () => (manifest?.diseases ?? []).filter((item) => item !== "Healthy"),
-    [manifest],
+    () => (manifest?.diseases ?? []).filter((item) => item !== "Healthy" && item !== referenceDisease),
+    [manifest, referenceDisease],
   );
   const [selectedDisease, setSelectedDisease] = useState(disease || diseases[0] || "");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [responses, setResponses] = useState<Record<string, DeResponse>>({});
-  const plotRef = useRef<HTMLDivElement | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [failed, setFailed] = useState<Array<{ key: string; error: string }>>([]);
+  const [retrying, setRetrying] = useState(false);
+  const [thresholds, setThresholds] = useState<VolcanoThresholds>(DEFAULT_THRESHOLDS);
+  const [showNonSignificant, setShowNonSignificant] = useState(false);
+  const [labelsPerCellType, setLabelsPerCellType] = useState(DEFAULT_LABELS_PER_CELL_TYPE);
+  const [searchDraft, setSearchDraft] = useState("");
+  const [highlightGenes, setHighlightGenes] = useState<string[]>([]);
+  // Point keys whose labels stay on regardless of ranking
+  const [pinned, setPinned] = useState<string[]>([]);
+  const [dragMode, setDragMode] = useState<DragMode>("zoom");
+  const [lassoGenes, setLassoGenes] = useState<Array<{ gene: string; checked: boolean }>>([]);
+  const retryControllerRef = useRef<AbortController | null>(null);
+  const plotRef = useRef<PlotlyHTMLElement | null>(null);
 
   const mapDiseaseLabel = (value: string) => {
     const normalized = value.trim().toLowerCase();
@@ -61,6 +122,16 @@ export default function VolcanoPlaceholder({
     return value;
   };
 
+  // Render each cell type as soon as its DE table arrives
+  const recordSettled = useCallback((item: SettledItem<string, DeResponse>) => {
+    if (item.status === "fulfilled") {
+      setResponses((prev) => ({ ...prev, [item.key]: item.value }));
+      setFailed((prev) => prev.filter((entry) => entry.key !== item.key));
+    } else {
+      setFailed((prev) => [...prev.filter((entry) => entry.key !== item.key), { key: item.key, error: item.error }]);
+    }
+  }, []);
+
   // Sync disease selection
   useEffect(() => {
     if (disease && diseases.includes(disease)) {
@@ -70,160 +141,139 @@ export default function VolcanoPlaceholder({
     }
   }, [disease, diseases]);
 
-  // Fetch data for all selected cell types for the selected disease
+  // Fetch data for all selected cell types for the selected disease, a few at a time
   useEffect(() => {
     if (mode !== "single") return;
     if (!selectedDisease || selectedCellTypes.length === 0) return;
 
+    const controller = new AbortController();
     setLoading(true);
     setError(null);
-
-    Promise.all(
-      selectedCellTypes.map((cellType) =>
-        fetchDeByDisease(apiBase, selectedDisease, cellType, 500, 0, 6)
-          .then((res) => ({ cellType, res }))
-      )
+    setResponses({});
+    setFailed([]);
+    setProgress({ done: 0, total: selectedCellTypes.length });
+
+    fetchAllSettled(
+      selectedCellTypes,
+      (cellType, signal) => fetchCellTypeDe(apiBase, selectedDisease, cellType, referenceDisease, accessionFilter, signal),
+      {
+        signal: controller.signal,
+        onSettled: (item, done, total) => {
+          if (controller.signal.aborted) return;
+          recordSettled(item);
+          setProgress({ done, total });
+        },
+      },
     )
       .then((results) => {
-        const newResponses: Record<string, DeResponse> = {};
-        results.forEach(({ cellType, res }) => {
-          if (res.ok) {
-            newResponses[cellType] = res;
-          }
-        });
-        setResponses(newResponses);
-        if (Object.keys(newResponses).length === 0) {
+        if (controller.signal.aborted) return;
+        if (results.every((item) => item.status === "rejected")) {
           setError("No data available for selected cell types");
         }
       })
       .catch((err) => {
+        if (isAbortError(err)) return;
         setError(String((err as Error).message ?? err));
         setResponses({});
       })
       .finally(() => {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       });
-  }, [mode, selectedDisease, selectedCellTypes, apiBase]);
-
-  // Build points for all cell types and group genes in tables
-  const { allPoints, topUp, topDown } = useMemo(() => {
-    // Thresholds for significance
-    const logfcThreshold = 1;  // |logFC| > 1 is biologically significant
-    const padjThreshold = 0.05;  // padj < 0.05 is statistically significant
-
-    const points: PointData[] = [];
-    const upGenesMap = new Map<string, { gene: string; cellTypeLogFC: Array<{ cellType: string; logfc: number }>; groups: string[] }>();
-    const downGenesMap = new Map<string, { gene: string; cellTypeLogFC: Array<{ cellType: string; logfc: number }>; groups: string[] }>();
-
-    selectedCellTypes.forEach((cellType) => {
-      const res = responses[cellType];
-      if (!res?.ok || !res.rows) return;
-
-      res.rows.forEach((row) => {
-        const padj = Math.max(row.p_val_adj ?? row.p_val ?? 1, 1e-300);
-
-        // Only include points that pass BOTH thresholds
-        const passesLogFC = Math.abs(row.logfc) > logfcThreshold;
-        const passesPadj = padj < padjThreshold;
-
-        if (passesLogFC && passesPadj) {
-          const point: PointData = {
-            gene: row.gene,
-            logfc: row.logfc,
-            neglog10: -Math.log10(padj),
-            cellType,
-            groups: Array.isArray(row.groups) ? row.groups : [],
-          };
-          points.push(point);
-        }
+    // Abort the previous batch when the selection changes or the panel unmounts
+    return () => {
+      controller.abort();
+      retryControllerRef.current?.abort();
+    };
+  }, [mode, selectedDisease, referenceDisease, selectedCellTypes, accessionFilter, apiBase, recordSettled]);
+
+  const handleRetry = () => {
+    if (failed.length === 0) return;
+    const controller = new AbortController();
+    retryControllerRef.current = controller;
+    const keys = failed.map((entry) => entry.key);
+    setRetrying(true);
+    setError(null);
+    setProgress({ done: 0, total: keys.length });
+
+    fetchAllSettled(
+      keys,
+      (cellType, signal) => fetchCellTypeDe(apiBase, selectedDisease, cellType, referenceDisease, accessionFilter, signal),
+      {
+        signal: controller.signal,
+        onSettled: (item, done, total) => {
+          if (controller.signal.aborted) return;
+          recordSettled(item);
+          setProgress({ done, total });
+        },
+      },
+    )
+      .catch(() => {
+        // aborted by a selection change
+      })
+      .finally(() => {
+        if (retryControllerRef.current !== controller) return;
+        retryControllerRef.current = null;
+        setRetrying(false);
       });
+  };
 
-      // Get top up/down for this cell type and group by gene
-      // Only include genes that pass BOTH thresholds
-      if (res.top_up) {
-        res.top_up.forEach((row) => {
-          const padj = Math.max(row.p_val_adj ?? row.p_val ?? 1, 1e-300);
-          const passesLogFC = Math.abs(row.logfc) > logfcThreshold;
-          const passesPadj = padj < padjThreshold;
-
-          if (!passesLogFC || !passesPadj) return;
-
-          const existing = upGenesMap.get(row.gene);
-          const groups = Array.isArray(row.groups) ? row.groups : [];
-          if (existing) {
-            existing.cellTypeLogFC.push({ cellType, logfc: row.logfc });
-            // Merge groups, avoiding duplicates
-            groups.forEach(g => {
-              if (!existing.groups.includes(g)) existing.groups.push(g);
-            });
-          } else {
-            upGenesMap.set(row.gene, {
-              gene: row.gene,
-              cellTypeLogFC: [{ cellType, logfc: row.logfc }],
-              groups: [...groups],
-            });
-          }
-        });
-      }
-      if (res.top_down) {
-        res.top_down.forEach((row) => {
-          const padj = Math.max(row.p_val_adj ?? row.p_val ?? 1, 1e-300);
-          const passesLogFC = Math.abs(row.logfc) > logfcThreshold;
-          const passesPadj = padj < padjThreshold;
-
-          if (!passesLogFC || !passesPadj) return;
-
-          const existing = downGenesMap.get(row.gene);
-          const groups = Array.isArray(row.groups) ? row.groups : [];
-          if (existing) {
-            existing.cellTypeLogFC.push({ cellType, logfc: row.logfc });
-            // Merge groups, avoiding duplicates
-            groups.forEach(g => {
-              if (!existing.groups.includes(g)) existing.groups.push(g);
-            });
-          } else {
-            downGenesMap.set(row.gene, {
-              gene: row.gene,
-              cellTypeLogFC: [{ cellType, logfc: row.logfc }],
-              groups: [...groups],
-            });
-          }
-        });
-      }
-    });
-
-    // Sort tables by max absolute logFC across cell types (highest first) and limit to top 10
-    const sortedUp = Array.from(upGenesMap.values())
-      .sort((a, b) => {
-        const maxA = Math.max(...a.cellTypeLogFC.map(ct => Math.abs(ct.logfc)));
-        const maxB = Math.max(...b.cellTypeLogFC.map(ct => Math.abs(ct.logfc)));
-        return maxB - maxA;
-      })
-      .slice(0, 10);
-    const sortedDown = Array.from(downGenesMap.values())
-      .sort((a, b) => {
-        const maxA = Math.max(...a.cellTypeLogFC.map(ct => Math.abs(ct.logfc)));
-        const maxB = Math.max(...b.cellTypeLogFC.map(ct => Math.abs(ct.logfc)));
-        return maxB - maxA;
-      })
-      .slice(0, 10);
+  // Points, tables and counts all follow the same thresholds
+  const { points: allPoints, topUp, topDown, counts } = useMemo(
+    () => buildVolcanoData(responses, selectedCellTypes, thresholds),
+    [responses, selectedCellTypes, thresholds],
+  );
+  const plotPoints = useMemo(
+    () => (showNonSignificant ? allPoints : allPoints.filter((p) => p.significant)),
+    [allPoints, showNonSignificant],
+  );
 
-    return {
-      allPoints: points,
-      topUp: sortedUp,
-      topDown: sortedDown,
-    };
-  }, [responses, selectedCellTypes]);
+  // Searched genes are drawn even when they fall below the thresholds
+  const highlightedPoints = useMemo(() => {
+    const wanted = new Set(highlightGenes);
+    return allPoints.filter((p) => wanted.has(p.gene));
+  }, [allPoints, highlightGenes]);
+  const missingHighlights = useMemo(() => {
+    const found = new Set(highlightedPoints.map((p) => p.gene));
+    return highlightGenes.filter((gene) => !found.has(gene));
+  }, [highlightGenes, highlightedPoints]);
+  const checkedLassoGenes = lassoGenes.filter((item) => item.checked).map((item) => item.gene);
+
+  // Ignore blanks and negatives while the user is typing
+  const updateThreshold = (key: "logfc" | "pvalue", value: string) => {
+    const parsed = Number(value);
+    if (value.trim() === "" || !Number.isFinite(parsed) || parsed < 0) return;
+    setThresholds((prev) => ({ ...prev, [key]: parsed }));
+  };
 
   // Build traces for each cell type
   useEffect(() => {
-    if (!plotRef.current || !window.Plotly || allPoints.length === 0) return;
+    const root = plotRef.current;
+    if (!root || !window.Plotly || plotPoints.length === 0) return;
 
     // Generate unique color for each subpopulation
     const colorPalette = generateColorPalette(selectedCellTypes.length);
 
-    const traces = selectedCellTypes.map((cellType, idx) => {
-      const cellPoints = allPoints.filter((p) => p.cellType === cellType);
+    // Non-significant points sit underneath in a single grey trace
+    const backgroundPoints = plotPoints.filter((p) => !p.significant);
+    const backgroundTraces = backgroundPoints.length
+      ? [
+          {
+            type: "scatter",
+            mode: "markers",
+            name: "Not significant",
+            x: backgroundPoints.map((p) => p.logfc),
+            y: backgroundPoints.map((p) => p.neglog10),
+            text: backgroundPoints.map((p) => p.gene),
+            customdata: backgroundPoints.map(pointKey),
+            hovertext: backgroundPoints.map((p) => hoverLabel(p, thresholds.field)),
+            hoverinfo: "text",
+            marker: { size: 5, color: "#cbd5e1", opacity: 0.5 },
+          },
+        ]
+      : [];
+
+    const cellTraces = selectedCellTypes.map((cellType, idx) => {
+      const cellPoints = plotPoints.filter((p) => p.cellType === cellType && p.significant);
       const color = colorPalette[idx];
 
       return {
@@ -233,9 +283,8 @@ export default function VolcanoPlaceholder({
         x: cellPoints.map((p) => p.logfc),
         y: cellPoints.map((p) => p.neglog10),
         text: cellPoints.map((p) => p.gene),
-        hovertext: cellPoints.map((p) =>
-          `<b>${p.gene}</b><br>Cell type: ${p.cellType}<br>logFC: ${p.logfc.toFixed(3)}<br>-log10(padj): ${p.neglog10.toFixed(2)}${p.groups?.length ? `<br>Groups: ${p.groups.join(", ")}` : ""}`
-        ),
+        customdata: cellPoints.map(pointKey),
+        hovertext: cellPoints.map((p) => hoverLabel(p, thresholds.field)),
         hoverinfo: "text",
         marker: {
           size: 7,
@@ -245,9 +294,31 @@ export default function VolcanoPlaceholder({
       };
     });
 
+    // Searched genes get a ring on top of whatever trace they belong to
+    const highlightTraces = highlightedPoints.length
+      ? [
+          {
+            type: "scatter",
+            mode: "markers",
+            name: "Highlighted",
+            x: highlightedPoints.map((p) => p.logfc),
+            y: highlightedPoints.map((p) => p.neglog10),
+            text: highlightedPoints.map((p) => p.gene),
+            customdata: highlightedPoints.map(pointKey),
+            hovertext: highlightedPoints.map((p) => hoverLabel(p, thresholds.field)),
+            hoverinfo: "text",
+            marker: { size: 12, color: "rgba(0, 0, 0, 0)", line: { color: "#0f172a", width: 2 } },
+          },
+        ]
+      : [];
+
+    const traces = [...backgroundTraces, ...cellTraces, ...highlightTraces];
+    const visiblePoints = [...plotPoints, ...highlightedPoints.filter((p) => !p.significant && !showNonSignificant)];
+    const pointsByKey = new Map(visiblePoints.map((p) => [pointKey(p), p]));
+
     // Calculate axis ranges dynamically with padding
-    const allLogFC = allPoints.map((p) => p.logfc);
-    const allNegLog10 = allPoints.map((p) => p.neglog10);
+    const allLogFC = visiblePoints.map((p) => p.logfc);
+    const allNegLog10 = visiblePoints.map((p) => p.neglog10);
 
     const minX = Math.min(...allLogFC, -2);
     const maxX = Math.max(...allLogFC, 2);
@@ -260,23 +331,55 @@ export default function VolcanoPlaceholder({
     const yPadding = yRange * 0.1;
 
     // Thresholds for significance
-    const logfcThreshold = 1;  // |logFC| > 1 is biologically significant
-    const padjThreshold = -Math.log10(0.05);  // padj < 0.05 is statistically significant
-
-    // Count upregulated and downregulated genes
-    const upregulatedCount = allPoints.filter((p) => p.logfc > logfcThreshold).length;
-    const downregulatedCount = allPoints.filter((p) => p.logfc < -logfcThreshold).length;
+    const logfcThreshold = thresholds.logfc;
+    const pvalueThreshold = -Math.log10(Math.max(thresholds.pvalue, 1e-300));
+
+    // Pinned and searched genes are always labelled; ranked labels fill the gaps that remain
+    const anchors: LabelAnchor[] = [];
+    const labelled = new Set<string>();
+    const addAnchor = (p: VolcanoPoint | undefined, required: boolean) => {
+      if (!p || labelled.has(pointKey(p))) return;
+      labelled.add(pointKey(p));
+      anchors.push({ x: p.logfc, y: p.neglog10, text: p.gene, required });
+    };
+    pinned.forEach((key) => addAnchor(pointsByKey.get(key), true));
+    highlightedPoints.forEach((p) => addAnchor(p, true));
+    topLabelPoints(plotPoints, labelsPerCellType).forEach((p) => addAnchor(p, false));
+    const labels = placeLabels(anchors, {
+      width: Math.max((root.clientWidth || 900) - PLOT_MARGIN.l - PLOT_MARGIN.r - LEGEND_WIDTH, 200),
+      height: PLOT_HEIGHT - PLOT_MARGIN.t - PLOT_MARGIN.b,
+      xRange: [minX - xPadding, maxX + xPadding],
+      yRange: [0 - yPadding, maxY + yPadding],
+    });
+    const labelAnnotations = labels.map((label) => ({
+      x: label.x,
+      y: label.y,
+      xref: "x",
+      yref: "y",
+      text: label.text,
+      ax: label.ax,
+      ay: label.ay,
+      showarrow: true,
+      arrowhead: 0,
+      arrowwidth: 1,
+      arrowcolor: "#94a3b8",
+      bgcolor: "rgba(255, 255, 255, 0.85)",
+      // Pinned and searched labels get a border so they read as chosen
+      bordercolor: label.required ? "#0f172a" : "rgba(0, 0, 0, 0)",
+      font: { size: 11, color: "#0f172a" },
+    }));
 
     const layout = {
-      margin: { l: 50, r: 10, t: 40, b: 50 },
-      height: 500,
+      margin: PLOT_MARGIN,
+      height: PLOT_HEIGHT,
+      dragmode: dragMode === "lasso" ? "lasso" : "zoom",
       xaxis: {
         title: "logFC",
         zeroline: false,
         range: [minX - xPadding, maxX + xPadding]
       },
       yaxis: {
-        title: "-log10(padj)",
+        title: `-log10(${thresholds.field})`,
         range: [0 - yPadding, maxY + yPadding]
       },
       legend: {
@@ -287,21 +390,22 @@ export default function VolcanoPlaceholder({
         xanchor: "left" as const,
       },
       shapes: [
-        // Vertical line at logFC = 1 (upregulation threshold)
+        // Vertical line at the upregulation threshold
         { type: "line", x0: logfcThreshold, x1: logfcThreshold, y0: 0, y1: maxY, line: { color: "#94a3b8", width: 1, dash: "dash" } },
-        // Vertical line at logFC = -1 (downregulation threshold)
+        // Vertical line at the downregulation threshold
         { type: "line", x0: -logfcThreshold, x1: -logfcThreshold, y0: 0, y1: maxY, line: { color: "#94a3b8", width: 1, dash: "dash" } },
-        // Horizontal line at padj threshold
-        { type: "line", x0: minX, x1: maxX, y0: padjThreshold, y1: padjThreshold, line: { color: "#94a3b8", width: 1, dash: "dash" } },
+        // Horizontal line at the p-value threshold
+        { type: "line", x0: minX, x1: maxX, y0: pvalueThreshold, y1: pvalueThreshold, line: { color: "#94a3b8", width: 1, dash: "dash" } },
       ],
       annotations: [
+        ...labelAnnotations,
         // Upregulated count (top right)
         {
           x: maxX + xPadding,
           y: maxY + yPadding,
           xref: "x",
           yref: "y",
-          text: `Upregulated: ${upregulatedCount}`,
+          text: `Upregulated: ${counts.up}`,
           showarrow: false,
           xanchor: "right",
           yanchor: "top",
@@ -316,7 +420,7 @@ export default function VolcanoPlaceholder({
           y: maxY + yPadding,
           xref: "x",
           yref: "y",
-          text: `Downregulated: ${downregulatedCount}`,
+          text: `Downregulated: ${counts.down}`,
           showarrow: false,
           xanchor: "left",
           yanchor: "top",
@@ -328,8 +432,27 @@ export default function VolcanoPlaceholder({
       ],
     };
 
-    window.Plotly.react(plotRef.current, traces, layout, { displayModeBar: false, responsive: true });
-  }, [allPoints, selectedCellTypes]);
+    window.Plotly.react(root, traces, layout, { displayModeBar: false, responsive: true });
+
+    // Clicking a point pins (or unpins) its label
+    root.removeAllListeners?.("plotly_click");
+    root.on?.("plotly_click", (event) => {
+      const key = event.points[0]?.customdata;
+      if (typeof key !== "string" || !pointsByKey.has(key)) return;
+      setPinned((prev) => (prev.includes(key) ? prev.filter((item) => item !== key) : [...prev, key]));
+    });
+    // A lasso replaces the gene list; Plotly sends no points when the selection is cleared
+    root.removeAllListeners?.("plotly_selected");
+    root.on?.("plotly_selected", (event) => {
+      if (!event?.points) return;
+      const genes = new Set<string>();
+      event.points.forEach((point) => {
+        const p = typeof point.customdata === "string" ? pointsByKey.get(point.customdata) : undefined;
+        if (p) genes.add(p.gene);
+      });
+      setLassoGenes(Array.from(genes, (gene) => ({ gene, checked: true })));
+    });
+  }, [plotPoints, highlightedPoints, pinned, labelsPerCellType, showNonSignificant, counts, thresholds, selectedCellTypes, dragMode]);
 
   if (selectedCellTypes.length === 0) {
     return (
@@ -350,9 +473,54 @@ export default function VolcanoPlaceholder({
         <div>
           <div className="h3">Volcano</div>
           <div className="muted small">
-            Differential expression: {mapDiseaseLabel(selectedDisease)} vs Healthy (|logFC| &gt; 1, padj &lt; 0.05)
+            Differential expression: {mapDiseaseLabel(selectedDisease)} vs {mapDiseaseLabel(referenceDisease)} (|logFC| &gt; {thresholds.logfc}, {thresholds.field} &lt; {thresholds.pvalue})
           </div>
         </div>
+        <div className="row gap-sm">
+          <DataExportMenu
+            apiBase={apiBase}
+            tissue={manifest?.tissue}
+            filename={`volcano-${fileSlug(selectedDisease)}-vs-${fileSlug(referenceDisease)}`}
+            filters={{
+              disease: selectedDisease,
+              reference: referenceDisease,
+              cell_types: selectedCellTypes.join("; "),
+              logfc_threshold: String(thresholds.logfc),
+              pvalue_threshold: String(thresholds.pvalue),
+              pvalue_field: thresholds.field,
+              ...(accessionFilter ? { accessions: accessionFilter.join("; ") } : {}),
+            }}
+            tables={[
+              {
+                id: "points",
+                label: "Volcano points",
+                build: () => ({
+                  columns: ["cell_type", "gene", "logfc", thresholds.field, "neg_log10_p", "significant", "direction", "groups"],
+                  rows: allPoints.map((point) => [
+                    point.cellType,
+                    point.gene,
+                    point.logfc,
+                    point.pvalue,
+                    point.neglog10,
+                    point.significant,
+                    point.significant ? (point.logfc > 0 ? "up" : "down") : "",
+                    (point.groups ?? []).join("; "),
+                  ]),
+                }),
+              },
+            ]}
+          />
+          <PlotExportMenu
+            plotRef={plotRef}
+            filename={`volcano-${fileSlug(selectedDisease)}-vs-${fileSlug(referenceDisease)}`}
+            title={`${mapDiseaseLabel(selectedDisease)} vs ${mapDiseaseLabel(referenceDisease)}`}
+            caption={[
+              `Differential expression per cell type (${selectedCellTypes.join(", ")}).`,
+              `Significant: |logFC| > ${thresholds.logfc} and ${thresholds.field} < ${thresholds.pvalue};`,
+              `${counts.up} up, ${counts.down} down.`,
+            ].join(" ")}
+          />
+        </div>
       </div>
 
       <div className="panel-controls">
@@ -370,14 +538,200 @@ export default function VolcanoPlaceholder({
             ))}
           </select>
         </label>
+        <label className="control narrow">
+          <span>|logFC| &gt;</span>
+          <input
+            className="input"
+            type="number"
+            min={0}
+            step={0.1}
+            defaultValue={thresholds.logfc}
+            onChange={(event) => updateThreshold("logfc", event.target.value)}
+          />
+        </label>
+        <label className="control narrow">
+          <span>p-value &lt;</span>
+          <input
+            className="input"
+            type="number"
+            min={0}
+            max={1}
+            step={0.01}
+            defaultValue={thresholds.pvalue}
+            onChange={(event) => updateThreshold("pvalue", event.target.value)}
+          />
+        </label>
+        <label className="control">
+          <span>Significance from</span>
+          <select
+            value={thresholds.field}
+            onChange={(event) => setThresholds((prev) => ({ ...prev, field: event.target.value as PValueField }))}
+          >
+            {PVALUE_FIELDS.map((item) => (
+              <option key={item.value} value={item.value}>
+                {item.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="checkbox-row control-check">
+          <input
+            type="checkbox"
+            checked={showNonSignificant}
+            onChange={(event) => setShowNonSignificant(event.target.checked)}
+          />
+          <span>Show non-significant</span>
+        </label>
       </div>
 
-      {loading ? <div className="muted small" style={{ marginTop: 12 }}>Loading...</div> : null}
+      <BatchProgress
+        done={progress.done}
+        total={progress.total}
+        noun="cell types"
+        failed={failed}
+        onRetry={handleRetry}
+        retrying={retrying}
+      />
       {error ? <div className="error-banner">{error}</div> : null}
 
-      {allPoints.length > 0 ? (
+      {plotPoints.length > 0 ? (
         <>
-          <div className="plot-frame" ref={plotRef} style={{ height: 500 }} />
+          <div className="panel-controls">
+            <form
+              className="control"
+              onSubmit={(event) => {
+                event.preventDefault();
+                setHighlightGenes(parseGeneList(searchDraft));
+              }}
+            >
+              <span>Highlight genes</span>
+              <div className="row gap-sm">
+                <input
+                  className="input"
+                  value={searchDraft}
+                  onChange={(event) => setSearchDraft(event.target.value)}
+                  placeholder="e.g. IFI27, ISG15"
+                />
+                <button type="submit" className="btn btn-sm">
+                  Highlight
+                </button>
+              </div>
+            </form>
+            {markerGenes.length > 0 ? (
+              <button type="button" className="btn btn-sm ghost control-check" onClick={() => setHighlightGenes(markerGenes)}>
+                Highlight marker panel
+              </button>
+            ) : null}
+            {highlightGenes.length > 0 ? (
+              <button
+                type="button"
+                className="btn btn-sm ghost control-check"
+                onClick={() => {
+                  setHighlightGenes([]);
+                  setSearchDraft("");
+                }}
+              >
+                Clear highlight
+              </button>
+            ) : null}
+            <label className="control narrow">
+              <span>Labels per cell type</span>
+              <input
+                className="input"
+                type="number"
+                min={0}
+                max={MAX_LABELS_PER_CELL_TYPE}
+                value={labelsPerCellType}
+                onChange={(event) =>
+                  setLabelsPerCellType(Math.min(Math.max(Math.round(Number(event.target.value)) || 0, 0), MAX_LABELS_PER_CELL_TYPE))
+                }
+              />
+            </label>
+            <label className="control narrow">
+              <span>Drag to</span>
+              <select value={dragMode} onChange={(event) => setDragMode(event.target.value as DragMode)}>
+                <option value="zoom">Zoom</option>
+                <option value="lasso">Lasso select</option>
+              </select>
+            </label>
+            {pinned.length > 0 ? (
+              <button type="button" className="btn btn-sm ghost control-check" onClick={() => setPinned([])}>
+                Clear pins ({pinned.length})
+              </button>
+            ) : null}
+          </div>
+          <div className="muted small">
+            Click a point to pin its label.
+            {highlightGenes.length > 0 ? ` Highlighting ${highlightedPoints.length} points for ${highlightGenes.length - missingHighlights.length} of ${highlightGenes.length} genes.` : ""}
+            {missingHighlights.length > 0 ? ` Not in these results: ${missingHighlights.join(", ")}.` : ""}
+          </div>
+
+          <div className="plot-frame" ref={plotRef} style={{ height: PLOT_HEIGHT }} />
+
+          {lassoGenes.length > 0 ? (
+            <div className="card sub" style={{ marginTop: 12 }}>
+              <div className="row between">
+                <div className="h4">
+                  Lasso selection ({checkedLassoGenes.length} of {lassoGenes.length} genes)
+                </div>
+                <div className="row gap-sm">
+                  <button
+                    type="button"
+                    className="btn btn-sm ghost"
+                    disabled={checkedLassoGenes.length === 0}
+                    onClick={() =>
+                      downloadText(
+                        `volcano-selection-${fileSlug(selectedDisease)}-vs-${fileSlug(referenceDisease)}.txt`,
+                        `${checkedLassoGenes.join("\n")}\n`,
+                      )
+                    }
+                  >
+                    Export
+                  </button>
+                  {onOpenGenes ? (
+                    <>
+                      <button
+                        type="button"
+                        className="btn btn-sm ghost"
+                        disabled={checkedLassoGenes.length === 0}
+                        onClick={() => onOpenGenes(checkedLassoGenes, "dotplot")}
+                      >
+                        Open in dot plot
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-sm ghost"
+                        disabled={checkedLassoGenes.length === 0}
+                        onClick={() => onOpenGenes(checkedLassoGenes, "violin")}
+                      >
+                        Open in violin
+                      </button>
+                    </>
+                  ) : null}
+                  <button type="button" className="btn btn-sm ghost" onClick={() => setLassoGenes([])}>
+                    Clear
+                  </button>
+                </div>
+              </div>
+              <div className="chips">
+                {lassoGenes.map((item) => (
+                  <button
+                    key={item.gene}
+                    type="button"
+                    className={`chip toggle ${item.checked ? "" : "off"}`}
+                    aria-pressed={item.checked}
+                    onClick={() =>
+                      setLassoGenes((prev) =>
+                        prev.map((entry) => (entry.gene === item.gene ? { ...entry, checked: !entry.checked } : entry)),
+                      )
+                    }
+                  >
+                    {item.gene}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : null}
 
           {/* Tables for top up/down regulated genes */}
           <div className="panel-grid" style={{ marginTop: 16 }}>
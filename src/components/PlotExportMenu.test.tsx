@@ -0,0 +1,92 @@
+import { useRef } from "react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import PlotExportMenu from "./PlotExportMenu";
+import { captureDownloads, stubPlotly, type PlotlyStub } from "../test/utils";
+
+function Harness({ drawn = true }: { drawn?: boolean }) {
+  const plotRef = useRef<HTMLDivElement | null>(null);
+  return (
+    <div>
+      <PlotExportMenu plotRef={plotRef} filename="volcano-sle-vs-normal" title="SLE vs Healthy" caption="CD14 Mono" />
+      <div
+        ref={(node) => {
+          plotRef.current = node;
+          if (node && drawn) {
+            window.Plotly?.react(node, [{ type: "scatter", marker: { color: "#ef4444" } }], { height: 520 }, {});
+          }
+        }}
+      />
+    </div>
+  );
+}
+
+describe("PlotExportMenu", () => {
+  let plotly: PlotlyStub;
+
+  beforeEach(() => {
+    plotly = stubPlotly();
+  });
+
+  it("renders the drawn figure as SVG with the selection's title", async () => {
+    const downloads = captureDownloads();
+    render(<Harness />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Export figure" }));
+    expect((screen.getByLabelText("Title") as HTMLInputElement).value).toBe("SLE vs Healthy");
+    fireEvent.click(screen.getByRole("button", { name: "Download SVG" }));
+
+    await waitFor(() => expect(downloads).toHaveLength(1));
+    expect(downloads[0].filename).toBe("volcano-sle-vs-normal.svg");
+    expect(downloads[0].type).toBe("image/svg+xml");
+    expect(await downloads[0].text()).toBe("<svg></svg>");
+
+    const [figure, options] = plotly.toImage.mock.calls[0] as [{ layout: Record<string, unknown> }, PlotlyImageOptions];
+    expect(options).toEqual({ format: "svg", width: 900, height: 600 });
+    expect(figure.layout).toMatchObject({ width: 900, height: 600, paper_bgcolor: "#ffffff", title: { text: "SLE vs Healthy" } });
+    expect(screen.queryByRole("dialog")).toBeNull();
+  });
+
+  it("passes size, font and resolution through to PNG", async () => {
+    const downloads = captureDownloads();
+    render(<Harness />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Export figure" }));
+    fireEvent.change(screen.getByLabelText("Format"), { target: { value: "png" } });
+    fireEvent.change(screen.getByLabelText("Resolution"), { target: { value: "4" } });
+    fireEvent.change(screen.getByLabelText("Width (px)"), { target: { value: "1200" } });
+    // Out of range, ignored
+    fireEvent.change(screen.getByLabelText("Height (px)"), { target: { value: "5" } });
+    fireEvent.change(screen.getByLabelText("Font size"), { target: { value: "18" } });
+    fireEvent.click(screen.getByRole("button", { name: "Download PNG" }));
+
+    await waitFor(() => expect(downloads).toHaveLength(1));
+    expect(downloads[0].filename).toBe("volcano-sle-vs-normal.png");
+    const [figure, options] = plotly.toImage.mock.calls[0] as [{ layout: Record<string, unknown> }, PlotlyImageOptions];
+    expect(options).toEqual({ format: "png", width: 1200, height: 600, scale: 4 });
+    expect(figure.layout.font).toEqual({ size: 18 });
+  });
+
+  it("wraps a JPEG rendering in a PDF", async () => {
+    const downloads = captureDownloads();
+    render(<Harness />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Export figure" }));
+    fireEvent.change(screen.getByLabelText("Format"), { target: { value: "pdf" } });
+    fireEvent.click(screen.getByRole("button", { name: "Download PDF" }));
+
+    await waitFor(() => expect(downloads).toHaveLength(1));
+    expect(downloads[0].filename).toBe("volcano-sle-vs-normal.pdf");
+    expect(downloads[0].type).toBe("application/pdf");
+    expect(plotly.toImage.mock.calls[0][1]).toMatchObject({ format: "jpeg", scale: 3 });
+    expect(await downloads[0].text()).toContain("/MediaBox [0 0 675 450]");
+  });
+
+  it("reports when nothing has been drawn", () => {
+    render(<Harness drawn={false} />);
+    fireEvent.click(screen.getByRole("button", { name: "Export figure" }));
+    fireEvent.click(screen.getByRole("button", { name: "Download SVG" }));
+    expect(screen.getByText("Nothing to export yet")).toBeTruthy();
+    expect(plotly.toImage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,197 @@
+import { useState, type RefObject } from "react";
+import { dataUrlBytes, downloadBlob } from "../lib/download";
+import { jpegToPdf, POINTS_PER_PIXEL } from "../lib/pdf";
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  IMAGE_FORMATS,
+  buildExportFigure,
+  type ExportSettings,
+  type Figure,
+  type ImageFormat,
+} from "../lib/plotExport";
+
+type PlotExportMenuProps = {
+  plotRef: RefObject<HTMLDivElement | null>;
+  // File name without extension
+  filename: string;
+  // Defaults for the editable title and caption, describing the current selection
+  title: string;
+  caption: string;
+};
+
+const SCALES = [1, 2, 3, 4];
+
+type NumericSetting = "width" | "height" | "fontSize";
+
+const LIMITS: Record<NumericSetting, [number, number]> = {
+  width: [200, 4000],
+  height: [200, 4000],
+  fontSize: [6, 32],
+};
+
+export default function PlotExportMenu({ plotRef, filename, title, caption }: PlotExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [settings, setSettings] = useState<ExportSettings>({ ...DEFAULT_EXPORT_SETTINGS, title, caption });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = () => {
+    // Title and caption follow the selection each time the menu opens
+    if (!open) setSettings((prev) => ({ ...prev, title, caption }));
+    setError(null);
+    setOpen(!open);
+  };
+
+  // Ignore partial or out-of-range input while typing
+  const updateNumber = (key: NumericSetting, raw: string) => {
+    const value = Number(raw);
+    const [min, max] = LIMITS[key];
+    if (raw.trim() === "" || !Number.isFinite(value) || value < min || value > max) return;
+    setSettings((prev) => ({ ...prev, [key]: Math.round(value) }));
+  };
+
+  const handleExport = async () => {
+    const root = plotRef.current as PlotlyHTMLElement | null;
+    if (!window.Plotly || !root?.data || !root.layout) {
+      setError("Nothing to export yet");
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      const figure = buildExportFigure({ data: root.data, layout: root.layout } as Figure, settings);
+      const size = { width: settings.width, height: settings.height };
+      if (settings.format === "svg") {
+        const url = await window.Plotly.toImage(figure, { format: "svg", ...size });
+        downloadBlob(`${filename}.svg`, new Blob([dataUrlBytes(url)], { type: "image/svg+xml" }));
+      } else if (settings.format === "png") {
+        const url = await window.Plotly.toImage(figure, { format: "png", ...size, scale: settings.scale });
+        downloadBlob(`${filename}.png`, new Blob([dataUrlBytes(url)], { type: "image/png" }));
+      } else {
+        const url = await window.Plotly.toImage(figure, { format: "jpeg", ...size, scale: settings.scale });
+        const pdf = jpegToPdf(
+          dataUrlBytes(url),
+          { width: Math.round(settings.width * settings.scale), height: Math.round(settings.height * settings.scale) },
+          { width: settings.width * POINTS_PER_PIXEL, height: settings.height * POINTS_PER_PIXEL },
+        );
+        downloadBlob(`${filename}.pdf`, pdf);
+      }
+      setOpen(false);
+    } catch (err) {
+      setError(`Export failed: ${String((err as Error).message ?? err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="export-menu">
+      <button type="button" className="btn btn-sm ghost" aria-expanded={open} onClick={toggle}>
+        Export figure
+      </button>
+      {open ? (
+        <div className="export-menu-popover card" role="dialog" aria-label="Export figure">
+          <div className="panel-controls">
+            <label className="control narrow">
+              <span>Format</span>
+              <select
+                value={settings.format}
+                onChange={(event) => setSettings((prev) => ({ ...prev, format: event.target.value as ImageFormat }))}
+              >
+                {IMAGE_FORMATS.map((item) => (
+                  <option key={item.value} value={item.value}>
+                    {item.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="control narrow">
+              <span>Resolution</span>
+              <select
+                value={settings.scale}
+                disabled={settings.format === "svg"}
+                onChange={(event) => setSettings((prev) => ({ ...prev, scale: Number(event.target.value) }))}
+              >
+                {SCALES.map((scale) => (
+                  <option key={scale} value={scale}>
+                    {scale * 96} dpi
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="control narrow">
+              <span>Width (px)</span>
+              <input
+                className="input"
+                type="number"
+                min={LIMITS.width[0]}
+                max={LIMITS.width[1]}
+                step={10}
+                defaultValue={settings.width}
+                onChange={(event) => updateNumber("width", event.target.value)}
+              />
+            </label>
+            <label className="control narrow">
+              <span>Height (px)</span>
+              <input
+                className="input"
+                type="number"
+                min={LIMITS.height[0]}
+                max={LIMITS.height[1]}
+                step={10}
+                defaultValue={settings.height}
+                onChange={(event) => updateNumber("height", event.target.value)}
+              />
+            </label>
+            <label className="control narrow">
+              <span>Font size</span>
+              <input
+                className="input"
+                type="number"
+                min={LIMITS.fontSize[0]}
+                max={LIMITS.fontSize[1]}
+                step={1}
+                defaultValue={settings.fontSize}
+                onChange={(event) => updateNumber("fontSize", event.target.value)}
+              />
+            </label>
+          </div>
+          <label className="field">
+            <span className="muted small">Title</span>
+            <input
+              className="input"
+              value={settings.title}
+              onChange={(event) => setSettings((prev) => ({ ...prev, title: event.target.value }))}
+            />
+          </label>
+          <label className="field">
+            <span className="muted small">Caption</span>
+            <textarea
+              className="input"
+              rows={3}
+              value={settings.caption}
+              onChange={(event) => setSettings((prev) => ({ ...prev, caption: event.target.value }))}
+            />
+          </label>
+          <label className="checkbox-row">
+            <input
+              type="checkbox"
+              checked={settings.publication}
+              onChange={(event) => setSettings((prev) => ({ ...prev, publication: event.target.checked }))}
+            />
+            <span>Publication theme (white background, no hover styling, colour-blind safe palette)</span>
+          </label>
+          {error ? <div className="error-banner">{error}</div> : null}
+          <div className="row gap-sm">
+            <button type="button" className="btn btn-sm" disabled={busy} onClick={handleExport}>
+              {busy ? "Rendering…" : `Download ${settings.format.toUpperCase()}`}
+            </button>
+            <button type="button" className="btn btn-sm ghost" onClick={() => setOpen(false)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useEffect, useState } from "react";
+import { MOCK_API_BASE, isMockApiBase } from "../lib/api";
 
 type SettingsModalProps = {
   isOpen: boolean;
@@ -18,12 +19,17 @@ export default function SettingsModal({
   onReset,
 }: SettingsModalProps) {
   const [draft, setDraft] = useState(apiBase);
+  // Remembers the URL to restore when the mock toggle is switched off
+  const [liveDraft, setLiveDraft] = useState(isMockApiBase(apiBase) ? defaultApiBase : apiBase);
 
   useEffect(() => {
     if (isOpen) {
       setDraft(apiBase);
+      setLiveDraft(isMockApiBase(apiBase) ? defaultApiBase : apiBase);
     }
-  }, [isOpen, apiBase]);
+  }, [isOpen, apiBase, defaultApiBase]);
+
+  const useMock = isMockApiBase(draft);
 
   if (!isOpen) return null;
 
@@ -45,10 +51,30 @@ export default function SettingsModal({
             value={draft}
             onChange={(event) => setDraft(event.target.value)}
             placeholder={defaultApiBase}
+            disabled={useMock}
           />
           <div className="muted small">Default: {defaultApiBase}</div>
         </div>
 
+        <label className="checkbox-row top">
+          <input
+            type="checkbox"
+            checked={useMock}
+            onChange={(event) => {
+              if (event.target.checked) {
+                setLiveDraft(draft);
+                setDraft(MOCK_API_BASE);
+              } else {
+                setDraft(isMockApiBase(liveDraft) ? defaultApiBase : liveDraft);
+              }
+            }}
+          />
+          <span>
+            Use offline mock data
+            <span className="muted small"> — a synthetic atlas generated in the browser, no network needed</span>
+          </span>
+        </label>
+
         <div className="row gap top">
           <button
             className="btn"
@@ -1,12 +1,21 @@
 import { useEffect, useMemo, useState } from "react";
-import type { Manifest, Mode } from "../lib/types";
+import { CUSTOM_PANEL_PREFIX, customPanelName } from "../lib/genes";
+import type { Manifest, Mode, VisualizationTab } from "../lib/types";
 import CompositionPlaceholder from "./PlaceholderPanels/CompositionPlaceholder";
 import VolcanoPlaceholder from "./PlaceholderPanels/VolcanoPlaceholder";
+import DeTablePlaceholder from "./PlaceholderPanels/DeTablePlaceholder";
 import OverlapPlaceholder from "./PlaceholderPanels/OverlapPlaceholder";
 import ExpressionPlaceholder from "./PlaceholderPanels/ExpressionPlaceholder";
 import ConcordancePlaceholder from "./PlaceholderPanels/ConcordancePlaceholder";
+import ViolinPlaceholder from "./PlaceholderPanels/ViolinPlaceholder";
+import UMAPPlaceholder from "./PlaceholderPanels/UMAPPlaceholder";
+import DotplotPlaceholder from "./PlaceholderPanels/DotplotPlaceholder";
+import DatasetBrowser from "./DatasetBrowser";
 import ErrorBoundary from "./ErrorBoundary";
 
+// Stand-in panel for genes picked on the volcano; it is never written to storage
+const VOLCANO_SELECTION_PANEL = `${CUSTOM_PANEL_PREFIX}Volcano selection, unsaved`;
+
 type VisualizationProps = {
   manifest: Manifest | null;
   isLoading: boolean;
@@ -14,12 +23,19 @@ type VisualizationProps = {
   disease: string;
   leftDisease: string;
   rightDisease: string;
+  referenceDisease: string;
   selectedCellTypes: string[];
+  tab: VisualizationTab;
+  onTabChange: (tab: VisualizationTab) => void;
   markerPanels: string[];
   markerPanel: string;
   onMarkerPanelChange: (panel: string) => void;
   markerGenes: string[];
   markersLoading: boolean;
+  excludedAccessions: string[];
+  onExcludedAccessionsChange: (next: string[]) => void;
+  // Accessions requests are restricted to; null when none is excluded
+  accessionFilter: string[] | null;
 };
 
 export default function Visualization({
@@ -29,28 +45,36 @@ export default function Visualization({
   disease,
   leftDisease,
   rightDisease,
+  referenceDisease,
   selectedCellTypes,
+  tab,
+  onTabChange,
   markerPanels,
   markerPanel,
   onMarkerPanelChange,
   markerGenes,
   markersLoading,
+  excludedAccessions,
+  onExcludedAccessionsChange,
+  accessionFilter,
 }: VisualizationProps) {
-  const [tab, setTab] = useState<
-    "composition" | "violin" | "volcano" | "overlap" | "concordance"
-  >("composition");
-
   useEffect(() => {
+    if (isLoading) return;
     if (mode === "single" && (tab === "overlap" || tab === "concordance")) {
-      setTab("composition");
+      onTabChange("composition");
     }
-  }, [mode, tab]);
+  }, [isLoading, mode, tab, onTabChange]);
 
   const tabLabels = useMemo(() => {
-    const base = [
+    const base: Array<{ id: VisualizationTab; label: string }> = [
+      { id: "umap", label: "UMAP" },
       { id: "composition", label: "Composition" },
+      { id: "dotplot", label: "Dot plot" },
       { id: "volcano", label: "Volcano" },
+      { id: "de", label: "DE table" },
       { id: "violin", label: "Violin" },
+      { id: "gene", label: "Gene violin" },
+      { id: "datasets", label: "Datasets" },
     ];
     if (mode === "compare") {
       base.push({ id: "concordance", label: "Concordance" }, { id: "overlap", label: "Overlap" });
@@ -58,6 +82,23 @@ export default function Visualization({
     return base;
   }, [mode]);
 
+  // Genes opened from the volcano stand in for the marker panel until another panel is picked
+  const [openedGenes, setOpenedGenes] = useState<{ genes: string[]; basePanel: string } | null>(null);
+  const selectionGenes = openedGenes?.basePanel === markerPanel ? openedGenes.genes : null;
+  const viewGenes = selectionGenes ?? markerGenes;
+  const viewPanel = selectionGenes ? VOLCANO_SELECTION_PANEL : markerPanel;
+  const viewPanels = selectionGenes ? [...markerPanels, VOLCANO_SELECTION_PANEL] : markerPanels;
+
+  const handleOpenGenes = (genes: string[], target: VisualizationTab) => {
+    setOpenedGenes({ genes, basePanel: markerPanel });
+    onTabChange(target);
+  };
+
+  const handleViewPanelChange = (panel: string) => {
+    setOpenedGenes(null);
+    if (panel !== VOLCANO_SELECTION_PANEL) onMarkerPanelChange(panel);
+  };
+
   if (!manifest || isLoading) {
     return (
       <section className="col">
@@ -76,6 +117,16 @@ export default function Visualization({
       <div className="card">
         <div className="row between">
           <div className="h2">Visualization</div>
+          {accessionFilter ? (
+            <div className="row gap-sm">
+              <button type="button" className="pill subtle" onClick={() => onTabChange("datasets")}>
+                {accessionFilter.length} of {manifest.accessions.length} accessions
+              </button>
+              <button type="button" className="btn btn-sm ghost" onClick={() => onExcludedAccessionsChange([])}>
+                Include all
+              </button>
+            </div>
+          ) : null}
         </div>
 
         <div className="tabs">
@@ -83,20 +134,58 @@ export default function Visualization({
             <button
               key={item.id}
               className={`tab ${tab === item.id ? "on" : ""}`}
-              onClick={() => setTab(item.id as typeof tab)}
+              onClick={() => onTabChange(item.id)}
             >
               {item.label}
             </button>
           ))}
         </div>
 
+        {selectionGenes && (tab === "dotplot" || tab === "violin") ? (
+          <div className="row between gap-sm">
+            <div className="muted small">
+              Showing {selectionGenes.length} genes selected on the volcano. They are not saved as a marker panel.
+            </div>
+            <button type="button" className="btn btn-sm ghost" onClick={() => setOpenedGenes(null)}>
+              Back to marker panel
+            </button>
+          </div>
+        ) : null}
+
         <ErrorBoundary fallbackTitle="Visualization error" fallbackMessage="Unable to render this panel.">
+          {tab === "umap" ? (
+            <UMAPPlaceholder
+              mode={mode}
+              selectedCellTypes={selectedCellTypes}
+              disease={disease}
+              leftDisease={leftDisease}
+              rightDisease={rightDisease}
+              genes={markerGenes}
+              tissue={manifest.tissue}
+              accessionFilter={accessionFilter}
+            />
+          ) : null}
+
           {tab === "composition" ? (
-            <CompositionPlaceholder selectedCellTypes={selectedCellTypes} />
+            <CompositionPlaceholder
+              selectedCellTypes={selectedCellTypes}
+              tissue={manifest.tissue}
+              accessions={manifest.accessions}
+              accessionFilter={accessionFilter}
+            />
+          ) : null}
+
+          {tab === "dotplot" ? (
+            <DotplotPlaceholder
+              genes={viewGenes}
+              selectedCellTypes={selectedCellTypes}
+              markerPanel={selectionGenes ? customPanelName(VOLCANO_SELECTION_PANEL) : markerPanel}
+              tissue={manifest.tissue}
+            />
           ) : null}
 
           {tab === "violin" ? (
-            markerGenes.length === 0 || !disease || (mode === "compare" && (!leftDisease || !rightDisease)) ? (
+            viewGenes.length === 0 || !disease || (mode === "compare" && (!leftDisease || !rightDisease)) ? (
               <div className="panel">
                 <div className="h3">Violin</div>
                 <div className="muted small">Select genes to view expression distributions</div>
@@ -107,14 +196,29 @@ export default function Visualization({
                 disease={disease}
                 leftDisease={leftDisease}
                 rightDisease={rightDisease}
-                genes={markerGenes}
-                markerPanels={markerPanels}
-                markerPanel={markerPanel}
-                onMarkerPanelChange={onMarkerPanelChange}
+                referenceDisease={referenceDisease}
+                selectedCellTypes={selectedCellTypes}
+                genes={viewGenes}
+                markerPanels={viewPanels}
+                markerPanel={viewPanel}
+                onMarkerPanelChange={handleViewPanelChange}
+                tissue={manifest.tissue}
+                accessionFilter={accessionFilter}
               />
             )
           ) : null}
 
+          {tab === "gene" ? (
+            <ViolinPlaceholder
+              genes={markerGenes}
+              disease={disease}
+              referenceDisease={referenceDisease}
+              selectedCellTypes={selectedCellTypes}
+              tissue={manifest.tissue}
+              accessionFilter={accessionFilter}
+            />
+          ) : null}
+
           {tab === "volcano" ? (
             <VolcanoPlaceholder
               manifest={manifest}
@@ -122,7 +226,21 @@ export default function Visualization({
               disease={disease}
               leftDisease={leftDisease}
               rightDisease={rightDisease}
+              referenceDisease={referenceDisease}
               selectedCellTypes={selectedCellTypes}
+              accessionFilter={accessionFilter}
+              markerGenes={markerGenes}
+              onOpenGenes={handleOpenGenes}
+            />
+          ) : null}
+
+          {tab === "de" ? (
+            <DeTablePlaceholder
+              manifest={manifest}
+              disease={disease}
+              referenceDisease={referenceDisease}
+              selectedCellTypes={selectedCellTypes}
+              accessionFilter={accessionFilter}
             />
           ) : null}
 
@@ -131,11 +249,30 @@ export default function Visualization({
               mode={mode}
               leftDisease={leftDisease}
               rightDisease={rightDisease}
+              referenceDisease={referenceDisease}
+              selectedCellTypes={selectedCellTypes}
+              tissue={manifest.tissue}
+              accessionFilter={accessionFilter}
             />
           ) : null}
 
           {tab === "overlap" && mode === "compare" ? (
-            <OverlapPlaceholder leftDisease={leftDisease} rightDisease={rightDisease} />
+            <OverlapPlaceholder
+              leftDisease={leftDisease}
+              rightDisease={rightDisease}
+              referenceDisease={referenceDisease}
+              selectedCellTypes={selectedCellTypes}
+              tissue={manifest.tissue}
+              accessionFilter={accessionFilter}
+            />
+          ) : null}
+
+          {tab === "datasets" ? (
+            <DatasetBrowser
+              manifest={manifest}
+              excludedAccessions={excludedAccessions}
+              onExcludedAccessionsChange={onExcludedAccessionsChange}
+            />
           ) : null}
         </ErrorBoundary>
       </div>
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { accessionFilter, summarizeAccessions } from "./accessions";
+import type { Accession } from "./types";
+
+const ACCESSIONS: Accession[] = [
+  { id: "GSE1", disease: "SLE", platform: "10x 3'", donors: 4, cells: 1200, tissue: "PBMC" },
+  { id: "GSE2", disease: "SLE", platform: "Smart-seq2", donors: 2, cells: 300, tissue: "PBMC" },
+  { id: "GSE3", disease: "Healthy", platform: "10x 3'", donors: 5, cells: 2000, tissue: "PBMC" },
+];
+
+describe("summarizeAccessions", () => {
+  it("totals donors and cells overall, per platform and per disease", () => {
+    const summary = summarizeAccessions(ACCESSIONS);
+    expect(summary.totals).toEqual({ accessions: 3, donors: 11, cells: 3500 });
+    expect(summary.byPlatform).toEqual([
+      { key: "10x 3'", accessions: 2, donors: 9, cells: 3200 },
+      { key: "Smart-seq2", accessions: 1, donors: 2, cells: 300 },
+    ]);
+    expect(summary.byDisease.map((row) => [row.key, row.donors, row.cells])).toEqual([
+      ["Healthy", 5, 2000],
+      ["SLE", 6, 1500],
+    ]);
+  });
+});
+
+describe("accessionFilter", () => {
+  it("is null while nothing is excluded", () => {
+    expect(accessionFilter(ACCESSIONS, [])).toBeNull();
+    expect(accessionFilter(ACCESSIONS, ["GSE9"])).toBeNull();
+  });
+
+  it("lists the accessions left in, in manifest order", () => {
+    expect(accessionFilter(ACCESSIONS, ["GSE2"])).toEqual(["GSE1", "GSE3"]);
+  });
+});
@@ -0,0 +1,52 @@
+import type { Accession } from "./types";
+
+export type AccessionTotals = {
+  accessions: number;
+  donors: number;
+  cells: number;
+};
+
+export type AccessionBreakdown = AccessionTotals & { key: string };
+
+export type AccessionSummary = {
+  totals: AccessionTotals;
+  // Largest first by cells
+  byPlatform: AccessionBreakdown[];
+  byDisease: AccessionBreakdown[];
+};
+
+function tally(items: Accession[]): AccessionTotals {
+  return {
+    accessions: items.length,
+    donors: items.reduce((sum, item) => sum + (item.donors ?? 0), 0),
+    cells: items.reduce((sum, item) => sum + (item.cells ?? 0), 0),
+  };
+}
+
+function breakdown(items: Accession[], keyOf: (item: Accession) => string): AccessionBreakdown[] {
+  const groups = new Map<string, Accession[]>();
+  items.forEach((item) => {
+    const key = keyOf(item) || "Unknown";
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+  return Array.from(groups, ([key, members]) => ({ key, ...tally(members) })).sort(
+    (a, b) => b.cells - a.cells || a.key.localeCompare(b.key),
+  );
+}
+
+export function summarizeAccessions(items: Accession[]): AccessionSummary {
+  return {
+    totals: tally(items),
+    byPlatform: breakdown(items, (item) => item.platform),
+    byDisease: breakdown(items, (item) => item.disease),
+  };
+}
+
+// Ids to restrict requests to, or null when nothing is excluded so requests stay unfiltered
+// (and keep hitting the same cache entries)
+export function accessionFilter(items: Accession[], excluded: string[]): string[] | null {
+  if (excluded.length === 0) return null;
+  const skip = new Set(excluded);
+  const included = items.filter((item) => !skip.has(item.id)).map((item) => item.id);
+  return included.length === items.length ? null : included;
+}
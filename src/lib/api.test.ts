@@ -0,0 +1,364 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  fetchAllDeRows,
+  fetchAllSettled,
+  fetchComposition,
+  fetchDeByDisease,
+  fetchDeTable,
+  fetchManifest,
+  fetchSignatureScore,
+  fetchUmap,
+  fetchViolin,
+} from "./api";
+import { AbortedError, HttpError, NetworkError, TimeoutError, UnsupportedParameterError, ValidationError } from "./errors";
+import { jsonResponse } from "../test/utils";
+
+const BASE = "https://atlas.test";
+const COMPOSITION = { ok: true, groups: ["Healthy"], cell_types: ["NK cells"], counts: [[10]] };
+
+function stubFetch(...responses: Array<Response | Error>) {
+  const fetchMock = vi.fn(async () => {
+    const next = responses.length > 1 ? responses.shift() : responses[0];
+    if (next instanceof Error) throw next;
+    return next!.clone();
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+function requestedUrl(fetchMock: ReturnType<typeof stubFetch>, call = 0) {
+  return new URL(String((fetchMock.mock.calls[call] as unknown[])[0]));
+}
+
+// A fetch that only settles when its signal aborts, like a stalled connection
+function stubHangingFetch() {
+  const fetchMock = vi.fn(
+    (_url: string, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+      }),
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("URL construction", () => {
+  it("strips trailing slashes from the base", async () => {
+    const fetchMock = stubFetch(jsonResponse(COMPOSITION));
+    await fetchComposition(`${BASE}///`, "accession");
+    expect(requestedUrl(fetchMock).toString()).toBe(`${BASE}/atlas/composition?group_by=accession`);
+  });
+
+  it("only sets optional query parameters that were given", async () => {
+    const fetchMock = stubFetch(jsonResponse({ ok: true, x: [], y: [] }));
+    await fetchUmap(BASE, "SLE", 5000, null, "cell_type");
+    const url = requestedUrl(fetchMock);
+    expect(url.pathname).toBe("/atlas/umap");
+    expect(Object.fromEntries(url.searchParams)).toEqual({ disease: "SLE", max_points: "5000", color_by: "cell_type" });
+  });
+
+  it("encodes cell types and defaults the DE paging parameters", async () => {
+    const fetchMock = stubFetch(jsonResponse({ ok: true, rows: [] }));
+    await fetchDeByDisease(BASE, "RA", "CD4+ T cells", undefined, undefined, undefined, "Healthy");
+    const url = requestedUrl(fetchMock);
+    expect(url.search).toContain("cell_type=CD4%2B+T+cells");
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      disease: "RA",
+      cell_type: "CD4+ T cells",
+      limit: "50",
+      offset: "0",
+      top_n: "5",
+      reference: "Healthy",
+    });
+  });
+
+  it("builds violin requests with the requested summary kind", async () => {
+    const fetchMock = stubFetch(jsonResponse({ ok: true, kind: "hist", groups: [], bins: [0, 1], counts: [] }));
+    await fetchViolin(BASE, "CD3E", "cell_type", "hist", "SjS");
+    expect(Object.fromEntries(requestedUrl(fetchMock).searchParams)).toEqual({
+      gene: "CD3E",
+      group_by: "cell_type",
+      kind: "hist",
+      disease: "SjS",
+    });
+  });
+
+  it("builds signature score requests and checks the contribution matrix against the genes", async () => {
+    const fetchMock = stubFetch(
+      jsonResponse({ ok: true, genes: ["MX1", "ISG15"], groups: ["NK"], n: [5], mean: [0.4], bins: [0, 1], counts: [[5]], contributions: [[0.4]] }),
+    );
+    const error = await fetchSignatureScore(BASE, ["MX1", "ISG15"], "ucell", "cell_type", "SLE", null).catch((err: unknown) => err);
+    expect(Object.fromEntries(requestedUrl(fetchMock).searchParams)).toEqual({
+      genes: "MX1,ISG15",
+      method: "ucell",
+      group_by: "cell_type",
+      disease: "SLE",
+    });
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).issues.join(" ")).toContain("contributions[0] has 1 entries but genes has 2");
+  });
+
+  it("restricts requests to the included accessions, and only when some are excluded", async () => {
+    const fetchMock = stubFetch(
+      jsonResponse({ ...COMPOSITION, filters: { accessions: ["GSE2", "GSE1"] } }),
+      jsonResponse(COMPOSITION),
+      jsonResponse({ ok: true, rows: [], filters: { accessions: ["GSE2"] } }),
+    );
+    await fetchComposition(BASE, "donor", ["GSE1", "GSE2"]);
+    await fetchComposition(BASE, "donor", null);
+    await fetchDeTable(BASE, { disease: "SLE", cellType: "NK", limit: 25, offset: 0, accessions: ["GSE2"] });
+    expect(requestedUrl(fetchMock, 0).searchParams.get("accessions")).toBe("GSE1,GSE2");
+    expect(requestedUrl(fetchMock, 1).searchParams.has("accessions")).toBe(false);
+    expect(requestedUrl(fetchMock, 2).searchParams.get("accessions")).toBe("GSE2");
+  });
+});
+
+describe("DE tables", () => {
+  it("sends sorting and filters only when set", async () => {
+    const fetchMock = stubFetch(jsonResponse({ ok: true, rows: [], total: 0 }));
+    await fetchDeTable(BASE, { disease: "SLE", cellType: "NK", limit: 25, offset: 50 });
+    expect(Object.fromEntries(requestedUrl(fetchMock).searchParams)).toEqual({
+      disease: "SLE",
+      cell_type: "NK",
+      limit: "25",
+      offset: "50",
+      top_n: "0",
+    });
+
+    await fetchDeTable(BASE, {
+      disease: "SLE",
+      cellType: "NK",
+      reference: "Healthy",
+      limit: 25,
+      offset: 0,
+      sortBy: "logfc",
+      order: "desc",
+      gene: "IFI",
+      direction: "up",
+      group: "Interferon",
+    });
+    expect(Object.fromEntries(requestedUrl(fetchMock, 1).searchParams)).toMatchObject({
+      reference: "Healthy",
+      sort_by: "logfc",
+      order: "desc",
+      gene: "IFI",
+      direction: "up",
+      group: "Interferon",
+    });
+  });
+
+  it("pages through every matching row", async () => {
+    const total = 2_345;
+    const fetchMock = vi.fn(async (input: string) => {
+      const params = new URL(input).searchParams;
+      const offset = Number(params.get("offset"));
+      const limit = Number(params.get("limit"));
+      const rows = Array.from({ length: Math.max(0, Math.min(limit, total - offset)) }, (_, idx) => ({
+        gene: `G${offset + idx}`,
+        logfc: 1,
+      }));
+      return jsonResponse({ ok: true, total, rows });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const progress: number[] = [];
+    const rows = await fetchAllDeRows(BASE, { disease: "SLE", cellType: "NK" }, { onPage: (loaded) => progress.push(loaded) });
+    expect(rows).toHaveLength(total);
+    expect(rows[total - 1].gene).toBe(`G${total - 1}`);
+    expect(progress).toEqual([1_000, 2_000, 2_345]);
+  });
+
+  it("sorts and filters locally when the backend ignores the table parameters", async () => {
+    const rows = [
+      { gene: "IFI44L", logfc: 2.1, p_val_adj: 0.001 },
+      { gene: "CD3E", logfc: -0.4, p_val_adj: 0.2 },
+      { gene: "IFI6", logfc: 3.2, p_val_adj: 0.01 },
+      { gene: "IFIT1", logfc: -1.5, p_val_adj: 0.03 },
+    ];
+    const fetchMock = stubFetch(jsonResponse({ ok: true, total: rows.length, rows }));
+    const res = await fetchDeTable(BASE, {
+      disease: "SLE",
+      cellType: "NK",
+      limit: 1,
+      offset: 1,
+      sortBy: "logfc",
+      order: "desc",
+      gene: "ifi",
+      direction: "up",
+    });
+    expect(res.total).toBe(2);
+    expect(res.rows?.map((row) => row.gene)).toEqual(["IFI44L"]);
+    const fallback = requestedUrl(fetchMock, 1);
+    expect(fallback.searchParams.has("sort_by")).toBe(false);
+    expect(fallback.searchParams.get("limit")).toBe("1000");
+
+    await expect(
+      fetchDeTable(BASE, { disease: "SLE", cellType: "NK", limit: 25, offset: 0, group: "Interferon" }),
+    ).rejects.toBeInstanceOf(UnsupportedParameterError);
+  });
+
+  it("fails the whole export when a page fails", async () => {
+    stubFetch(jsonResponse({ ok: false, error: "cell type NK not available" }));
+    await expect(fetchAllDeRows(BASE, { disease: "SLE", cellType: "NK" })).rejects.toThrow("cell type NK not available");
+  });
+});
+
+describe("backend contract", () => {
+  it("refuses a UMAP coloured by something other than what was asked for", async () => {
+    stubFetch(jsonResponse({ ok: true, color_key: "cell_type", x: [], y: [] }));
+    const error = await fetchUmap(BASE, null, 5000, null, "disease").catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(UnsupportedParameterError);
+    expect((error as UnsupportedParameterError).param).toBe("color_by");
+
+    stubFetch(jsonResponse({ ok: true, color_key: "cell_type", x: [], y: [] }));
+    await expect(fetchUmap(BASE, null, 5000, null, null, "ISG15")).rejects.toThrow("cannot colour the UMAP by gene expression");
+  });
+
+  it("refuses unfiltered data when the backend ignores the accession filter", async () => {
+    stubFetch(jsonResponse(COMPOSITION));
+    const error = await fetchComposition(BASE, "disease", ["GSE1"]).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(UnsupportedParameterError);
+    expect((error as UnsupportedParameterError).param).toBe("accessions");
+
+    stubFetch(jsonResponse({ ok: true, rows: [], filters: { accessions: ["GSE1", "GSE2"] } }));
+    await expect(fetchDeByDisease(BASE, "SLE", "NK", 50, 0, 5, null, ["GSE1"])).rejects.toThrow("ignored the accession filter");
+  });
+});
+
+describe("retries", () => {
+  it("retries 5xx responses with backoff and then succeeds", async () => {
+    vi.useFakeTimers();
+    const fetchMock = stubFetch(jsonResponse({ ok: false }, { status: 503 }), jsonResponse(COMPOSITION));
+    const promise = fetchComposition(BASE);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await expect(promise).resolves.toEqual(COMPOSITION);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("waits for Retry-After before trying again", async () => {
+    vi.useFakeTimers();
+    const fetchMock = stubFetch(
+      jsonResponse({ ok: false }, { status: 429, headers: { "Retry-After": "3" } }),
+      jsonResponse(COMPOSITION),
+    );
+    const promise = fetchComposition(BASE);
+    await vi.advanceTimersByTimeAsync(2_900);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(200);
+    await expect(promise).resolves.toEqual(COMPOSITION);
+  });
+
+  it("gives up after the retry budget with the last error", async () => {
+    vi.useFakeTimers();
+    const fetchMock = stubFetch(new TypeError("Failed to fetch"));
+    const promise = fetchComposition(BASE);
+    const assertion = expect(promise).rejects.toBeInstanceOf(NetworkError);
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry client errors", async () => {
+    const fetchMock = stubFetch(jsonResponse({ ok: false, error: "unknown gene" }, { status: 400 }));
+    const error = await fetchViolin(BASE, "NOPE").catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(400);
+    expect((error as HttpError).message).toContain("unknown gene");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects malformed bodies without retrying", async () => {
+    const fetchMock = stubFetch(jsonResponse({ ok: true, groups: "Healthy" }));
+    const error = await fetchComposition(BASE).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).issues.join(" ")).toContain("groups");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("timeouts and cancellation", () => {
+  it("times out each attempt and retries", async () => {
+    vi.useFakeTimers();
+    const fetchMock = stubHangingFetch();
+    const promise = fetchComposition(BASE, "disease", null, { timeoutMs: 1_000 });
+    const assertion = expect(promise).rejects.toBeInstanceOf(TimeoutError);
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("uses the longer per-endpoint timeout for DE tables", async () => {
+    vi.useFakeTimers();
+    stubHangingFetch();
+    const promise = fetchDeByDisease(BASE, "RA", "NK cells");
+    const assertion = expect(promise).rejects.toMatchObject({ timeoutMs: 60_000 });
+    await vi.runAllTimersAsync();
+    await assertion;
+  });
+
+  it("reports caller aborts as AbortedError", async () => {
+    stubHangingFetch();
+    const controller = new AbortController();
+    const promise = fetchManifest(BASE, { signal: controller.signal });
+    controller.abort();
+    await expect(promise).rejects.toBeInstanceOf(AbortedError);
+  });
+});
+
+describe("caching", () => {
+  it("shares one request between concurrent callers", async () => {
+    const fetchMock = stubFetch(jsonResponse(COMPOSITION));
+    const [a, b] = await Promise.all([fetchComposition(BASE), fetchComposition(BASE)]);
+    expect(a).toEqual(b);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not cache backend errors", async () => {
+    const fetchMock = stubFetch(jsonResponse({ ok: false, error: "not ready" }), jsonResponse(COMPOSITION));
+    await expect(fetchComposition(BASE)).resolves.toMatchObject({ ok: false });
+    await expect(fetchComposition(BASE)).resolves.toEqual(COMPOSITION);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("fetchAllSettled", () => {
+  it("never runs more than the concurrency limit at once", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const task = async (key: number) => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight -= 1;
+      return key * 2;
+    };
+    const results = await fetchAllSettled([1, 2, 3, 4, 5, 6, 7], task, { concurrency: 3 });
+    expect(peak).toBe(3);
+    expect(results.map((item) => item.status === "fulfilled" && item.value)).toEqual([2, 4, 6, 8, 10, 12, 14]);
+  });
+
+  it("keeps going past failures and reports progress in completion order", async () => {
+    const progress: Array<[string, number, number]> = [];
+    const results = await fetchAllSettled(
+      ["a", "b", "c"],
+      async (key) => {
+        if (key === "b") throw new Error("boom");
+        return key;
+      },
+      { concurrency: 1, onSettled: (item, done, total) => progress.push([item.key, done, total]) },
+    );
+    expect(results[1]).toEqual({ key: "b", status: "rejected", error: "boom" });
+    expect(progress).toEqual([
+      ["a", 1, 3],
+      ["b", 2, 3],
+      ["c", 3, 3],
+    ]);
+  });
+
+  it("rejects the batch when aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(fetchAllSettled([1], async (key) => key, { signal: controller.signal })).rejects.toMatchObject({
+      name: "AbortError",
+    });
+  });
+});
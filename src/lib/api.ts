@@ -1,53 +1,263 @@
-import type { CompositionResponse, DeResponse, DotplotByDiseaseResponse, DotplotResponse, Manifest, MarkersResponse, UmapResponse, ViolinResponse } from "./types";
+import {
+  AbortedError,
+  ApiError,
+  HttpError,
+  NetworkError,
+  TimeoutError,
+  UnsupportedParameterError,
+  ValidationError,
+  describeError,
+  parseRetryAfter,
+} from "./errors";
+import { abortError, cachedQuery, invalidateQueries } from "./queryCache";
+import {
+  ResponseValidationError,
+  describeApiError,
+  validateCompositionResponse,
+  validateDeResponse,
+  validateDotplotByDiseaseResponse,
+  validateDotplotResponse,
+  validateManifest,
+  validateSignatureScoreResponse,
+  validateUmapResponse,
+  validateViolinResponse,
+} from "./validate";
+import type {
+  CompositionResponse,
+  DeResponse,
+  DeRow,
+  DeTableQuery,
+  DotplotByDiseaseResponse,
+  DotplotResponse,
+  GenesResponse,
+  Manifest,
+  MarkersResponse,
+  SignatureMethod,
+  SignatureScoreResponse,
+  UmapResponse,
+  ViolinResponse,
+} from "./types";
 
 export const DEFAULT_API_BASE = "https://rnaseq-backend-y654q6wo2q-ew.a.run.app";
 export const ENV_API_BASE = import.meta.env.VITE_API_BASE_URL as string | undefined;
 export const DEFAULT_RESOLVED_BASE = ENV_API_BASE && ENV_API_BASE.length > 0 ? ENV_API_BASE : DEFAULT_API_BASE;
 
+// `VITE_API_BASE_URL=mock` (or "mock" in Settings) serves a synthetic atlas from the browser
+export const MOCK_API_BASE = "mock";
+const MOCK_ORIGIN = "https://mock.atlas.invalid";
+
 const TIMEOUT_MS = 20_000;
-const RETRY_COUNT = 1;
+// DE tables are computed on demand and UMAP payloads are large
+const ENDPOINT_TIMEOUTS_MS: Record<string, number> = {
+  "/atlas/de_by_disease": 60_000,
+  "/atlas/umap": 45_000,
+  "/atlas/dotplot_by_disease": 30_000,
+  "/atlas/signature_score": 30_000,
+};
+const MAX_RETRIES = 2;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8_000;
+const RETRY_AFTER_MAX_MS = 30_000;
+const DEFAULT_CONCURRENCY = 6;
+const DE_EXPORT_PAGE_SIZE = 1000;
+
+export type RequestOptions = {
+  signal?: AbortSignal;
+  // Overrides the per-endpoint timeout
+  timeoutMs?: number;
+};
 
 function stripTrailingSlash(url: string) {
   return url.replace(/\/+$/, "");
 }
 
-async function fetchJson<T>(url: string, init: RequestInit = {}, retries = RETRY_COUNT): Promise<T> {
-  let attempt = 0;
-  let lastError: unknown;
+export function isMockApiBase(apiBase: string) {
+  return apiBase.trim().toLowerCase() === MOCK_API_BASE;
+}
+
+function resolveBase(apiBase: string) {
+  return isMockApiBase(apiBase) ? MOCK_ORIGIN : stripTrailingSlash(apiBase);
+}
+
+// Restricts a request to cells from these accessions; null or empty means all of them
+function setAccessions(url: URL, accessions?: string[] | null) {
+  if (accessions && accessions.length > 0) {
+    url.searchParams.set("accessions", accessions.join(","));
+  }
+}
+
+// Accession filtering is outside the original API: a response whose `filters.accessions` does not
+// echo the requested ids came from a backend that ignored the filter, and holds every cell
+function checkAccessions<T extends { ok: boolean; filters?: { accessions?: string[] | null } }>(
+  url: string,
+  res: T,
+  accessions?: string[] | null,
+): T {
+  if (!res.ok || !accessions || accessions.length === 0) return res;
+  const applied = new Set(res.filters?.accessions ?? []);
+  const requested = new Set(accessions);
+  if (applied.size !== requested.size || [...requested].some((id) => !applied.has(id))) {
+    throw new UnsupportedParameterError(
+      url,
+      "accessions",
+      "This backend ignored the accession filter; include every accession in Datasets to load this view",
+    );
+  }
+  return res;
+}
+
+// The mock backend is only loaded once something asks for it
+async function send(url: string, signal: AbortSignal): Promise<Response> {
+  if (url.startsWith(MOCK_ORIGIN)) {
+    const { mockFetch } = await import("../mock/server");
+    return mockFetch(url, signal);
+  }
+  return fetch(url, { signal });
+}
+
+function timeoutFor(url: string) {
+  const path = new URL(url, window.location.origin).pathname;
+  const match = Object.keys(ENDPOINT_TIMEOUTS_MS).find((endpoint) => path.endsWith(endpoint));
+  return match ? ENDPOINT_TIMEOUTS_MS[match] : TIMEOUT_MS;
+}
+
+// Exponential backoff with jitter, unless the server told us how long to wait
+function retryDelay(error: ApiError, attempt: number) {
+  if (error instanceof HttpError && error.retryAfterMs !== null) {
+    return Math.min(error.retryAfterMs, RETRY_AFTER_MAX_MS);
+  }
+  const ceiling = Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+function sleep(ms: number, url: string, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortedError(url));
+      return;
+    }
+    const onAbort = () => {
+      window.clearTimeout(timeoutId);
+      reject(new AbortedError(url));
+    };
+    const timeoutId = window.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function readBody(res: Response): Promise<unknown> {
+  const text = await res.text().catch(() => "");
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
 
-  while (attempt <= retries) {
-    const controller = new AbortController();
-    const timeoutId = window.setTimeout(() => controller.abort(), TIMEOUT_MS);
+// One attempt, with every failure mapped onto a typed ApiError
+async function attemptRequest(url: string, timeoutMs: number, signal?: AbortSignal): Promise<unknown> {
+  if (signal?.aborted) throw new AbortedError(url);
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = window.setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    let res: Response;
     try {
-      const res = await fetch(url, { ...init, signal: controller.signal });
-      if (!res.ok) {
-        throw new Error(`HTTP ${res.status}`);
-      }
-      return (await res.json()) as T;
+      res = await send(url, controller.signal);
     } catch (error) {
-      lastError = error;
-      if (attempt === retries) {
-        throw error;
-      }
-    } finally {
-      window.clearTimeout(timeoutId);
+      if (timedOut) throw new TimeoutError(url, timeoutMs);
+      if (signal?.aborted) throw new AbortedError(url);
+      throw new NetworkError(url, error);
+    }
+    if (!res.ok) {
+      throw new HttpError(url, res.status, res.statusText, await readBody(res), parseRetryAfter(res.headers.get("Retry-After")));
+    }
+    try {
+      return await res.json();
+    } catch (error) {
+      if (timedOut) throw new TimeoutError(url, timeoutMs);
+      if (signal?.aborted) throw new AbortedError(url);
+      throw new ValidationError(url, `Response from ${url} is not valid JSON`, [describeError(error)]);
+    }
+  } finally {
+    window.clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+async function requestJson(url: string, signal?: AbortSignal, timeoutMs = timeoutFor(url)): Promise<unknown> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await attemptRequest(url, timeoutMs, signal);
+    } catch (error) {
+      // Aborts, 4xx and malformed bodies will not get better by asking again
+      if (!(error instanceof ApiError) || !error.retryable || attempt >= MAX_RETRIES) throw error;
+      await sleep(retryDelay(error, attempt), url, signal);
+    }
+  }
+}
+
+// Backend errors come back as `{ ok: false }`; keep them out of the cache so a retry hits the network
+function isCacheable(data: unknown) {
+  return !(data && typeof data === "object" && (data as { ok?: unknown }).ok === false);
+}
+
+// All GETs go through the shared cache so tab switches and duplicate panels reuse responses.
+// Responses are validated before they are cached, so a malformed body is never served twice.
+async function fetchJson<T>(url: string, options: RequestOptions = {}, validate?: (data: unknown) => T): Promise<T> {
+  const fetcher = async (signal: AbortSignal) => {
+    const data = await requestJson(url, signal, options.timeoutMs);
+    if (!validate) return data as T;
+    try {
+      return validate(data);
+    } catch (error) {
+      if (error instanceof ResponseValidationError) throw new ValidationError(url, error.message, error.issues);
+      throw error;
     }
-    attempt += 1;
+  };
+  try {
+    return await cachedQuery<T>(url, fetcher, { signal: options.signal, shouldStore: isCacheable });
+  } catch (error) {
+    // The cache layer rejects with a plain DOMException when this caller goes away
+    if (isAbortError(error) && !(error instanceof ApiError)) throw new AbortedError(url);
+    throw error;
   }
+}
+
+export function isAbortError(error: unknown) {
+  return (
+    error instanceof AbortedError || ((error instanceof DOMException || error instanceof Error) && error.name === "AbortError")
+  );
+}
 
-  throw lastError;
+export function invalidateApiCache() {
+  return invalidateQueries();
 }
 
-export async function fetchManifest(apiBase: string): Promise<Manifest> {
-  const url = `${stripTrailingSlash(apiBase)}/atlas/manifest`;
-  return fetchJson<Manifest>(url);
+export async function fetchManifest(apiBase: string, options: RequestOptions = {}): Promise<Manifest> {
+  const url = `${resolveBase(apiBase)}/atlas/manifest`;
+  return fetchJson<Manifest>(url, options, validateManifest);
 }
 
-export async function fetchMarkers(apiBase: string, panel: string): Promise<MarkersResponse> {
-  const base = stripTrailingSlash(apiBase);
+export async function fetchMarkers(apiBase: string, panel: string, options: RequestOptions = {}): Promise<MarkersResponse> {
+  const base = resolveBase(apiBase);
   const url = new URL(`${base}/atlas/markers`);
   url.searchParams.set("panel", panel);
-  return fetchJson<MarkersResponse>(url.toString());
+  return fetchJson<MarkersResponse>(url.toString(), options);
+}
+
+export async function fetchGenes(apiBase: string, options: RequestOptions = {}): Promise<GenesResponse> {
+  const url = `${resolveBase(apiBase)}/atlas/genes`;
+  return fetchJson<GenesResponse>(url, options);
 }
 
 export async function fetchUmap(
@@ -55,8 +265,12 @@ export async function fetchUmap(
   disease?: string | null,
   maxPoints?: number,
   cellType?: string | null,
+  colorBy?: string | null,
+  gene?: string | null,
+  accessions?: string[] | null,
+  options: RequestOptions = {},
 ): Promise<UmapResponse> {
-  const base = stripTrailingSlash(apiBase);
+  const base = resolveBase(apiBase);
   const url = new URL(`${base}/atlas/umap`);
   if (disease) {
     url.searchParams.set("disease", disease);
@@ -67,23 +281,53 @@ export async function fetchUmap(
   if (maxPoints) {
     url.searchParams.set("max_points", String(maxPoints));
   }
-  return fetchJson<UmapResponse>(url.toString());
+  if (colorBy) {
+    url.searchParams.set("color_by", colorBy);
+  }
+  if (gene) {
+    url.searchParams.set("gene", gene);
+  }
+  setAccessions(url, accessions);
+  const res = checkAccessions(
+    url.toString(),
+    await fetchJson<UmapResponse>(url.toString(), options, validateUmapResponse),
+    accessions,
+  );
+  if (!res.ok) return res;
+  // Older backends ignore `color_by` and `gene` and colour by cell type
+  if (colorBy && (res.color_key ?? "cell_type") !== colorBy) {
+    throw new UnsupportedParameterError(url.toString(), "color_by", `This backend cannot colour the UMAP by ${colorBy}`);
+  }
+  if (gene && (res.value_key?.toUpperCase() !== gene.toUpperCase() || !res.value)) {
+    throw new UnsupportedParameterError(url.toString(), "gene", "This backend cannot colour the UMAP by gene expression");
+  }
+  return res;
 }
 
-export async function fetchDotplot(apiBase: string, genes: string[], groupBy = "cell_type"): Promise<DotplotResponse> {
-  const base = stripTrailingSlash(apiBase);
+export async function fetchDotplot(
+  apiBase: string,
+  genes: string[],
+  groupBy = "cell_type",
+  options: RequestOptions = {},
+): Promise<DotplotResponse> {
+  const base = resolveBase(apiBase);
   const url = new URL(`${base}/atlas/dotplot`);
   url.searchParams.set("genes", genes.join(","));
   url.searchParams.set("group_by", groupBy);
-  return fetchJson<DotplotResponse>(url.toString());
+  return fetchJson<DotplotResponse>(url.toString(), options, validateDotplotResponse);
 }
 
-export async function fetchDotplotByDisease(apiBase: string, genes: string[], groupBy = "cell_type"): Promise<DotplotByDiseaseResponse> {
-  const base = stripTrailingSlash(apiBase);
+export async function fetchDotplotByDisease(
+  apiBase: string,
+  genes: string[],
+  groupBy = "cell_type",
+  options: RequestOptions = {},
+): Promise<DotplotByDiseaseResponse> {
+  const base = resolveBase(apiBase);
   const url = new URL(`${base}/atlas/dotplot_by_disease`);
   url.searchParams.set("genes", genes.join(","));
   url.searchParams.set("group_by", groupBy);
-  return fetchJson<DotplotByDiseaseResponse>(url.toString());
+  return fetchJson<DotplotByDiseaseResponse>(url.toString(), options, validateDotplotByDiseaseResponse);
 }
 
 export async function fetchViolin(
@@ -91,20 +335,63 @@ export async function fetchViolin(
   gene: string,
   groupBy = "cell_type",
   kind: "hist" | "quantile" = "quantile",
+  disease?: string | null,
+  accessions?: string[] | null,
+  options: RequestOptions = {},
 ): Promise<ViolinResponse> {
-  const base = stripTrailingSlash(apiBase);
+  const base = resolveBase(apiBase);
   const url = new URL(`${base}/atlas/violin`);
   url.searchParams.set("gene", gene);
   url.searchParams.set("group_by", groupBy);
   url.searchParams.set("kind", kind);
-  return fetchJson<ViolinResponse>(url.toString());
+  if (disease) {
+    url.searchParams.set("disease", disease);
+  }
+  setAccessions(url, accessions);
+  const res = await fetchJson<ViolinResponse>(url.toString(), options, validateViolinResponse);
+  return checkAccessions(url.toString(), res, accessions);
+}
+
+// Per-cell signature scores; `disease` and `cellType` restrict the cells scored, not the cells genes are
+// standardised over
+export async function fetchSignatureScore(
+  apiBase: string,
+  genes: string[],
+  method: SignatureMethod = "zmean",
+  groupBy = "disease",
+  disease?: string | null,
+  cellType?: string | null,
+  accessions?: string[] | null,
+  options: RequestOptions = {},
+): Promise<SignatureScoreResponse> {
+  const base = resolveBase(apiBase);
+  const url = new URL(`${base}/atlas/signature_score`);
+  url.searchParams.set("genes", genes.join(","));
+  url.searchParams.set("method", method);
+  url.searchParams.set("group_by", groupBy);
+  if (disease) {
+    url.searchParams.set("disease", disease);
+  }
+  if (cellType) {
+    url.searchParams.set("cell_type", cellType);
+  }
+  setAccessions(url, accessions);
+  const res = await fetchJson<SignatureScoreResponse>(url.toString(), options, validateSignatureScoreResponse);
+  return checkAccessions(url.toString(), res, accessions);
 }
 
-export async function fetchComposition(apiBase: string, groupBy = "disease"): Promise<CompositionResponse> {
-  const base = stripTrailingSlash(apiBase);
+export async function fetchComposition(
+  apiBase: string,
+  groupBy = "disease",
+  accessions?: string[] | null,
+  options: RequestOptions = {},
+): Promise<CompositionResponse> {
+  const base = resolveBase(apiBase);
   const url = new URL(`${base}/atlas/composition`);
   url.searchParams.set("group_by", groupBy);
-  return fetchJson<CompositionResponse>(url.toString());
+  setAccessions(url, accessions);
+  const res = await fetchJson<CompositionResponse>(url.toString(), options, validateCompositionResponse);
+  return checkAccessions(url.toString(), res, accessions);
 }
 
 export async function fetchDeByDisease(
@@ -114,13 +401,187 @@ export async function fetchDeByDisease(
   limit = 50,
   offset = 0,
   topN = 5,
+  reference?: string | null,
+  accessions?: string[] | null,
+  options: RequestOptions = {},
 ): Promise<DeResponse> {
-  const base = stripTrailingSlash(apiBase);
+  const base = resolveBase(apiBase);
   const url = new URL(`${base}/atlas/de_by_disease`);
   url.searchParams.set("disease", disease);
   url.searchParams.set("cell_type", cellType);
   url.searchParams.set("limit", String(limit));
   url.searchParams.set("offset", String(offset));
   url.searchParams.set("top_n", String(topN));
-  return fetchJson<DeResponse>(url.toString());
+  if (reference) {
+    url.searchParams.set("reference", reference);
+  }
+  setAccessions(url, accessions);
+  const res = await fetchJson<DeResponse>(url.toString(), options, validateDeResponse);
+  return checkAccessions(url.toString(), res, accessions);
+}
+
+// A page of DE results with server-side sorting and filtering; no top lists
+export async function fetchDeTable(apiBase: string, query: DeTableQuery, options: RequestOptions = {}): Promise<DeResponse> {
+  const base = resolveBase(apiBase);
+  const url = new URL(`${base}/atlas/de_by_disease`);
+  url.searchParams.set("disease", query.disease);
+  url.searchParams.set("cell_type", query.cellType);
+  url.searchParams.set("limit", String(query.limit));
+  url.searchParams.set("offset", String(query.offset));
+  url.searchParams.set("top_n", "0");
+  if (query.reference) {
+    url.searchParams.set("reference", query.reference);
+  }
+  if (query.sortBy) {
+    url.searchParams.set("sort_by", query.sortBy);
+    url.searchParams.set("order", query.order ?? "asc");
+  }
+  if (query.gene) {
+    url.searchParams.set("gene", query.gene);
+  }
+  if (query.direction) {
+    url.searchParams.set("direction", query.direction);
+  }
+  if (query.group) {
+    url.searchParams.set("group", query.group);
+  }
+  setAccessions(url, query.accessions);
+  const res = checkAccessions(
+    url.toString(),
+    await fetchJson<DeResponse>(url.toString(), options, validateDeResponse),
+    query.accessions,
+  );
+  if (!res.ok || deTableQueryApplied(res, query)) return res;
+  // Older backends ignore the table parameters; order and filter the full table here instead
+  const rows = await fetchAllDeRows(
+    apiBase,
+    { disease: query.disease, cellType: query.cellType, reference: query.reference, accessions: query.accessions },
+    options,
+  );
+  if (query.group && rows.some((row) => !row.groups)) {
+    throw new UnsupportedParameterError(url.toString(), "group", "This backend cannot filter DE results by functional group");
+  }
+  const matching = sortDeRows(filterDeRows(rows, query), query);
+  return {
+    ok: true,
+    contrast: res.contrast,
+    cell_type: res.cell_type,
+    total: matching.length,
+    limit: query.limit,
+    offset: query.offset,
+    rows: matching.slice(query.offset, query.offset + query.limit),
+    groups: deRowGroups(rows),
+  };
+}
+
+function deRowGroups(rows: DeRow[]) {
+  return Array.from(new Set(rows.flatMap((row) => row.groups ?? []))).sort((a, b) => a.localeCompare(b));
+}
+
+// Functional groups across a contrast's whole DE table; built from every row when the backend does not list them
+export async function fetchDeGroups(
+  apiBase: string,
+  query: Pick<DeTableQuery, "disease" | "cellType" | "reference" | "accessions">,
+  options: RequestOptions = {},
+): Promise<string[]> {
+  const res = await fetchDeTable(apiBase, { ...query, limit: 1, offset: 0 }, options);
+  if (!res.ok) throw new Error(describeApiError(res, "DE results unavailable"));
+  if (res.groups) return res.groups;
+  return deRowGroups(await fetchAllDeRows(apiBase, query, options));
+}
+
+function deTableQueryApplied(res: DeResponse, query: DeTableQuery) {
+  const filters = res.filters ?? {};
+  return (
+    (!query.sortBy || (res.sort_by === query.sortBy && (res.order ?? "asc") === (query.order ?? "asc"))) &&
+    (!query.gene || filters.gene?.trim().toUpperCase() === query.gene.trim().toUpperCase()) &&
+    (!query.direction || filters.direction === query.direction) &&
+    (!query.group || filters.group === query.group)
+  );
+}
+
+// Client-side versions of the table filters and ordering, for backends that ignore them
+function filterDeRows(rows: DeRow[], query: DeTableQuery) {
+  const gene = query.gene?.trim().toUpperCase();
+  return rows.filter(
+    (row) =>
+      (!gene || row.gene.toUpperCase().includes(gene)) &&
+      (query.direction !== "up" || row.logfc > 0) &&
+      (query.direction !== "down" || row.logfc < 0) &&
+      (!query.group || (row.groups ?? []).includes(query.group)),
+  );
+}
+
+// Stable, so rows that tie keep the backend's p-value order
+function sortDeRows(rows: DeRow[], query: DeTableQuery) {
+  if (!query.sortBy) return rows;
+  const sign = query.order === "desc" ? -1 : 1;
+  const key = (row: DeRow) => (query.sortBy === "logfc" ? row.logfc : (row.p_val_adj ?? row.padj ?? row.p_val ?? 1));
+  return [...rows].sort((a, b) => sign * (key(a) - key(b)));
+}
+
+export type FetchAllDeRowsOptions = RequestOptions & {
+  onPage?: (loaded: number, total: number) => void;
+};
+
+// Every row matching the query, page by page; throws on the first failed page
+export async function fetchAllDeRows(
+  apiBase: string,
+  query: Omit<DeTableQuery, "limit" | "offset">,
+  { onPage, ...options }: FetchAllDeRowsOptions = {},
+): Promise<DeRow[]> {
+  const rows: DeRow[] = [];
+  for (let offset = 0; ; offset += DE_EXPORT_PAGE_SIZE) {
+    const res = await fetchDeTable(apiBase, { ...query, limit: DE_EXPORT_PAGE_SIZE, offset }, options);
+    if (!res.ok || !res.rows) throw new Error(describeApiError(res, "DE results unavailable"));
+    rows.push(...res.rows);
+    const total = res.total ?? rows.length;
+    onPage?.(rows.length, total);
+    if (res.rows.length === 0 || rows.length >= total) return rows;
+  }
+}
+
+export type SettledItem<K, T> =
+  | { key: K; status: "fulfilled"; value: T }
+  | { key: K; status: "rejected"; error: string };
+
+export type FetchAllOptions<K, T> = {
+  signal?: AbortSignal;
+  concurrency?: number;
+  // Called as each item settles, in completion order
+  onSettled?: (item: SettledItem<K, T>, done: number, total: number) => void;
+};
+
+// Run one request per key with at most `concurrency` in flight; a failed item never rejects the batch
+export async function fetchAllSettled<K, T>(
+  keys: K[],
+  task: (key: K, signal?: AbortSignal) => Promise<T>,
+  { signal, concurrency = DEFAULT_CONCURRENCY, onSettled }: FetchAllOptions<K, T> = {},
+): Promise<Array<SettledItem<K, T>>> {
+  const results: Array<SettledItem<K, T>> = new Array(keys.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < keys.length) {
+      if (signal?.aborted) throw abortError();
+      const index = next;
+      next += 1;
+      const key = keys[index];
+      let item: SettledItem<K, T>;
+      try {
+        item = { key, status: "fulfilled", value: await task(key, signal) };
+      } catch (error) {
+        if (signal?.aborted || isAbortError(error)) throw abortError();
+        item = { key, status: "rejected", error: describeError(error) };
+      }
+      results[index] = item;
+      done += 1;
+      onSettled?.(item, done, keys.length);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, keys.length)) }, worker);
+  await Promise.all(workers);
+  return results;
 }
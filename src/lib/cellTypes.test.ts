@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { classifyCellType, groupCellTypes } from "./cellTypes";
+
+describe("classifyCellType", () => {
+  it.each([
+    ["CD4+ T cells", "T cells"],
+    ["Tregs", "T cells"],
+    ["gamma delta", "T cells"],
+    ["Memory B cell", "B cells"],
+    ["CD56bright NK", "NK cells"],
+    ["Classical monocytes", "Monocytes"],
+    ["Plasmacytoid dendritic cells", "Myeloid/DC"],
+    ["Neutrophils", "Neutrophils"],
+    ["Basophils", "Basophils"],
+    ["Plasmablasts", "Plasma"],
+    ["HSC / progenitor", "Progenitors"],
+    ["Platelets", "Other"],
+  ])("%s → %s", (label, group) => {
+    expect(classifyCellType(label)).toBe(group);
+  });
+
+  it("checks T-cell markers before broader lineages", () => {
+    // "NKT" contains "nk" but "T cell" wins
+    expect(classifyCellType("NK T cells")).toBe("T cells");
+  });
+});
+
+describe("groupCellTypes", () => {
+  it("orders buckets by size and labels alphabetically within each", () => {
+    const groups = groupCellTypes(["NK cells", "CD8+ T cells", "Naive B cell", "CD4+ T cells", "Memory B cell", "Tregs"]);
+    expect(groups).toEqual([
+      ["T cells", ["CD4+ T cells", "CD8+ T cells", "Tregs"]],
+      ["B cells", ["Memory B cell", "Naive B cell"]],
+      ["NK cells", ["NK cells"]],
+    ]);
+  });
+
+  it("omits empty buckets", () => {
+    expect(groupCellTypes([])).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+export type CellTypeGroup =
+  | "T cells"
+  | "B cells"
+  | "NK cells"
+  | "Monocytes"
+  | "Myeloid/DC"
+  | "Neutrophils"
+  | "Basophils"
+  | "Plasma"
+  | "Progenitors"
+  | "Other";
+
+// Lineage bucket for a cell-type label, matched on common naming conventions
+export function classifyCellType(label: string): CellTypeGroup {
+  const name = label.toLowerCase();
+  if (
+    name.includes("t cells") ||
+    name.includes("t cell") ||
+    name.includes("cd4") ||
+    name.includes("cd8") ||
+    name.includes("tcr") ||
+    name.includes("gd t") ||
+    name.includes("gamma delta") ||
+    name.includes("th1") ||
+    name.includes("th2") ||
+    name.includes("th17") ||
+    name.includes("treg") ||
+    name.includes("t regulatory") ||
+    name.includes("regulatory t") ||
+    name.includes("t helper") ||
+    name.includes("helper t")
+  ) {
+    return "T cells";
+  }
+  if (name.includes("b cells") || name.includes("b cell")) {
+    return "B cells";
+  }
+  if (name.includes("nk") || name.includes("natural killer")) {
+    return "NK cells";
+  }
+  if (name.includes("monocyte")) {
+    return "Monocytes";
+  }
+  if (name.includes("dendritic") || name.includes("dc") || name.includes("myeloid")) {
+    return "Myeloid/DC";
+  }
+  if (name.includes("neutrophil")) {
+    return "Neutrophils";
+  }
+  if (name.includes("basophil")) {
+    return "Basophils";
+  }
+  if (name.includes("plasma") || name.includes("plasmablast")) {
+    return "Plasma";
+  }
+  if (name.includes("progenitor") || name.includes("stem")) {
+    return "Progenitors";
+  }
+  return "Other";
+}
+
+// Cell types bucketed by lineage, largest bucket first, labels sorted within each bucket
+export function groupCellTypes(items: string[]): Array<readonly [CellTypeGroup, string[]]> {
+  const groups: Record<CellTypeGroup, string[]> = {
+    "T cells": [],
+    "B cells": [],
+    "NK cells": [],
+    Monocytes: [],
+    "Myeloid/DC": [],
+    Neutrophils: [],
+    Basophils: [],
+    Plasma: [],
+    Progenitors: [],
+    Other: [],
+  };
+
+  items.forEach((item) => {
+    const key = classifyCellType(item);
+    groups[key].push(item);
+  });
+
+  return Object.entries(groups)
+    .map(([key, values]) => [key as CellTypeGroup, values.sort((a, b) => a.localeCompare(b))] as const)
+    .filter(([, values]) => values.length > 0)
+    .sort(([, a], [, b]) => b.length - a.length);
+}
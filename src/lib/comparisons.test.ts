@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import {
+  SIGNIFICANCE_LEGEND,
+  binnedGroup,
+  compareGroups,
+  comparisonBrackets,
+  comparisonPairs,
+  plotComparisons,
+  significanceStars,
+  slotAnnotations,
+  summarizeGroup,
+  summaryTickText,
+} from "./comparisons";
+import { mannWhitney } from "./stats";
+
+const ones = (values: number[]) => values.map((value): [number, number] => [value, 1]);
+
+describe("mannWhitney", () => {
+  it("matches R's wilcox.test with the normal approximation", () => {
+    // wilcox.test(1:3, 4:6, exact = FALSE): W = 0, p-value = 0.08086
+    const result = mannWhitney(ones([1, 2, 3]), ones([4, 5, 6]));
+    expect(result.u).toBe(0);
+    expect(result.delta).toBe(-1);
+    expect(result.p).toBeCloseTo(0.08086, 4);
+  });
+
+  it("treats counts as repeated observations", () => {
+    const weighted = mannWhitney([[1, 2], [2, 1]], [[1, 1], [3, 2]]);
+    const expanded = mannWhitney(ones([1, 1, 2]), ones([1, 3, 3]));
+    expect(weighted).toEqual(expanded);
+    expect(weighted.p).toBeGreaterThan(0.05);
+  });
+
+  it("has no result for an empty group", () => {
+    expect(Number.isNaN(mannWhitney([], ones([1])).p)).toBe(true);
+  });
+});
+
+describe("binned groups", () => {
+  it("keeps the non-empty bins as midpoints and summarises them", () => {
+    const group = binnedGroup("SLE", [0, 1, 2, 3, 4], [0, 3, 1, 0]);
+    expect(group).toEqual({ label: "SLE", values: [[1.5, 3], [2.5, 1]], low: 1, high: 3 });
+    expect(summarizeGroup(group)).toEqual({ n: 4, mean: 1.75, median: 1.5 });
+    expect(summaryTickText("SLE", [summarizeGroup(group)])).toBe("SLE<br>n 4<br>mean 1.75<br>median 1.50");
+  });
+});
+
+describe("comparisons", () => {
+  it("pairs every group with the reference, then the groups with each other", () => {
+    const labels = ["Healthy", "RA", "SLE", "SjS"];
+    expect(comparisonPairs(labels, "Healthy", "reference")).toEqual([
+      ["RA", "Healthy"],
+      ["SLE", "Healthy"],
+      ["SjS", "Healthy"],
+    ]);
+    expect(comparisonPairs(labels, "Healthy", "all").slice(3)).toEqual([
+      ["RA", "SLE"],
+      ["RA", "SjS"],
+      ["SLE", "SjS"],
+    ]);
+    expect(comparisonPairs(labels, "Healthy", "off")).toEqual([]);
+  });
+
+  it("adjusts p-values across the pairs and grades them with stars", () => {
+    const groups = [
+      binnedGroup("Healthy", [0, 1, 2, 3], [500, 400, 100]),
+      binnedGroup("SLE", [0, 1, 2, 3], [100, 400, 500]),
+      binnedGroup("RA", [0, 1, 2, 3], [495, 405, 100]),
+    ];
+    const [sle, ra] = compareGroups(groups, [
+      ["SLE", "Healthy"],
+      ["RA", "Healthy"],
+    ]);
+    expect(sle.stars).toBe("****");
+    expect(sle.delta).toBeGreaterThan(0.3);
+    expect(sle.meanDiff).toBeCloseTo(0.8);
+    expect(ra.stars).toBe("ns");
+    expect(ra.padj).toBeGreaterThanOrEqual(ra.pValue);
+  });
+
+  it("grades p-values on the usual cut-offs", () => {
+    expect([0.00001, 0.0005, 0.005, 0.03, 0.2, NaN].map(significanceStars)).toEqual(["****", "***", "**", "*", "ns", "ns"]);
+    expect(SIGNIFICANCE_LEGEND).toBe("* p < 0.05 · ** p < 0.01 · *** p < 0.001 · **** p < 0.0001 · ns not significant");
+  });
+});
+
+describe("plot annotations", () => {
+  const comparison = (a: string, b: string) => ({ a, b, n1: 1, n2: 1, meanDiff: 0, delta: 0, pValue: 0.01, padj: 0.01, stars: "*" });
+
+  it("stacks overlapping brackets and lets disjoint ones share a level", () => {
+    const { shapes, annotations, height } = comparisonBrackets(
+      [comparison("A", "C"), comparison("A", "B"), comparison("C", "D")],
+      ["A", "B", "C", "D"],
+      10,
+      1,
+    );
+    expect(shapes).toHaveLength(9);
+    expect(annotations.map((item) => [item.x, item.y])).toEqual([
+      [0.5, 11],
+      [2.5, 11],
+      [1, 12],
+    ]);
+    expect(height).toBe(13);
+  });
+
+  it("lists one line per comparison in a shared slot", () => {
+    const { annotations } = slotAnnotations(
+      [
+        { x: 0, comparisons: [comparison("SLE", "Healthy")] },
+        { x: 1, comparisons: [comparison("RA", "Healthy"), comparison("SLE", "Healthy")] },
+      ],
+      5,
+      1,
+    );
+    expect(annotations.map((item) => item.text)).toEqual(["*", "RA: *<br>SLE: *"]);
+  });
+});
+
+describe("plotComparisons", () => {
+  const bins = [0, 1, 2, 3];
+  const low = { bins, counts: [500, 400, 100] };
+  const highCounts = { bins, counts: [100, 400, 500] };
+
+  it("brackets groups across the axis when each slot holds one", () => {
+    const result = plotComparisons(
+      [
+        { category: "Healthy", groups: [{ name: "Healthy", ...low }] },
+        { category: "SLE", groups: [{ name: "SLE", ...highCounts }] },
+      ],
+      "Healthy",
+      "reference",
+    );
+    expect(result.comparisons.map((item) => [item.a, item.b, item.stars])).toEqual([["SLE", "Healthy", "****"]]);
+    expect(result.shapes).toHaveLength(3);
+    expect(result.summaries.map((slot) => slot.map((item) => item.n))).toEqual([[1000], [1000]]);
+    expect(result.range?.[1]).toBeGreaterThan(3);
+  });
+
+  it("compares within slots that hold a split pair, reference second", () => {
+    const result = plotComparisons(
+      [
+        { category: "NK", groups: [{ name: "Healthy", ...low }, { name: "SLE", ...highCounts }] },
+        { category: "pDC", groups: [{ name: "Healthy", ...low }, { name: "SLE", ...low }] },
+      ],
+      "Healthy",
+      "reference",
+    );
+    expect(result.comparisons.map((item) => [item.a, item.b, item.stars])).toEqual([
+      ["NK · SLE", "NK · Healthy", "****"],
+      ["pDC · SLE", "pDC · Healthy", "ns"],
+    ]);
+    expect(result.shapes).toEqual([]);
+    expect(result.annotations.map((item) => [item.x, item.text])).toEqual([
+      [0, "****"],
+      [1, "ns"],
+    ]);
+  });
+
+  it("draws nothing when comparisons are off", () => {
+    const result = plotComparisons([{ category: "NK", groups: [{ name: "SLE", ...low }] }], "Healthy", "off");
+    expect(result.comparisons).toEqual([]);
+    expect(result.range).toBeNull();
+  });
+});
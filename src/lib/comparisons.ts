@@ -0,0 +1,304 @@
+import type { DataTable } from "./dataExport";
+import { adjustBH, mannWhitney } from "./stats";
+
+// Per-cell values of one group as histogram bin midpoints and their cell counts
+export type BinnedGroup = {
+  label: string;
+  values: Array<[number, number]>;
+  // Edges of the outermost non-empty bins
+  low: number;
+  high: number;
+};
+
+export type GroupSummary = {
+  n: number;
+  mean: number;
+  median: number;
+};
+
+export type ComparisonScope = "off" | "reference" | "all";
+
+export const COMPARISON_SCOPES: Array<{ value: ComparisonScope; label: string }> = [
+  { value: "reference", label: "vs reference" },
+  { value: "all", label: "All pairs" },
+  { value: "off", label: "Off" },
+];
+
+export type Comparison = {
+  a: string;
+  b: string;
+  n1: number;
+  n2: number;
+  // Difference in means, a − b
+  meanDiff: number;
+  // Cliff's delta, P(a > b) − P(a < b)
+  delta: number;
+  pValue: number;
+  // Benjamini–Hochberg across the comparisons made together
+  padj: number;
+  stars: string;
+};
+
+export const SIGNIFICANCE_LEVELS: Array<{ stars: string; below: number }> = [
+  { stars: "****", below: 0.0001 },
+  { stars: "***", below: 0.001 },
+  { stars: "**", below: 0.01 },
+  { stars: "*", below: 0.05 },
+];
+
+export const SIGNIFICANCE_LEGEND = [
+  ...[...SIGNIFICANCE_LEVELS].reverse().map((level) => `${level.stars} p < ${level.below}`),
+  "ns not significant",
+].join(" · ");
+
+export function significanceStars(p: number): string {
+  if (!Number.isFinite(p)) return "ns";
+  return SIGNIFICANCE_LEVELS.find((level) => p < level.below)?.stars ?? "ns";
+}
+
+export function binnedGroup(label: string, bins: number[], counts: number[]): BinnedGroup {
+  const filled = counts.map((count, idx) => (count > 0 ? idx : -1)).filter((idx) => idx >= 0 && idx + 1 < bins.length);
+  return {
+    label,
+    values: filled.map((idx) => [(bins[idx] + bins[idx + 1]) / 2, counts[idx]]),
+    low: filled.length > 0 ? bins[filled[0]] : 0,
+    high: filled.length > 0 ? bins[filled[filled.length - 1] + 1] : 0,
+  };
+}
+
+// Mean and median of the bin midpoints, weighted by cells
+export function summarizeGroup(group: BinnedGroup): GroupSummary {
+  const n = group.values.reduce((sum, [, count]) => sum + count, 0);
+  if (n === 0) return { n, mean: NaN, median: NaN };
+  const mean = group.values.reduce((sum, [value, count]) => sum + value * count, 0) / n;
+  let seen = 0;
+  const median = group.values.find(([, count]) => {
+    seen += count;
+    return seen >= n / 2;
+  })![0];
+  return { n, mean, median };
+}
+
+// Pairs as [group, reference]; between-disease pairs keep the axis order
+export function comparisonPairs(labels: string[], reference: string, scope: ComparisonScope): Array<[string, string]> {
+  if (scope === "off") return [];
+  const hasReference = labels.includes(reference);
+  const againstReference: Array<[string, string]> = hasReference
+    ? labels.filter((label) => label !== reference).map((label) => [label, reference])
+    : [];
+  if (scope === "reference") return againstReference;
+  const others = labels.filter((label) => label !== reference);
+  const between: Array<[string, string]> = others.flatMap((a, idx) =>
+    others.slice(idx + 1).map((b): [string, string] => [a, b]),
+  );
+  return [...againstReference, ...between];
+}
+
+// Mann–Whitney on the binned per-cell values, so cells in one bin count as ties. With thousands
+// of cells per group small shifts come out significant; Cliff's delta says whether they matter.
+export function compareGroups(groups: BinnedGroup[], pairs: Array<[string, string]>): Comparison[] {
+  const byLabel = new Map(groups.map((group) => [group.label, group]));
+  const rows = pairs.flatMap(([a, b]) => {
+    const groupA = byLabel.get(a);
+    const groupB = byLabel.get(b);
+    if (!groupA || !groupB) return [];
+    const summaryA = summarizeGroup(groupA);
+    const summaryB = summarizeGroup(groupB);
+    if (summaryA.n === 0 || summaryB.n === 0) return [];
+    const test = mannWhitney(groupA.values, groupB.values);
+    return [{ a, b, n1: summaryA.n, n2: summaryB.n, meanDiff: summaryA.mean - summaryB.mean, delta: test.delta, pValue: test.p }];
+  });
+  const adjusted = adjustBH(rows.map((row) => row.pValue));
+  return rows.map((row, idx) => ({ ...row, padj: adjusted[idx], stars: significanceStars(adjusted[idx]) }));
+}
+
+export function comparisonTable(comparisons: Comparison[]): DataTable {
+  return {
+    columns: ["group", "versus", "n_group", "n_versus", "mean_difference", "cliffs_delta", "p_value", "p_adj", "significance"],
+    rows: comparisons.map((row) => [row.a, row.b, row.n1, row.n2, row.meanDiff, row.delta, row.pValue, row.padj, row.stars]),
+  };
+}
+
+type PlotShape = Record<string, unknown>;
+type PlotAnnotation = Record<string, unknown>;
+
+const BRACKET_LINE = { color: "#475569", width: 1 };
+
+function formatP(value: number) {
+  if (value === 0) return "< 1e-300";
+  return value < 0.001 ? value.toExponential(2) : value.toFixed(3);
+}
+
+function comparisonHover(comparison: Comparison) {
+  return `${comparison.a} vs ${comparison.b}<br>Cliff's δ ${comparison.delta.toFixed(2)}, adj. p ${formatP(comparison.padj)}`;
+}
+
+// Brackets between categories of the x axis (by position), stacked from `top` in `step`s so that
+// brackets whose spans overlap sit on different levels; returns the top of the highest level
+export function comparisonBrackets(
+  comparisons: Comparison[],
+  categories: string[],
+  top: number,
+  step: number,
+): { shapes: PlotShape[]; annotations: PlotAnnotation[]; height: number } {
+  const levels: Array<Array<[number, number]>> = [];
+  const placed = comparisons
+    .map((comparison) => {
+      const ends = [categories.indexOf(comparison.a), categories.indexOf(comparison.b)];
+      return { comparison, from: Math.min(...ends), to: Math.max(...ends) };
+    })
+    .filter(({ from }) => from >= 0)
+    .sort((x, y) => x.to - x.from - (y.to - y.from) || x.from - y.from)
+    .map((item) => {
+      let level = levels.findIndex((spans) => spans.every(([from, to]) => item.to < from || item.from > to));
+      if (level < 0) {
+        levels.push([]);
+        level = levels.length - 1;
+      }
+      levels[level].push([item.from, item.to]);
+      return { ...item, y: top + step * (level + 1) };
+    });
+
+  const tick = step * 0.25;
+  return {
+    shapes: placed.flatMap(({ from, to, y }) => [
+      { type: "line", xref: "x", yref: "y", x0: from, x1: from, y0: y - tick, y1: y, line: BRACKET_LINE },
+      { type: "line", xref: "x", yref: "y", x0: from, x1: to, y0: y, y1: y, line: BRACKET_LINE },
+      { type: "line", xref: "x", yref: "y", x0: to, x1: to, y0: y - tick, y1: y, line: BRACKET_LINE },
+    ]),
+    annotations: placed.map(({ comparison, from, to, y }) => ({
+      x: (from + to) / 2,
+      y,
+      xref: "x",
+      yref: "y",
+      text: comparison.stars,
+      hovertext: comparisonHover(comparison),
+      showarrow: false,
+      yanchor: "bottom",
+      font: { size: 11 },
+    })),
+    height: top + step * (levels.length + 1),
+  };
+}
+
+// Stars above x slots that hold the compared groups side by side (split or grouped violins); a
+// slot with several comparisons lists one line per compared group, named by `lineLabel`
+export function slotAnnotations(
+  slots: Array<{ x: number; comparisons: Comparison[] }>,
+  top: number,
+  step: number,
+  lineLabel: (comparison: Comparison) => string = (comparison) => comparison.a,
+): { annotations: PlotAnnotation[]; height: number } {
+  const lines = Math.max(1, ...slots.map((slot) => slot.comparisons.length));
+  return {
+    annotations: slots
+      .filter((slot) => slot.comparisons.length > 0)
+      .map(({ x, comparisons }) => ({
+        x,
+        y: top + step * 0.25,
+        xref: "x",
+        yref: "y",
+        text:
+          comparisons.length === 1
+            ? comparisons[0].stars
+            : comparisons.map((comparison) => `${lineLabel(comparison)}: ${comparison.stars}`).join("<br>"),
+        hovertext: comparisons.map(comparisonHover).join("<br>"),
+        showarrow: false,
+        yanchor: "bottom",
+        font: { size: 11 },
+      })),
+    height: top + step * (lines + 1),
+  };
+}
+
+// Lines beneath a category tick: n, mean and median, one value per group sharing the slot
+export function summaryTickText(label: string, summaries: GroupSummary[]): string {
+  if (summaries.length === 0) return label;
+  const join = (values: string[]) => values.join(" / ");
+  return [
+    label,
+    `n ${join(summaries.map((item) => item.n.toLocaleString()))}`,
+    `mean ${join(summaries.map((item) => item.mean.toFixed(2)))}`,
+    `median ${join(summaries.map((item) => item.median.toFixed(2)))}`,
+  ].join("<br>");
+}
+
+// One x category of a plot and the groups drawn in it, as histograms
+export type PlotSlot = {
+  category: string;
+  groups: Array<{ name: string; bins: number[]; counts: number[] }>;
+};
+
+export type PlotComparisons = {
+  comparisons: Comparison[];
+  // Per slot, in group order
+  summaries: GroupSummary[][];
+  shapes: PlotShape[];
+  annotations: PlotAnnotation[];
+  // y range that leaves room above the data for the marks; null when there are none
+  range: [number, number] | null;
+};
+
+// Slots holding one group each are compared across the axis with brackets; slots holding several
+// (split or grouped violins) are compared within the slot, a pair directly and more against the
+// reference, and marked with stars
+export function plotComparisons(slots: PlotSlot[], reference: string, scope: ComparisonScope): PlotComparisons {
+  const single = slots.every((slot) => slot.groups.length === 1);
+  const labelOf = (category: string, name: string) => (single ? name : `${category} · ${name}`);
+  const groups = slots.flatMap((slot) =>
+    slot.groups.map((group) => binnedGroup(labelOf(slot.category, group.name), group.bins, group.counts)),
+  );
+  const summaries = slots.map((slot) =>
+    slot.groups.map((group) => summarizeGroup(binnedGroup(group.name, group.bins, group.counts))),
+  );
+  const nonEmpty = groups.filter((group) => group.values.length > 0);
+  const low = nonEmpty.length > 0 ? Math.min(...nonEmpty.map((group) => group.low)) : 0;
+  const high = nonEmpty.length > 0 ? Math.max(...nonEmpty.map((group) => group.high)) : 1;
+  const span = high - low || 1;
+  const step = span * 0.08;
+
+  if (single) {
+    const labels = slots.map((slot) => slot.groups[0].name);
+    const comparisons = compareGroups(groups, comparisonPairs(labels, reference, scope));
+    const brackets = comparisonBrackets(comparisons, labels, high, step);
+    return {
+      comparisons,
+      summaries,
+      shapes: brackets.shapes,
+      annotations: brackets.annotations,
+      range: comparisons.length > 0 ? [low - span * 0.05, brackets.height] : null,
+    };
+  }
+
+  const names = new Map<string, string>();
+  const perSlot = slots.map((slot) => {
+    const slotNames = slot.groups.map((group) => group.name);
+    slotNames.forEach((name) => names.set(labelOf(slot.category, name), name));
+    let pairs: Array<[string, string]> = [];
+    if (scope !== "off" && slotNames.length === 2) {
+      // The reference, when present, goes second so the effect reads group vs reference
+      const [first, second] = slotNames;
+      pairs = [first === reference ? [second, first] : [first, second]];
+    } else if (slotNames.length > 2) {
+      pairs = comparisonPairs(slotNames, reference, scope);
+    }
+    return pairs.map(([a, b]): [string, string] => [labelOf(slot.category, a), labelOf(slot.category, b)]);
+  });
+  const comparisons = compareGroups(groups, perSlot.flat());
+  const marks = slotAnnotations(
+    slots.map((_, x) => ({
+      x,
+      comparisons: comparisons.filter((comparison) => perSlot[x].some(([a, b]) => a === comparison.a && b === comparison.b)),
+    })),
+    high,
+    step,
+    (comparison) => names.get(comparison.a) ?? comparison.a,
+  );
+  return {
+    comparisons,
+    summaries,
+    shapes: [],
+    annotations: marks.annotations,
+    range: comparisons.length > 0 ? [low - span * 0.05, marks.height] : null,
+  };
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import {
+  compositionGroupDiseases,
+  compositionPercent,
+  differentialAbundance,
+  mergeCompositionGroups,
+  type MergedComposition,
+} from "./composition";
+import { chiSquare2x2, fisherExact2x2 } from "./stats";
+
+const toHealthy = (value: string) => (value.toLowerCase() === "normal" ? "Healthy" : value);
+
+describe("mergeCompositionGroups", () => {
+  it("sums rows whose labels map to the same group, keeping first-seen order", () => {
+    const merged = mergeCompositionGroups(
+      {
+        ok: true,
+        groups: ["normal", "SLE", "Healthy"],
+        cell_types: ["B cells", "NK cells"],
+        counts: [
+          [10, 30],
+          [5, 5],
+          [20, 40],
+        ],
+      },
+      toHealthy,
+    );
+    expect(merged).toEqual({
+      groups: ["Healthy", "SLE"],
+      cellTypes: ["B cells", "NK cells"],
+      counts: [
+        [30, 70],
+        [5, 5],
+      ],
+      totals: { Healthy: 100, SLE: 10 },
+    });
+  });
+
+  it("ignores missing rows and null counts", () => {
+    const merged = mergeCompositionGroups({
+      ok: true,
+      groups: ["RA", "SjS"],
+      cell_types: ["B cells", "NK cells"],
+      counts: [[3, null as unknown as number]],
+    });
+    expect(merged?.counts).toEqual([
+      [3, 0],
+      [0, 0],
+    ]);
+    expect(merged?.totals).toEqual({ RA: 3, SjS: 0 });
+  });
+
+  it("returns null for failed or empty responses", () => {
+    expect(mergeCompositionGroups({ ok: false, error: "boom" })).toBeNull();
+    expect(mergeCompositionGroups({ ok: true, groups: [], cell_types: [], counts: [] })).toBeNull();
+  });
+});
+
+describe("compositionGroupDiseases", () => {
+  const base = { ok: true, cell_types: ["NK"], counts: [[1], [2]] };
+  const accessions = [{ id: "GSE1", disease: "SLE", platform: "10x", donors: 2, cells: 3, tissue: "PBMC" }];
+
+  it("uses the groups themselves when grouped by disease", () => {
+    expect(compositionGroupDiseases({ ...base, groups: ["normal", "SLE"] })).toEqual(["normal", "SLE"]);
+  });
+
+  it("prefers the diseases sent by the backend", () => {
+    const response = { ...base, group_by: "donor", groups: ["GSE1_D1", "GSE2_D1"], diseases: ["SLE", ""] };
+    expect(compositionGroupDiseases(response, accessions)).toEqual(["SLE", "Unknown"]);
+  });
+
+  it("falls back to the manifest for accessions", () => {
+    const response = { ...base, group_by: "accession", groups: ["GSE1", "GSE9"] };
+    expect(compositionGroupDiseases(response, accessions)).toEqual(["SLE", "Unknown"]);
+  });
+});
+
+describe("compositionPercent", () => {
+  it("is relative to the group total", () => {
+    expect(compositionPercent(25, 200)).toBe(12.5);
+  });
+
+  it("reads empty groups as 0%", () => {
+    expect(compositionPercent(0, 0)).toBe(0);
+  });
+});
+
+describe("2×2 tests", () => {
+  it("matches R's chisq.test with continuity correction", () => {
+    expect(chiSquare2x2(120, 880, 60, 940)).toBeCloseTo(4.028e-6, 8);
+    expect(chiSquare2x2(0, 0, 5, 5)).toBe(1);
+  });
+
+  it("matches R's two-sided fisher.test", () => {
+    expect(fisherExact2x2(3, 1, 1, 3)).toBeCloseTo(0.4857143, 6);
+    expect(fisherExact2x2(2, 998, 9, 991)).toBeCloseTo(0.06470496, 6);
+  });
+});
+
+describe("differentialAbundance", () => {
+  const merged: MergedComposition = {
+    groups: ["Healthy", "SLE"],
+    cellTypes: ["pDC", "NK", "B"],
+    counts: [
+      [60, 6, 934],
+      [120, 1, 879],
+    ],
+    totals: { Healthy: 1000, SLE: 1000 },
+  };
+
+  it("tests each cell type against all other cells and adjusts across cell types", () => {
+    const rows = differentialAbundance(merged, "SLE", "Healthy");
+    const pdc = rows.find((row) => row.cellType === "pDC")!;
+
+    expect(pdc).toMatchObject({ count: 120, refCount: 60, proportion: 0.12, refProportion: 0.06, test: "chisq" });
+    expect(pdc.pValue).toBeCloseTo(4.028e-6, 8);
+    expect(pdc.log2FoldChange).toBeCloseTo(Math.log2(120.5 / 60.5));
+    // Expected counts below 5 hand the table to Fisher
+    const nk = rows.find((row) => row.cellType === "NK")!;
+    expect(nk.test).toBe("fisher");
+    expect(nk.pValue).toBeCloseTo(0.1243434, 6);
+    expect(nk.log2FoldChange).toBeLessThan(0);
+    rows.forEach((row) => expect(row.padj).toBeGreaterThanOrEqual(row.pValue));
+    expect(pdc.padj).toBeCloseTo(pdc.pValue * 3, 8);
+  });
+
+  it("runs Fisher everywhere when asked", () => {
+    expect(differentialAbundance(merged, "SLE", "Healthy", "fisher").every((row) => row.test === "fisher")).toBe(true);
+  });
+
+  it("returns nothing for an unknown or identical pair", () => {
+    expect(differentialAbundance(merged, "RA", "Healthy")).toEqual([]);
+    expect(differentialAbundance(merged, "SLE", "SLE")).toEqual([]);
+  });
+});
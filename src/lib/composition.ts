@@ -0,0 +1,153 @@
+import type { Accession, CompositionResponse } from "./types";
+import { adjustBH, chiSquare2x2, fisherExact2x2 } from "./stats";
+
+export type MergedComposition = {
+  groups: string[];
+  cellTypes: string[];
+  // groups × cell types
+  counts: number[][];
+  // Cells per group across ALL cell types, regardless of any selection
+  totals: Record<string, number>;
+};
+
+// Merge rows whose labels map to the same group (e.g. "normal" and "Healthy") and total them
+export function mergeCompositionGroups(
+  response: CompositionResponse,
+  mapLabel: (value: string) => string = (value) => value,
+): MergedComposition | null {
+  if (!response.ok || !response.groups || !response.cell_types || !response.counts) return null;
+  if (response.counts.length === 0 || response.groups.length === 0) return null;
+  const cellTypes = response.cell_types;
+
+  const mappedGroups = response.groups.map((group) => mapLabel(group));
+  const mergedIndex: Record<string, number> = {};
+  const groups: string[] = [];
+  mappedGroups.forEach((label) => {
+    if (mergedIndex[label] === undefined) {
+      mergedIndex[label] = groups.length;
+      groups.push(label);
+    }
+  });
+
+  const counts = groups.map(() => Array<number>(cellTypes.length).fill(0));
+  response.counts.forEach((row, rowIdx) => {
+    if (!row || !Array.isArray(row)) return;
+    const target = mergedIndex[mappedGroups[rowIdx]];
+    if (target === undefined) return;
+    row.forEach((value, cellIdx) => {
+      if (counts[target]) {
+        counts[target][cellIdx] += value ?? 0;
+      }
+    });
+  });
+
+  const totals: Record<string, number> = {};
+  groups.forEach((group, groupIdx) => {
+    totals[group] = counts[groupIdx].reduce((sum, value) => sum + value, 0);
+  });
+
+  return { groups, cellTypes, counts, totals };
+}
+
+export type CompositionGroupBy = "disease" | "accession" | "donor";
+
+export const COMPOSITION_GROUP_BY: Array<{ value: CompositionGroupBy; label: string }> = [
+  { value: "disease", label: "Disease (pooled)" },
+  { value: "accession", label: "Accession" },
+  { value: "donor", label: "Donor" },
+];
+
+export const UNKNOWN_DISEASE = "Unknown";
+
+// Disease of every group in the response: the group itself when grouped by disease, else the
+// backend's `diseases`, else (accessions only) the manifest entry
+export function compositionGroupDiseases(response: CompositionResponse, accessions: Accession[] = []): string[] {
+  const groups = response.groups ?? [];
+  if ((response.group_by ?? "disease") === "disease") return groups;
+  if (response.diseases && response.diseases.length === groups.length) {
+    return response.diseases.map((disease) => disease || UNKNOWN_DISEASE);
+  }
+  const byAccession = new Map(accessions.map((item) => [item.id, item.disease]));
+  return groups.map((group) => byAccession.get(group) ?? UNKNOWN_DISEASE);
+}
+
+// Share of a group's cells, in percent; empty groups read as 0%
+export function compositionPercent(count: number, total: number): number {
+  return (count / (total || 1)) * 100;
+}
+
+export type AbundanceTest = "chisq" | "fisher";
+
+export const ABUNDANCE_TESTS: Array<{ value: AbundanceTest; label: string }> = [
+  { value: "chisq", label: "Chi-square (Fisher when sparse)" },
+  { value: "fisher", label: "Fisher's exact" },
+];
+
+export type AbundanceRow = {
+  cellType: string;
+  count: number;
+  total: number;
+  proportion: number;
+  refCount: number;
+  refTotal: number;
+  refProportion: number;
+  // log2 of the ratio of proportions, with half a cell added to each count
+  log2FoldChange: number;
+  // The test actually run; chi-square hands sparse tables to Fisher
+  test: AbundanceTest;
+  pValue: number;
+  // Benjamini–Hochberg across every cell type compared
+  padj: number;
+};
+
+// Chi-square is unreliable once an expected cell count drops below 5
+function isSparse(a: number, b: number, c: number, d: number) {
+  const n = a + b + c + d;
+  const expected = [
+    ((a + b) * (a + c)) / n,
+    ((a + b) * (b + d)) / n,
+    ((c + d) * (a + c)) / n,
+    ((c + d) * (b + d)) / n,
+  ];
+  return expected.some((value) => value < 5);
+}
+
+// Each cell type tested on its own 2×2 table (this cell type vs all other cells, group vs
+// reference). Cells are counted as independent, so with many cells small shifts come out
+// significant; the fold change says whether they matter.
+export function differentialAbundance(
+  merged: MergedComposition,
+  group: string,
+  reference: string,
+  test: AbundanceTest = "chisq",
+): AbundanceRow[] {
+  const groupIdx = merged.groups.indexOf(group);
+  const refIdx = merged.groups.indexOf(reference);
+  if (groupIdx < 0 || refIdx < 0 || groupIdx === refIdx) return [];
+  const total = merged.totals[group] ?? 0;
+  const refTotal = merged.totals[reference] ?? 0;
+  if (total === 0 || refTotal === 0) return [];
+
+  const rows = merged.cellTypes.map((cellType, cellIdx) => {
+    const count = merged.counts[groupIdx][cellIdx] ?? 0;
+    const refCount = merged.counts[refIdx][cellIdx] ?? 0;
+    const table: [number, number, number, number] = [count, total - count, refCount, refTotal - refCount];
+    const useFisher = test === "fisher" || isSparse(...table);
+    return {
+      cellType,
+      count,
+      total,
+      proportion: count / total,
+      refCount,
+      refTotal,
+      refProportion: refCount / refTotal,
+      log2FoldChange: Math.log2(((count + 0.5) / (total + 1)) / ((refCount + 0.5) / (refTotal + 1))),
+      test: useFisher ? ("fisher" as const) : ("chisq" as const),
+      pValue: useFisher ? fisherExact2x2(...table) : chiSquare2x2(...table),
+      padj: 1,
+    };
+  });
+
+  const adjusted = adjustBH(rows.map((row) => row.pValue));
+  return rows.map((row, idx) => ({ ...row, padj: adjusted[idx] }));
+}
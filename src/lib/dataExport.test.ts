@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from "vitest";
+import { exportMetadata, formatDataExport, type DataTable } from "./dataExport";
+
+const table: DataTable = {
+  columns: ["disease", "cell_type", "percent"],
+  rows: [
+    ["Healthy", "NK, CD56bright", 12.5],
+    ["SLE", "pDC", null],
+  ],
+};
+
+const metadata = {
+  api_base: "https://atlas.test",
+  tissue: "PBMC",
+  exported_at: "2024-05-01T12:00:00.000Z",
+  filters: { cell_types: "NK; pDC", note: "two\nlines" },
+};
+
+describe("formatDataExport", () => {
+  it("heads delimited files with metadata comments", () => {
+    expect(formatDataExport(table, metadata, "csv")).toBe(
+      [
+        "# api_base: https://atlas.test",
+        "# tissue: PBMC",
+        "# exported_at: 2024-05-01T12:00:00.000Z",
+        "# filter.cell_types: NK; pDC",
+        "# filter.note: two lines",
+        "disease,cell_type,percent",
+        'Healthy,"NK, CD56bright",12.5',
+        "SLE,pDC,",
+        "",
+      ].join("\n"),
+    );
+    expect(formatDataExport(table, metadata, "tsv").split("\n")[5]).toBe("disease\tcell_type\tpercent");
+  });
+
+  it("keys JSON rows by column next to the metadata", () => {
+    const parsed = JSON.parse(formatDataExport(table, metadata, "json"));
+    expect(parsed.metadata).toEqual(metadata);
+    expect(parsed.columns).toEqual(table.columns);
+    expect(parsed.rows).toEqual([
+      { disease: "Healthy", cell_type: "NK, CD56bright", percent: 12.5 },
+      { disease: "SLE", cell_type: "pDC", percent: null },
+    ]);
+  });
+});
+
+describe("exportMetadata", () => {
+  it("stamps the export time", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-05-01T12:00:00Z"));
+    expect(exportMetadata("https://atlas.test", undefined, {})).toEqual({
+      api_base: "https://atlas.test",
+      tissue: null,
+      exported_at: "2024-05-01T12:00:00.000Z",
+      filters: {},
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { DELIMITED_MIME, formatDelimited, type Cell } from "./delimited";
+
+export type DataFormat = "csv" | "tsv" | "json";
+
+export const DATA_FORMATS: Array<{ value: DataFormat; label: string }> = [
+  { value: "csv", label: "CSV" },
+  { value: "tsv", label: "TSV" },
+  { value: "json", label: "JSON" },
+];
+
+export const DATA_MIME: Record<DataFormat, string> = { ...DELIMITED_MIME, json: "application/json" };
+
+// Tidy long format: one observation per row, one variable per column
+export type DataTable = {
+  columns: string[];
+  rows: Cell[][];
+};
+
+// One downloadable table of a panel; built only when requested, since some are large
+export type DataTableSource = {
+  id: string;
+  label: string;
+  build: () => DataTable;
+};
+
+export type ExportMetadata = {
+  api_base: string;
+  tissue: string | null;
+  exported_at: string;
+  filters: Record<string, string>;
+};
+
+export function exportMetadata(apiBase: string, tissue: string | null | undefined, filters: Record<string, string>): ExportMetadata {
+  return { api_base: apiBase, tissue: tissue ?? null, exported_at: new Date().toISOString(), filters };
+}
+
+// Delimited files carry the metadata as leading `#` comment lines, which pandas (`comment="#"`)
+// and R (`comment.char = "#"`) skip; JSON carries it as a sibling of the rows
+export function formatDataExport(table: DataTable, metadata: ExportMetadata, format: DataFormat): string {
+  if (format === "json") {
+    const rows = table.rows.map((row) => Object.fromEntries(table.columns.map((column, idx) => [column, row[idx] ?? null])));
+    return `${JSON.stringify({ metadata, columns: table.columns, rows }, null, 2)}\n`;
+  }
+  const comments = [
+    ["api_base", metadata.api_base],
+    ["tissue", metadata.tissue ?? ""],
+    ["exported_at", metadata.exported_at],
+    ...Object.entries(metadata.filters).map(([key, value]) => [`filter.${key}`, value]),
+  ].map(([key, value]) => `# ${key}: ${value.replace(/[\r\n]+/g, " ")}\n`);
+  return comments.join("") + formatDelimited(table.columns, table.rows, format);
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { formatDelimited } from "./delimited";
+
+describe("formatDelimited", () => {
+  it("quotes CSV cells that need it", () => {
+    const text = formatDelimited(["gene", "groups", "note"], [["IFI27", "IFN; ISG", 'says "hi", twice']]);
+    expect(text).toBe('gene,groups,note\nIFI27,IFN; ISG,"says ""hi"", twice"\n');
+  });
+
+  it("writes blanks for missing values", () => {
+    expect(formatDelimited(["a", "b"], [[null, 0], [undefined, false]])).toBe("a,b\n,0\n,false\n");
+  });
+
+  it("flattens tabs and newlines in TSV", () => {
+    expect(formatDelimited(["a", "b"], [["x\ty", "line\nbreak"]], "tsv")).toBe("a\tb\nx y\tline break\n");
+  });
+});
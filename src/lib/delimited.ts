@@ -0,0 +1,23 @@
+export type DelimitedFormat = "csv" | "tsv";
+
+export type Cell = string | number | boolean | null | undefined;
+
+const DELIMITERS: Record<DelimitedFormat, string> = { csv: ",", tsv: "\t" };
+
+export const DELIMITED_MIME: Record<DelimitedFormat, string> = {
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+};
+
+// CSV quotes per RFC 4180; TSV has no quoting, so tabs and newlines become spaces
+function formatCell(value: Cell, format: DelimitedFormat) {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  if (format === "tsv") return text.replace(/[\t\r\n]+/g, " ");
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatDelimited(header: string[], rows: Cell[][], format: DelimitedFormat = "csv"): string {
+  const delimiter = DELIMITERS[format];
+  return [header, ...rows].map((row) => row.map((cell) => formatCell(cell, format)).join(delimiter)).join("\n") + "\n";
+}
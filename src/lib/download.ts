@@ -0,0 +1,38 @@
+// Save a file through a temporary object URL
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download asynchronously
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Save generated text
+export function downloadText(filename: string, text: string, type = "text/plain") {
+  downloadBlob(filename, new Blob([text], { type: `${type};charset=utf-8` }));
+}
+
+// Lower-case, dash-separated piece of a file name
+export function fileSlug(value: string) {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Bytes behind a base64 or URL-encoded data URL
+export function dataUrlBytes(dataUrl: string): Uint8Array<ArrayBuffer> {
+  const comma = dataUrl.indexOf(",");
+  const meta = dataUrl.slice(0, comma);
+  const payload = dataUrl.slice(comma + 1);
+  if (!meta.endsWith(";base64")) return new TextEncoder().encode(decodeURIComponent(payload));
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
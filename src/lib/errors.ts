@@ -0,0 +1,116 @@
+export type ApiErrorKind = "network" | "timeout" | "http" | "validation" | "unsupported" | "aborted";
+
+// Base class for everything the API client throws; `url` is the request that failed
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly url: string;
+
+  constructor(kind: ApiErrorKind, url: string, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.url = url;
+  }
+
+  // Whether the same request might succeed if sent again
+  get retryable() {
+    return false;
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(url: string, cause?: unknown) {
+    super("network", url, `Network error: ${cause instanceof Error ? cause.message : "request failed"}`, { cause });
+    this.name = "NetworkError";
+  }
+
+  get retryable() {
+    return true;
+  }
+}
+
+export class TimeoutError extends ApiError {
+  readonly timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number) {
+    super("timeout", url, `Request timed out after ${Math.round(timeoutMs / 1000)} s`);
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+
+  get retryable() {
+    return true;
+  }
+}
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export class HttpError extends ApiError {
+  readonly status: number;
+  readonly statusText: string;
+  // Parsed JSON body when the server sent one, otherwise the raw text
+  readonly body: unknown;
+  // Milliseconds requested by a Retry-After header
+  readonly retryAfterMs: number | null;
+
+  constructor(url: string, status: number, statusText: string, body: unknown, retryAfterMs: number | null) {
+    const detail =
+      body && typeof body === "object" && typeof (body as { error?: unknown }).error === "string"
+        ? `: ${(body as { error: string }).error}`
+        : "";
+    super("http", url, `HTTP ${status}${statusText ? ` ${statusText}` : ""}${detail}`);
+    this.name = "HttpError";
+    this.status = status;
+    this.statusText = statusText;
+    this.body = body;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable() {
+    return RETRYABLE_STATUSES.has(this.status);
+  }
+}
+
+export class ValidationError extends ApiError {
+  readonly issues: string[];
+
+  constructor(url: string, message: string, issues: string[]) {
+    super("validation", url, message);
+    this.name = "ValidationError";
+    this.issues = issues;
+  }
+}
+
+// The backend answered without applying a parameter outside the original API, so the data is not
+// what was asked for; see "Backend contract" in the README
+export class UnsupportedParameterError extends ApiError {
+  readonly param: string;
+
+  constructor(url: string, param: string, message: string) {
+    super("unsupported", url, message);
+    this.name = "UnsupportedParameterError";
+    this.param = param;
+  }
+}
+
+export class AbortedError extends ApiError {
+  constructor(url: string) {
+    super("aborted", url, "Request was cancelled");
+    // Matches DOMException so generic abort checks still recognise it
+    this.name = "AbortError";
+  }
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export function describeError(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { normalizeGeneSymbol, parseGeneList, resolveGenes } from "./genes";
+
+describe("parseGeneList", () => {
+  it("splits pasted text on any separator, normalizes and de-duplicates", () => {
+    expect(parseGeneList(" il7r, CCR7;\tsell\nIL7R  'Ms4a1' ENSG.1 ")).toEqual(["IL7R", "CCR7", "SELL", "MS4A1", "ENSG"]);
+    expect(parseGeneList(" \n,; ")).toEqual([]);
+  });
+
+  it("keeps the lower-case orf of open reading frame symbols", () => {
+    expect(normalizeGeneSymbol("c1orf112")).toBe("C1orf112");
+    expect(normalizeGeneSymbol("CXORF21")).toBe("CXorf21");
+  });
+});
+
+describe("resolveGenes", () => {
+  const universe = new Set(["IL7R", "FCGR3A", "PDCD1", "CD274"]);
+
+  it("maps built-in aliases onto atlas symbols and reports them", () => {
+    const result = resolveGenes(["CD127", "CD16", "PD-1", "IL7R"], universe);
+    expect(result.resolved).toEqual(["IL7R", "FCGR3A", "PDCD1"]);
+    expect(result.aliased).toEqual([
+      { input: "CD127", symbol: "IL7R" },
+      { input: "CD16", symbol: "FCGR3A" },
+      { input: "PD-1", symbol: "PDCD1" },
+    ]);
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it("prefers backend aliases over the built-in ones", () => {
+    const result = resolveGenes(["PDL1", "B7-H1"], universe, { "B7-H1": "CD274", PDL1: "PDCD1" });
+    expect(result.resolved).toEqual(["PDCD1", "CD274"]);
+  });
+
+  it("lists unknown symbols and aliases that point outside the atlas", () => {
+    const result = resolveGenes(["NOTAGENE", "CD20", "IL7R"], universe);
+    expect(result.resolved).toEqual(["IL7R"]);
+    expect(result.unresolved).toEqual(["NOTAGENE", "CD20"]);
+  });
+
+  it("rejects nothing without a universe but still applies aliases", () => {
+    const result = resolveGenes(["NOTAGENE", "CD20"], new Set());
+    expect(result.resolved).toEqual(["NOTAGENE", "MS4A1"]);
+    expect(result.aliased).toEqual([{ input: "CD20", symbol: "MS4A1" }]);
+    expect(result.unresolved).toEqual([]);
+  });
+});
@@ -0,0 +1,108 @@
+// Prefix that keeps user-defined panels apart from backend marker panels
+export const CUSTOM_PANEL_PREFIX = "custom:";
+
+// Common immunology aliases that users paste instead of HGNC symbols
+const BUILTIN_ALIASES: Record<string, string> = {
+  CD11B: "ITGAM",
+  CD11C: "ITGAX",
+  CD16: "FCGR3A",
+  CD16A: "FCGR3A",
+  CD16B: "FCGR3B",
+  CD20: "MS4A1",
+  CD21: "CR2",
+  CD25: "IL2RA",
+  CD32: "FCGR2A",
+  CD45: "PTPRC",
+  CD56: "NCAM1",
+  CD62L: "SELL",
+  CD64: "FCGR1A",
+  CD94: "KLRD1",
+  CD103: "ITGAE",
+  CD127: "IL7R",
+  CD138: "SDC1",
+  CD141: "THBD",
+  CD335: "NCR1",
+  BDCA1: "CD1C",
+  BDCA2: "CLEC4C",
+  BDCA3: "THBD",
+  "CTLA-4": "CTLA4",
+  "HLA-DR": "HLA-DRA",
+  IL8: "CXCL8",
+  NKG2D: "KLRK1",
+  NKP46: "NCR1",
+  PD1: "PDCD1",
+  "PD-1": "PDCD1",
+  PDL1: "CD274",
+  "PD-L1": "CD274",
+  PERFORIN: "PRF1",
+  SIGLEC3: "CD33",
+  TNFA: "TNF",
+};
+
+export function isCustomPanel(panel: string) {
+  return panel.startsWith(CUSTOM_PANEL_PREFIX);
+}
+
+export function customPanelName(panel: string) {
+  return isCustomPanel(panel) ? panel.slice(CUSTOM_PANEL_PREFIX.length) : panel;
+}
+
+// Upper-case a symbol the way HGNC writes it, keeping the lower-case "orf" in C1orf112 etc.
+export function normalizeGeneSymbol(value: string): string {
+  const cleaned = value.trim().replace(/^["']+|["']+$/g, "").replace(/\.\d+$/, "");
+  return cleaned.toUpperCase().replace(/^(C\d+|CX|CY)ORF(\d+)$/, "$1orf$2");
+}
+
+// Split pasted text on commas, semicolons, tabs, spaces and newlines
+export function parseGeneList(text: string): string[] {
+  const seen = new Set<string>();
+  return text
+    .split(/[\s,;]+/)
+    .map(normalizeGeneSymbol)
+    .filter((gene) => {
+      if (!gene || seen.has(gene)) return false;
+      seen.add(gene);
+      return true;
+    });
+}
+
+export type GeneResolution = {
+  resolved: string[];
+  aliased: Array<{ input: string; symbol: string }>;
+  unresolved: string[];
+};
+
+// Map symbols onto the atlas universe; with an empty universe nothing can be rejected
+export function resolveGenes(
+  symbols: string[],
+  universe: Set<string>,
+  aliases: Record<string, string> = {},
+): GeneResolution {
+  const resolved: string[] = [];
+  const aliased: Array<{ input: string; symbol: string }> = [];
+  const unresolved: string[] = [];
+  const seen = new Set<string>();
+
+  symbols.forEach((input) => {
+    let symbol = input;
+    if (universe.size > 0 && !universe.has(input)) {
+      const alias = aliases[input] ?? BUILTIN_ALIASES[input];
+      if (alias && universe.has(alias)) {
+        symbol = alias;
+        aliased.push({ input, symbol });
+      } else {
+        unresolved.push(input);
+        return;
+      }
+    } else if (universe.size === 0 && (aliases[input] ?? BUILTIN_ALIASES[input])) {
+      symbol = aliases[input] ?? BUILTIN_ALIASES[input];
+      aliased.push({ input, symbol });
+    }
+    if (!seen.has(symbol)) {
+      seen.add(symbol);
+      resolved.push(symbol);
+    }
+  });
+
+  return { resolved, aliased, unresolved };
+}
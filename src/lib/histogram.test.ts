@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { expandHistogram } from "./histogram";
+
+describe("expandHistogram", () => {
+  it("places samples at bin midpoints in proportion to the counts", () => {
+    const samples = expandHistogram([0, 1, 2, 4], [1, 3, 0], 8);
+    expect(samples).toEqual([0.5, 0.5, 1.5, 1.5, 1.5, 1.5, 1.5, 1.5]);
+  });
+
+  it("scales to the sample budget regardless of the raw counts", () => {
+    expect(expandHistogram([0, 1, 2], [5_000, 5_000], 100)).toHaveLength(100);
+    expect(expandHistogram([0, 1], [3], 10)).toHaveLength(10);
+  });
+
+  it("returns nothing for an empty histogram", () => {
+    expect(expandHistogram([0, 1, 2], [0, 0])).toEqual([]);
+    expect(expandHistogram([], [])).toEqual([]);
+  });
+});
@@ -0,0 +1,13 @@
+// Expand a histogram into pseudo-samples so Plotly can draw a violin
+export function expandHistogram(bins: number[], counts: number[], maxSamples = 2000): number[] {
+  const midpoints = bins.slice(0, -1).map((start, idx) => (start + bins[idx + 1]) / 2);
+  const total = counts.reduce((sum, val) => sum + val, 0) || 1;
+  const samples: number[] = [];
+  counts.forEach((count, binIdx) => {
+    const n = Math.round((count / total) * maxSamples);
+    for (let i = 0; i < n; i += 1) {
+      samples.push(midpoints[binIdx]);
+    }
+  });
+  return samples;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { jpegToPdf } from "./pdf";
+
+function readBlob(blob: Blob) {
+  return new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+describe("jpegToPdf", () => {
+  it("wraps the JPEG in a single page with a valid cross-reference table", async () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0xff, 0xd9]);
+    const blob = jpegToPdf(jpeg, { width: 1800, height: 1200 }, { width: 450, height: 300 });
+    expect(blob.type).toBe("application/pdf");
+
+    const bytes = await readBlob(blob);
+    const text = new TextDecoder("latin1").decode(bytes);
+    expect(text.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(text).toContain("/MediaBox [0 0 450 300]");
+    expect(text).toContain("/Width 1800 /Height 1200");
+    expect(text).toContain(`/Filter /DCTDecode /Length ${jpeg.length}`);
+    expect(text.trimEnd().endsWith("%%EOF")).toBe(true);
+
+    // The image bytes are embedded untouched
+    const start = bytes.findIndex((byte, idx) => byte === 0xff && bytes[idx + 1] === 0xd8);
+    expect(Array.from(bytes.slice(start, start + jpeg.length))).toEqual(Array.from(jpeg));
+
+    // Every xref entry points at its object header, counted in bytes
+    const startxref = Number(/startxref\n(\d+)/.exec(text)?.[1]);
+    const entries = text.slice(startxref).split("\n").slice(3, 8);
+    entries.forEach((entry, idx) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(text.slice(offset, offset + 7)).toBe(`${idx + 1} 0 obj`);
+    });
+  });
+});
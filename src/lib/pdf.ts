@@ -0,0 +1,56 @@
+// CSS pixels are 1/96 inch, PDF points 1/72 inch
+export const POINTS_PER_PIXEL = 0.75;
+
+// Single-page PDF showing one JPEG stretched over the whole page. JPEG streams embed as-is
+// (DCTDecode), so this needs no encoder; the page size is in points, the image size in pixels.
+export function jpegToPdf(
+  jpeg: Uint8Array<ArrayBuffer>,
+  image: { width: number; height: number },
+  page: { width: number; height: number },
+): Blob {
+  const w = Number(page.width.toFixed(2));
+  const h = Number(page.height.toFixed(2));
+  const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+  const objects: Array<string | [string, Uint8Array<ArrayBuffer>]> = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 5 0 R >> >> /Contents 4 0 R >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+      jpeg,
+    ],
+  ];
+
+  const encoder = new TextEncoder();
+  const parts: Array<Uint8Array<ArrayBuffer>> = [];
+  let length = 0;
+  const push = (part: string | Uint8Array<ArrayBuffer>) => {
+    const bytes = typeof part === "string" ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+
+  // The binary comment marks the file as binary for transfer tools
+  push("%PDF-1.4\n%âãÏÓ\n");
+  const offsets: number[] = [];
+  objects.forEach((object, idx) => {
+    offsets.push(length);
+    push(`${idx + 1} 0 obj\n`);
+    if (typeof object === "string") {
+      push(object);
+    } else {
+      push(object[0]);
+      push(object[1]);
+      push("\nendstream");
+    }
+    push("\nendobj\n");
+  });
+
+  const xref = length;
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => push(`${String(offset).padStart(10, "0")} 00000 n \n`));
+  push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  return new Blob(parts, { type: "application/pdf" });
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  COLORBLIND_PALETTE,
+  DEFAULT_EXPORT_SETTINGS,
+  buildExportFigure,
+  isNeutralColor,
+  type ExportSettings,
+  type Figure,
+} from "./plotExport";
+
+const settings = (overrides: Partial<ExportSettings> = {}): ExportSettings => ({
+  ...DEFAULT_EXPORT_SETTINGS,
+  title: "",
+  caption: "",
+  ...overrides,
+});
+
+const figure = (): Figure => ({
+  data: [
+    { type: "scatter", name: "B", marker: { color: "#ef4444", line: { color: "#0f172a" } }, selectedpoints: [1] },
+    { type: "scatter", name: "T", marker: { color: ["#3b82f6", "#ef4444", "#cbd5e1"] } },
+    { type: "scatter", name: "score", marker: { color: [0.1, 0.9], colorscale: "Reds" } },
+    { type: "violin", name: "RA", line: { color: "hsl(0, 75%, 50%)" }, fillcolor: "hsl(0, 75%, 50%)" },
+  ],
+  layout: { margin: { l: 60, r: 20, t: 10, b: 120 }, height: 520, hovermode: "closest", paper_bgcolor: "rgba(0,0,0,0)" },
+});
+
+describe("isNeutralColor", () => {
+  it("treats greys, black, white and transparent as neutral", () => {
+    ["#cbd5e1", "#0f172a", "#fff", "rgba(0, 0, 0, 0)", "grey", "hsl(210, 5%, 40%)"].forEach((color) =>
+      expect(isNeutralColor(color)).toBe(true),
+    );
+  });
+
+  it("treats saturated colours as categorical", () => {
+    ["#ef4444", "rgb(37, 99, 235)", "hsl(120, 60%, 45%)", "crimson"].forEach((color) =>
+      expect(isNeutralColor(color)).toBe(false),
+    );
+  });
+});
+
+describe("buildExportFigure", () => {
+  it("sets size and font without touching the source figure", () => {
+    const source = figure();
+    const result = buildExportFigure(source, settings({ width: 1200, height: 800, fontSize: 16, publication: false }));
+
+    expect(result.layout).toMatchObject({ width: 1200, height: 800, autosize: false, font: { size: 16 } });
+    expect(result.layout.hovermode).toBe("closest");
+    expect(result.data).toEqual(source.data);
+    expect(source.layout.width).toBeUndefined();
+  });
+
+  it("adds a title and grows the top margin for it", () => {
+    const result = buildExportFigure(figure(), settings({ title: "RA <vs> Healthy", fontSize: 10 }));
+    expect(result.layout.title).toMatchObject({ text: "RA &lt;vs&gt; Healthy", font: { size: 14 } });
+    expect(result.layout.margin).toMatchObject({ t: 40 });
+  });
+
+  it("places a wrapped caption below the existing bottom margin", () => {
+    const caption = "word ".repeat(80).trim();
+    const result = buildExportFigure(figure(), settings({ caption, width: 400, fontSize: 10 }));
+    const annotations = result.layout.annotations as Array<Record<string, unknown>>;
+    const note = annotations[annotations.length - 1];
+
+    expect(note).toMatchObject({ xref: "paper", yref: "paper", y: 0, yanchor: "top", yshift: -120 });
+    const lines = String(note.text).split("<br>");
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach((line) => expect(line.length).toBeLessThanOrEqual(72));
+    expect((result.layout.margin as Record<string, number>).b).toBe(120 + Math.ceil(lines.length * 14) + 12);
+  });
+
+  it("applies the publication theme", () => {
+    const result = buildExportFigure(figure(), settings({ publication: true }));
+    const [first, second, scored, violin] = result.data as Array<Record<string, Record<string, unknown>>>;
+
+    expect(result.layout).toMatchObject({ paper_bgcolor: "#ffffff", plot_bgcolor: "#ffffff", hovermode: false });
+    expect(first.selectedpoints).toBeUndefined();
+    // The same screen colour maps to the same palette entry; neutrals are kept
+    expect(first.marker.color).toBe(COLORBLIND_PALETTE[0]);
+    expect(first.marker.line).toEqual({ color: "#0f172a" });
+    expect(second.marker.color).toEqual([COLORBLIND_PALETTE[1], COLORBLIND_PALETTE[0], "#cbd5e1"]);
+    expect(scored.marker).toMatchObject({ color: [0.1, 0.9], colorscale: "Viridis" });
+    expect(violin.line.color).toBe(COLORBLIND_PALETTE[2]);
+    expect(violin.fillcolor).toBe(COLORBLIND_PALETTE[2]);
+  });
+
+  it("gives PDFs a solid background even without the theme", () => {
+    const result = buildExportFigure(figure(), settings({ format: "pdf", publication: false }));
+    expect(result.layout.paper_bgcolor).toBe("#ffffff");
+    expect((result.data[0].marker as Record<string, unknown>).color).toBe("#ef4444");
+  });
+});
@@ -0,0 +1,221 @@
+export type ImageFormat = "svg" | "png" | "pdf";
+
+export const IMAGE_FORMATS: Array<{ value: ImageFormat; label: string }> = [
+  { value: "svg", label: "SVG (vector)" },
+  { value: "png", label: "PNG" },
+  { value: "pdf", label: "PDF" },
+];
+
+export type ExportSettings = {
+  format: ImageFormat;
+  // Figure size in CSS pixels; PNG and PDF are rendered at `scale` times this
+  width: number;
+  height: number;
+  fontSize: number;
+  scale: number;
+  title: string;
+  caption: string;
+  publication: boolean;
+};
+
+export const DEFAULT_EXPORT_SETTINGS: Omit<ExportSettings, "title" | "caption"> = {
+  format: "svg",
+  width: 900,
+  height: 600,
+  fontSize: 12,
+  scale: 3,
+  publication: true,
+};
+
+export type Figure = {
+  data: Array<Record<string, unknown>>;
+  layout: Record<string, unknown>;
+};
+
+// Okabe–Ito, then Paul Tol's muted scheme once that runs out; both stay distinct under
+// the common colour-vision deficiencies
+export const COLORBLIND_PALETTE = [
+  "#E69F00",
+  "#56B4E9",
+  "#009E73",
+  "#F0E442",
+  "#0072B2",
+  "#D55E00",
+  "#CC79A7",
+  "#332288",
+  "#88CCEE",
+  "#44AA99",
+  "#117733",
+  "#999933",
+  "#DDCC77",
+  "#CC6677",
+  "#882255",
+  "#AA4499",
+];
+
+const CONTINUOUS_SCALE = "Viridis";
+const NEUTRAL_NAMES = new Set(["black", "white", "gray", "grey", "silver", "transparent"]);
+
+// Below this chroma (0-255) a colour reads as grey; Tailwind's blue-tinted slates included
+const NEUTRAL_CHROMA = 48;
+
+// Greys, black, white and fully transparent colours carry no category and are left alone
+export function isNeutralColor(value: string) {
+  const text = value.trim().toLowerCase();
+  if (NEUTRAL_NAMES.has(text)) return true;
+
+  let chroma: number | null = null;
+  let alpha = 1;
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(text);
+  const rgb = /^rgba?\(([^)]+)\)$/.exec(text);
+  const hsl = /^hsla?\(([^)]+)\)$/.exec(text);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, "$&$&") : hex[1];
+    const channels = [0, 2, 4].map((start) => parseInt(digits.slice(start, start + 2), 16));
+    chroma = Math.max(...channels) - Math.min(...channels);
+  } else if (rgb) {
+    const [r, g, b, a = 1] = rgb[1].split(",").map((part) => Number(part.trim()));
+    chroma = Math.max(r, g, b) - Math.min(r, g, b);
+    alpha = a;
+  } else if (hsl) {
+    const [, saturation, lightness, a = 1] = hsl[1].split(",").map((part) => Number.parseFloat(part));
+    chroma = (1 - Math.abs((2 * lightness) / 100 - 1)) * (saturation / 100) * 255;
+    alpha = a;
+  }
+  if (chroma === null) return false;
+  return alpha === 0 || chroma < NEUTRAL_CHROMA;
+}
+
+// Swaps every categorical colour for the next palette entry, the same colour always mapping
+// to the same entry, so series that matched on screen still match in print
+function makeRecolor() {
+  const assigned = new Map<string, string>();
+  const recolor = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(recolor);
+    if (typeof value !== "string" || isNeutralColor(value)) return value;
+    const key = value.trim().toLowerCase();
+    if (!assigned.has(key)) assigned.set(key, COLORBLIND_PALETTE[assigned.size % COLORBLIND_PALETTE.length]);
+    return assigned.get(key);
+  };
+  return recolor;
+}
+
+type Style = Record<string, unknown>;
+
+function asStyle(value: unknown): Style | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Style) : null;
+}
+
+function publicationTrace(trace: Style, recolor: (value: unknown) => unknown): Style {
+  const next: Style = { ...trace, hoverinfo: "skip" };
+  delete next.selectedpoints;
+  if (typeof next.fillcolor === "string") next.fillcolor = recolor(next.fillcolor);
+
+  const line = asStyle(next.line);
+  if (line) next.line = { ...line, color: recolor(line.color) };
+
+  const marker = asStyle(next.marker);
+  if (marker) {
+    const updated: Style = { ...marker };
+    // Numeric marker colours are mapped through a colour scale rather than listed
+    if (marker.colorscale !== undefined) updated.colorscale = CONTINUOUS_SCALE;
+    else updated.color = recolor(marker.color);
+    const markerLine = asStyle(marker.line);
+    if (markerLine) updated.line = { ...markerLine, color: recolor(markerLine.color) };
+    next.marker = updated;
+  }
+  if (next.colorscale !== undefined) next.colorscale = CONTINUOUS_SCALE;
+  return next;
+}
+
+// Plotly does not wrap annotation text, so break it into lines of roughly maxChars
+function wrapText(text: string, maxChars: number) {
+  const lines: string[] = [];
+  text.split("\n").forEach((paragraph) => {
+    let current = "";
+    paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+      if (current && current.length + word.length + 1 > maxChars) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    });
+    lines.push(current);
+  });
+  return lines;
+}
+
+function escapeText(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// The on-screen figure resized and restyled for a file: explicit size and font, title above,
+// caption below the plot, and under the publication theme a white background, no hover or
+// selection state and colour-blind safe colours. The source figure is not modified.
+export function buildExportFigure(source: Figure, settings: ExportSettings): Figure {
+  const layout: Style = structuredClone(source.layout);
+  let data: Style[] = structuredClone(source.data);
+
+  const margin: Style = { l: 60, r: 20, t: 20, b: 60, ...asStyle(layout.margin) };
+  const font = asStyle(layout.font) ?? {};
+  Object.assign(layout, {
+    width: settings.width,
+    height: settings.height,
+    autosize: false,
+    font: { ...font, size: settings.fontSize },
+  });
+
+  const title = settings.title.trim();
+  if (title) {
+    layout.title = {
+      text: escapeText(title),
+      font: { size: Math.round(settings.fontSize * 1.35) },
+      x: 0.5,
+      xanchor: "center",
+    };
+    margin.t = Number(margin.t) + Math.round(settings.fontSize * 3);
+  }
+
+  const caption = settings.caption.trim();
+  if (caption) {
+    const maxChars = Math.max(20, Math.floor(settings.width / (settings.fontSize * 0.55)));
+    const lines = wrapText(caption, maxChars);
+    const annotations = Array.isArray(layout.annotations) ? layout.annotations : [];
+    layout.annotations = [
+      ...annotations,
+      {
+        text: lines.map(escapeText).join("<br>"),
+        xref: "paper",
+        yref: "paper",
+        x: 0,
+        y: 0,
+        xanchor: "left",
+        yanchor: "top",
+        align: "left",
+        // Pushed below whatever already sits in the bottom margin (tick labels, legend)
+        yshift: -Number(margin.b),
+        showarrow: false,
+        font: { size: Math.max(8, settings.fontSize - 1), color: "#334155" },
+      },
+    ];
+    margin.b = Number(margin.b) + Math.ceil(lines.length * settings.fontSize * 1.4) + 12;
+  }
+  layout.margin = margin;
+
+  // PDFs embed a JPEG, which has no alpha, so they always get a solid page
+  if (settings.publication || settings.format === "pdf") {
+    layout.paper_bgcolor = "#ffffff";
+    layout.plot_bgcolor = "#ffffff";
+  }
+
+  if (settings.publication) {
+    const recolor = makeRecolor();
+    data = data.map((trace) => publicationTrace(trace, recolor));
+    layout.hovermode = false;
+    layout.dragmode = false;
+    delete layout.selections;
+  }
+
+  return { data, layout };
+}
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cachedQuery, invalidateQueries } from "./queryCache";
+
+// A fetcher whose responses the test releases one at a time
+function deferredFetcher<T>() {
+  const pending: Array<(value: T) => void> = [];
+  const fetcher = vi.fn(() => new Promise<T>((resolve) => pending.push(resolve)));
+  return { fetcher, resolveNext: (value: T) => pending.shift()?.(value) };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("cachedQuery", () => {
+  afterEach(async () => {
+    await invalidateQueries();
+  });
+
+  it("serves a repeated key from memory", async () => {
+    const fetcher = vi.fn(async () => ({ value: 1 }));
+    expect(await cachedQuery("hit", fetcher, { persist: false })).toEqual({ value: 1 });
+    expect(await cachedQuery("hit", fetcher, { persist: false })).toEqual({ value: 1 });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares one request between concurrent callers", async () => {
+    const { fetcher, resolveNext } = deferredFetcher<string>();
+    const first = cachedQuery("shared", fetcher, { persist: false });
+    const second = cachedQuery("shared", fetcher, { persist: false });
+    await flush();
+    resolveNext("done");
+
+    expect(await Promise.all([first, second])).toEqual(["done", "done"]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("aborts the shared request only when every caller has gone", async () => {
+    let signal: AbortSignal | undefined;
+    const fetcher = vi.fn((requestSignal: AbortSignal) => {
+      signal = requestSignal;
+      return new Promise<string>(() => {});
+    });
+    const one = new AbortController();
+    const two = new AbortController();
+    const first = cachedQuery("abort", fetcher, { persist: false, signal: one.signal });
+    const second = cachedQuery("abort", fetcher, { persist: false, signal: two.signal });
+    await flush();
+
+    one.abort();
+    await expect(first).rejects.toMatchObject({ name: "AbortError" });
+    expect(signal?.aborted).toBe(false);
+    two.abort();
+    await expect(second).rejects.toMatchObject({ name: "AbortError" });
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("returns stale data at once and refreshes it in the background", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(0);
+    const { fetcher, resolveNext } = deferredFetcher<string>();
+    const first = cachedQuery("stale", fetcher, { persist: false, staleMs: 1000 });
+    await flush();
+    resolveNext("v1");
+    expect(await first).toBe("v1");
+
+    vi.setSystemTime(500);
+    expect(await cachedQuery("stale", fetcher, { persist: false, staleMs: 1000 })).toBe("v1");
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(2000);
+    expect(await cachedQuery("stale", fetcher, { persist: false, staleMs: 1000 })).toBe("v1");
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    resolveNext("v2");
+    await flush();
+    expect(await cachedQuery("stale", fetcher, { persist: false, staleMs: 1000 })).toBe("v2");
+  });
+
+  it("does not cache responses that fail shouldStore", async () => {
+    const fetcher = vi.fn(async () => ({ ok: false }));
+    const options = { persist: false, shouldStore: (data: unknown) => (data as { ok: boolean }).ok };
+    await cachedQuery("rejected", fetcher, options);
+    await cachedQuery("rejected", fetcher, options);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps a request that raced an invalidation out of the cache", async () => {
+    const { fetcher, resolveNext } = deferredFetcher<string>();
+    const first = cachedQuery("raced", fetcher, { persist: false });
+    await flush();
+    await invalidateQueries();
+    resolveNext("old");
+    expect(await first).toBe("old");
+
+    const second = cachedQuery("raced", fetcher, { persist: false });
+    await flush();
+    resolveNext("new");
+    expect(await second).toBe("new");
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,200 @@
+// Shared response cache: memory first, IndexedDB behind it, keyed by request URL.
+// Concurrent callers for the same key share one request, and that request is only
+// aborted once every caller has gone away.
+
+type CacheEntry = {
+  data: unknown;
+  storedAt: number;
+};
+
+type InFlight = {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+};
+
+export type QueryOptions = {
+  signal?: AbortSignal;
+  // Serve cached data younger than this without touching the network
+  staleMs?: number;
+  // Persist the response to IndexedDB
+  persist?: boolean;
+  // Responses that fail this check are returned but never cached
+  shouldStore?: (data: unknown) => boolean;
+};
+
+const DEFAULT_STALE_MS = 5 * 60_000;
+const MAX_PERSISTED_AGE_MS = 24 * 60 * 60_000;
+const DB_NAME = "atlas-cache";
+const STORE_NAME = "responses";
+
+const memory = new Map<string, CacheEntry>();
+const inFlight = new Map<string, InFlight>();
+let generation = 0;
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+export function abortError() {
+  return new DOMException("The operation was aborted.", "AbortError");
+}
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    try {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+async function readPersisted(key: string): Promise<CacheEntry | null> {
+  const db = await openDb();
+  if (!db) return null;
+  return new Promise((resolve) => {
+    try {
+      const request = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).get(key);
+      request.onsuccess = () => {
+        const entry = request.result as CacheEntry | undefined;
+        resolve(entry && Date.now() - entry.storedAt < MAX_PERSISTED_AGE_MS ? entry : null);
+      };
+      request.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+async function writePersisted(key: string, entry: CacheEntry) {
+  const db = await openDb();
+  if (!db) return;
+  try {
+    db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME).put(entry, key);
+  } catch {
+    // ignore quota and serialization failures
+  }
+}
+
+async function clearPersisted() {
+  const db = await openDb();
+  if (!db) return;
+  await new Promise<void>((resolve) => {
+    try {
+      const request = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME).clear();
+      request.onsuccess = () => resolve();
+      request.onerror = () => resolve();
+    } catch {
+      resolve();
+    }
+  });
+}
+
+// Start (or join) the network request for a key and store its result
+function shareRequest<T>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  persist: boolean,
+  shouldStore: (data: unknown) => boolean,
+): InFlight {
+  const existing = inFlight.get(key);
+  if (existing && !existing.controller.signal.aborted) return existing;
+
+  const controller = new AbortController();
+  const startedIn = generation;
+  const promise = fetcher(controller.signal)
+    .then((data) => {
+      // Drop results that raced with an invalidation
+      if (startedIn === generation && shouldStore(data)) {
+        const entry = { data, storedAt: Date.now() };
+        memory.set(key, entry);
+        if (persist) void writePersisted(key, entry);
+      }
+      return data;
+    })
+    .finally(() => {
+      if (inFlight.get(key)?.promise === promise) inFlight.delete(key);
+    });
+  // Background revalidations may have no awaiting caller
+  promise.catch(() => {});
+
+  const request = { promise, controller, subscribers: 0 };
+  inFlight.set(key, request);
+  return request;
+}
+
+function subscribe<T>(request: InFlight, signal?: AbortSignal): Promise<T> {
+  if (signal?.aborted) return Promise.reject(abortError());
+  request.subscribers += 1;
+  if (!signal) return request.promise as Promise<T>;
+
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+    const onAbort = () => {
+      if (settled) return;
+      settled = true;
+      request.subscribers -= 1;
+      if (request.subscribers <= 0) request.controller.abort();
+      reject(abortError());
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    request.promise.then(
+      (data) => {
+        if (settled) return;
+        settled = true;
+        signal.removeEventListener("abort", onAbort);
+        resolve(data as T);
+      },
+      (error) => {
+        if (settled) return;
+        settled = true;
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    );
+  });
+}
+
+// Stale-while-revalidate: fresh hits return immediately, stale hits return immediately
+// and refresh in the background, misses wait for the (shared) request.
+export async function cachedQuery<T>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  { signal, staleMs = DEFAULT_STALE_MS, persist = true, shouldStore = () => true }: QueryOptions = {},
+): Promise<T> {
+  if (signal?.aborted) throw abortError();
+
+  let entry = memory.get(key) ?? null;
+  if (!entry && persist) {
+    const startedIn = generation;
+    entry = await readPersisted(key);
+    if (entry && startedIn === generation) memory.set(key, entry);
+    if (signal?.aborted) throw abortError();
+  }
+
+  if (entry) {
+    if (Date.now() - entry.storedAt > staleMs) {
+      shareRequest(key, fetcher, persist, shouldStore);
+    }
+    return entry.data as T;
+  }
+
+  return subscribe<T>(shareRequest(key, fetcher, persist, shouldStore), signal);
+}
+
+// Drop every cached response; requests already in flight will not repopulate the cache
+export async function invalidateQueries() {
+  generation += 1;
+  memory.clear();
+  inFlight.clear();
+  await clearPersisted();
+}
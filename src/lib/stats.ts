@@ -0,0 +1,258 @@
+export function mean(values: number[]): number {
+  if (values.length === 0) return NaN;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Linearly interpolated quantile (R's default type 7); q in [0, 1]
+export function quantile(values: number[], q: number): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+export function pearson(x: number[], y: number[]): number {
+  const n = Math.min(x.length, y.length);
+  if (n < 2) return NaN;
+  const mx = mean(x.slice(0, n));
+  const my = mean(y.slice(0, n));
+  let num = 0;
+  let dx = 0;
+  let dy = 0;
+  for (let i = 0; i < n; i += 1) {
+    const a = x[i] - mx;
+    const b = y[i] - my;
+    num += a * b;
+    dx += a * a;
+    dy += b * b;
+  }
+  const denom = Math.sqrt(dx * dy);
+  return denom === 0 ? NaN : num / denom;
+}
+
+// Average ranks (1-based), ties share the mean of their positions
+export function rank(values: number[]): number[] {
+  const order = values.map((value, idx) => ({ value, idx })).sort((a, b) => a.value - b.value);
+  const ranks = Array<number>(values.length).fill(0);
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) {
+      j += 1;
+    }
+    const avg = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k += 1) {
+      ranks[order[k].idx] = avg;
+    }
+    i = j + 1;
+  }
+  return ranks;
+}
+
+export function spearman(x: number[], y: number[]): number {
+  const n = Math.min(x.length, y.length);
+  if (n < 2) return NaN;
+  return pearson(rank(x.slice(0, n)), rank(y.slice(0, n)));
+}
+
+// Ordinary least squares fit of y = slope * x + intercept
+export function linearFit(x: number[], y: number[]): { slope: number; intercept: number } | null {
+  const n = Math.min(x.length, y.length);
+  if (n < 2) return null;
+  const mx = mean(x.slice(0, n));
+  const my = mean(y.slice(0, n));
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < n; i += 1) {
+    num += (x[i] - mx) * (y[i] - my);
+    den += (x[i] - mx) * (x[i] - mx);
+  }
+  if (den === 0) return null;
+  const slope = num / den;
+  return { slope, intercept: my - slope * mx };
+}
+
+// Lanczos approximation of ln Γ(x)
+function logGamma(x: number): number {
+  const g = 7;
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = coefficients[0];
+  for (let i = 1; i < g + 2; i += 1) {
+    sum += coefficients[i] / (z + i);
+  }
+  const t = z + g + 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+export function logChoose(n: number, k: number): number {
+  if (k < 0 || k > n) return -Infinity;
+  return logGamma(n + 1) - logGamma(k + 1) - logGamma(n - k + 1);
+}
+
+// P(X >= k) for X ~ Hypergeometric(population, successes, draws)
+export function hypergeometricUpperTail(k: number, population: number, successes: number, draws: number): number {
+  if (population <= 0 || successes <= 0 || draws <= 0) return 1;
+  const lower = Math.max(k, 0, draws - (population - successes));
+  const upper = Math.min(successes, draws);
+  if (lower > upper) return 0;
+  const logTotal = logChoose(population, draws);
+  let p = 0;
+  for (let i = lower; i <= upper; i += 1) {
+    p += Math.exp(logChoose(successes, i) + logChoose(population - successes, draws - i) - logTotal);
+  }
+  return Math.min(1, p);
+}
+
+// Standard normal CDF via the Abramowitz–Stegun erf approximation (|error| < 1.5e-7)
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  // Upper tail computed directly so extreme z keeps its precision
+  const tail = 0.5 * poly * Math.exp(-x * x);
+  return z >= 0 ? 1 - tail : tail;
+}
+
+// Two-sided p-value of Pearson's chi-square test with Yates' continuity correction on the
+// 2×2 table [[a, b], [c, d]], as R's chisq.test does by default
+export function chiSquare2x2(a: number, b: number, c: number, d: number): number {
+  const n = a + b + c + d;
+  const rows = [a + b, c + d];
+  const cols = [a + c, b + d];
+  if (n === 0 || rows.includes(0) || cols.includes(0)) return 1;
+  const diff = Math.abs(a * d - b * c);
+  const corrected = Math.max(0, diff - n / 2);
+  const statistic = (n * corrected * corrected) / (rows[0] * rows[1] * cols[0] * cols[1]);
+  // With one degree of freedom the statistic is a squared standard normal
+  return Math.min(1, 2 * (1 - normalCdf(Math.sqrt(statistic))));
+}
+
+// Two-sided Fisher's exact test on [[a, b], [c, d]]: total probability of the tables with the
+// same margins that are no more likely than the observed one
+export function fisherExact2x2(a: number, b: number, c: number, d: number): number {
+  const row1 = a + b;
+  const col1 = a + c;
+  const n = a + b + c + d;
+  if (n === 0) return 1;
+  const logProb = (x: number) => logChoose(col1, x) + logChoose(n - col1, row1 - x) - logChoose(n, row1);
+  const observed = logProb(a);
+  // Relative tolerance, as in R, so ties are not lost to rounding
+  const cutoff = observed + Math.log1p(1e-7);
+  let p = 0;
+  for (let x = Math.max(0, row1 + col1 - n); x <= Math.min(row1, col1); x += 1) {
+    const lp = logProb(x);
+    if (lp <= cutoff) p += Math.exp(lp);
+  }
+  return Math.min(1, p);
+}
+
+// Two-sided Mann–Whitney U test on weighted observations ([value, count] pairs, e.g. histogram
+// bins), by the normal approximation with tie and continuity corrections as in R's wilcox.test.
+// `delta` is Cliff's delta, P(a > b) − P(a < b).
+export function mannWhitney(
+  a: Array<[number, number]>,
+  b: Array<[number, number]>,
+): { u: number; p: number; delta: number } {
+  const n1 = a.reduce((sum, [, count]) => sum + count, 0);
+  const n2 = b.reduce((sum, [, count]) => sum + count, 0);
+  if (n1 === 0 || n2 === 0) return { u: NaN, p: NaN, delta: NaN };
+
+  const tallies = new Map<number, [number, number]>();
+  a.forEach(([value, count]) => {
+    const entry = tallies.get(value) ?? [0, 0];
+    entry[0] += count;
+    tallies.set(value, entry);
+  });
+  b.forEach(([value, count]) => {
+    const entry = tallies.get(value) ?? [0, 0];
+    entry[1] += count;
+    tallies.set(value, entry);
+  });
+
+  let below = 0;
+  let rankSumA = 0;
+  let ties = 0;
+  Array.from(tallies.keys())
+    .sort((x, y) => x - y)
+    .forEach((value) => {
+      const [countA, countB] = tallies.get(value)!;
+      const tied = countA + countB;
+      rankSumA += countA * (below + (tied + 1) / 2);
+      ties += tied ** 3 - tied;
+      below += tied;
+    });
+
+  const n = n1 + n2;
+  const u = rankSumA - (n1 * (n1 + 1)) / 2;
+  const variance = ((n1 * n2) / 12) * (n + 1 - ties / (n * (n - 1)));
+  const delta = (2 * u) / (n1 * n2) - 1;
+  if (variance <= 0) return { u, p: 1, delta };
+  const z = Math.max(0, Math.abs(u - (n1 * n2) / 2) - 0.5) / Math.sqrt(variance);
+  // Lower tail of −z keeps its precision for large z
+  return { u, p: Math.min(1, 2 * normalCdf(-z)), delta };
+}
+
+// Benjamini–Hochberg adjusted p-values, returned in input order
+export function adjustBH(pValues: number[]): number[] {
+  const n = pValues.length;
+  const order = pValues.map((p, idx) => ({ p, idx })).sort((a, b) => b.p - a.p);
+  const adjusted = new Array<number>(n);
+  let running = 1;
+  order.forEach(({ p, idx }, position) => {
+    running = Math.min(running, (p * n) / (n - position));
+    adjusted[idx] = running;
+  });
+  return adjusted;
+}
+
+// Leaf order from average-linkage agglomerative clustering on Euclidean distance
+export function hierarchicalOrder(vectors: number[][]): number[] {
+  const n = vectors.length;
+  if (n <= 2) return vectors.map((_, idx) => idx);
+
+  const distance = (a: number[], b: number[]) => {
+    let sum = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i += 1) {
+      const diff = (a[i] ?? 0) - (b[i] ?? 0);
+      sum += diff * diff;
+    }
+    return Math.sqrt(sum);
+  };
+
+  const pairwise = vectors.map((a) => vectors.map((b) => distance(a, b)));
+  let clusters = vectors.map((_, idx) => ({ members: [idx], order: [idx] }));
+
+  while (clusters.length > 1) {
+    let best = { i: 0, j: 1, d: Infinity };
+    for (let i = 0; i < clusters.length; i += 1) {
+      for (let j = i + 1; j < clusters.length; j += 1) {
+        let total = 0;
+        clusters[i].members.forEach((a) => {
+          clusters[j].members.forEach((b) => {
+            total += pairwise[a][b];
+          });
+        });
+        const d = total / (clusters[i].members.length * clusters[j].members.length);
+        if (d < best.d) best = { i, j, d };
+      }
+    }
+    const merged = {
+      members: [...clusters[best.i].members, ...clusters[best.j].members],
+      order: [...clusters[best.i].order, ...clusters[best.j].order],
+    };
+    clusters = clusters.filter((_, idx) => idx !== best.i && idx !== best.j);
+    clusters.push(merged);
+  }
+
+  return clusters[0].order;
+}
@@ -1,4 +1,5 @@
 const API_BASE_KEY = "atlas_api_base";
+const CUSTOM_PANELS_KEY = "atlas_custom_panels";
 
 export function getStoredApiBase(): string | null {
   try {
@@ -23,3 +24,21 @@ export function clearStoredApiBase() {
     // ignore remove failures
   }
 }
+
+export function getStoredCustomPanels(): Record<string, string[]> {
+  try {
+    const raw = window.localStorage.getItem(CUSTOM_PANELS_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function setStoredCustomPanels(panels: Record<string, string[]>) {
+  try {
+    window.localStorage.setItem(CUSTOM_PANELS_KEY, JSON.stringify(panels));
+  } catch {
+    // ignore write failures
+  }
+}
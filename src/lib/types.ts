@@ -1,5 +1,25 @@
 export type Mode = "single" | "compare";
 
+// Sentinel for "no second disease" in the compare-against picker
+export const NO_COMPARISON = "NA";
+
+export const DEFAULT_REFERENCE = "Healthy";
+
+export const VISUALIZATION_TABS = [
+  "umap",
+  "composition",
+  "dotplot",
+  "violin",
+  "gene",
+  "volcano",
+  "de",
+  "overlap",
+  "concordance",
+  "datasets",
+] as const;
+
+export type VisualizationTab = (typeof VISUALIZATION_TABS)[number];
+
 export type Accession = {
   id: string;
   disease: string;
@@ -23,6 +43,13 @@ export type MarkersResponse = {
   genes: string[];
 };
 
+export type GenesResponse = {
+  ok: boolean;
+  genes: string[];
+  aliases?: Record<string, string>;
+  error?: string;
+};
+
 export type DeRow = {
   gene: string;
   logfc: number;
@@ -42,10 +69,41 @@ export type DeResponse = {
   rows?: DeRow[];
   top_up?: DeRow[];
   top_down?: DeRow[];
+  // Table ordering and filters the backend applied, echoed back; absent when it ignored them
+  sort_by?: DeSortField | null;
+  order?: "asc" | "desc" | null;
+  filters?: {
+    gene?: string | null;
+    direction?: "up" | "down" | null;
+    group?: string | null;
+    accessions?: string[] | null;
+  };
+  // Every functional group in the contrast's unfiltered table, for the group filter
+  groups?: string[];
   error?: string;
   available?: string[];
 };
 
+export type DeSortField = "logfc" | "padj";
+
+// One page of a DE table; filters apply before paging so `total` counts matching rows
+export type DeTableQuery = {
+  disease: string;
+  cellType: string;
+  reference?: string | null;
+  limit: number;
+  offset: number;
+  sortBy?: DeSortField;
+  order?: "asc" | "desc";
+  // Case-insensitive substring of the gene symbol
+  gene?: string;
+  direction?: "up" | "down";
+  // Functional group the gene must belong to
+  group?: string;
+  // Only cells from these accessions; all when omitted
+  accessions?: string[] | null;
+};
+
 export type ViolinSummary = {
   label: string;
   histogram?: {
@@ -65,6 +123,7 @@ export type UmapResponse = {
   filters?: {
     disease?: string | null;
     cell_type?: string | null;
+    accessions?: string[] | null;
   };
   color_key?: string;
   x?: number[];
@@ -99,6 +158,12 @@ export type DotplotByDiseaseResponse = {
     pct: number[][];
   }>;
   error?: string;
+  unknown?: string[];
+};
+
+// Accessions the backend restricted cells to, echoed back; absent when it ignored the filter
+export type AccessionFilters = {
+  accessions?: string[] | null;
 };
 
 export type ViolinResponse = {
@@ -106,6 +171,7 @@ export type ViolinResponse = {
   gene?: string;
   group_by?: string;
   kind?: "hist" | "quantile";
+  filters?: AccessionFilters;
   groups?: string[];
   bins?: number[];
   counts?: number[][];
@@ -114,10 +180,37 @@ export type ViolinResponse = {
   available?: string[];
 };
 
+export type SignatureMethod = "zmean" | "ucell";
+
+// Per-cell signature scores, summarised per group as histograms (same binning for every group)
+export type SignatureScoreResponse = {
+  ok: boolean;
+  method?: SignatureMethod;
+  group_by?: string;
+  genes?: string[];
+  // Requested genes the atlas does not measure; left out of the score
+  unknown?: string[];
+  // Rank cap of the UCell-style score
+  max_rank?: number;
+  filters?: AccessionFilters;
+  groups?: string[];
+  n?: number[];
+  mean?: number[];
+  bins?: number[];
+  counts?: number[][];
+  // groups × genes mean per-cell term; each row sums to the group mean
+  contributions?: number[][];
+  error?: string;
+  available?: string[];
+};
+
 export type CompositionResponse = {
   ok: boolean;
   group_by?: string;
+  filters?: AccessionFilters;
   groups?: string[];
+  // Disease of each group when grouped by accession or donor
+  diseases?: string[];
   cell_types?: string[];
   counts?: number[][];
   error?: string;
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { buildUrlSearch, readUrlState, type UrlState } from "./urlState";
+
+describe("url state", () => {
+  it("round-trips every field through the query string", () => {
+    const state: UrlState = {
+      disease: "SLE",
+      compare: "RA",
+      reference: "Healthy",
+      cellTypes: ["NK", "Classical monocyte"],
+      excludedAccessions: ["GSE1", "GSE2"],
+      panel: "custom:My panel",
+      tab: "volcano",
+    };
+    const search = buildUrlSearch(state);
+    expect(search).toBe(
+      "?disease=SLE&compare=RA&ref=Healthy&cell=NK&cell=Classical+monocyte&exclude=GSE1&exclude=GSE2&panel=custom%3AMy+panel&tab=volcano",
+    );
+    expect(readUrlState(search)).toEqual(state);
+  });
+
+  it("tells no cell types apart from all cell types", () => {
+    expect(buildUrlSearch({ cellTypes: [] })).toBe("?cell=");
+    expect(readUrlState("?cell=")).toEqual({ cellTypes: [] });
+    expect(buildUrlSearch({})).toBe("");
+    expect(readUrlState("")).toEqual({});
+  });
+
+  it("drops unknown tabs, empty values and unrelated params", () => {
+    expect(readUrlState("?tab=nope&disease=&compare=&ref=&panel=&exclude=&utm_source=mail")).toEqual({});
+    expect(readUrlState("?cell=NK&cell=&exclude=GSE1&exclude=")).toEqual({ cellTypes: ["NK"], excludedAccessions: ["GSE1"] });
+  });
+});
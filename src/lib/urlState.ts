@@ -0,0 +1,78 @@
+import { VISUALIZATION_TABS, type VisualizationTab } from "./types";
+
+// View state that round-trips through the query string
+export type UrlState = {
+  disease?: string;
+  compare?: string;
+  reference?: string;
+  // undefined means "all cell types", an empty array means none
+  cellTypes?: string[];
+  // Accessions left out of the views; undefined means none
+  excludedAccessions?: string[];
+  panel?: string;
+  tab?: VisualizationTab;
+};
+
+const PARAMS = {
+  disease: "disease",
+  compare: "compare",
+  reference: "ref",
+  cellTypes: "cell",
+  excludedAccessions: "exclude",
+  panel: "panel",
+  tab: "tab",
+} as const;
+
+function isVisualizationTab(value: string): value is VisualizationTab {
+  return (VISUALIZATION_TABS as readonly string[]).includes(value);
+}
+
+export function readUrlState(search = window.location.search): UrlState {
+  const params = new URLSearchParams(search);
+  const state: UrlState = {};
+  const disease = params.get(PARAMS.disease);
+  const compare = params.get(PARAMS.compare);
+  const reference = params.get(PARAMS.reference);
+  const panel = params.get(PARAMS.panel);
+  const tab = params.get(PARAMS.tab);
+  if (disease) state.disease = disease;
+  if (compare) state.compare = compare;
+  if (reference) state.reference = reference;
+  if (panel) state.panel = panel;
+  if (tab && isVisualizationTab(tab)) state.tab = tab;
+  if (params.has(PARAMS.cellTypes)) {
+    state.cellTypes = params.getAll(PARAMS.cellTypes).filter((item) => item.length > 0);
+  }
+  const excluded = params.getAll(PARAMS.excludedAccessions).filter((item) => item.length > 0);
+  if (excluded.length > 0) state.excludedAccessions = excluded;
+  return state;
+}
+
+export function buildUrlSearch(state: UrlState): string {
+  const params = new URLSearchParams();
+  if (state.disease) params.set(PARAMS.disease, state.disease);
+  if (state.compare) params.set(PARAMS.compare, state.compare);
+  if (state.reference) params.set(PARAMS.reference, state.reference);
+  if (state.cellTypes) {
+    if (state.cellTypes.length === 0) {
+      params.set(PARAMS.cellTypes, "");
+    } else {
+      state.cellTypes.forEach((item) => params.append(PARAMS.cellTypes, item));
+    }
+  }
+  state.excludedAccessions?.forEach((item) => params.append(PARAMS.excludedAccessions, item));
+  if (state.panel) params.set(PARAMS.panel, state.panel);
+  if (state.tab) params.set(PARAMS.tab, state.tab);
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+export function writeUrlState(state: UrlState) {
+  try {
+    const search = buildUrlSearch(state);
+    if (search === window.location.search) return;
+    window.history.replaceState(window.history.state, "", `${window.location.pathname}${search}${window.location.hash}`);
+  } catch {
+    // ignore history failures (e.g. sandboxed iframes)
+  }
+}
@@ -0,0 +1,280 @@
+import type {
+  CompositionResponse,
+  DeResponse,
+  DotplotByDiseaseResponse,
+  DotplotResponse,
+  Manifest,
+  SignatureScoreResponse,
+  UmapResponse,
+  ViolinResponse,
+} from "./types";
+
+const MAX_REPORTED_ISSUES = 5;
+const MAX_SUGGESTIONS = 8;
+
+// Thrown when a response does not match the shape the panels rely on
+export class ResponseValidationError extends Error {
+  readonly endpoint: string;
+  readonly issues: string[];
+
+  constructor(endpoint: string, issues: string[]) {
+    const shown = issues.slice(0, MAX_REPORTED_ISSUES).join("; ");
+    const more = issues.length > MAX_REPORTED_ISSUES ? ` (+${issues.length - MAX_REPORTED_ISSUES} more)` : "";
+    super(`Unexpected ${endpoint} response: ${shown}${more}`);
+    this.name = "ResponseValidationError";
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+type Issues = string[];
+
+function describe(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkString(value: unknown, path: string, issues: Issues) {
+  if (typeof value !== "string") issues.push(`${path} expected string, got ${describe(value)}`);
+}
+
+function checkNumber(value: unknown, path: string, issues: Issues, nullable = false) {
+  if (nullable && value === null) return;
+  if (typeof value !== "number" || Number.isNaN(value)) issues.push(`${path} expected number, got ${describe(value)}`);
+}
+
+// Returns the array when it is one so callers can check lengths against it
+function checkArray(
+  value: unknown,
+  path: string,
+  issues: Issues,
+  item?: (entry: unknown, itemPath: string) => void,
+): unknown[] | null {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} expected array, got ${describe(value)}`);
+    return null;
+  }
+  if (item) value.forEach((entry, idx) => item(entry, `${path}[${idx}]`));
+  return value;
+}
+
+function checkOptionalArray(
+  data: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: Issues,
+  item?: (entry: unknown, itemPath: string) => void,
+) {
+  return data[key] === undefined || data[key] === null ? null : checkArray(data[key], `${path}${key}`, issues, item);
+}
+
+function checkLength(values: unknown[] | null, expected: number, path: string, against: string, issues: Issues) {
+  if (values && values.length !== expected) {
+    issues.push(`${path} has ${values.length} entries but ${against} has ${expected}`);
+  }
+}
+
+const stringItem = (issues: Issues) => (entry: unknown, path: string) => checkString(entry, path, issues);
+const numberItem = (issues: Issues, nullable = false) => (entry: unknown, path: string) =>
+  checkNumber(entry, path, issues, nullable);
+
+// groups × columns numeric matrix, e.g. composition counts or dot plot averages
+function checkMatrix(value: unknown, path: string, rows: number, columns: number, rowsLabel: string, columnsLabel: string, issues: Issues) {
+  const matrix = checkArray(value, path, issues);
+  if (!matrix) return;
+  checkLength(matrix, rows, path, rowsLabel, issues);
+  matrix.forEach((row, idx) => {
+    const rowPath = `${path}[${idx}]`;
+    const values = checkArray(row, rowPath, issues, numberItem(issues, true));
+    checkLength(values, columns, rowPath, columnsLabel, issues);
+  });
+}
+
+// Shared envelope: `ok` must be a boolean, and `ok: false` bodies carry no payload to check
+function checkEnvelope(data: unknown, endpoint: string): Record<string, unknown> | null {
+  if (!isRecord(data)) throw new ResponseValidationError(endpoint, [`body expected object, got ${describe(data)}`]);
+  if (typeof data.ok !== "boolean") throw new ResponseValidationError(endpoint, [`ok expected boolean, got ${describe(data.ok)}`]);
+  return data.ok ? data : null;
+}
+
+function finish<T>(data: unknown, endpoint: string, issues: Issues): T {
+  if (issues.length > 0) throw new ResponseValidationError(endpoint, issues);
+  return data as T;
+}
+
+export function validateManifest(data: unknown): Manifest {
+  const endpoint = "/atlas/manifest";
+  const body = checkEnvelope(data, endpoint);
+  if (!body) return data as Manifest;
+  const issues: Issues = [];
+  checkString(body.tissue, "tissue", issues);
+  checkArray(body.diseases, "diseases", issues, stringItem(issues));
+  checkArray(body.cell_types, "cell_types", issues, stringItem(issues));
+  checkArray(body.accessions, "accessions", issues, (entry, path) => {
+    if (!isRecord(entry)) {
+      issues.push(`${path} expected object, got ${describe(entry)}`);
+      return;
+    }
+    checkString(entry.id, `${path}.id`, issues);
+    checkString(entry.disease, `${path}.disease`, issues);
+    checkNumber(entry.donors, `${path}.donors`, issues);
+    checkNumber(entry.cells, `${path}.cells`, issues);
+  });
+  if (!isRecord(body.marker_panels)) {
+    issues.push(`marker_panels expected object, got ${describe(body.marker_panels)}`);
+  } else {
+    Object.entries(body.marker_panels).forEach(([panel, genes]) => {
+      checkArray(genes, `marker_panels.${panel}`, issues, stringItem(issues));
+    });
+  }
+  return finish<Manifest>(data, endpoint, issues);
+}
+
+const deRowItem = (issues: Issues) => (entry: unknown, path: string) => {
+  if (!isRecord(entry)) {
+    issues.push(`${path} expected object, got ${describe(entry)}`);
+    return;
+  }
+  checkString(entry.gene, `${path}.gene`, issues);
+  checkNumber(entry.logfc, `${path}.logfc`, issues);
+  ["p_val", "p_val_adj", "padj"].forEach((key) => {
+    if (entry[key] !== undefined) checkNumber(entry[key], `${path}.${key}`, issues, true);
+  });
+};
+
+export function validateDeResponse(data: unknown): DeResponse {
+  const endpoint = "/atlas/de_by_disease";
+  const body = checkEnvelope(data, endpoint);
+  if (!body) return data as DeResponse;
+  const issues: Issues = [];
+  checkArray(body.rows, "rows", issues, deRowItem(issues));
+  checkOptionalArray(body, "top_up", "", issues, deRowItem(issues));
+  checkOptionalArray(body, "top_down", "", issues, deRowItem(issues));
+  checkOptionalArray(body, "groups", "", issues, stringItem(issues));
+  return finish<DeResponse>(data, endpoint, issues);
+}
+
+export function validateUmapResponse(data: unknown): UmapResponse {
+  const endpoint = "/atlas/umap";
+  const body = checkEnvelope(data, endpoint);
+  if (!body) return data as UmapResponse;
+  const issues: Issues = [];
+  const x = checkArray(body.x, "x", issues, numberItem(issues));
+  const y = checkArray(body.y, "y", issues, numberItem(issues));
+  if (x) {
+    checkLength(y, x.length, "y", "x", issues);
+    checkLength(checkOptionalArray(body, "color", "", issues, stringItem(issues)), x.length, "color", "x", issues);
+    checkLength(checkOptionalArray(body, "cell_id", "", issues, stringItem(issues)), x.length, "cell_id", "x", issues);
+    checkLength(checkOptionalArray(body, "value", "", issues, numberItem(issues, true)), x.length, "value", "x", issues);
+  }
+  return finish<UmapResponse>(data, endpoint, issues);
+}
+
+export function validateViolinResponse(data: unknown): ViolinResponse {
+  const endpoint = "/atlas/violin";
+  const body = checkEnvelope(data, endpoint);
+  if (!body) return data as ViolinResponse;
+  const issues: Issues = [];
+  const groups = checkArray(body.groups, "groups", issues, stringItem(issues));
+  if (!groups) return finish<ViolinResponse>(data, endpoint, issues);
+
+  if (body.kind === "quantile" || body.quantiles !== undefined) {
+    const quantiles = checkArray(body.quantiles, "quantiles", issues, (entry, path) => {
+      if (entry === null) return;
+      if (!isRecord(entry)) {
+        issues.push(`${path} expected object, got ${describe(entry)}`);
+        return;
+      }
+      ["min", "q1", "median", "q3", "max"].forEach((key) => checkNumber(entry[key], `${path}.${key}`, issues));
+    });
+    checkLength(quantiles, groups.length, "quantiles", "groups", issues);
+  } else {
+    const bins = checkArray(body.bins, "bins", issues, numberItem(issues));
+    if (bins) checkMatrix(body.counts, "counts", groups.length, Math.max(bins.length - 1, 0), "groups", "bin intervals", issues);
+  }
+  return finish<ViolinResponse>(data, endpoint, issues);
+}
+
+export function validateSignatureScoreResponse(data: unknown): SignatureScoreResponse {
+  const endpoint = "/atlas/signature_score";
+  const body = checkEnvelope(data, endpoint);
+  if (!body) return data as SignatureScoreResponse;
+  const issues: Issues = [];
+  const groups = checkArray(body.groups, "groups", issues, stringItem(issues));
+  const genes = checkArray(body.genes, "genes", issues, stringItem(issues));
+  if (!groups || !genes) return finish<SignatureScoreResponse>(data, endpoint, issues);
+
+  checkLength(checkArray(body.n, "n", issues, numberItem(issues)), groups.length, "n", "groups", issues);
+  checkLength(checkArray(body.mean, "mean", issues, numberItem(issues, true)), groups.length, "mean", "groups", issues);
+  const bins = checkArray(body.bins, "bins", issues, numberItem(issues));
+  if (bins) checkMatrix(body.counts, "counts", groups.length, Math.max(bins.length - 1, 0), "groups", "bin intervals", issues);
+  checkMatrix(body.contributions, "contributions", groups.length, genes.length, "groups", "genes", issues);
+  return finish<SignatureScoreResponse>(data, endpoint, issues);
+}
+
+function checkDotplotFacet(facet: Record<string, unknown>, prefix: string, issues: Issues) {
+  const groups = checkArray(facet.groups, `${prefix}groups`, issues, stringItem(issues));
+  const genes = checkArray(facet.genes, `${prefix}genes`, issues, stringItem(issues));
+  if (!groups || !genes) return;
+  checkMatrix(facet.avg, `${prefix}avg`, groups.length, genes.length, "groups", "genes", issues);
+  checkMatrix(facet.pct, `${prefix}pct`, groups.length, genes.length, "groups", "genes", issues);
+}
+
+export function validateDotplotResponse(data: unknown): DotplotResponse {
+  const endpoint = "/atlas/dotplot";
+  const body = checkEnvelope(data, endpoint);
+  if (!body) return data as DotplotResponse;
+  const issues: Issues = [];
+  checkDotplotFacet(body, "", issues);
+  checkOptionalArray(body, "unknown", "", issues, stringItem(issues));
+  return finish<DotplotResponse>(data, endpoint, issues);
+}
+
+export function validateDotplotByDiseaseResponse(data: unknown): DotplotByDiseaseResponse {
+  const endpoint = "/atlas/dotplot_by_disease";
+  const body = checkEnvelope(data, endpoint);
+  if (!body) return data as DotplotByDiseaseResponse;
+  const issues: Issues = [];
+  if (!isRecord(body.diseases)) {
+    issues.push(`diseases expected object, got ${describe(body.diseases)}`);
+  } else {
+    Object.entries(body.diseases).forEach(([disease, facet]) => {
+      if (!isRecord(facet)) {
+        issues.push(`diseases.${disease} expected object, got ${describe(facet)}`);
+        return;
+      }
+      checkDotplotFacet(facet, `diseases.${disease}.`, issues);
+    });
+  }
+  checkOptionalArray(body, "unknown", "", issues, stringItem(issues));
+  return finish<DotplotByDiseaseResponse>(data, endpoint, issues);
+}
+
+export function validateCompositionResponse(data: unknown): CompositionResponse {
+  const endpoint = "/atlas/composition";
+  const body = checkEnvelope(data, endpoint);
+  if (!body) return data as CompositionResponse;
+  const issues: Issues = [];
+  const groups = checkArray(body.groups, "groups", issues, stringItem(issues));
+  const cellTypes = checkArray(body.cell_types, "cell_types", issues, stringItem(issues));
+  if (groups && cellTypes) {
+    checkMatrix(body.counts, "counts", groups.length, cellTypes.length, "groups", "cell_types", issues);
+  }
+  const diseases = checkOptionalArray(body, "diseases", "", issues, stringItem(issues));
+  if (groups) checkLength(diseases, groups.length, "diseases", "groups", issues);
+  return finish<CompositionResponse>(data, endpoint, issues);
+}
+
+// Turn an `ok: false` body into something the user can act on
+export function describeApiError(res: { error?: string; available?: string[] }, fallback: string) {
+  const message = res.error?.trim() || fallback;
+  if (!res.available || res.available.length === 0) return message;
+  const shown = res.available.slice(0, MAX_SUGGESTIONS).join(", ");
+  const more = res.available.length > MAX_SUGGESTIONS ? `, … (${res.available.length - MAX_SUGGESTIONS} more)` : "";
+  return `${message}; try: ${shown}${more}`;
+}
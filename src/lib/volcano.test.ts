@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+import { buildVolcanoData, passesThresholds, placeLabels, pointKey, rowPValue, topLabelPoints } from "./volcano";
+import type { DeResponse } from "./types";
+
+function response(rows: DeResponse["rows"], top: Partial<DeResponse> = {}): DeResponse {
+  return { ok: true, rows, ...top };
+}
+
+describe("rowPValue", () => {
+  const row = { gene: "A", logfc: 1, p_val: 0.01, p_val_adj: 0.04, padj: 0.03 };
+
+  it("reads the chosen column", () => {
+    expect(rowPValue(row)).toBe(0.04);
+    expect(rowPValue(row, "padj")).toBe(0.03);
+    expect(rowPValue(row, "p_val")).toBe(0.01);
+  });
+
+  it("falls back to the other columns and floors the value", () => {
+    expect(rowPValue({ gene: "A", logfc: 1, p_val: 0.01 })).toBe(0.01);
+    expect(rowPValue({ gene: "A", logfc: 1, p_val_adj: 0.04 }, "padj")).toBe(0.04);
+    expect(rowPValue({ gene: "A", logfc: 1 })).toBe(1);
+    expect(rowPValue({ gene: "A", logfc: 1, p_val_adj: 0 })).toBe(1e-300);
+  });
+});
+
+describe("passesThresholds", () => {
+  it("requires both the fold change and the adjusted p-value", () => {
+    expect(passesThresholds({ gene: "A", logfc: 1.5, p_val_adj: 0.01 })).toBe(true);
+    expect(passesThresholds({ gene: "A", logfc: -1.5, p_val_adj: 0.01 })).toBe(true);
+    expect(passesThresholds({ gene: "A", logfc: 0.5, p_val_adj: 0.01 })).toBe(false);
+    expect(passesThresholds({ gene: "A", logfc: 1.5, p_val_adj: 0.2 })).toBe(false);
+  });
+
+  it("treats the thresholds as strict bounds", () => {
+    expect(passesThresholds({ gene: "A", logfc: 1, p_val_adj: 0.01 })).toBe(false);
+    expect(passesThresholds({ gene: "A", logfc: 2, p_val_adj: 0.05 })).toBe(false);
+  });
+
+  it("honours custom thresholds", () => {
+    expect(passesThresholds({ gene: "A", logfc: 0.6, p_val_adj: 0.09 }, { logfc: 0.5, pvalue: 0.1, field: "p_val_adj" })).toBe(true);
+  });
+
+  it("applies the cut-off to the chosen column", () => {
+    const row = { gene: "A", logfc: 2, p_val: 0.001, p_val_adj: 0.2 };
+    expect(passesThresholds(row)).toBe(false);
+    expect(passesThresholds(row, { logfc: 1, pvalue: 0.05, field: "p_val" })).toBe(true);
+  });
+});
+
+describe("buildVolcanoData", () => {
+  const responses: Record<string, DeResponse> = {
+    "NK cells": response(
+      [
+        { gene: "GZMB", logfc: 2, p_val_adj: 1e-5, groups: ["Cytotoxic"] },
+        { gene: "ACTB", logfc: 0.1, p_val_adj: 0.9 },
+        { gene: "IL7R", logfc: -1.8, p_val_adj: 0.001 },
+      ],
+      {
+        top_up: [{ gene: "GZMB", logfc: 2, p_val_adj: 1e-5, groups: ["Cytotoxic"] }],
+        top_down: [{ gene: "IL7R", logfc: -1.8, p_val_adj: 0.001 }],
+      },
+    ),
+    "CD8+ T cells": response([{ gene: "GZMB", logfc: 3, p_val_adj: 1e-8, groups: ["Effector"] }], {
+      top_up: [
+        { gene: "GZMB", logfc: 3, p_val_adj: 1e-8, groups: ["Effector", "Cytotoxic"] },
+        { gene: "IFI27", logfc: 2.5, p_val_adj: 0.3 },
+      ],
+    }),
+    Failed: { ok: false, error: "no cells" },
+  };
+
+  it("flags every point from the requested cell types against the thresholds", () => {
+    const { points, counts } = buildVolcanoData(responses, ["NK cells", "CD8+ T cells", "Failed"]);
+    expect(points.map((p) => `${p.cellType}:${p.gene}:${p.significant}`)).toEqual([
+      "NK cells:GZMB:true",
+      "NK cells:ACTB:false",
+      "NK cells:IL7R:true",
+      "CD8+ T cells:GZMB:true",
+    ]);
+    expect(points[0].neglog10).toBeCloseTo(5);
+    expect(counts).toEqual({ up: 2, down: 1 });
+
+    expect(buildVolcanoData(responses, ["CD8+ T cells"]).points).toHaveLength(1);
+  });
+
+  it("merges top genes across cell types without duplicating groups", () => {
+    const { topUp, topDown } = buildVolcanoData(responses, ["NK cells", "CD8+ T cells"]);
+    expect(topUp).toEqual([
+      {
+        gene: "GZMB",
+        cellTypeLogFC: [
+          { cellType: "NK cells", logfc: 2 },
+          { cellType: "CD8+ T cells", logfc: 3 },
+        ],
+        groups: ["Cytotoxic", "Effector"],
+      },
+    ]);
+    expect(topDown.map((g) => g.gene)).toEqual(["IL7R"]);
+  });
+
+  it("ranks top genes by their largest fold change and caps the list", () => {
+    const rows = Array.from({ length: 14 }, (_, idx) => ({ gene: `G${idx}`, logfc: 2 + idx / 10, p_val_adj: 0.001 }));
+    const { topUp } = buildVolcanoData({ B: response(rows, { top_up: rows }) }, ["B"]);
+    expect(topUp).toHaveLength(10);
+    expect(topUp[0].gene).toBe("G13");
+    expect(topUp[9].gene).toBe("G4");
+  });
+
+  it("applies looser thresholds to points, counts and top genes alike", () => {
+    const { points, topUp, counts } = buildVolcanoData(responses, ["NK cells", "CD8+ T cells"], {
+      logfc: 0,
+      pvalue: 1,
+      field: "p_val_adj",
+    });
+    expect(points.every((p) => p.significant)).toBe(true);
+    expect(counts).toEqual({ up: 3, down: 1 });
+    expect(topUp.map((g) => g.gene)).toEqual(["GZMB", "IFI27", "ACTB"]);
+  });
+
+  it("picks table genes from the page rows, not just the server's top lists", () => {
+    const rows = [
+      { gene: "CXCL10", logfc: 4, p_val_adj: 0.01 },
+      { gene: "IFI27", logfc: 2, p_val_adj: 0.01 },
+    ];
+    const { topUp } = buildVolcanoData({ Mono: response(rows, { top_up: [rows[1]] }) }, ["Mono"]);
+    expect(topUp.map((g) => g.gene)).toEqual(["CXCL10", "IFI27"]);
+    expect(topUp[1].cellTypeLogFC).toHaveLength(1);
+  });
+});
+
+describe("topLabelPoints", () => {
+  const point = (cellType: string, gene: string, neglog10: number, logfc = 2, significant = true) => ({
+    cellType,
+    gene,
+    neglog10,
+    pvalue: 10 ** -neglog10,
+    logfc,
+    significant,
+  });
+
+  it("takes the most significant genes of each cell type", () => {
+    const points = [
+      point("NK", "A", 3),
+      point("NK", "B", 9),
+      point("NK", "C", 9, -4),
+      point("NK", "D", 20, 3, false),
+      point("B", "E", 1),
+    ];
+    expect(topLabelPoints(points, 2).map(pointKey)).toEqual(["NK::C", "NK::B", "B::E"]);
+    expect(topLabelPoints(points, 0)).toEqual([]);
+  });
+});
+
+describe("placeLabels", () => {
+  const frame = { width: 400, height: 300, xRange: [-4, 4] as [number, number], yRange: [0, 10] as [number, number] };
+
+  it("keeps labels inside the frame and apart from each other", () => {
+    const placed = placeLabels(
+      [
+        { x: 3.9, y: 9.9, text: "CORNER" },
+        { x: 0, y: 5, text: "MIDDLE" },
+        { x: 0.05, y: 5, text: "NEIGHBOUR" },
+      ],
+      frame,
+    );
+    expect(placed).toHaveLength(3);
+    // Top-right corner forces the label down and to the left
+    expect(placed[0].ax).toBeLessThanOrEqual(0);
+    expect(placed[0].ay).toBeGreaterThan(0);
+    expect([placed[1].ax, placed[1].ay]).not.toEqual([placed[2].ax, placed[2].ay]);
+  });
+
+  it("drops optional labels that cannot fit but always keeps required ones", () => {
+    const crowded = Array.from({ length: 40 }, (_, idx) => ({ x: 0, y: 5, text: `GENE${idx}`, required: idx === 39 }));
+    const placed = placeLabels(crowded, frame);
+    expect(placed.length).toBeLessThan(40);
+    expect(placed.some((label) => label.text === "GENE39")).toBe(true);
+  });
+});
@@ -0,0 +1,254 @@
+import type { DeResponse, DeRow } from "./types";
+
+export const DEFAULT_LOGFC_THRESHOLD = 1; // |logFC| > 1 is biologically significant
+export const DEFAULT_PVALUE_THRESHOLD = 0.05; // p < 0.05 is statistically significant
+const TOP_GENES_LIMIT = 10;
+
+// Which DE column the significance cut-off applies to
+export type PValueField = "p_val_adj" | "padj" | "p_val";
+
+export const PVALUE_FIELDS: Array<{ value: PValueField; label: string }> = [
+  { value: "p_val_adj", label: "p_val_adj" },
+  { value: "padj", label: "padj" },
+  { value: "p_val", label: "p_val (unadjusted)" },
+];
+
+export type VolcanoThresholds = {
+  logfc: number;
+  pvalue: number;
+  field: PValueField;
+};
+
+export const DEFAULT_THRESHOLDS: VolcanoThresholds = {
+  logfc: DEFAULT_LOGFC_THRESHOLD,
+  pvalue: DEFAULT_PVALUE_THRESHOLD,
+  field: "p_val_adj",
+};
+
+export type VolcanoPoint = {
+  gene: string;
+  logfc: number;
+  // From the thresholds' p-value column, after the 1e-300 floor
+  pvalue: number;
+  neglog10: number;
+  cellType: string;
+  groups?: string[];
+  significant: boolean;
+};
+
+export type TopGene = {
+  gene: string;
+  cellTypeLogFC: Array<{ cellType: string; logfc: number }>;
+  groups: string[];
+};
+
+export type VolcanoData = {
+  points: VolcanoPoint[];
+  topUp: TopGene[];
+  topDown: TopGene[];
+  // Significant rows per direction, across all cell types
+  counts: { up: number; down: number };
+};
+
+// Columns to try, in order, when the chosen one is missing from a row
+const FIELD_FALLBACKS: Record<PValueField, PValueField[]> = {
+  p_val_adj: ["p_val_adj", "padj", "p_val"],
+  padj: ["padj", "p_val_adj", "p_val"],
+  p_val: ["p_val", "p_val_adj", "padj"],
+};
+
+// P-value from the chosen column, floored so -log10 stays finite
+export function rowPValue(row: DeRow, field: PValueField = DEFAULT_THRESHOLDS.field): number {
+  const column = FIELD_FALLBACKS[field].find((key) => typeof row[key] === "number");
+  return Math.max(column ? (row[column] as number) : 1, 1e-300);
+}
+
+// A row is significant only when it passes BOTH thresholds
+export function passesThresholds(row: DeRow, thresholds: VolcanoThresholds = DEFAULT_THRESHOLDS): boolean {
+  return Math.abs(row.logfc) > thresholds.logfc && rowPValue(row, thresholds.field) < thresholds.pvalue;
+}
+
+// Merge one cell type's significant rows into the per-gene table
+function mergeTopRows(target: Map<string, TopGene>, rows: DeRow[], cellType: string) {
+  rows.forEach((row) => {
+    const existing = target.get(row.gene);
+    const groups = Array.isArray(row.groups) ? row.groups : [];
+    if (existing) {
+      existing.cellTypeLogFC.push({ cellType, logfc: row.logfc });
+      // Merge groups, avoiding duplicates
+      groups.forEach((g) => {
+        if (!existing.groups.includes(g)) existing.groups.push(g);
+      });
+    } else {
+      target.set(row.gene, {
+        gene: row.gene,
+        cellTypeLogFC: [{ cellType, logfc: row.logfc }],
+        groups: [...groups],
+      });
+    }
+  });
+}
+
+// Sort by max absolute logFC across cell types (highest first)
+function sortTopGenes(genes: Map<string, TopGene>) {
+  const maxAbs = (item: TopGene) => Math.max(...item.cellTypeLogFC.map((ct) => Math.abs(ct.logfc)));
+  return Array.from(genes.values())
+    .sort((a, b) => maxAbs(b) - maxAbs(a))
+    .slice(0, TOP_GENES_LIMIT);
+}
+
+// Page rows first, then the server's top lists for genes outside the page; one row per gene
+function candidateRows(res: DeResponse) {
+  const byGene = new Map<string, DeRow>();
+  [res.rows, res.top_up, res.top_down].forEach((rows) => {
+    rows?.forEach((row) => {
+      if (!byGene.has(row.gene)) byGene.set(row.gene, row);
+    });
+  });
+  return Array.from(byGene.values());
+}
+
+// Every point for every cell type, flagged against the thresholds, plus the merged
+// top up/down tables and counts, all driven by the same settings
+export function buildVolcanoData(
+  responses: Record<string, DeResponse>,
+  cellTypes: string[],
+  thresholds: VolcanoThresholds = DEFAULT_THRESHOLDS,
+): VolcanoData {
+  const points: VolcanoPoint[] = [];
+  const upGenes = new Map<string, TopGene>();
+  const downGenes = new Map<string, TopGene>();
+  const counts = { up: 0, down: 0 };
+
+  cellTypes.forEach((cellType) => {
+    const res = responses[cellType];
+    if (!res?.ok || !res.rows) return;
+
+    res.rows.forEach((row) => {
+      const significant = passesThresholds(row, thresholds);
+      if (significant) {
+        if (row.logfc > 0) counts.up += 1;
+        else counts.down += 1;
+      }
+      const pvalue = rowPValue(row, thresholds.field);
+      points.push({
+        gene: row.gene,
+        logfc: row.logfc,
+        pvalue,
+        neglog10: -Math.log10(pvalue),
+        cellType,
+        groups: Array.isArray(row.groups) ? row.groups : [],
+        significant,
+      });
+    });
+
+    const significantRows = candidateRows(res).filter((row) => passesThresholds(row, thresholds));
+    mergeTopRows(upGenes, significantRows.filter((row) => row.logfc > 0), cellType);
+    mergeTopRows(downGenes, significantRows.filter((row) => row.logfc < 0), cellType);
+  });
+
+  return { points, topUp: sortTopGenes(upGenes), topDown: sortTopGenes(downGenes), counts };
+}
+
+// Stable id for one gene in one cell type; pins and selections use it
+export function pointKey(point: Pick<VolcanoPoint, "cellType" | "gene">) {
+  return `${point.cellType}::${point.gene}`;
+}
+
+// Most significant genes per cell type, ties broken by fold change
+export function topLabelPoints(points: VolcanoPoint[], perCellType: number): VolcanoPoint[] {
+  if (perCellType <= 0) return [];
+  const byCellType = new Map<string, VolcanoPoint[]>();
+  points.forEach((point) => {
+    if (!point.significant) return;
+    const list = byCellType.get(point.cellType) ?? [];
+    list.push(point);
+    byCellType.set(point.cellType, list);
+  });
+  return Array.from(byCellType.values()).flatMap((list) =>
+    list
+      .sort((a, b) => b.neglog10 - a.neglog10 || Math.abs(b.logfc) - Math.abs(a.logfc))
+      .slice(0, perCellType),
+  );
+}
+
+export type LabelAnchor = {
+  x: number;
+  y: number;
+  text: string;
+  // Placed even when every candidate position collides
+  required?: boolean;
+};
+
+export type PlotFrame = {
+  // Plot area in pixels, excluding margins
+  width: number;
+  height: number;
+  xRange: [number, number];
+  yRange: [number, number];
+};
+
+// Pixel offset from the point to the label centre, as Plotly annotations take them
+export type PlacedLabel = LabelAnchor & { ax: number; ay: number };
+
+const LABEL_CHAR_WIDTH = 6.5;
+const LABEL_HEIGHT = 14;
+const LABEL_PADDING = 4;
+const LABEL_OFFSETS: Array<[number, number]> = [
+  [24, -18],
+  [-24, -18],
+  [24, 18],
+  [-24, 18],
+  [0, -30],
+  [0, 30],
+  [48, -36],
+  [-48, -36],
+  [48, 36],
+  [-48, 36],
+];
+
+type Box = { left: number; right: number; top: number; bottom: number };
+
+function overlaps(a: Box, b: Box) {
+  return a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+}
+
+// Greedy placement in priority order: each label takes the first offset that stays inside the
+// frame and clears every label and anchor placed so far; optional labels that never fit are dropped
+export function placeLabels(anchors: LabelAnchor[], frame: PlotFrame): PlacedLabel[] {
+  const [x0, x1] = frame.xRange;
+  const [y0, y1] = frame.yRange;
+  const toPixels = (anchor: LabelAnchor) => ({
+    px: ((anchor.x - x0) / (x1 - x0 || 1)) * frame.width,
+    py: (1 - (anchor.y - y0) / (y1 - y0 || 1)) * frame.height,
+  });
+  const occupied: Box[] = anchors.map((anchor) => {
+    const { px, py } = toPixels(anchor);
+    return { left: px - 3, right: px + 3, top: py - 3, bottom: py + 3 };
+  });
+
+  const placed: PlacedLabel[] = [];
+  anchors.forEach((anchor, idx) => {
+    const { px, py } = toPixels(anchor);
+    const halfWidth = (anchor.text.length * LABEL_CHAR_WIDTH + LABEL_PADDING * 2) / 2;
+    const halfHeight = LABEL_HEIGHT / 2;
+    const boxAt = ([ax, ay]: [number, number]): Box => ({
+      left: px + ax - halfWidth,
+      right: px + ax + halfWidth,
+      top: py + ay - halfHeight,
+      bottom: py + ay + halfHeight,
+    });
+    const fits = (box: Box) =>
+      box.left >= 0 &&
+      box.right <= frame.width &&
+      box.top >= 0 &&
+      box.bottom <= frame.height &&
+      occupied.every((other, otherIdx) => otherIdx === idx || !overlaps(box, other));
+
+    const offset = LABEL_OFFSETS.find((candidate) => fits(boxAt(candidate))) ?? (anchor.required ? LABEL_OFFSETS[0] : null);
+    if (!offset) return;
+    occupied.push(boxAt(offset));
+    placed.push({ ...anchor, ax: offset[0], ay: offset[1] });
+  });
+  return placed;
+}
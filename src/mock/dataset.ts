@@ -0,0 +1,318 @@
+// Synthetic PBMC atlas for the mock backend. Everything is derived from a fixed seed, so the same
+// request always returns the same numbers.
+
+import type { Accession } from "../lib/types";
+
+export const MOCK_SEED = 20240611;
+export const MOCK_TISSUE = "PBMC";
+export const MOCK_DISEASES = ["Healthy", "RA", "SLE", "SjS"];
+
+type CellTypeDef = {
+  name: string;
+  // Share of PBMCs in healthy donors
+  share: number;
+  // UMAP cluster centre and spread
+  center: [number, number];
+  spread: number;
+  markers: string[];
+};
+
+export const CELL_TYPE_DEFS: CellTypeDef[] = [
+  { name: "CD4 T naive", share: 0.16, center: [-6, 4], spread: 1.1, markers: ["CCR7", "SELL", "LEF1", "TCF7", "IL7R", "CD4", "CD3E", "CD3D", "MAL"] },
+  { name: "CD4 T memory", share: 0.14, center: [-3.5, 5.5], spread: 1.1, markers: ["IL7R", "CD4", "CD3E", "CD3D", "AQP3", "CD40LG", "GPR183", "ANXA1", "S100A4"] },
+  { name: "Treg", share: 0.02, center: [-2, 3.2], spread: 0.6, markers: ["FOXP3", "IL2RA", "CTLA4", "IKZF2", "TIGIT", "RTKN2", "CD4", "CD3E"] },
+  { name: "CD8 T naive", share: 0.07, center: [-7, 0.5], spread: 0.9, markers: ["CD8A", "CD8B", "CCR7", "LEF1", "SELL", "CD3E", "CD3D"] },
+  { name: "CD8 T effector", share: 0.1, center: [-3.5, -1], spread: 1.2, markers: ["CD8A", "CD8B", "GZMK", "GZMH", "CCL5", "NKG7", "CST7", "CD3E"] },
+  { name: "NK", share: 0.09, center: [-1, -4], spread: 1, markers: ["NKG7", "GNLY", "KLRD1", "KLRF1", "NCAM1", "FCGR3A", "PRF1", "GZMB"] },
+  { name: "Naive B cell", share: 0.07, center: [5, 6], spread: 0.9, markers: ["MS4A1", "CD79A", "CD79B", "IGHD", "TCL1A", "FCER2", "IL4R"] },
+  { name: "Memory B cell", share: 0.04, center: [6.5, 4.2], spread: 0.8, markers: ["MS4A1", "CD79A", "CD79B", "CD27", "AIM2", "TNFRSF13B"] },
+  { name: "Plasmablast", share: 0.005, center: [8.5, 6.5], spread: 0.5, markers: ["JCHAIN", "MZB1", "XBP1", "IGHG1", "TNFRSF17", "PRDM1", "CD38"] },
+  { name: "Classical monocyte", share: 0.2, center: [6, -3], spread: 1.4, markers: ["CD14", "LYZ", "S100A8", "S100A9", "S100A12", "VCAN", "FCN1", "CSF3R"] },
+  { name: "Non-classical monocyte", share: 0.04, center: [8.5, -5], spread: 0.8, markers: ["FCGR3A", "MS4A7", "CDKN1C", "LST1", "AIF1", "LYZ"] },
+  { name: "cDC", share: 0.015, center: [4, -6.5], spread: 0.6, markers: ["CD1C", "FCER1A", "CLEC10A", "HLA-DQA1", "HLA-DRA", "LYZ"] },
+  { name: "pDC", share: 0.005, center: [2, -8], spread: 0.5, markers: ["LILRA4", "CLEC4C", "IRF7", "IRF4", "TCF4", "IL3RA"] },
+];
+
+export const CELL_TYPES = CELL_TYPE_DEFS.map((item) => item.name);
+
+// Expressed at similar levels in every cell type
+const BROAD_GENES = ["ACTB", "B2M", "GAPDH", "MALAT1", "PTPRC", "TMSB4X", "HLA-A", "FOS", "JUN", "DUSP1", "KLF6", "CD69", "NFKBIA"];
+
+// Functional groups reported on DE rows
+const GENE_GROUPS: Record<string, string[]> = {
+  "Interferon response": ["IFI27", "IFI44L", "IFI44", "ISG15", "MX1", "RSAD2", "IFIT1", "IFIT3", "OAS1", "OAS3", "SIGLEC1", "LY6E", "XAF1", "HERC5", "EPSTI1", "STAT1", "IRF7", "CXCL10"],
+  Inflammation: ["TNF", "IL1B", "CXCL8", "CCL3", "CCL4", "IL6", "CCL2", "IL1RN", "SOD2", "S100A8", "S100A9", "S100A12", "NFKBIA"],
+  Cytotoxicity: ["GZMB", "GZMH", "GZMK", "PRF1", "NKG7", "GNLY", "CST7", "CCL5"],
+  "B cell activation": ["TNFSF13B", "TNFRSF13B", "TNFRSF17", "CXCL13", "IL21", "CD38", "XBP1", "PRDM1", "JCHAIN", "MZB1"],
+  "Antigen presentation": ["HLA-DRA", "HLA-DRB1", "HLA-DQA1", "CD74", "CD1C"],
+  "T cell exhaustion": ["PDCD1", "TIGIT", "CTLA4", "LAG3", "HAVCR2", "TOX"],
+};
+
+// Disease programmes: log-scale shift per gene, optionally restricted to some cell types
+type DiseaseProgram = { genes: string[]; shift: number; cellTypes?: string[] };
+
+const DISEASE_PROGRAMS: Record<string, DiseaseProgram[]> = {
+  RA: [
+    { genes: ["TNF", "IL1B", "CXCL8", "CCL3", "CCL4", "IL6", "CCL2", "IL1RN", "SOD2", "S100A8", "S100A9", "S100A12"], shift: 1.4, cellTypes: ["Classical monocyte", "Non-classical monocyte", "cDC"] },
+    { genes: ["PDCD1", "ICOS", "CXCL13", "IL21", "TOX"], shift: 1.2, cellTypes: ["CD4 T memory"] },
+    { genes: ["HLA-DRA", "HLA-DRB1", "CD74"], shift: 0.7, cellTypes: ["Classical monocyte", "Memory B cell"] },
+    { genes: ["CCR7", "SELL", "LEF1"], shift: -0.6, cellTypes: ["CD4 T naive", "CD8 T naive"] },
+  ],
+  SLE: [
+    { genes: GENE_GROUPS["Interferon response"], shift: 2.2 },
+    { genes: ["CD38", "XBP1", "PRDM1", "JCHAIN", "MZB1", "TNFRSF17"], shift: 1.1, cellTypes: ["Plasmablast", "Memory B cell"] },
+    { genes: ["GZMB", "PRF1", "GNLY"], shift: 0.6, cellTypes: ["CD8 T effector", "NK"] },
+    { genes: ["IL7R", "CCR7", "TCF7"], shift: -0.8, cellTypes: ["CD4 T naive", "CD4 T memory"] },
+  ],
+  SjS: [
+    { genes: GENE_GROUPS["Interferon response"], shift: 1.2 },
+    { genes: ["TNFSF13B", "CXCL13", "CD38"], shift: 1.3, cellTypes: ["Classical monocyte", "Memory B cell", "Plasmablast", "cDC"] },
+    { genes: ["FCER2", "IGHD", "TCL1A"], shift: 0.8, cellTypes: ["Naive B cell"] },
+    { genes: ["LILRA4", "CLEC4C", "IL3RA"], shift: -0.7, cellTypes: ["pDC"] },
+  ],
+};
+
+// Relative change in cell-type abundance per disease (multiplies the healthy share)
+const ABUNDANCE_SHIFTS: Record<string, Record<string, number>> = {
+  RA: { "Classical monocyte": 1.5, "CD4 T memory": 1.3, "CD4 T naive": 0.75, Treg: 0.8 },
+  SLE: { Plasmablast: 4, "CD4 T naive": 0.6, "CD8 T naive": 0.6, NK: 0.7, pDC: 0.4, "Classical monocyte": 1.2 },
+  SjS: { "Naive B cell": 1.4, "Memory B cell": 0.6, pDC: 0.6, "CD4 T memory": 0.85 },
+};
+
+export const MARKER_PANELS: Record<string, string[]> = {
+  default: ["CD3E", "CD4", "CD8A", "IL7R", "CCR7", "FOXP3", "NKG7", "GNLY", "MS4A1", "CD79A", "JCHAIN", "CD14", "LYZ", "FCGR3A", "CD1C", "LILRA4"],
+  RA: ["TNF", "IL1B", "CXCL8", "CCL3", "IL6", "S100A8", "S100A12", "PDCD1", "CXCL13", "HLA-DRB1"],
+  SLE: ["IFI27", "IFI44L", "ISG15", "MX1", "RSAD2", "IFIT1", "SIGLEC1", "XAF1", "CD38", "MZB1"],
+  SjS: ["IFI44L", "ISG15", "MX1", "TNFSF13B", "CXCL13", "CD38", "FCER2", "IFIT3"],
+};
+
+const PLATFORMS = ["10x 3' v3", "10x 5' v2", "10x 3' v2"];
+
+export const MOCK_GENES: string[] = Array.from(
+  new Set([
+    ...CELL_TYPE_DEFS.flatMap((item) => item.markers),
+    ...BROAD_GENES,
+    ...Object.values(GENE_GROUPS).flat(),
+    ...Object.values(MARKER_PANELS).flat(),
+    "ICOS",
+  ]),
+).sort();
+
+const GENE_INDEX = new Map(MOCK_GENES.map((gene, idx) => [gene, idx]));
+
+export function geneGroups(gene: string): string[] {
+  return Object.entries(GENE_GROUPS)
+    .filter(([, genes]) => genes.includes(gene))
+    .map(([group]) => group);
+}
+
+// --- deterministic randomness ---
+
+// 32-bit integer hash of a list of integers, mapped to [0, 1)
+export function hashUniform(...values: number[]): number {
+  let h = MOCK_SEED ^ 0x9e3779b9;
+  values.forEach((value) => {
+    h = Math.imul(h ^ (value | 0), 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+  });
+  return (h >>> 0) / 4294967296;
+}
+
+export function hashNormal(...values: number[]): number {
+  const u1 = Math.max(hashUniform(...values, 1), 1e-12);
+  const u2 = hashUniform(...values, 2);
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+function hashString(value: string) {
+  let h = 0;
+  for (let i = 0; i < value.length; i += 1) h = Math.imul(h ^ value.charCodeAt(i), 16777619);
+  return h;
+}
+
+// --- accessions, donors and cells ---
+
+export type MockCell = {
+  id: string;
+  cellType: number;
+  disease: string;
+  accession: string;
+  donor: string;
+  x: number;
+  y: number;
+};
+
+export type MockDataset = {
+  accessions: Accession[];
+  cells: MockCell[];
+};
+
+function buildAccessions(): Accession[] {
+  const accessions: Accession[] = [];
+  let serial = 1;
+  MOCK_DISEASES.forEach((disease, diseaseIdx) => {
+    for (let k = 0; k < 2; k += 1) {
+      const donors = 4 + Math.floor(hashUniform(diseaseIdx, k, 11) * 5);
+      accessions.push({
+        id: `MOCK${String(serial).padStart(4, "0")}`,
+        disease,
+        platform: PLATFORMS[(diseaseIdx + k) % PLATFORMS.length],
+        donors,
+        cells: 0,
+        tissue: MOCK_TISSUE,
+      });
+      serial += 1;
+    }
+  });
+  return accessions;
+}
+
+function diseaseShares(disease: string) {
+  const shifts = ABUNDANCE_SHIFTS[disease] ?? {};
+  const raw = CELL_TYPE_DEFS.map((item) => item.share * (shifts[item.name] ?? 1));
+  const total = raw.reduce((sum, value) => sum + value, 0);
+  return raw.map((value) => value / total);
+}
+
+function pickCellType(shares: number[], u: number) {
+  let acc = 0;
+  for (let i = 0; i < shares.length; i += 1) {
+    acc += shares[i];
+    if (u < acc) return i;
+  }
+  return shares.length - 1;
+}
+
+let dataset: MockDataset | null = null;
+
+export function getMockDataset(): MockDataset {
+  if (dataset) return dataset;
+  const accessions = buildAccessions();
+  const cells: MockCell[] = [];
+
+  accessions.forEach((accession, accIdx) => {
+    const shares = diseaseShares(accession.disease);
+    const diseaseShift = MOCK_DISEASES.indexOf(accession.disease) * 0.15;
+    for (let d = 0; d < accession.donors; d += 1) {
+      const donor = `${accession.id}_D${d + 1}`;
+      const donorCells = 450 + Math.floor(hashUniform(accIdx, d, 21) * 400);
+      // Donors vary in composition around the disease mean
+      const donorShares = shares.map((share, idx) => share * Math.exp(0.25 * hashNormal(accIdx, d, idx, 22)));
+      const donorTotal = donorShares.reduce((sum, value) => sum + value, 0);
+      const normalized = donorShares.map((value) => value / donorTotal);
+      for (let c = 0; c < donorCells; c += 1) {
+        const serial = cells.length;
+        const cellType = pickCellType(normalized, hashUniform(serial, 31));
+        const def = CELL_TYPE_DEFS[cellType];
+        cells.push({
+          id: `${donor}_${c + 1}`,
+          cellType,
+          disease: accession.disease,
+          accession: accession.id,
+          donor,
+          x: def.center[0] + def.spread * hashNormal(serial, 32) + diseaseShift,
+          y: def.center[1] + def.spread * hashNormal(serial, 33),
+        });
+      }
+      accession.cells += donorCells;
+    }
+  });
+
+  dataset = { accessions, cells };
+  return dataset;
+}
+
+// --- expression model ---
+
+type GeneProfile = {
+  // Mean log-normalised expression among expressing cells, per cell type
+  mean: number[];
+  // Fraction of expressing cells, per cell type
+  pct: number[];
+};
+
+const profiles = new Map<string, GeneProfile>();
+
+function geneProfile(gene: string): GeneProfile {
+  const cached = profiles.get(gene);
+  if (cached) return cached;
+  const g = GENE_INDEX.get(gene) ?? hashString(gene);
+  const broad = BROAD_GENES.includes(gene);
+  const mean: number[] = [];
+  const pct: number[] = [];
+  CELL_TYPE_DEFS.forEach((def, idx) => {
+    const isMarker = def.markers.includes(gene);
+    if (broad) {
+      mean.push(2 + hashUniform(g, idx, 41) * 1.5);
+      pct.push(0.75 + hashUniform(g, idx, 42) * 0.2);
+    } else if (isMarker) {
+      mean.push(1.8 + hashUniform(g, idx, 41) * 1.4);
+      pct.push(0.6 + hashUniform(g, idx, 42) * 0.35);
+    } else {
+      mean.push(0.6 + hashUniform(g, idx, 41) * 0.8);
+      pct.push(0.02 + hashUniform(g, idx, 42) * 0.12);
+    }
+  });
+  const profile = { mean, pct };
+  profiles.set(gene, profile);
+  return profile;
+}
+
+// True log-scale shift of a gene in a disease and cell type, relative to healthy
+export function diseaseEffect(gene: string, disease: string, cellType: number): number {
+  if (disease === "Healthy") return 0;
+  const name = CELL_TYPES[cellType];
+  const g = GENE_INDEX.get(gene) ?? hashString(gene);
+  const d = MOCK_DISEASES.indexOf(disease);
+  let shift = 0.25 * hashNormal(g, d, cellType, 51);
+  (DISEASE_PROGRAMS[disease] ?? []).forEach((program) => {
+    if (!program.genes.includes(gene)) return;
+    if (program.cellTypes && !program.cellTypes.includes(name)) return;
+    shift += program.shift * (0.8 + 0.4 * hashUniform(g, d, cellType, 52));
+  });
+  return shift;
+}
+
+export function expectedExpression(gene: string, disease: string, cellType: number) {
+  const profile = geneProfile(gene);
+  const shift = diseaseEffect(gene, disease, cellType);
+  // Up-regulation also recruits more expressing cells
+  const pct = Math.min(0.98, Math.max(0.005, profile.pct[cellType] * Math.exp(0.6 * shift)));
+  const mean = Math.max(0.1, profile.mean[cellType] + 0.5 * shift);
+  return { pct, mean };
+}
+
+const expressionCache = new Map<string, Float32Array>();
+const EXPRESSION_CACHE_SIZE = 64;
+
+// Per-cell expression of one gene, aligned with getMockDataset().cells
+export function geneExpression(gene: string): Float32Array {
+  const cached = expressionCache.get(gene);
+  if (cached) return cached;
+  const { cells } = getMockDataset();
+  const g = GENE_INDEX.get(gene) ?? hashString(gene);
+  const values = new Float32Array(cells.length);
+  const params = new Map<string, { pct: number; mean: number }>();
+  cells.forEach((cell, idx) => {
+    const key = `${cell.disease}|${cell.cellType}`;
+    let expected = params.get(key);
+    if (!expected) {
+      expected = expectedExpression(gene, cell.disease, cell.cellType);
+      params.set(key, expected);
+    }
+    if (hashUniform(g, idx, 61) >= expected.pct) return;
+    values[idx] = Math.max(0.05, expected.mean + 0.45 * hashNormal(g, idx, 62));
+  });
+  if (expressionCache.size >= EXPRESSION_CACHE_SIZE) {
+    const oldest = expressionCache.keys().next().value;
+    if (oldest !== undefined) expressionCache.delete(oldest);
+  }
+  expressionCache.set(gene, values);
+  return values;
+}
+
+export function isMockGene(gene: string) {
+  return GENE_INDEX.has(gene);
+}
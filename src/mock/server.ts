@@ -0,0 +1,559 @@
+// In-browser stand-in for the atlas backend. Requests to the mock origin are answered here
+// instead of going over the network.
+
+import { adjustBH, normalCdf } from "../lib/stats";
+import {
+  CELL_TYPES,
+  MARKER_PANELS,
+  MOCK_DISEASES,
+  MOCK_GENES,
+  MOCK_TISSUE,
+  diseaseEffect,
+  expectedExpression,
+  geneExpression,
+  geneGroups,
+  getMockDataset,
+  hashNormal,
+  isMockGene,
+  type MockCell,
+} from "./dataset";
+
+const DEFAULT_MAX_POINTS = 20_000;
+const HIST_BINS = 40;
+// UCell's default; the mock measures fewer genes, so every gene fits under the cap
+const UCELL_MAX_RANK = 1500;
+const LATENCY_MS = [60, 180];
+
+type JsonBody = Record<string, unknown>;
+
+class MockHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function notAvailable(kind: string, value: string, available: string[]): JsonBody {
+  return { ok: false, error: `${kind} ${value} not available`, available };
+}
+
+function requireParam(params: URLSearchParams, name: string) {
+  const value = params.get(name);
+  if (!value) throw new MockHttpError(422, `Missing query parameter: ${name}`);
+  return value;
+}
+
+function parseGenes(params: URLSearchParams) {
+  const requested = requireParam(params, "genes")
+    .split(",")
+    .map((gene) => gene.trim().toUpperCase())
+    .filter(Boolean);
+  return {
+    genes: requested.filter(isMockGene),
+    unknown: requested.filter((gene) => !isMockGene(gene)),
+  };
+}
+
+function groupKey(cell: MockCell, groupBy: string) {
+  if (groupBy === "disease") return cell.disease;
+  if (groupBy === "accession") return cell.accession;
+  if (groupBy === "donor") return cell.donor;
+  return CELL_TYPES[cell.cellType];
+}
+
+function groupOrder(groupBy: string) {
+  const { accessions, cells } = getMockDataset();
+  if (groupBy === "disease") return MOCK_DISEASES;
+  if (groupBy === "accession") return accessions.map((item) => item.id);
+  if (groupBy === "donor") return Array.from(new Set(cells.map((cell) => cell.donor)));
+  return CELL_TYPES;
+}
+
+function checkGroupBy(groupBy: string, allowed: string[]) {
+  if (!allowed.includes(groupBy)) {
+    throw new MockHttpError(422, `group_by must be one of: ${allowed.join(", ")}`);
+  }
+}
+
+// Accessions a request is restricted to, or null for all; unknown ids are a client error
+function parseAccessions(params: URLSearchParams): Set<string> | null {
+  const requested = (params.get("accessions") ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  if (requested.length === 0) return null;
+  const known = getMockDataset().accessions.map((item) => item.id);
+  const unknown = requested.filter((item) => !known.includes(item));
+  if (unknown.length > 0) throw new MockHttpError(422, `Unknown accessions: ${unknown.join(", ")}`);
+  return new Set(requested);
+}
+
+// Echoed back under `filters.accessions` so the client can tell the filter was applied
+function appliedAccessions(accessions: Set<string> | null) {
+  return accessions ? [...accessions] : null;
+}
+
+function quantile(sorted: Float32Array | number[], q: number) {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return Number((sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower)).toFixed(4));
+}
+
+function manifest(): JsonBody {
+  const { accessions } = getMockDataset();
+  return {
+    ok: true,
+    tissue: MOCK_TISSUE,
+    diseases: MOCK_DISEASES,
+    accessions,
+    cell_types: CELL_TYPES,
+    marker_panels: MARKER_PANELS,
+  };
+}
+
+function markers(params: URLSearchParams): JsonBody {
+  const panel = requireParam(params, "panel");
+  const genes = MARKER_PANELS[panel];
+  if (!genes) return notAvailable("panel", panel, Object.keys(MARKER_PANELS));
+  return { ok: true, genes };
+}
+
+function umap(params: URLSearchParams): JsonBody {
+  const { cells } = getMockDataset();
+  const disease = params.get("disease");
+  const cellType = params.get("cell_type");
+  const colorBy = params.get("color_by") ?? "cell_type";
+  const gene = params.get("gene")?.toUpperCase() ?? null;
+  const maxPoints = Number(params.get("max_points") ?? DEFAULT_MAX_POINTS) || DEFAULT_MAX_POINTS;
+
+  if (disease && !MOCK_DISEASES.includes(disease)) return notAvailable("disease", disease, MOCK_DISEASES);
+  if (cellType && !CELL_TYPES.includes(cellType)) return notAvailable("cell type", cellType, CELL_TYPES);
+  if (gene && !isMockGene(gene)) return { ok: false, error: `gene ${gene} not found` };
+  checkGroupBy(colorBy, ["cell_type", "disease", "accession", "donor"]);
+  const accessions = parseAccessions(params);
+
+  const matching: number[] = [];
+  cells.forEach((cell, idx) => {
+    if (accessions && !accessions.has(cell.accession)) return;
+    if (disease && cell.disease !== disease) return;
+    if (cellType && CELL_TYPES[cell.cellType] !== cellType) return;
+    matching.push(idx);
+  });
+  // Even stride keeps every cluster represented when subsampling
+  const stride = Math.max(1, matching.length / maxPoints);
+  const picked: number[] = [];
+  for (let pos = 0; pos < matching.length && picked.length < maxPoints; pos += stride) {
+    picked.push(matching[Math.floor(pos)]);
+  }
+
+  const expression = gene ? geneExpression(gene) : null;
+  return {
+    ok: true,
+    filters: { disease, cell_type: cellType, accessions: appliedAccessions(accessions) },
+    color_key: gene ? "cell_type" : colorBy,
+    x: picked.map((idx) => Number(cells[idx].x.toFixed(3))),
+    y: picked.map((idx) => Number(cells[idx].y.toFixed(3))),
+    cell_id: picked.map((idx) => cells[idx].id),
+    color: picked.map((idx) => groupKey(cells[idx], gene ? "cell_type" : colorBy)),
+    ...(expression
+      ? { value_key: gene, value: picked.map((idx) => Number(expression[idx].toFixed(3))) }
+      : {}),
+  };
+}
+
+// groups × genes mean expression and fraction expressing over the given cells
+function dotplotMatrices(cells: MockCell[], cellIndices: number[], genes: string[], groupBy: string) {
+  const groups = groupOrder(groupBy);
+  const groupIndex = new Map(groups.map((group, idx) => [group, idx]));
+  const avg = groups.map(() => genes.map(() => 0));
+  const pct = groups.map(() => genes.map(() => 0));
+  const sizes = groups.map(() => 0);
+  cellIndices.forEach((idx) => {
+    const g = groupIndex.get(groupKey(cells[idx], groupBy));
+    if (g !== undefined) sizes[g] += 1;
+  });
+  genes.forEach((gene, geneIdx) => {
+    const values = geneExpression(gene);
+    cellIndices.forEach((idx) => {
+      const g = groupIndex.get(groupKey(cells[idx], groupBy));
+      if (g === undefined) return;
+      avg[g][geneIdx] += values[idx];
+      if (values[idx] > 0) pct[g][geneIdx] += 1;
+    });
+  });
+  groups.forEach((_, g) => {
+    genes.forEach((__, geneIdx) => {
+      const n = sizes[g] || 1;
+      avg[g][geneIdx] = Number((avg[g][geneIdx] / n).toFixed(4));
+      pct[g][geneIdx] = Number((pct[g][geneIdx] / n).toFixed(4));
+    });
+  });
+  return { groups, genes, avg, pct };
+}
+
+function dotplot(params: URLSearchParams): JsonBody {
+  const groupBy = params.get("group_by") ?? "cell_type";
+  checkGroupBy(groupBy, ["cell_type", "disease"]);
+  const { genes, unknown } = parseGenes(params);
+  const { cells } = getMockDataset();
+  const all = cells.map((_, idx) => idx);
+  return { ok: true, group_by: groupBy, ...dotplotMatrices(cells, all, genes, groupBy), unknown };
+}
+
+function dotplotByDisease(params: URLSearchParams): JsonBody {
+  const groupBy = params.get("group_by") ?? "cell_type";
+  checkGroupBy(groupBy, ["cell_type"]);
+  const { genes, unknown } = parseGenes(params);
+  const { cells } = getMockDataset();
+  const diseases: JsonBody = {};
+  MOCK_DISEASES.forEach((disease) => {
+    const indices = cells.flatMap((cell, idx) => (cell.disease === disease ? [idx] : []));
+    diseases[disease] = dotplotMatrices(cells, indices, genes, groupBy);
+  });
+  return { ok: true, group_by: groupBy, genes, diseases, unknown };
+}
+
+function violin(params: URLSearchParams): JsonBody {
+  const gene = requireParam(params, "gene").toUpperCase();
+  const groupBy = params.get("group_by") ?? "cell_type";
+  const kind = params.get("kind") === "hist" ? "hist" : "quantile";
+  const disease = params.get("disease");
+  checkGroupBy(groupBy, ["cell_type", "disease"]);
+  if (!isMockGene(gene)) {
+    const prefix = gene.slice(0, 2);
+    return { ok: false, error: `gene ${gene} not found`, available: MOCK_GENES.filter((item) => item.startsWith(prefix)) };
+  }
+  if (disease && !MOCK_DISEASES.includes(disease)) return notAvailable("disease", disease, MOCK_DISEASES);
+  const accessions = parseAccessions(params);
+
+  const { cells } = getMockDataset();
+  const values = geneExpression(gene);
+  const groups = groupOrder(groupBy);
+  const byGroup = new Map<string, number[]>(groups.map((group) => [group, []]));
+  cells.forEach((cell, idx) => {
+    if (accessions && !accessions.has(cell.accession)) return;
+    if (disease && cell.disease !== disease) return;
+    byGroup.get(groupKey(cell, groupBy))?.push(values[idx]);
+  });
+  const present = groups.filter((group) => (byGroup.get(group)?.length ?? 0) > 0);
+
+  if (kind === "quantile") {
+    return {
+      ok: true,
+      gene,
+      group_by: groupBy,
+      kind,
+      filters: { accessions: appliedAccessions(accessions) },
+      groups: present,
+      quantiles: present.map((group) => {
+        const sorted = byGroup.get(group)!.slice().sort((a, b) => a - b);
+        return {
+          min: Number(sorted[0].toFixed(4)),
+          q1: quantile(sorted, 0.25),
+          median: quantile(sorted, 0.5),
+          q3: quantile(sorted, 0.75),
+          max: Number(sorted[sorted.length - 1].toFixed(4)),
+        };
+      }),
+    };
+  }
+
+  const max = Math.max(0.5, ...present.map((group) => Math.max(...byGroup.get(group)!)));
+  const top = Math.ceil(max * 2) / 2;
+  const bins = Array.from({ length: HIST_BINS + 1 }, (_, idx) => Number(((top * idx) / HIST_BINS).toFixed(4)));
+  const counts = present.map((group) => {
+    const row = new Array<number>(HIST_BINS).fill(0);
+    byGroup.get(group)!.forEach((value) => {
+      row[Math.min(HIST_BINS - 1, Math.floor((value / top) * HIST_BINS))] += 1;
+    });
+    return row;
+  });
+  return {
+    ok: true,
+    gene,
+    group_by: groupBy,
+    kind,
+    filters: { accessions: appliedAccessions(accessions) },
+    groups: present,
+    bins,
+    counts,
+  };
+}
+
+// Each gene is standardised over every cell in the included accessions, so scores requested with
+// different `disease` or `cell_type` filters stay on one scale
+function zScoreTerms(genes: string[], included: number[]) {
+  return genes.map((gene) => {
+    const values = geneExpression(gene);
+    const mean = included.reduce((sum, idx) => sum + values[idx], 0) / Math.max(included.length, 1);
+    const variance = included.reduce((sum, idx) => sum + (values[idx] - mean) ** 2, 0) / Math.max(included.length - 1, 1);
+    const sd = Math.sqrt(variance) || 1;
+    return (idx: number) => (values[idx] - mean) / sd / genes.length;
+  });
+}
+
+// UCell: the signature genes' expression ranks within each cell (1 = highest, capped at maxRank + 1,
+// unexpressed genes at the cap) turned into a Mann–Whitney U statistic scaled to 0–1. The per-gene
+// terms split the score so that they sum to it.
+function ucellTerms(genes: string[], scored: number[]) {
+  const maxRank = Math.min(UCELL_MAX_RANK, MOCK_GENES.length);
+  const signature = genes.map((gene) => geneExpression(gene));
+  const ranks = genes.map(() => new Uint16Array(scored.length).fill(1));
+  MOCK_GENES.forEach((other) => {
+    const values = geneExpression(other);
+    scored.forEach((idx, pos) => {
+      signature.forEach((own, g) => {
+        if (values[idx] > own[idx]) ranks[g][pos] += 1;
+      });
+    });
+  });
+  const positions = new Map(scored.map((idx, pos) => [idx, pos]));
+  const n = genes.length;
+  return {
+    maxRank,
+    terms: genes.map((_, g) => (idx: number) => {
+      const pos = positions.get(idx)!;
+      const rank = signature[g][idx] > 0 ? Math.min(ranks[g][pos], maxRank + 1) : maxRank + 1;
+      return (maxRank + 1 + (n - 1) / 2 - rank) / (n * maxRank);
+    }),
+  };
+}
+
+function signatureScore(params: URLSearchParams): JsonBody {
+  const { genes, unknown } = parseGenes(params);
+  const method = params.get("method") ?? "zmean";
+  const groupBy = params.get("group_by") ?? "disease";
+  const disease = params.get("disease");
+  const cellType = params.get("cell_type");
+  if (!["zmean", "ucell"].includes(method)) throw new MockHttpError(422, "method must be one of: zmean, ucell");
+  checkGroupBy(groupBy, ["disease", "cell_type"]);
+  if (genes.length === 0) return { ok: false, error: "none of the requested genes are available", unknown, available: [] };
+  if (disease && !MOCK_DISEASES.includes(disease)) return notAvailable("disease", disease, MOCK_DISEASES);
+  if (cellType && !CELL_TYPES.includes(cellType)) return notAvailable("cell type", cellType, CELL_TYPES);
+  const accessions = parseAccessions(params);
+
+  const { cells } = getMockDataset();
+  const included: number[] = [];
+  cells.forEach((cell, idx) => {
+    if (!accessions || accessions.has(cell.accession)) included.push(idx);
+  });
+  const scored = included.filter(
+    (idx) => (!disease || cells[idx].disease === disease) && (!cellType || CELL_TYPES[cells[idx].cellType] === cellType),
+  );
+  const ucell = method === "ucell" ? ucellTerms(genes, scored) : null;
+  const terms = ucell ? ucell.terms : zScoreTerms(genes, included);
+
+  const groups = groupOrder(groupBy);
+  const byGroup = new Map<string, number[]>(groups.map((group) => [group, []]));
+  scored.forEach((idx) => byGroup.get(groupKey(cells[idx], groupBy))?.push(idx));
+  const present = groups.filter((group) => (byGroup.get(group)?.length ?? 0) > 0);
+
+  const scores = new Float64Array(cells.length);
+  const contributions = present.map((group) => {
+    const members = byGroup.get(group)!;
+    return terms.map((term) => {
+      let sum = 0;
+      members.forEach((idx) => {
+        const value = term(idx);
+        scores[idx] += value;
+        sum += value;
+      });
+      return Number((sum / members.length).toFixed(4));
+    });
+  });
+
+  const low = Math.floor(scored.reduce((min, idx) => Math.min(min, scores[idx]), 0) * 10) / 10;
+  const high = Math.max(low + 0.1, Math.ceil(scored.reduce((max, idx) => Math.max(max, scores[idx]), low) * 10) / 10);
+  const width = (high - low) / HIST_BINS;
+  const bins = Array.from({ length: HIST_BINS + 1 }, (_, idx) => Number((low + width * idx).toFixed(4)));
+  const counts = present.map((group) => {
+    const row = new Array<number>(HIST_BINS).fill(0);
+    byGroup.get(group)!.forEach((idx) => {
+      row[Math.min(HIST_BINS - 1, Math.floor((scores[idx] - low) / width))] += 1;
+    });
+    return row;
+  });
+
+  return {
+    ok: true,
+    method,
+    group_by: groupBy,
+    genes,
+    unknown,
+    ...(ucell ? { max_rank: ucell.maxRank } : {}),
+    filters: { accessions: appliedAccessions(accessions) },
+    groups: present,
+    n: present.map((group) => byGroup.get(group)!.length),
+    mean: contributions.map((row) => Number(row.reduce((sum, value) => sum + value, 0).toFixed(4))),
+    bins,
+    counts,
+    contributions,
+  };
+}
+
+function composition(params: URLSearchParams): JsonBody {
+  const groupBy = params.get("group_by") ?? "disease";
+  checkGroupBy(groupBy, ["disease", "accession", "donor"]);
+  const accessions = parseAccessions(params);
+  const { cells } = getMockDataset();
+  const allGroups = groupOrder(groupBy);
+  const groupIndex = new Map(allGroups.map((group, idx) => [group, idx]));
+  const allCounts = allGroups.map(() => CELL_TYPES.map(() => 0));
+  cells.forEach((cell) => {
+    if (accessions && !accessions.has(cell.accession)) return;
+    const g = groupIndex.get(groupKey(cell, groupBy));
+    if (g !== undefined) allCounts[g][cell.cellType] += 1;
+  });
+  // Groups left without cells by the accession filter are dropped
+  const kept = allGroups.flatMap((_, idx) => (!accessions || allCounts[idx].some((count) => count > 0) ? [idx] : []));
+  const groups = kept.map((idx) => allGroups[idx]);
+  const counts = kept.map((idx) => allCounts[idx]);
+  const filters = { accessions: appliedAccessions(accessions) };
+  if (groupBy === "disease") return { ok: true, group_by: groupBy, filters, groups, cell_types: CELL_TYPES, counts };
+  const diseaseOf = new Map(cells.map((cell) => [groupKey(cell, groupBy), cell.disease]));
+  const diseases = groups.map((group) => diseaseOf.get(group) ?? "");
+  return { ok: true, group_by: groupBy, filters, groups, diseases, cell_types: CELL_TYPES, counts };
+}
+
+type MockDeRow = { gene: string; logfc: number; p_val: number; p_val_adj: number; groups: string[] };
+
+// Optional table filters and ordering; the default order is by p-value
+function filterDeRows(rows: MockDeRow[], params: URLSearchParams) {
+  const gene = params.get("gene")?.trim().toUpperCase();
+  const direction = params.get("direction");
+  const group = params.get("group");
+  const filtered = rows.filter(
+    (row) =>
+      (!gene || row.gene.includes(gene)) &&
+      (direction !== "up" || row.logfc > 0) &&
+      (direction !== "down" || row.logfc < 0) &&
+      (!group || row.groups.includes(group)),
+  );
+  const sortBy = params.get("sort_by");
+  if (sortBy !== "logfc" && sortBy !== "padj") return filtered;
+  const sign = params.get("order") === "desc" ? -1 : 1;
+  const key = sortBy === "logfc" ? (row: MockDeRow) => row.logfc : (row: MockDeRow) => row.p_val_adj;
+  return [...filtered].sort((a, b) => sign * (key(a) - key(b)) || a.p_val - b.p_val);
+}
+
+function deByDisease(params: URLSearchParams): JsonBody {
+  const disease = requireParam(params, "disease");
+  const cellType = requireParam(params, "cell_type");
+  const reference = params.get("reference") || "Healthy";
+  const limit = Math.max(1, Number(params.get("limit") ?? 50) || 50);
+  const offset = Math.max(0, Number(params.get("offset") ?? 0) || 0);
+  const topN = Math.max(0, Number(params.get("top_n") ?? 5) || 0);
+
+  if (!MOCK_DISEASES.includes(disease)) return notAvailable("disease", disease, MOCK_DISEASES);
+  if (!MOCK_DISEASES.includes(reference)) return notAvailable("reference", reference, MOCK_DISEASES);
+  if (disease === reference) return { ok: false, error: "disease and reference must differ" };
+  const ct = CELL_TYPES.indexOf(cellType);
+  if (ct < 0) return notAvailable("cell type", cellType, CELL_TYPES);
+  const accessions = parseAccessions(params);
+
+  const { cells } = getMockDataset();
+  let nDisease = 0;
+  let nReference = 0;
+  cells.forEach((cell) => {
+    if (cell.cellType !== ct) return;
+    if (accessions && !accessions.has(cell.accession)) return;
+    if (cell.disease === disease) nDisease += 1;
+    if (cell.disease === reference) nReference += 1;
+  });
+  if (accessions && (nDisease === 0 || nReference === 0)) {
+    return { ok: false, error: `No ${cellType} from ${nDisease === 0 ? disease : reference} in the selected accessions` };
+  }
+  const n = (2 * nDisease * nReference) / Math.max(1, nDisease + nReference);
+
+  const raw = MOCK_GENES.map((gene, geneIdx) => {
+    const shift = diseaseEffect(gene, disease, ct) - diseaseEffect(gene, reference, ct);
+    const logfc = 1.3 * shift + 0.08 * hashNormal(geneIdx, ct, MOCK_DISEASES.indexOf(disease), 81);
+    const expressing = (expectedExpression(gene, disease, ct).pct + expectedExpression(gene, reference, ct).pct) / 2;
+    const se = 1.2 / Math.sqrt(Math.max(1, n * expressing)) + 0.03;
+    const pVal = Math.max(2 * normalCdf(-Math.abs(logfc / se)), 1e-300);
+    return { gene, logfc: Number(logfc.toFixed(4)), p_val: pVal };
+  });
+  const adjusted = adjustBH(raw.map((row) => row.p_val));
+  const allRows = raw
+    .map((row, idx) => ({ ...row, p_val_adj: Math.min(1, adjusted[idx]), groups: geneGroups(row.gene) }))
+    .sort((a, b) => a.p_val - b.p_val || Math.abs(b.logfc) - Math.abs(a.logfc));
+  const significant = allRows.filter((row) => row.p_val_adj < 0.05);
+  const rows = filterDeRows(allRows, params);
+  const sortBy = params.get("sort_by");
+  const sorted = sortBy === "logfc" || sortBy === "padj";
+
+  return {
+    ok: true,
+    contrast: `${disease} vs ${reference}`,
+    cell_type: cellType,
+    total: rows.length,
+    limit,
+    offset,
+    rows: rows.slice(offset, offset + limit),
+    sort_by: sorted ? sortBy : null,
+    order: sorted ? (params.get("order") === "desc" ? "desc" : "asc") : null,
+    filters: {
+      gene: params.get("gene"),
+      direction: params.get("direction"),
+      group: params.get("group"),
+      accessions: appliedAccessions(accessions),
+    },
+    groups: Array.from(new Set(allRows.flatMap((row) => row.groups))).sort((a, b) => a.localeCompare(b)),
+    top_up: significant.filter((row) => row.logfc > 0).sort((a, b) => b.logfc - a.logfc).slice(0, topN),
+    top_down: significant.filter((row) => row.logfc < 0).sort((a, b) => a.logfc - b.logfc).slice(0, topN),
+  };
+}
+
+const ROUTES: Record<string, (params: URLSearchParams) => JsonBody> = {
+  "/atlas/manifest": manifest,
+  "/atlas/markers": markers,
+  "/atlas/genes": () => ({ ok: true, genes: MOCK_GENES, aliases: {} }),
+  "/atlas/umap": umap,
+  "/atlas/dotplot": dotplot,
+  "/atlas/dotplot_by_disease": dotplotByDisease,
+  "/atlas/violin": violin,
+  "/atlas/signature_score": signatureScore,
+  "/atlas/composition": composition,
+  "/atlas/de_by_disease": deByDisease,
+};
+
+function jsonResponse(status: number, body: JsonBody) {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+// Synchronous router, also used directly by tests
+export function handleMockRequest(url: string): Response {
+  const parsed = new URL(url);
+  const route = ROUTES[parsed.pathname];
+  if (!route) return jsonResponse(404, { ok: false, error: `No mock route for ${parsed.pathname}` });
+  try {
+    return jsonResponse(200, route(parsed.searchParams));
+  } catch (error) {
+    if (error instanceof MockHttpError) return jsonResponse(error.status, { ok: false, error: error.message });
+    return jsonResponse(500, { ok: false, error: String((error as Error).message ?? error) });
+  }
+}
+
+// fetch() look-alike with a little latency so loading states stay visible
+export function mockFetch(url: string, signal?: AbortSignal): Promise<Response> {
+  const delay = LATENCY_MS[0] + Math.random() * (LATENCY_MS[1] - LATENCY_MS[0]);
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+      return;
+    }
+    const abort = () => {
+      clearTimeout(timeoutId);
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve(handleMockRequest(url));
+    }, delay);
+    signal?.addEventListener("abort", abort, { once: true });
+  });
+}
@@ -1,9 +1,40 @@
 export {};
 
 declare global {
+  type PlotlyPoint = {
+    curveNumber: number;
+    pointIndex: number;
+    pointNumber: number;
+    x?: unknown;
+    y?: unknown;
+    customdata?: unknown;
+  };
+
+  type PlotlyEvent = {
+    points: PlotlyPoint[];
+  };
+
+  // Plotly decorates the graph div with an event emitter after the first render
+  interface PlotlyHTMLElement extends HTMLDivElement {
+    on?: (event: string, handler: (event: PlotlyEvent) => void) => void;
+    removeAllListeners?: (event: string) => void;
+    // The figure as last drawn, which image export renders from
+    data?: unknown[];
+    layout?: Record<string, unknown>;
+  }
+
+  type PlotlyImageOptions = {
+    format: "svg" | "png" | "jpeg";
+    width: number;
+    height: number;
+    scale?: number;
+  };
+
   interface Window {
     Plotly?: {
       react: (root: HTMLDivElement, data: unknown[], layout: unknown, config: unknown) => void;
+      // Resolves to a data URL
+      toImage: (figure: { data: unknown[]; layout: unknown }, options: PlotlyImageOptions) => Promise<string>;
       Plots: {
         resize: (root: HTMLDivElement) => void;
       };
@@ -0,0 +1,12 @@
+import { cleanup } from "@testing-library/react";
+import { afterEach, vi } from "vitest";
+import { invalidateApiCache } from "../lib/api";
+
+afterEach(async () => {
+  cleanup();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+  window.localStorage.clear();
+  await invalidateApiCache();
+});
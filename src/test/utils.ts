@@ -0,0 +1,97 @@
+import { vi } from "vitest";
+import { setStoredApiBase } from "../lib/storage";
+import { handleMockRequest } from "../mock/server";
+
+export const TEST_API_BASE = "https://atlas.test";
+
+export type PlotlyStub = {
+  react: ReturnType<typeof vi.fn>;
+  resize: ReturnType<typeof vi.fn>;
+  toImage: ReturnType<typeof vi.fn>;
+  // Fires a plot event the way Plotly's emitter would, on the most recently drawn plot
+  emit: (event: string, payload?: PlotlyEvent) => void;
+};
+
+// Plotly is loaded from a <script> tag in production; tests only check what the panels hand it
+export function stubPlotly(): PlotlyStub {
+  const handlers = new Map<string, (event: PlotlyEvent) => void>();
+  const react = vi.fn((root: PlotlyHTMLElement, data: unknown[], layout: Record<string, unknown>) => {
+    root.data = data;
+    root.layout = layout;
+    root.on = (event, handler) => handlers.set(event, handler);
+    root.removeAllListeners = (event) => handlers.delete(event);
+    return Promise.resolve();
+  });
+  const resize = vi.fn();
+  // Tiny stand-ins in the encodings Plotly uses: URL-encoded SVG, base64 rasters
+  const toImage = vi.fn(async (_figure: unknown, options: PlotlyImageOptions) =>
+    options.format === "svg" ? "data:image/svg+xml,%3Csvg%3E%3C%2Fsvg%3E" : `data:image/${options.format};base64,/9j/AA==`,
+  );
+  vi.stubGlobal("Plotly", { react, toImage, Plots: { resize } });
+  return { react, resize, toImage, emit: (event, payload) => handlers.get(event)?.(payload as PlotlyEvent) };
+}
+
+// Latest traces a panel passed to Plotly.react
+export function lastTraces(plotly: PlotlyStub): Array<Record<string, unknown>> {
+  const calls = plotly.react.mock.calls as unknown as Array<[HTMLDivElement, Array<Record<string, unknown>>]>;
+  return calls.length > 0 ? calls[calls.length - 1][1] : [];
+}
+
+// Answers every request from the seeded mock atlas, without the simulated latency
+export function serveMockAtlas() {
+  setStoredApiBase(TEST_API_BASE);
+  const fetchMock = vi.fn(async (input: RequestInfo | URL) => handleMockRequest(String(input)));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+// Answers every request with the given JSON body
+export function serveJson(body: unknown, status = 200) {
+  setStoredApiBase(TEST_API_BASE);
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+export function jsonResponse(body: unknown, init: ResponseInit = {}) {
+  return new Response(JSON.stringify(body), { status: 200, ...init });
+}
+
+export type CapturedDownload = {
+  filename: string;
+  type: string;
+  text: () => Promise<string>;
+};
+
+function readBlob(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+}
+
+// jsdom has no object URLs and does not navigate; record each download instead
+export function captureDownloads(): CapturedDownload[] {
+  const downloads: CapturedDownload[] = [];
+  const blobs = new Map<string, Blob>();
+  vi.stubGlobal(
+    "URL",
+    class extends URL {
+      static createObjectURL(blob: Blob) {
+        const url = `blob:test/${blobs.size}`;
+        blobs.set(url, blob);
+        return url;
+      }
+
+      static revokeObjectURL() {}
+    },
+  );
+  vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(function (this: HTMLAnchorElement) {
+    const blob = blobs.get(this.getAttribute("href") ?? "");
+    if (!blob) return;
+    downloads.push({ filename: this.download, type: blob.type, text: () => readBlob(blob) });
+  });
+  return downloads;
+}